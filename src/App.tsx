@@ -2,6 +2,11 @@ import { useEffect } from 'react'
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { Layout } from '@/components/layout/Layout'
 import { GainsTracker } from '@/pages/GainsTracker'
+import { Dashboard } from '@/pages/Dashboard'
+import { Skills } from '@/pages/Skills'
+import { Bosses } from '@/pages/Bosses'
+import { CompareSnapshots } from '@/pages/CompareSnapshots'
+import { Records } from '@/pages/Records'
 import { Test } from './Test'
 
 function App() {
@@ -17,6 +22,11 @@ function App() {
       <Routes>
         <Route path="/" element={<GainsTracker />} />
         <Route path="/gains" element={<Navigate to="/" replace />} />
+        <Route path="/dashboard" element={<Dashboard />} />
+        <Route path="/skills" element={<Skills />} />
+        <Route path="/bosses" element={<Bosses />} />
+        <Route path="/compare" element={<CompareSnapshots />} />
+        <Route path="/records" element={<Records />} />
         <Route path="/test" element={<Test />} />
         {/* Redirect all other routes to main page */}
         <Route path="*" element={<Navigate to="/" replace />} />
@@ -9,6 +9,7 @@ import {
   ACTIVITY_ACTIVITY_TYPES 
 } from '@/types/api';
 import { formatActivityTypeName } from '@/lib/dataUtils';
+import { getActivityDefinition } from '@/lib/activityRegistry';
 
 interface ActivitySelectorProps {
   selectedActivity: ActivityType;
@@ -82,6 +83,7 @@ export function ActivitySelector({ selectedActivity, onActivityChange }: Activit
                         }}
                         className="w-full justify-start text-sm mb-1"
                       >
+                        <span className="mr-2">{getActivityDefinition(activity)?.icon}</span>
                         {formatActivityTypeName(activity)}
                       </Button>
                     ))}
@@ -0,0 +1,286 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, RotateCcw, ShieldAlert, Trash2 } from 'lucide-react';
+import type { ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ActivitySelector } from '@/components/ActivitySelector';
+import { calculateGainsFromDeltas, formatActivityTypeName, formatNumber, getDeltaKey } from '@/lib/dataUtils';
+import { getActivityUnit } from '@/lib/activityRegistry';
+import {
+  ANOMALY_STRATEGIES,
+  getStrategyOption,
+  isFlagExcluded,
+  resetAnomalySettings,
+  setAnomalyDecision,
+  setAnomalySettings,
+  type AnomalyFlag,
+  type AnomalySettings
+} from '@/lib/anomalies';
+import type { AnomalyReview } from '@/hooks/useAnomalyReview';
+
+interface AnomalyReviewPanelProps {
+  userId: string;
+  // Everything that was loaded, before exclusions
+  deltaResponse: GetSnapshotWithDeltasResponse;
+  review: AnomalyReview;
+}
+
+interface NumberSettingProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  step?: number;
+}
+
+const MAX_FLAGS_SHOWN = 20;
+
+function formatGain(activityType: ActivityType, gain: number): string {
+  switch (getActivityUnit(activityType)) {
+    case 'kc':
+      return `${gain.toLocaleString()} KC`;
+    case 'score':
+      return `${gain.toLocaleString()} score`;
+    default:
+      return `${gain.toLocaleString()} XP`;
+  }
+}
+
+// Applied on blur or Enter so half-typed values don't take effect; keyed on
+// `value` by the caller so outside changes reset the draft
+function NumberSetting({ label, value, onCommit, step = 1 }: NumberSettingProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      onCommit(parsed);
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span className="flex-shrink-0">{label}</span>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => e.key === 'Enter' && commit()}
+        className="h-8 w-20"
+      />
+    </label>
+  );
+}
+
+function ActivityCapForm({ settings }: { settings: AnomalySettings }) {
+  const [activityType, setActivityType] = useState<ActivityType>('OVERALL');
+  const [capInput, setCapInput] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const cap = Number(capInput.replace(/,/g, ''));
+    if (!Number.isFinite(cap) || cap <= 0) return;
+    setAnomalySettings({ ...settings, activityCaps: { ...settings.activityCaps, [activityType]: cap } });
+    setCapInput('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+      <div className="flex-1 min-w-[10rem]">
+        <ActivitySelector selectedActivity={activityType} onActivityChange={setActivityType} />
+      </div>
+      <Input
+        inputMode="numeric"
+        placeholder={getActivityUnit(activityType) === 'xp' ? 'Max XP per change' : 'Max per change'}
+        value={capInput}
+        onChange={e => setCapInput(e.target.value)}
+        className="h-9 w-40"
+        aria-label="Cap"
+      />
+      <Button type="submit" size="sm" variant="outline" className="h-9 px-2">
+        <Plus className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline text-xs">Add Cap</span>
+      </Button>
+    </form>
+  );
+}
+
+function FlagRow({ flag, excluded, onToggle }: { flag: AnomalyFlag; excluded: boolean; onToggle: () => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium truncate">{formatActivityTypeName(flag.activityType)}</span>
+          <span className={`text-xs ${flag.reason === 'cap' ? 'text-red-600 dark:text-red-400' : 'text-amber-600'}`}>
+            {flag.reason === 'cap' ? 'Over cap' : 'Outlier'}
+          </span>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {format(new Date(flag.timestamp), 'MMM d, yyyy HH:mm')} · {formatGain(flag.activityType, flag.gain)}
+          {' '}(limit {formatNumber(flag.limit)})
+          {flag.activityType !== 'OVERALL' && ` · ${flag.experienceGain.toLocaleString()} overall XP`}
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant={excluded ? 'outline' : 'default'}
+        onClick={onToggle}
+        className="h-7 px-2 text-xs flex-shrink-0"
+        title={excluded ? 'Left out of totals; click to include' : 'Counted in totals; click to exclude'}
+        aria-pressed={!excluded}
+      >
+        {excluded ? 'Excluded' : 'Included'}
+      </Button>
+    </div>
+  );
+}
+
+export function AnomalyReviewPanel({ userId, deltaResponse, review }: AnomalyReviewPanelProps) {
+  const { settings, flags, decisions, excludedKeys } = review;
+  const [showAll, setShowAll] = useState(false);
+  const strategy = getStrategyOption(settings.strategy);
+
+  // Overall XP as loaded and as counted with the current choices
+  const totals = useMemo(() => {
+    const excluded = deltaResponse.deltas.filter(delta => excludedKeys.has(getDeltaKey(delta)));
+    const raw = calculateGainsFromDeltas(deltaResponse.deltas).totalExperienceGain;
+    const left = calculateGainsFromDeltas(excluded).totalExperienceGain;
+    return { raw, counted: raw - left, left, excludedCount: excluded.length };
+  }, [deltaResponse, excludedKeys]);
+
+  const toggleFlag = (flag: AnomalyFlag) => {
+    const excluded = !isFlagExcluded(flag, decisions);
+    // Back to the default drops the stored choice
+    const isDefault = excluded === (flag.reason === 'cap');
+    setAnomalyDecision(userId, flag.deltaKey, isDefault ? null : excluded);
+  };
+
+  const removeActivityCap = (activityType: ActivityType) => {
+    const activityCaps = { ...settings.activityCaps };
+    delete activityCaps[activityType];
+    setAnomalySettings({ ...settings, activityCaps });
+  };
+
+  const shownFlags = showAll ? flags : flags.slice(0, MAX_FLAGS_SHOWN);
+  const activityCaps = Object.entries(settings.activityCaps) as [ActivityType, number][];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <ShieldAlert className="h-4 w-4 sm:h-5 sm:w-5" />
+            Data Quality
+            {flags.length > 0 && (
+              <span className="text-xs sm:text-sm font-normal text-muted-foreground">
+                ({flags.length} flagged)
+              </span>
+            )}
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={resetAnomalySettings}
+            className="h-8 px-2"
+            title="Reset detection settings"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+          <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Detection strategy">
+            {ANOMALY_STRATEGIES.map(option => (
+              <Button
+                key={option.id}
+                size="sm"
+                variant={settings.strategy === option.id ? 'default' : 'ghost'}
+                onClick={() => setAnomalySettings({ ...settings, strategy: option.id, sensitivity: option.defaultSensitivity || settings.sensitivity })}
+                className="h-8 rounded-none px-2 text-xs"
+                title={option.description}
+                aria-pressed={settings.strategy === option.id}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          {settings.strategy !== 'cap' && (
+            <NumberSetting
+              key={`sensitivity-${settings.sensitivity}`}
+              label="Sensitivity (N)"
+              value={settings.sensitivity}
+              step={0.5}
+              onCommit={sensitivity => setAnomalySettings({ ...settings, sensitivity })}
+            />
+          )}
+          <NumberSetting
+            key={`cap-${settings.experienceCap}`}
+            label="XP cap (M)"
+            value={settings.experienceCap / 1_000_000}
+            step={0.5}
+            onCommit={cap => setAnomalySettings({ ...settings, experienceCap: Math.round(cap * 1_000_000) })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {strategy.description}. Changes over a cap are left out unless included; outliers are counted unless excluded.
+        </p>
+
+        <div className="space-y-2">
+          {activityCaps.map(([activityType, cap]) => (
+            <div key={activityType} className="flex items-center justify-between gap-2 text-sm">
+              <span>
+                {formatActivityTypeName(activityType)} cap: {formatGain(activityType, cap)}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => removeActivityCap(activityType)}
+                className="h-6 w-6 p-0"
+                title="Remove cap"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <ActivityCapForm settings={settings} />
+        </div>
+
+        <div className="text-sm">
+          <span className="font-medium">{formatNumber(totals.counted)} XP counted</span>
+          <span className="text-muted-foreground">
+            {totals.excludedCount > 0
+              ? ` of ${formatNumber(totals.raw)} · ${formatNumber(totals.left)} left out from ${totals.excludedCount} change${totals.excludedCount === 1 ? '' : 's'}`
+              : ' · nothing left out'}
+          </span>
+        </div>
+
+        {flags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes in this range were flagged.</p>
+        ) : (
+          <div className="space-y-3">
+            {shownFlags.map(flag => (
+              <FlagRow
+                key={flag.deltaKey}
+                flag={flag}
+                excluded={excludedKeys.has(flag.deltaKey)}
+                onToggle={() => toggleFlag(flag)}
+              />
+            ))}
+            {flags.length > MAX_FLAGS_SHOWN && (
+              <Button size="sm" variant="ghost" onClick={() => setShowAll(!showAll)} className="w-full text-xs">
+                {showAll ? 'Show fewer' : `Show all ${flags.length}`}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Server, Trash2 } from 'lucide-react';
+import { useApiConfig } from '@/hooks/useApi';
+import { apiClient } from '@/lib/api';
+import { getApiProfiles, setApiConfig, resetApiConfig } from '@/lib/apiConfig';
+
+const SOURCE_LABELS = {
+  default: 'default',
+  env: 'environment',
+  settings: 'settings',
+  query: '?api= override'
+} as const;
+
+export function ApiSettings() {
+  const config = useApiConfig();
+  const [customUrl, setCustomUrl] = useState(config.profile === 'custom' ? config.baseUrl : '');
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const handleApplyCustom = () => {
+    if (setApiConfig(customUrl)) {
+      setCustomError(null);
+    } else {
+      setCustomError('Enter a full http(s) URL, e.g. http://localhost:8080');
+    }
+  };
+
+  const handleClearCache = async () => {
+    await apiClient.invalidateCache();
+    setCacheCleared(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Server className="h-4 w-4" />
+        API Endpoint
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {getApiProfiles().map(profile => (
+          <Button
+            key={profile.name}
+            size="sm"
+            variant={config.profile === profile.name ? 'default' : 'outline'}
+            onClick={() => setApiConfig(profile.name)}
+            className="h-8 px-2 text-xs"
+            title={profile.baseUrl}
+          >
+            {profile.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <Input
+          placeholder="Custom URL..."
+          value={customUrl}
+          onChange={(e) => setCustomUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleApplyCustom()}
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant={config.profile === 'custom' ? 'default' : 'outline'}
+          onClick={handleApplyCustom}
+          disabled={!customUrl}
+          className="h-8 px-2 text-xs"
+        >
+          Use
+        </Button>
+      </div>
+      {customError && (
+        <p className="text-xs text-red-600 dark:text-red-400">{customError}</p>
+      )}
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        <p className="break-all">
+          <span className="font-medium text-foreground">{config.label}</span>: {config.baseUrl}
+        </p>
+        <p>Source: {SOURCE_LABELS[config.source]}</p>
+      </div>
+
+      {(config.source === 'settings' || config.source === 'query') && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            resetApiConfig();
+            setCustomUrl('');
+            setCustomError(null);
+          }}
+          className="h-7 px-2 text-xs"
+        >
+          Reset to default
+        </Button>
+      )}
+
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={handleClearCache}
+        className="h-7 px-2 text-xs"
+        title="Remove cached snapshot and delta responses"
+      >
+        <Trash2 className="h-3 w-3 mr-1" />
+        {cacheCleared ? 'Cache cleared' : 'Clear cached data'}
+      </Button>
+    </div>
+  );
+}
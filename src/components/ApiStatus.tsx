@@ -1,10 +1,12 @@
-import { useApiHealth } from '@/hooks/useApi';
+import { useApiHealth, useApiConfig } from '@/hooks/useApi';
+import { formatApiEndpoint } from '@/lib/apiConfig';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertCircle, CheckCircle2, ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 export function ApiStatus() {
   const { isHealthy, checking, checkHealth } = useApiHealth();
+  const apiConfig = useApiConfig();
 
   return (
     <Card className="border-dashed">
@@ -23,7 +25,7 @@ export function ApiStatus() {
       <CardContent>
         <div className="space-y-3">
           <p className="text-sm">
-            <strong>Endpoint:</strong> <code>https://api.hazelmere.xyz</code>
+            <strong>Endpoint:</strong> <code>{formatApiEndpoint(apiConfig)}</code>
           </p>
           
           {!isHealthy && !checking && (
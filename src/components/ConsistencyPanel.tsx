@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatNumber } from '@/lib/dataUtils';
+import type { DailyTotals } from '@/lib/chartSeries';
+import type { ActivityUnit } from '@/lib/activityRegistry';
+import { WEEKDAYS, calculateConsistency, getActiveDayThresholds } from '@/lib/consistency';
+
+interface ConsistencyPanelProps {
+  totals: DailyTotals;
+  startDate: Date;
+  endDate: Date;
+  unit: ActivityUnit;
+  activeDayThreshold: number;
+  onActiveDayThresholdChange: (threshold: number) => void;
+}
+
+const HOUR_LABELS = [0, 6, 12, 18];
+
+const UNIT_LABELS: Record<ActivityUnit, string> = {
+  xp: 'XP',
+  kc: 'KC',
+  score: 'score'
+};
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-lg font-bold">{value}</div>
+      {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+    </div>
+  );
+}
+
+// Gains by weekday and hour, shaded relative to the busiest hour
+function WeekdayHourGrid({ weekdayHours, unitLabel }: { weekdayHours: Float64Array; unitLabel: string }) {
+  const max = Math.max(...weekdayHours);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-grid grid-cols-[2.5rem_repeat(24,minmax(0.75rem,1fr))] gap-px text-[10px] text-muted-foreground min-w-full">
+        <div />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <div key={hour} className="text-center">{HOUR_LABELS.includes(hour) ? hour : ''}</div>
+        ))}
+        {WEEKDAYS.map((weekday, day) => (
+          <div key={weekday} className="contents">
+            <div className="pr-1 leading-3">{weekday.slice(0, 3)}</div>
+            {Array.from({ length: 24 }, (_, hour) => {
+              const gain = weekdayHours[day * 24 + hour];
+              return (
+                <div
+                  key={hour}
+                  className={`h-3 rounded-sm ${gain > 0 ? 'bg-green-500' : 'bg-muted'}`}
+                  style={gain > 0 ? { opacity: 0.2 + 0.8 * (gain / max) } : undefined}
+                  title={`${weekday} ${String(hour).padStart(2, '0')}:00 · ${formatNumber(gain)} ${unitLabel}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ConsistencyPanel({
+  totals,
+  startDate,
+  endDate,
+  unit,
+  activeDayThreshold,
+  onActiveDayThresholdChange
+}: ConsistencyPanelProps) {
+  const stats = useMemo(
+    () => calculateConsistency(totals, startDate, endDate, activeDayThreshold),
+    [totals, startDate, endDate, activeDayThreshold]
+  );
+  const unitLabel = UNIT_LABELS[unit];
+  const days = (count: number) => `${count} day${count === 1 ? '' : 's'}`;
+
+  return (
+    <div className="mt-4 space-y-4 border-t pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Consistency</h3>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>Active day</span>
+          <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Active day threshold">
+            {getActiveDayThresholds(unit).map(threshold => (
+              <Button
+                key={threshold.value}
+                size="sm"
+                variant={activeDayThreshold === threshold.value ? 'default' : 'ghost'}
+                onClick={() => onActiveDayThresholdChange(threshold.value)}
+                className="h-8 rounded-none px-2 text-xs"
+                title={threshold.value > 1 ? `At least ${formatNumber(threshold.value)} ${unitLabel}` : `Any ${unitLabel} gained`}
+                aria-pressed={activeDayThreshold === threshold.value}
+              >
+                {threshold.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+        <Stat label="Current Streak" value={days(stats.currentStreak)} />
+        <Stat label="Longest Streak" value={days(stats.longestStreak)} />
+        <Stat
+          label="Active Days"
+          value={`${stats.activeDaysPercent.toFixed(0)}%`}
+          detail={`${stats.activeDays} of ${stats.totalDays}`}
+        />
+        <Stat label="Avg per Active Day" value={`${formatNumber(Math.round(stats.averagePerActiveDay))} ${unitLabel}`} />
+        <Stat
+          label="Best Weekday"
+          value={stats.bestWeekday ? WEEKDAYS[stats.bestWeekday.weekday] : '-'}
+          detail={stats.bestWeekday ? `${formatNumber(Math.round(stats.bestWeekday.average))} ${unitLabel} on average` : undefined}
+        />
+      </div>
+
+      {stats.weekdayHours ? (
+        <WeekdayHourGrid weekdayHours={stats.weekdayHours} unitLabel={unitLabel} />
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Snapshots are too far apart to show gains by hour of the day.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Target, Trash2, Plus } from 'lucide-react';
+import type { ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ActivitySelector } from '@/components/ActivitySelector';
+import { useGoals } from '@/hooks/useGoals';
+import { formatNumber } from '@/lib/dataUtils';
+import { getActivityUnit } from '@/lib/activityRegistry';
+import { MAX_EXPERIENCE, MAX_VIRTUAL_LEVEL, getExperienceForLevel } from '@/lib/experience';
+import {
+  GOAL_LOOKBACK_DAYS,
+  addGoal,
+  computeGoalProgress,
+  formatGoalLabel,
+  removeGoal,
+  type GoalProgress
+} from '@/lib/goals';
+
+interface GoalsPanelProps {
+  userId: string;
+  deltaResponse: GetSnapshotWithDeltasResponse;
+  startTime: Date;
+  endTime: Date;
+  // Days of recent gains the projections are based on
+  lookbackDays: number;
+  onLookbackDaysChange: (days: number) => void;
+  // Preselected activity for new goals
+  selectedActivity: ActivityType;
+}
+
+interface GoalFormProps {
+  userId: string;
+  initialActivity: ActivityType;
+  onDone: () => void;
+}
+
+// Skills can be targeted by level ("99") or by XP; everything else by value
+function GoalForm({ userId, initialActivity, onDone }: GoalFormProps) {
+  const [activityType, setActivityType] = useState<ActivityType>(initialActivity);
+  const [byLevel, setByLevel] = useState(true);
+  const [targetInput, setTargetInput] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isSkill = getActivityUnit(activityType) === 'xp' && activityType !== 'OVERALL';
+  const setsLevel = isSkill && byLevel;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const value = Number(targetInput.replace(/,/g, ''));
+
+    if (!Number.isFinite(value) || value <= 0) {
+      setError('Enter a target above zero');
+      return;
+    }
+    // Past 99 the target is a virtual level
+    if (setsLevel && (!Number.isInteger(value) || value < 2 || value > MAX_VIRTUAL_LEVEL)) {
+      setError(`Levels go from 2 to ${MAX_VIRTUAL_LEVEL}`);
+      return;
+    }
+    if (isSkill && !setsLevel && value > MAX_EXPERIENCE) {
+      setError(`Skills cap at ${formatNumber(MAX_EXPERIENCE)} XP`);
+      return;
+    }
+
+    addGoal(userId, {
+      activityType,
+      target: setsLevel ? getExperienceForLevel(value) : Math.round(value),
+      targetLevel: setsLevel ? value : undefined,
+      deadline: deadline || undefined
+    });
+    onDone();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 border border-border rounded-lg p-2 sm:p-3">
+      <ActivitySelector selectedActivity={activityType} onActivityChange={setActivityType} />
+      <div className="flex gap-2">
+        <Input
+          inputMode="numeric"
+          placeholder={setsLevel ? 'Level, e.g. 99' : getActivityUnit(activityType) === 'xp' ? 'XP' : 'Count'}
+          value={targetInput}
+          onChange={e => setTargetInput(e.target.value)}
+          className="h-9 flex-1"
+          aria-label="Target"
+          autoFocus
+        />
+        {isSkill && (
+          <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Target unit">
+            <Button
+              type="button"
+              size="sm"
+              variant={byLevel ? 'default' : 'ghost'}
+              onClick={() => setByLevel(true)}
+              className="h-9 rounded-none px-2 text-xs"
+              aria-pressed={byLevel}
+            >
+              Level
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={!byLevel ? 'default' : 'ghost'}
+              onClick={() => setByLevel(false)}
+              className="h-9 rounded-none px-2 text-xs"
+              aria-pressed={!byLevel}
+            >
+              XP
+            </Button>
+          </div>
+        )}
+      </div>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="flex-shrink-0">Deadline (optional)</span>
+        <Input
+          type="date"
+          value={deadline}
+          onChange={e => setDeadline(e.target.value)}
+          className="h-9 flex-1"
+        />
+      </label>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm">
+          Add Goal
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function GoalRow({ progress, onRemove }: { progress: GoalProgress; onRemove: () => void }) {
+  const { goal, current, remaining, fraction, complete, recentRate, requiredRate, projectedDate } = progress;
+  const behindSchedule = requiredRate !== null && recentRate < requiredRate;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-medium truncate">{formatGoalLabel(goal)}</span>
+        <span className="flex items-center gap-2 flex-shrink-0">
+          <span className="text-xs text-muted-foreground">
+            {formatNumber(current)} / {formatNumber(goal.target)}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onRemove}
+            className="h-6 w-6 p-0"
+            title="Remove goal"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full rounded-full ${complete ? 'bg-green-600' : 'bg-primary'}`}
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap justify-between gap-x-3 text-xs text-muted-foreground">
+        {complete ? (
+          <span className="text-green-600">Complete</span>
+        ) : (
+          <>
+            <span>{formatNumber(remaining)} to go · {(fraction * 100).toFixed(1)}%</span>
+            <span>
+              {formatNumber(recentRate)}/day recently
+              {requiredRate !== null && (
+                <span className={behindSchedule ? 'text-red-600 dark:text-red-400' : 'text-green-600'}>
+                  {' '}· needs {formatNumber(requiredRate)}/day
+                </span>
+              )}
+            </span>
+            <span>
+              {projectedDate ? `Projected ${format(projectedDate, 'MMM d, yyyy')}` : 'No recent progress'}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function GoalsPanel({
+  userId,
+  deltaResponse,
+  startTime,
+  endTime,
+  lookbackDays,
+  onLookbackDaysChange,
+  selectedActivity
+}: GoalsPanelProps) {
+  const goals = useGoals(userId);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const progress = useMemo(
+    () => goals.map(goal => computeGoalProgress(goal, deltaResponse, startTime, endTime, lookbackDays)),
+    [goals, deltaResponse, startTime, endTime, lookbackDays]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <Target className="h-4 w-4 sm:h-5 sm:w-5" />
+            Goals
+          </CardTitle>
+          <div className="flex items-center gap-1 sm:gap-2">
+            <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Projection lookback">
+              {GOAL_LOOKBACK_DAYS.map(days => (
+                <Button
+                  key={days}
+                  size="sm"
+                  variant={lookbackDays === days ? 'default' : 'ghost'}
+                  onClick={() => onLookbackDaysChange(days)}
+                  className="h-8 rounded-none px-2 text-xs"
+                  title={`Project from the last ${days} days of gains`}
+                  aria-pressed={lookbackDays === days}
+                >
+                  {days}d
+                </Button>
+              ))}
+            </div>
+            {!isAdding && (
+              <Button size="sm" variant="outline" onClick={() => setIsAdding(true)} className="h-8 px-2">
+                <Plus className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline text-xs">Add</span>
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isAdding && (
+          <GoalForm userId={userId} initialActivity={selectedActivity} onDone={() => setIsAdding(false)} />
+        )}
+        {progress.length === 0 && !isAdding ? (
+          <p className="text-sm text-muted-foreground">
+            No goals yet. Add one, like 99 in a skill or a boss kill count, to track progress and a projected date.
+          </p>
+        ) : (
+          progress.map(goalProgress => (
+            <GoalRow
+              key={goalProgress.goal.id}
+              progress={goalProgress}
+              onRemove={() => removeGoal(userId, goalProgress.goal.id)}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
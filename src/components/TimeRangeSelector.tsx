@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Calendar, ChevronDown } from 'lucide-react';
 import { DayPicker, type DateRange } from 'react-day-picker';
-import { format } from 'date-fns';
+import { PRESET_RANGES, createCustomRange, formatCustomRangeLabel, type TimeRange } from '@/lib/timeRanges';
 import 'react-day-picker/style.css';
 
 // Hook to detect mobile screens
@@ -19,45 +19,13 @@ function useIsMobile() {
   return isMobile;
 }
 
-export interface TimeRange {
-  startTime: Date;
-  endTime: Date;
-  label: string;
-}
+export type { TimeRange };
 
 interface TimeRangeSelectorProps {
   selectedRange: TimeRange;
   onRangeChange: (range: TimeRange) => void;
 }
 
-const PRESET_RANGES: TimeRange[] = [
-  {
-    startTime: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-    endTime: new Date(),
-    label: 'Last Week'
-  },
-  {
-    startTime: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-    endTime: new Date(),
-    label: 'Last Month'
-  },
-  {
-    startTime: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
-    endTime: new Date(),
-    label: 'Last 3 Months'
-  },
-  {
-    startTime: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
-    endTime: new Date(),
-    label: 'Last Year'
-  },
-  {
-    startTime: new Date('2021-10-01'),
-    endTime: new Date(),
-    label: 'All Time'
-  }
-];
-
 export function TimeRangeSelector({ selectedRange, onRangeChange }: TimeRangeSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showCalendar, setShowCalendar] = useState(false);
@@ -83,12 +51,7 @@ export function TimeRangeSelector({ selectedRange, onRangeChange }: TimeRangeSel
 
   const handleApplyCustomRange = () => {
     if (dateRange?.from && dateRange?.to) {
-      const customRange: TimeRange = {
-        startTime: dateRange.from,
-        endTime: dateRange.to,
-        label: `${format(dateRange.from, 'MMM d, yyyy')} - ${format(dateRange.to, 'MMM d, yyyy')}`
-      };
-      onRangeChange(customRange);
+      onRangeChange(createCustomRange(dateRange.from, dateRange.to));
       setIsOpen(false);
       setShowCalendar(false);
     }
@@ -122,9 +85,9 @@ export function TimeRangeSelector({ selectedRange, onRangeChange }: TimeRangeSel
         <div className="absolute top-full left-0 right-0 sm:right-auto z-10 mt-1 bg-background border border-border rounded-lg shadow-lg max-h-[80vh] overflow-auto">
             {!showCalendar ? (
               <div className="p-2 space-y-1">
-                {PRESET_RANGES.map((range, index) => (
+                {PRESET_RANGES.map((range) => (
                   <Button
-                    key={index}
+                    key={range.id}
                     variant={selectedRange.label === range.label ? "default" : "ghost"}
                     size="sm"
                     onClick={() => handlePresetClick(range)}
@@ -149,7 +112,7 @@ export function TimeRangeSelector({ selectedRange, onRangeChange }: TimeRangeSel
                   <h4 className="text-sm font-medium mb-2">Select Date Range</h4>
                   <p className="text-xs text-muted-foreground">
                     {dateRange?.from && dateRange?.to
-                      ? `${format(dateRange.from, 'MMM d, yyyy')} - ${format(dateRange.to, 'MMM d, yyyy')}`
+                      ? formatCustomRangeLabel(dateRange.from, dateRange.to)
                       : 'Click to select start and end dates'}
                   </p>
                 </div>
@@ -2,13 +2,19 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { User as UserIcon, ChevronDown } from 'lucide-react';
+import { User as UserIcon, ChevronDown, Plus, Check, X } from 'lucide-react';
 import { useAllUsers } from '@/hooks/useApi';
 import { Skeleton } from '@/components/ui/skeleton';
+import { getPlayerColor } from '@/lib/chartColors';
 
 interface UserSelectorProps {
   userId: string | null;
   onUserIdChange: (userId: string | null) => void;
+  // Passing these makes the selector multi-select for comparing players;
+  // `userId` is then the first of `userIds`
+  userIds?: string[];
+  onUserIdsChange?: (userIds: string[]) => void;
+  maxSelected?: number;
 }
 
 function getAccountTypeIcon(accountType: string): string {
@@ -23,14 +29,19 @@ function getAccountTypeIcon(accountType: string): string {
 }
 
 function UserDropdown({
-  userId,
+  userIds,
   onUserIdChange,
+  onToggleUserId,
+  canAddMore,
   users,
   loading,
   error
 }: {
-  userId: string | null;
+  userIds: string[];
   onUserIdChange: (userId: string | null) => void;
+  // Only set in multi-select mode
+  onToggleUserId?: (userId: string) => void;
+  canAddMore: boolean;
   users: { id: string; runescapeName: string; accountType: string; trackingStatus: string }[];
   loading: boolean;
   error: unknown;
@@ -42,7 +53,7 @@ function UserDropdown({
   const filteredUsers = enabledUsers.filter(user =>
     user.runescapeName.toLowerCase().includes(searchTerm.toLowerCase())
   );
-  const selectedUser = Array.isArray(users) ? users.find(user => user.id === userId) : undefined;
+  const selectedUser = Array.isArray(users) ? users.find(user => user.id === userIds[0]) : undefined;
 
   if (loading) {
     return <Skeleton className="h-9 w-full" />;
@@ -68,6 +79,9 @@ function UserDropdown({
             <>
               <span>{getAccountTypeIcon(selectedUser.accountType)}</span>
               <span className="truncate">{selectedUser.runescapeName}</span>
+              {userIds.length > 1 && (
+                <span className="text-xs text-muted-foreground flex-shrink-0">+{userIds.length - 1} more</span>
+              )}
             </>
           ) : (
             <span className="text-muted-foreground">Select a player...</span>
@@ -95,27 +109,43 @@ function UserDropdown({
               </div>
             ) : (
               <div className="p-1">
-                {filteredUsers.map((user) => (
-                  <Button
-                    key={user.id}
-                    variant={userId === user.id ? "default" : "ghost"}
-                    size="sm"
-                    onClick={() => {
-                      onUserIdChange(user.id);
-                      setIsOpen(false);
-                      setSearchTerm('');
-                    }}
-                    className="w-full justify-start text-sm mb-1"
-                  >
-                    <span className="mr-2">{getAccountTypeIcon(user.accountType)}</span>
-                    <span className="flex-1 text-left truncate">{user.runescapeName}</span>
-                    {user.accountType !== 'NORMAL' && (
-                      <span className="text-xs text-muted-foreground ml-2 hidden sm:inline">
-                        {user.accountType.replace(/_/g, ' ').toLowerCase()}
-                      </span>
-                    )}
-                  </Button>
-                ))}
+                {filteredUsers.map((user) => {
+                  const isSelected = userIds.includes(user.id);
+                  return (
+                    <div key={user.id} className="flex items-center gap-1 mb-1">
+                      <Button
+                        variant={isSelected ? "default" : "ghost"}
+                        size="sm"
+                        onClick={() => {
+                          onUserIdChange(user.id);
+                          setIsOpen(false);
+                          setSearchTerm('');
+                        }}
+                        className="flex-1 min-w-0 justify-start text-sm"
+                      >
+                        <span className="mr-2">{getAccountTypeIcon(user.accountType)}</span>
+                        <span className="flex-1 text-left truncate">{user.runescapeName}</span>
+                        {user.accountType !== 'NORMAL' && (
+                          <span className="text-xs text-muted-foreground ml-2 hidden sm:inline">
+                            {user.accountType.replace(/_/g, ' ').toLowerCase()}
+                          </span>
+                        )}
+                      </Button>
+                      {onToggleUserId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onToggleUserId(user.id)}
+                          disabled={isSelected ? userIds.length === 1 : !canAddMore}
+                          className="h-8 w-8 p-0 flex-shrink-0"
+                          aria-label={isSelected ? `Remove ${user.runescapeName} from comparison` : `Compare with ${user.runescapeName}`}
+                        >
+                          {isSelected ? <Check className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -124,6 +154,7 @@ function UserDropdown({
             <div className="p-3 border-t bg-muted/50">
               <p className="text-xs text-muted-foreground">
                 {enabledUsers.length} player{enabledUsers.length !== 1 ? 's' : ''} available
+                {onToggleUserId && ' - use + to compare'}
               </p>
             </div>
           )}
@@ -133,10 +164,11 @@ function UserDropdown({
   );
 }
 
-export function UserSelector({ userId, onUserIdChange }: UserSelectorProps) {
+export function UserSelector({ userId, onUserIdChange, userIds, onUserIdsChange, maxSelected = Infinity }: UserSelectorProps) {
   const { data: users, loading, error } = useAllUsers();
 
   const enabledUsers = Array.isArray(users) ? users.filter(user => user.trackingStatus === 'ENABLED') : [];
+  const selectedIds = userIds ?? (userId ? [userId] : []);
 
   useEffect(() => {
     // Auto-select first user if none selected and users are loaded
@@ -145,17 +177,52 @@ export function UserSelector({ userId, onUserIdChange }: UserSelectorProps) {
     }
   }, [users, userId]);
 
+  const handleToggleUserId = onUserIdsChange
+    ? (id: string) => onUserIdsChange(
+      selectedIds.includes(id) ? selectedIds.filter(selected => selected !== id) : [...selectedIds, id]
+    )
+    : undefined;
+
+  const dropdown = (
+    <UserDropdown
+      userIds={selectedIds}
+      onUserIdChange={onUserIdChange}
+      onToggleUserId={handleToggleUserId}
+      canAddMore={selectedIds.length < maxSelected}
+      users={users || []}
+      loading={loading}
+      error={error}
+    />
+  );
+
+  // Compared players, colored to match their chart lines
+  const comparedPlayers = handleToggleUserId && selectedIds.length > 1 && (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {selectedIds.map((id, index) => {
+        const user = enabledUsers.find(candidate => candidate.id === id);
+        return (
+          <span key={id} className="flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getPlayerColor(index) }} />
+            <span className="truncate max-w-32">{user?.runescapeName ?? id}</span>
+            <button
+              onClick={() => handleToggleUserId(id)}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={`Remove ${user?.runescapeName ?? id} from comparison`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+
   return (
     <div className="mb-3 sm:mb-6">
       {/* Mobile: Just the dropdown */}
       <div className="sm:hidden">
-        <UserDropdown
-          userId={userId}
-          onUserIdChange={onUserIdChange}
-          users={users || []}
-          loading={loading}
-          error={error}
-        />
+        {dropdown}
+        {comparedPlayers}
       </div>
 
       {/* Desktop: Card with header */}
@@ -164,17 +231,12 @@ export function UserSelector({ userId, onUserIdChange }: UserSelectorProps) {
           <CardHeader className="pb-4 pt-6 px-6">
             <CardTitle className="flex items-center gap-2 text-lg">
               <UserIcon className="h-5 w-5" />
-              Select Player
+              {selectedIds.length > 1 ? `Comparing ${selectedIds.length} Players` : 'Select Player'}
             </CardTitle>
           </CardHeader>
           <CardContent className="px-6 pb-6">
-            <UserDropdown
-              userId={userId}
-              onUserIdChange={onUserIdChange}
-              users={users || []}
-              loading={loading}
-              error={error}
-            />
+            {dropdown}
+            {comparedPlayers}
           </CardContent>
         </Card>
       </div>
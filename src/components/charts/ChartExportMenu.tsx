@@ -0,0 +1,99 @@
+import { useState, type RefObject } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download } from 'lucide-react';
+import {
+  PNG_SCALES,
+  downloadBlob,
+  getExportTheme,
+  renderChartPng,
+  renderChartSvg,
+  toCsv,
+  type ChartExportHandle
+} from '@/lib/chartExport';
+
+interface ChartExportMenuProps {
+  // Set by the chart's `exportRef`; null while the chart isn't mounted
+  chartRef: RefObject<ChartExportHandle | null>;
+  // Without extension
+  filename: string;
+  // Header and rows of the data behind the chart
+  getCsv: () => { header: string[]; rows: (string | number)[][] };
+}
+
+export function ChartExportMenu({ chartRef, filename, getCsv }: ChartExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportPng = async (scale: number) => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const blob = await renderChartPng(chart.getPicture(), chart.captureCanvas(scale), scale, getExportTheme());
+    downloadBlob(blob, `${filename}.png`);
+  };
+
+  const exportSvg = () => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const svg = renderChartSvg(chart.getPicture(), getExportTheme());
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+  };
+
+  const exportCsv = () => {
+    const { header, rows } = getCsv();
+    downloadBlob(new Blob([toCsv(header, rows)], { type: 'text/csv' }), `${filename}.csv`);
+  };
+
+  const handleExport = async (run: () => void | Promise<void>) => {
+    setIsOpen(false);
+    setError(null);
+    try {
+      await run();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-7 sm:h-8 px-2 gap-1"
+        title={error ?? 'Export chart'}
+        aria-expanded={isOpen}
+      >
+        <Download className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+        <span className="hidden sm:inline text-xs">Export</span>
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 z-50 mt-1 min-w-[8rem] bg-background border border-border rounded-lg shadow-lg p-1">
+          {PNG_SCALES.map(scale => (
+            <Button
+              key={scale}
+              variant="ghost"
+              size="sm"
+              onClick={() => handleExport(() => exportPng(scale))}
+              className="w-full justify-start text-xs"
+            >
+              PNG {scale}x
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={() => handleExport(exportSvg)} className="w-full justify-start text-xs">
+            SVG
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => handleExport(exportCsv)} className="w-full justify-start text-xs">
+            CSV
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute top-full right-0 z-40 mt-1 whitespace-nowrap text-xs text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,23 @@
-import { useState, useEffect, useMemo, useRef } from 'react';
-import type { HiscoreDelta } from '@/types/api';
-import { apiClient } from '@/lib/api';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import type { ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { apiClient, isAbortError } from '@/lib/api';
+import { getDateKey, type SkillGain } from '@/lib/chartSeries';
+import { getExportFilename, type ChartExportHandle } from '@/lib/chartExport';
+import { useApiConfig } from '@/hooks/useApi';
+import { useDailyTotals } from '@/hooks/useChartSeries';
+import { useAnomalyReview } from '@/hooks/useAnomalyReview';
+import { ConsistencyPanel } from '@/components/ConsistencyPanel';
+import { Button } from '@/components/ui/button';
+import { getActivityUnit, type ActivityUnit } from '@/lib/activityRegistry';
+import {
+  HEATMAP_PALETTES,
+  HEATMAP_SCALES,
+  buildHeatmapScale,
+  getHeatmapLevelColor,
+  type HeatmapPaletteId,
+  type HeatmapScaleType
+} from '@/lib/heatmapScale';
+import { ChartExportMenu } from './ChartExportMenu';
 import { WebGLHeatmap } from './WebGLHeatmap';
 
 interface TimeRange {
@@ -11,16 +28,20 @@ interface TimeRange {
 interface DailyHeatmapProps {
   userId: string | null;
   timeRange?: TimeRange;
-}
-
-interface SkillGain {
-  skill: string;
-  experience: number;
+  // Colors days by this activity's gains; overall XP when not given
+  activityType?: ActivityType;
+  scale: HeatmapScaleType;
+  onScaleChange: (scale: HeatmapScaleType) => void;
+  palette: HeatmapPaletteId;
+  onPaletteChange: (palette: HeatmapPaletteId) => void;
+  // Gain a day needs to count towards streaks
+  activeDayThreshold: number;
+  onActiveDayThresholdChange: (threshold: number) => void;
 }
 
 interface HeatmapCell {
   date: Date;
-  experience: number;
+  value: number;
   weekIndex: number;
   dayOfWeek: number;
   month: number;
@@ -29,14 +50,38 @@ interface HeatmapCell {
   skillBreakdown?: SkillGain[];
 }
 
+const UNIT_LABELS: Record<ActivityUnit, string> = {
+  xp: 'XP',
+  kc: 'KC',
+  score: 'score'
+};
+
+const CSV_VALUE_COLUMNS: Record<ActivityUnit, string> = {
+  xp: 'experience',
+  kc: 'kill_count',
+  score: 'score'
+};
+
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 
-export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
+export function DailyHeatmap({
+  userId,
+  timeRange,
+  activityType = 'OVERALL',
+  scale,
+  onScaleChange,
+  palette,
+  onPaletteChange,
+  activeDayThreshold,
+  onActiveDayThresholdChange
+}: DailyHeatmapProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [deltas, setDeltas] = useState<HiscoreDelta[]>([]);
+  const [response, setResponse] = useState<GetSnapshotWithDeltasResponse | null>(null);
   const [containerSize, setContainerSize] = useState({ width: 900, height: 150 });
   const containerRef = useRef<HTMLDivElement>(null);
+  const exportRef = useRef<ChartExportHandle>(null);
+  const { baseUrl } = useApiConfig();
 
   // Check if time range exceeds 365 days
   const timeRangeExceedsLimit = useMemo(() => {
@@ -47,9 +92,13 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
 
   // Fetch delta data for the time range
   useEffect(() => {
+    // Abort the previous player's/range's request so it can't overwrite this one
+    const controller = new AbortController();
+
     async function fetchData() {
       if (!userId || timeRangeExceedsLimit) {
-        setDeltas([]);
+        setResponse(null);
+        setLoading(false);
         return;
       }
 
@@ -65,64 +114,40 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
           return d;
         })();
 
-        const response = await apiClient.getSnapshotWithDeltas(userId, startDate, endDate);
-        setDeltas(response.deltas || []);
+        const response = await apiClient.getSnapshotWithDeltas(userId, startDate, endDate, {
+          signal: controller.signal,
+          onRevalidate: setResponse
+        });
+        setResponse(response);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError(err instanceof Error ? err.message : 'Failed to load data');
-        setDeltas([]);
+        setResponse(null);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     }
 
     fetchData();
-  }, [userId, timeRange?.startTime?.getTime(), timeRange?.endTime?.getTime(), timeRangeExceedsLimit]);
-
-  // Process deltas to build heatmap cells
-  const { cells, monthLabels } = useMemo(() => {
-    if (deltas.length === 0) {
-      return { cells: [], monthLabels: [] };
-    }
-
-    // Aggregate deltas by date
-    const dailyGains = new Map<string, number>();
-    const dailySkillGains = new Map<string, Map<string, number>>();
-
-    for (const delta of deltas) {
-      const date = new Date(delta.timestamp);
-      const dateKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-
-      // Get overall experience gain from OVERALL skill
-      const overallGain = delta.skills?.find(s => s.activityType === 'OVERALL')?.experienceGain || 0;
-
-      // Skip if gain exceeds 10 million (likely data error)
-      if (overallGain > 10_000_000) continue;
-
-      // Accumulate overall gains for the day
-      const currentDayGain = dailyGains.get(dateKey) || 0;
-      const newTotal = currentDayGain + overallGain;
-
-      if (newTotal <= 10_000_000) {
-        dailyGains.set(dateKey, newTotal);
-      }
-
-      // Accumulate skill gains for breakdown
-      if (delta.skills) {
-        if (!dailySkillGains.has(dateKey)) {
-          dailySkillGains.set(dateKey, new Map<string, number>());
-        }
-        const daySkillGains = dailySkillGains.get(dateKey)!;
-
-        for (const skill of delta.skills) {
-          if (skill.activityType === 'OVERALL') continue;
-          if (skill.experienceGain <= 0 || skill.experienceGain > 10_000_000) continue;
-
-          daySkillGains.set(skill.name, (daySkillGains.get(skill.name) || 0) + skill.experienceGain);
-        }
-      }
-    }
+    return () => controller.abort();
+  }, [userId, timeRange?.startTime?.getTime(), timeRange?.endTime?.getTime(), timeRangeExceedsLimit, baseUrl]);
+
+  // Per-day totals are aggregated in the delta worker, leaving out the deltas
+  // excluded in the data quality review
+  const { response: reviewedResponse } = useAnomalyReview(userId, response);
+  const { data: dailyTotals, preparing } = useDailyTotals(reviewedResponse, activityType);
+  const unit = getActivityUnit(activityType);
+
+  // Levels follow the days being shown rather than fixed XP amounts
+  const heatmapScale = useMemo(
+    () => buildHeatmapScale(dailyTotals?.gains ?? [], scale),
+    [dailyTotals, scale]
+  );
 
-    // Generate dates for the time range
+  // First and last day shown, at local midnight
+  const { startDate, endDate } = useMemo(() => {
     const endDate = timeRange?.endTime ? new Date(timeRange.endTime) : new Date();
     endDate.setHours(0, 0, 0, 0);
 
@@ -134,6 +159,17 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
     })();
     startDate.setHours(0, 0, 0, 0);
 
+    return { startDate, endDate };
+  }, [timeRange?.startTime?.getTime(), timeRange?.endTime?.getTime()]);
+
+  // Lay the daily totals out as heatmap cells
+  const { cells, monthLabels } = useMemo(() => {
+    if (!dailyTotals || dailyTotals.dates.length === 0) {
+      return { cells: [], monthLabels: [] };
+    }
+
+    const dayIndex = new Map(dailyTotals.dates.map((dateKey, i) => [dateKey, i]));
+
     // Find the Sunday at or before the start date
     const startSunday = new Date(startDate);
     startSunday.setDate(startSunday.getDate() - startSunday.getDay());
@@ -152,18 +188,11 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
         weekIndex++;
       }
 
-      const dateKey = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
-      const experience = dailyGains.get(dateKey) || 0;
-
+      const dateKey = getDateKey(currentDate);
+      const day = dayIndex.get(dateKey);
+      const value = day !== undefined ? dailyTotals.gains[day] : 0;
       // Get skill breakdown for this day
-      let skillBreakdown: SkillGain[] | undefined;
-      if (dailySkillGains.has(dateKey)) {
-        const daySkills = dailySkillGains.get(dateKey)!;
-        skillBreakdown = Array.from(daySkills.entries())
-          .map(([skill, exp]) => ({ skill, experience: exp }))
-          .sort((a, b) => b.experience - a.experience)
-          .slice(0, 5);
-      }
+      const skillBreakdown = day !== undefined ? dailyTotals.skillBreakdowns[day] : undefined;
 
       // Track month labels
       const monthYear = `${MONTHS[currentDate.getMonth()]} '${String(currentDate.getFullYear()).slice(-2)}`;
@@ -173,7 +202,7 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
 
       cellsArray.push({
         date: new Date(currentDate),
-        experience,
+        value,
         weekIndex,
         dayOfWeek,
         month: currentDate.getMonth(),
@@ -191,7 +220,12 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
     }));
 
     return { cells: cellsArray, monthLabels: labels };
-  }, [deltas, timeRange?.startTime?.getTime(), timeRange?.endTime?.getTime()]);
+  }, [dailyTotals, startDate, endDate]);
+
+  const getCsv = useCallback(() => ({
+    header: ['date', CSV_VALUE_COLUMNS[unit]],
+    rows: cells.map(cell => [cell.dateString, cell.value])
+  }), [cells, unit]);
 
   // Track container size
   useEffect(() => {
@@ -214,17 +248,17 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
     return (
       <div className="flex items-center justify-center h-48">
         <div className="text-muted-foreground text-center">
-          <p>The experience heatmap can only display up to 365 days of data.</p>
+          <p>The heatmap can only display up to 365 days of data.</p>
           <p className="text-sm mt-1">Please select a smaller time range to view the heatmap.</p>
         </div>
       </div>
     );
   }
 
-  if (loading) {
+  if (loading || (preparing && !dailyTotals)) {
     return (
       <div className="flex items-center justify-center h-48">
-        <div className="text-muted-foreground">Loading experience data...</div>
+        <div className="text-muted-foreground">Loading heatmap data...</div>
       </div>
     );
   }
@@ -240,7 +274,7 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
   if (!userId) {
     return (
       <div className="flex items-center justify-center h-48">
-        <div className="text-muted-foreground">Select a user to view experience heatmap</div>
+        <div className="text-muted-foreground">Select a user to view the heatmap</div>
       </div>
     );
   }
@@ -248,19 +282,72 @@ export function DailyHeatmap({ userId, timeRange }: DailyHeatmapProps) {
   if (cells.length === 0) {
     return (
       <div className="flex items-center justify-center h-48">
-        <div className="text-muted-foreground">No experience data available</div>
+        <div className="text-muted-foreground">No data available</div>
       </div>
     );
   }
 
   return (
     <div ref={containerRef} className="w-full">
+      <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+        <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Color scale">
+          {HEATMAP_SCALES.map(option => (
+            <Button
+              key={option.id}
+              size="sm"
+              variant={scale === option.id ? 'default' : 'ghost'}
+              onClick={() => onScaleChange(option.id)}
+              className="h-8 rounded-none px-2 text-xs"
+              title={option.description}
+              aria-pressed={scale === option.id}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1" role="group" aria-label="Color palette">
+          {HEATMAP_PALETTES.map(option => {
+            const [r, g, b] = getHeatmapLevelColor(5, option.id, false);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => onPaletteChange(option.id)}
+                className={`h-6 w-6 rounded-sm border-2 ${palette === option.id ? 'border-foreground' : 'border-transparent'}`}
+                style={{ backgroundColor: `rgb(${r}, ${g}, ${b})` }}
+                title={option.label}
+                aria-label={`${option.label} palette`}
+                aria-pressed={palette === option.id}
+              />
+            );
+          })}
+        </div>
+        <ChartExportMenu
+          chartRef={exportRef}
+          filename={getExportFilename('heatmap', cells[0].dateString, cells[cells.length - 1].dateString)}
+          getCsv={getCsv}
+        />
+      </div>
       <WebGLHeatmap
         cells={cells}
         monthLabels={monthLabels}
         width={containerSize.width}
         height={containerSize.height}
+        scale={heatmapScale}
+        palette={palette}
+        unitLabel={UNIT_LABELS[unit]}
+        exportRef={exportRef}
       />
+      {dailyTotals && (
+        <ConsistencyPanel
+          totals={dailyTotals}
+          startDate={startDate}
+          endDate={endDate}
+          unit={unit}
+          activeDayThreshold={activeDayThreshold}
+          onActiveDayThresholdChange={onActiveDayThresholdChange}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,236 +1,103 @@
-import { useState, useRef, useEffect, useMemo } from 'react';
-import type { ActivityType, HiscoreDelta, GetSnapshotWithDeltasResponse, HiscoreSnapshot } from '@/types/api';
-import { BOSS_ACTIVITY_TYPES } from '@/types/api';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Hourglass, Layers } from 'lucide-react';
+import type { AccountType, ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import type { PlayerDeltaResponse } from '@/hooks/useApi';
 import { formatActivityTypeName } from '@/lib/dataUtils';
+import { getActivityUnit } from '@/lib/activityRegistry';
+import { getPlayerColor } from '@/lib/chartColors';
+import { normalizeChartSeries } from '@/lib/chartSeries';
+import { getExportFilename, type ChartExportHandle } from '@/lib/chartExport';
+import { DEFAULT_ANOMALY_SETTINGS, getOutlierBound, type OutlierRule } from '@/lib/anomalies';
+import { formatGoalLabel, type Goal } from '@/lib/goals';
+import { BUCKET_SELECTIONS, resolveBucketSize, type BucketSelection, type BucketSize } from '@/lib/timeBuckets';
+import { useBucketedSeries, useChartSeries, useComparisonSeries, useEfficiencySeries } from '@/hooks/useChartSeries';
+import { useContainerSize } from '@/hooks/useContainerSize';
+import { ChartExportMenu } from '@/components/charts/ChartExportMenu';
 import { WebGLBarChart } from '@/components/charts/WebGLBarChart';
-import { WebGLLineChart } from '@/components/charts/WebGLLineChart';
+import { WebGLLineChart, type ChartGoalLine, type ChartLine } from '@/components/charts/WebGLLineChart';
+import { LoadProgressIndicator } from '@/components/ui/LoadProgressIndicator';
+import { Button } from '@/components/ui/button';
 
 interface GainsChartProps {
   deltaResponse: GetSnapshotWithDeltasResponse;
+  // Display name of the player, for export filenames
+  playerName?: string;
   selectedActivity?: ActivityType;
   chartType?: 'cumulative' | 'daily';
+  // Split daily bars by skill; only offered for overall XP
+  stacked?: boolean;
+  onStackedChange?: (stacked: boolean) => void;
+  // Calendar bucket for daily bars; 'auto' picks one from the data's span
+  bucket?: BucketSelection;
+  onBucketChange?: (bucket: BucketSelection) => void;
+  // Goals for the selected activity, drawn as target lines on the cumulative chart
+  goals?: Goal[];
+  // Prices EHP for the efficient hours line
+  accountType?: AccountType;
+  // Which gains count as outliers, kept out of the y-axis scale
+  outlierRule?: OutlierRule;
+  // Plot cumulative efficient hours played on the right axis
+  showEfficiency?: boolean;
+  onShowEfficiencyChange?: (showEfficiency: boolean) => void;
   onTimeRangeSelect?: (startTime: Date, endTime: Date) => void;
 }
 
-interface SkillGain {
-  skill: string;
-  experience: number;
-}
-
-interface ChartDataPoint {
-  date: string;
-  timestamp: number;
-  cumulativeValue: number;
-  dailyGain: number;
-  level?: number;
-  skillBreakdown?: SkillGain[];
-}
-
-function extractActivityData(snapshot: HiscoreSnapshot, activityType?: ActivityType) {
-  if (!activityType || activityType === 'OVERALL') {
-    // Total XP: use OVERALL skill (matches what deltas use)
-    const overall = snapshot.skills.find(s => s.activityType === 'OVERALL');
-    return {
-      value: overall?.experience || 0,
-      level: undefined
-    };
-  }
-
-  const activity = [
-    ...snapshot.skills,
-    ...snapshot.bosses,
-    ...snapshot.activities
-  ].find(item => item.activityType === activityType);
-
-  if (!activity) return { value: 0, level: undefined };
-
-  if ('experience' in activity) {
-    return { value: activity.experience, level: activity.level };
-  }
-  
-  if ('killCount' in activity) {
-    return { value: activity.killCount, level: undefined };
-  }
-  
-  if ('score' in activity) {
-    return { value: activity.score, level: undefined };
-  }
-
-  return { value: 0, level: undefined };
+interface ComparisonChartProps {
+  players: PlayerDeltaResponse[];
+  // Display name per user ID; falls back to the ID
+  playerNames: Map<string, string>;
+  selectedActivity?: ActivityType;
+  // Plot gains from zero instead of totals
+  normalized?: boolean;
+  onTimeRangeSelect?: (startTime: Date, endTime: Date) => void;
 }
 
-// Generate chart data directly from deltas
-// The snapshot is the STARTING point, and deltas are added to show progression
-function generateChartDataFromDeltas(
-  deltaResponse: GetSnapshotWithDeltasResponse,
-  activityType?: ActivityType
-): ChartDataPoint[] {
-  const { snapshot: baseSnapshot, deltas } = deltaResponse;
-
-  if (!baseSnapshot) return [];
-
-  // Get the starting value from the snapshot (this is the baseline)
-  const { value: startingValue, level: startingLevel } = extractActivityData(baseSnapshot, activityType);
-
-  // If no deltas, just return the snapshot as a single point
-  if (deltas.length === 0) {
-    const snapshotDate = new Date(baseSnapshot.timestamp);
-    return [{
-      date: snapshotDate.toLocaleDateString(),
-      timestamp: snapshotDate.getTime(),
-      cumulativeValue: startingValue,
-      dailyGain: 0,
-      level: startingLevel
-    }];
-  }
-
-  // Sort deltas chronologically
-  const sortedDeltas = [...deltas].sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-
-  const data: ChartDataPoint[] = [];
-
-  // Add initial data point from the snapshot (starting point)
-  const snapshotDate = new Date(baseSnapshot.timestamp);
-  data.push({
-    date: snapshotDate.toLocaleDateString(),
-    timestamp: snapshotDate.getTime(),
-    cumulativeValue: startingValue,
-    dailyGain: 0,
-    level: startingLevel
-  });
-
-  // Process each delta - add gains to cumulative value
-  let cumulativeValue = startingValue;
-
-  for (const delta of sortedDeltas) {
-    const dailyGain = getDeltaGainForActivity(delta, activityType);
-    cumulativeValue += dailyGain;
-
-    const date = new Date(delta.timestamp);
-
-    // Calculate skill breakdown from delta
-    let skillBreakdown: SkillGain[] | undefined;
-    if ((!activityType || activityType === 'OVERALL') && delta.skills && dailyGain > 0) {
-      const skillGains: SkillGain[] = delta.skills
-        .filter(s => s.activityType !== 'OVERALL' && s.experienceGain > 0 && s.experienceGain <= 10_000_000)
-        .map(s => ({
-          skill: s.name,
-          experience: s.experienceGain
-        }))
-        .sort((a, b) => b.experience - a.experience)
-        .slice(0, 5);
-
-      if (skillGains.length > 0) {
-        skillBreakdown = skillGains;
-      }
-    }
-
-    // Apply filtering logic for display
-    let displayDailyGain = 0;
-    if (dailyGain > 0) {
-      const isBossActivity = activityType && BOSS_ACTIVITY_TYPES.includes(activityType);
-      const isScoreActivity = activityType && ['LEAGUE_POINTS', 'DEADMAN_POINTS', 'BOUNTY_HUNTER__HUNTER', 'BOUNTY_HUNTER__ROGUE',
-          'BOUNTY_HUNTER_LEGACY__HUNTER', 'BOUNTY_HUNTER_LEGACY__ROGUE', 'CLUE_SCROLLS_ALL',
-          'CLUE_SCROLLS_BEGINNER', 'CLUE_SCROLLS_EASY', 'CLUE_SCROLLS_MEDIUM', 'CLUE_SCROLLS_HARD',
-          'CLUE_SCROLLS_ELITE', 'CLUE_SCROLLS_MASTER', 'LMS__RANK', 'PVP_ARENA__RANK',
-          'SOUL_WARS_ZEAL', 'RIFTS_CLOSED', 'COLOSSEUM_GLORY', 'COLLECTIONS_LOGGED'].includes(activityType);
-      const isExperience = !activityType || (!isBossActivity && !isScoreActivity);
-
-      if (isExperience && dailyGain > 10_000_000) {
-        displayDailyGain = 0;
-      } else {
-        const minimumGain = isBossActivity ? 1 : 100;
-        displayDailyGain = dailyGain >= minimumGain ? dailyGain : 0;
-      }
-    }
+const BUCKET_TITLES: Record<BucketSize, string> = {
+  day: 'Daily Gains',
+  week: 'Weekly Gains',
+  month: 'Monthly Gains',
+  year: 'Yearly Gains'
+};
 
-    data.push({
-      date: date.toLocaleDateString(),
-      timestamp: date.getTime(),
-      cumulativeValue,
-      dailyGain: displayDailyGain,
-      level: undefined,
-      skillBreakdown
-    });
-  }
-
-  return data;
-}
-
-// Get the gain value from a delta for a specific activity type
-function getDeltaGainForActivity(delta: HiscoreDelta, activityType?: ActivityType | null): number {
-  if (!activityType) {
-    // Total XP: use OVERALL skill
-    const overall = delta.skills?.find(s => s.activityType === 'OVERALL');
-    return overall?.experienceGain || 0;
-  }
-
-  // Check skills
-  const skill = delta.skills?.find(s => s.activityType === activityType);
-  if (skill) return skill.experienceGain;
-
-  // Check bosses
-  const boss = delta.bosses?.find(b => b.activityType === activityType);
-  if (boss) return boss.killCountGain;
-
-  // Check activities
-  const activity = delta.activities?.find(a => a.activityType === activityType);
-  if (activity) return activity.scoreGain;
-
-  return 0;
+// Skill XP values, which have levels; total XP doesn't
+function isSkillExperience(activityType?: ActivityType | null): boolean {
+  return !!activityType && activityType !== 'OVERALL' && getActivityUnit(activityType) === 'xp';
 }
 
 // Check if an activity type uses small values (kill counts, scores) vs large XP values
 function isSmallValueActivity(activityType?: ActivityType | null): boolean {
-  if (!activityType) return false;
-
-  // Boss activities have kill counts (typically 1-100 per day)
-  if (BOSS_ACTIVITY_TYPES.includes(activityType)) return true;
-
-  // These activities have scores that are typically smaller than XP
-  if (['LEAGUE_POINTS', 'DEADMAN_POINTS', 'BOUNTY_HUNTER__HUNTER', 'BOUNTY_HUNTER__ROGUE',
-       'BOUNTY_HUNTER_LEGACY__HUNTER', 'BOUNTY_HUNTER_LEGACY__ROGUE', 'CLUE_SCROLLS_ALL',
-       'CLUE_SCROLLS_BEGINNER', 'CLUE_SCROLLS_EASY', 'CLUE_SCROLLS_MEDIUM', 'CLUE_SCROLLS_HARD',
-       'CLUE_SCROLLS_ELITE', 'CLUE_SCROLLS_MASTER', 'LMS__RANK', 'PVP_ARENA__RANK',
-       'SOUL_WARS_ZEAL', 'RIFTS_CLOSED', 'COLOSSEUM_GLORY', 'COLLECTIONS_LOGGED'].includes(activityType)) {
-    return true;
-  }
-
-  return false;
+  return !!activityType && getActivityUnit(activityType) !== 'xp';
 }
 
 // Calculate optimal domain for Y-axis based on data range, excluding outliers for daily gains
 // Also returns the upper bound for anomaly detection
-function calculateYAxisDomain(data: ChartDataPoint[], dataKey: 'cumulativeValue' | 'dailyGain', isSmallValue: boolean = false): { domain: [number, number]; upperBound: number } {
-  if (data.length === 0) return { domain: [0, 100], upperBound: 100 };
-
-  const values = data.map(d => d[dataKey]).filter(v => v > 0);
+function calculateYAxisDomain(
+  series: ArrayLike<number>,
+  kind: 'cumulative' | 'daily',
+  isSmallValue: boolean = false,
+  rule: OutlierRule = DEFAULT_ANOMALY_SETTINGS
+): { domain: [number, number]; upperBound: number } {
+  const values = Array.from(series).filter(v => v > 0);
   if (values.length === 0) return { domain: [0, 100], upperBound: 100 };
 
-  const max = Math.max(...values);
+  // Reduce rather than spread: long ranges have more points than the argument limit
+  const max = values.reduce((a, b) => Math.max(a, b));
 
   // For small value activities (boss KC, clue scrolls, etc.), use value-appropriate minimum padding
   const minPadding = isSmallValue ? Math.max(1, Math.ceil(max * 0.1)) : 1000;
 
-  if (dataKey === 'dailyGain') {
-    // For daily gains, exclude outliers using IQR method
-    const sorted = [...values].sort((a, b) => a - b);
+  if (kind === 'daily') {
+    // For daily gains, exclude outliers using the configured rule
+    const upperBound = getOutlierBound(values, rule.strategy, rule.sensitivity);
 
-    // Need at least 4 data points for meaningful IQR
-    if (sorted.length < 4) {
+    // Too few points (or no statistical rule) to call anything an outlier
+    if (upperBound === null) {
       const padding = Math.max(max * 0.1, minPadding);
       const ceiling = Math.ceil(max + padding);
       return { domain: [0, ceiling], upperBound: ceiling };
     }
 
-    const q1Index = Math.floor(sorted.length * 0.25);
-    const q3Index = Math.floor(sorted.length * 0.75);
-    const q1 = sorted[q1Index];
-    const q3 = sorted[q3Index];
-    const iqr = q3 - q1;
-    const upperBound = q3 + 3 * iqr;
+    const sorted = [...values].sort((a, b) => a - b);
 
     // Find max non-outlier value
     const nonOutliers = sorted.filter(v => v <= upperBound);
@@ -243,7 +110,7 @@ function calculateYAxisDomain(data: ChartDataPoint[], dataKey: 'cumulativeValue'
     return { domain: [0, maxNonOutlier + padding], upperBound };
   } else {
     // For cumulative, use a smarter range
-    const min = Math.min(...values);
+    const min = values.reduce((a, b) => Math.min(a, b));
     const range = max - min;
 
     // If the range is very small compared to the values, show the actual growth
@@ -270,29 +137,32 @@ function calculateYAxisDomain(data: ChartDataPoint[], dataKey: 'cumulativeValue'
   }
 }
 
-// Detect anomaly timestamps based on overall XP data using IQR method
-function detectAnomalyTimestamps(data: ChartDataPoint[]): Set<number> {
-  const anomalies = new Set<number>();
-
-  const values = data.map(d => d.dailyGain).filter(v => v > 0);
-  if (values.length < 4) return anomalies;
-
-  const sorted = [...values].sort((a, b) => a - b);
-  const q1Index = Math.floor(sorted.length * 0.25);
-  const q3Index = Math.floor(sorted.length * 0.75);
-  const q1 = sorted[q1Index];
-  const q3 = sorted[q3Index];
-  const iqr = q3 - q1;
-  const upperBound = q3 + 3 * iqr;
-
-  // Mark timestamps where daily gain exceeds the upper bound as anomalies
-  data.forEach(d => {
-    if (d.dailyGain > upperBound) {
-      anomalies.add(d.timestamp);
-    }
-  });
+// First to last timestamp in the response, starting at the baseline snapshot
+function getResponseSpan({ snapshot, deltas }: GetSnapshotWithDeltasResponse): [Date, Date] {
+  let start = snapshot ? new Date(snapshot.timestamp).getTime() : Infinity;
+  let end = -Infinity;
+  for (const delta of deltas) {
+    const time = new Date(delta.timestamp).getTime();
+    if (time < start) start = time;
+    if (time > end) end = time;
+  }
+  if (!isFinite(start) || !isFinite(end)) return [new Date(), new Date()];
+  return [new Date(start), new Date(end)];
+}
 
-  return anomalies;
+// Whether any anomaly timestamp (ascending) falls in [start, end)
+function containsAnomaly(anomalies: Float64Array, start: number, end: number): boolean {
+  for (const timestamp of anomalies) {
+    if (timestamp >= end) return false;
+    if (timestamp >= start) return true;
+  }
+  return false;
+}
+
+// One row per point: ISO timestamp, plotted value and the gain since the previous point
+function getSeriesCsvRows(line: ChartLine): (string | number)[][] {
+  const { timestamps, cumulative, dailyGains } = line.series;
+  return Array.from(timestamps, (timestamp, i) => [new Date(timestamp).toISOString(), cumulative[i], dailyGains[i]]);
 }
 
 function getValueLabel(activityType?: ActivityType | null): string {
@@ -300,123 +170,173 @@ function getValueLabel(activityType?: ActivityType | null): string {
 
   const activityName = formatActivityTypeName(activityType);
 
-  if (BOSS_ACTIVITY_TYPES.includes(activityType)) {
-    return `${activityName} KC`;
+  switch (getActivityUnit(activityType)) {
+    case 'kc':
+      return `${activityName} KC`;
+    case 'score':
+      return `${activityName} Score`;
+    default:
+      return `${activityName} XP`;
   }
+}
 
-  if (['LEAGUE_POINTS', 'DEADMAN_POINTS', 'BOUNTY_HUNTER__HUNTER', 'BOUNTY_HUNTER__ROGUE',
-       'BOUNTY_HUNTER_LEGACY__HUNTER', 'BOUNTY_HUNTER_LEGACY__ROGUE', 'CLUE_SCROLLS_ALL',
-       'CLUE_SCROLLS_BEGINNER', 'CLUE_SCROLLS_EASY', 'CLUE_SCROLLS_MEDIUM', 'CLUE_SCROLLS_HARD',
-       'CLUE_SCROLLS_ELITE', 'CLUE_SCROLLS_MASTER', 'LMS__RANK', 'PVP_ARENA__RANK',
-       'SOUL_WARS_ZEAL', 'RIFTS_CLOSED', 'COLOSSEUM_GLORY', 'COLLECTIONS_LOGGED'].includes(activityType)) {
-    return `${activityName} Score`;
-  }
+interface BucketPickerProps {
+  bucket: BucketSelection;
+  autoBucketSize: BucketSize;
+  onBucketChange: (bucket: BucketSelection) => void;
+}
 
-  return `${activityName} XP`;
+function BucketPicker({ bucket, autoBucketSize, onBucketChange }: BucketPickerProps) {
+  return (
+    <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Bar size">
+      {BUCKET_SELECTIONS.map(selection => (
+        <Button
+          key={selection.id}
+          size="sm"
+          variant={bucket === selection.id ? 'default' : 'ghost'}
+          onClick={() => onBucketChange(selection.id)}
+          className="h-8 rounded-none px-2 text-xs"
+          title={selection.id === 'auto' ? `Currently one bar per ${autoBucketSize}` : undefined}
+          aria-pressed={bucket === selection.id}
+        >
+          {selection.label}
+        </Button>
+      ))}
+    </div>
+  );
 }
 
-export function GainsChart({ deltaResponse, selectedActivity, chartType = 'cumulative', onTimeRangeSelect }: GainsChartProps) {
+export function GainsChart({
+  deltaResponse,
+  playerName,
+  selectedActivity,
+  chartType = 'cumulative',
+  stacked = false,
+  onStackedChange,
+  bucket = 'auto',
+  onBucketChange,
+  goals,
+  outlierRule = DEFAULT_ANOMALY_SETTINGS,
+  accountType,
+  showEfficiency = false,
+  onShowEfficiencyChange,
+  onTimeRangeSelect
+}: GainsChartProps) {
   const [customCeiling, setCustomCeiling] = useState<number | null>(null);
-  const [containerSize, setContainerSize] = useState({
-    width: typeof window !== 'undefined' ? Math.min(800, window.innerWidth - 32) : 800,
-    height: 320
-  });
   const containerRef = useRef<HTMLDivElement>(null);
-
-  // Generate chart data directly from deltas
-  const chartData = useMemo(() => {
-    return generateChartDataFromDeltas(deltaResponse, selectedActivity);
-  }, [deltaResponse, selectedActivity]);
-
-  // Generate overall XP data for anomaly detection (used even when specific activity is selected)
-  const overallChartData = useMemo(() => {
-    if (selectedActivity === 'OVERALL') return chartData;
-    return generateChartDataFromDeltas(deltaResponse, 'OVERALL');
-  }, [deltaResponse, selectedActivity, chartData]);
-
-  // Detect anomalies based on overall XP data
-  const anomalyTimestamps = useMemo(
-    () => detectAnomalyTimestamps(overallChartData),
-    [overallChartData]
+  const containerSize = useContainerSize(containerRef);
+  const exportRef = useRef<ChartExportHandle>(null);
+
+  // Series are built in the delta worker; anomalies come from overall XP even
+  // when a specific activity is selected
+  const { data: prepared, preparing } = useChartSeries(deltaResponse, selectedActivity, outlierRule);
+  const series = prepared?.series ?? null;
+
+  // Daily bars sum gains per calendar bucket, also in the worker
+  const autoBucketSize = useMemo(
+    () => resolveBucketSize('auto', ...getResponseSpan(deltaResponse)),
+    [deltaResponse]
+  );
+  const bucketSize = bucket === 'auto' ? autoBucketSize : bucket;
+  const { data: bucketed, preparing: bucketing } = useBucketedSeries(
+    chartType === 'daily' ? deltaResponse : null,
+    selectedActivity,
+    bucketSize
   );
+  // Efficient hours only go on the cumulative chart
+  const { data: efficiencySeries, preparing: pricing } = useEfficiencySeries(
+    chartType === 'cumulative' && showEfficiency ? deltaResponse : null,
+    accountType
+  );
+  const chartPreparing = chartType === 'daily' ? bucketing : preparing || pricing;
+  const chartReady = chartType === 'daily' ? bucketed !== null : series !== null;
 
   const valueLabel = useMemo(() => getValueLabel(selectedActivity), [selectedActivity]);
+  // Skill breakdowns only exist for overall XP
+  const canStack = chartType === 'daily' && (!selectedActivity || selectedActivity === 'OVERALL');
+  const lines = useMemo<ChartLine[]>(() => {
+    if (!series) return [];
+    const progress: ChartLine = { id: 'progress', label: valueLabel, color: getPlayerColor(0), series, showLevels: isSkillExperience(selectedActivity) };
+    return showEfficiency && efficiencySeries
+      ? [progress, { id: 'efficiency', label: 'Efficient Hours Played', color: getPlayerColor(1), series: efficiencySeries, axis: 'right' }]
+      : [progress];
+  }, [series, valueLabel, selectedActivity, showEfficiency, efficiencySeries]);
+  const goalLines = useMemo<ChartGoalLine[] | undefined>(
+    () => goals?.map(goal => ({ id: goal.id, value: goal.target, label: `Goal: ${formatGoalLabel(goal)}` })),
+    [goals]
+  );
 
   // Calculate base Y-axis domain - exclude anomaly days from the calculation
   const { domain: baseYAxisDomain } = useMemo(() => {
-    // Filter out data points from anomaly days when calculating the domain
-    const filteredData = chartData.filter(d => !anomalyTimestamps.has(d.timestamp));
+    if (!prepared) return { domain: [0, 100] as [number, number] };
+
+    const { series: { timestamps, cumulative }, anomalyTimestamps } = prepared;
+    let values: Float64Array;
+    let filtered: Float64Array;
+
+    if (chartType === 'cumulative') {
+      const anomalies = new Set(anomalyTimestamps);
+      values = cumulative;
+      // Filter out data points from anomaly days when calculating the domain
+      filtered = values.filter((_, i) => !anomalies.has(timestamps[i]));
+    } else {
+      if (!bucketed) return { domain: [0, 100] as [number, number] };
+      values = bucketed.dailyGains;
+      // Filter out buckets holding an anomaly
+      filtered = values.filter((_, i) => !containsAnomaly(anomalyTimestamps, bucketed.timestamps[i], bucketed.bucketEnds[i]));
+    }
+
     // Use filtered data if we have enough points, otherwise use all data
-    const dataForDomain = filteredData.length >= 2 ? filteredData : chartData;
     return calculateYAxisDomain(
-      dataForDomain,
-      chartType === 'cumulative' ? 'cumulativeValue' : 'dailyGain',
-      isSmallValueActivity(selectedActivity)
+      filtered.length >= 2 ? filtered : values,
+      chartType,
+      isSmallValueActivity(selectedActivity),
+      outlierRule
     );
-  }, [chartData, chartType, anomalyTimestamps, selectedActivity]);
+  }, [prepared, bucketed, chartType, selectedActivity, outlierRule]);
 
   // Reset custom ceiling when switching chart types or when data changes significantly
   useEffect(() => {
     setCustomCeiling(null);
-  }, [chartType, selectedActivity]);
-
-  // Track container size for WebGL chart
-  useEffect(() => {
-    const container = containerRef.current;
-    if (!container) return;
-
-    const updateSize = () => {
-      const rect = container.getBoundingClientRect();
-      // Cap width to viewport to prevent overflow
-      const maxWidth = typeof window !== 'undefined' ? window.innerWidth - 32 : rect.width;
-      setContainerSize({
-        width: Math.min(rect.width, maxWidth),
-        height: rect.height
-      });
-    };
-
-    updateSize();
-    const resizeObserver = new ResizeObserver(updateSize);
-    resizeObserver.observe(container);
-
-    return () => resizeObserver.disconnect();
-  }, []);
+  }, [chartType, selectedActivity, bucketSize]);
 
   // For daily gains, allow ceiling adjustment via dragging
   const yAxisDomain = chartType === 'daily' && customCeiling !== null
     ? [0, customCeiling]
     : baseYAxisDomain;
 
-  // Transform data for WebGL bar chart (daily gains)
-  const webglBarData = useMemo(() =>
-    chartData.map(d => ({
-      timestamp: d.timestamp,
-      value: d.dailyGain,
-      date: d.date,
-      skillBreakdown: d.skillBreakdown
-    })),
-    [chartData]
-  );
-
-  // Transform data for WebGL line chart (cumulative)
-  const webglLineData = useMemo(() =>
-    chartData.map(d => ({
-      timestamp: d.timestamp,
-      value: d.cumulativeValue,
-      dailyGain: d.dailyGain,
-      date: d.date,
-      level: d.level,
-      skillBreakdown: d.skillBreakdown
-    })),
-    [chartData]
-  );
-
   // Handle Y-axis max change from WebGL chart
   const handleYAxisMaxChange = useMemo(() => (max: number) => {
     setCustomCeiling(max);
   }, []);
 
-  if (chartData.length === 0) {
+  // Daily bars export the buckets on screen; with the efficient hours line each
+  // row says which series it belongs to
+  const getCsv = useCallback(() => {
+    if (chartType === 'daily') {
+      return {
+        header: ['bucketStart', 'bucketEnd', 'gain'],
+        rows: bucketed
+          ? Array.from(bucketed.timestamps, (start, i) => [
+              new Date(start).toISOString(),
+              new Date(bucketed.bucketEnds[i]).toISOString(),
+              bucketed.dailyGains[i]
+            ])
+          : []
+      };
+    }
+    return lines.length > 1
+      ? {
+          header: ['series', 'timestamp', 'value', 'dailyGain'],
+          rows: lines.flatMap(line => getSeriesCsvRows(line).map(row => [line.label, ...row]))
+        }
+      : {
+          header: ['timestamp', 'value', 'dailyGain'],
+          rows: lines.flatMap(getSeriesCsvRows)
+        };
+  }, [chartType, bucketed, lines]);
+
+  if (series && series.timestamps.length === 0) {
     return (
       <div className="h-64 flex items-center justify-center text-muted-foreground">
         No data available for chart
@@ -428,13 +348,50 @@ export function GainsChart({ deltaResponse, selectedActivity, chartType = 'cumul
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-base sm:text-lg font-semibold">
-          {chartType === 'cumulative' ? 'Progress Over Time' : 'Daily Gains'}
+          {chartType === 'cumulative' ? 'Progress Over Time' : BUCKET_TITLES[bucketSize]}
           {selectedActivity && (
             <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-normal text-muted-foreground">
               ({formatActivityTypeName(selectedActivity)})
             </span>
           )}
         </h3>
+        <div className="flex flex-wrap items-center justify-end gap-1 sm:gap-2">
+          {chartType === 'daily' && onBucketChange && (
+            <BucketPicker bucket={bucket} autoBucketSize={autoBucketSize} onBucketChange={onBucketChange} />
+          )}
+          {canStack && onStackedChange && (
+            <Button
+              size="sm"
+              variant={stacked ? 'default' : 'outline'}
+              onClick={() => onStackedChange(!stacked)}
+              className="h-8 px-2 sm:px-3"
+              aria-pressed={stacked}
+            >
+              <Layers className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="text-xs sm:text-sm">By Skill</span>
+            </Button>
+          )}
+          {chartType === 'cumulative' && onShowEfficiencyChange && (
+            <Button
+              size="sm"
+              variant={showEfficiency ? 'default' : 'outline'}
+              onClick={() => onShowEfficiencyChange(!showEfficiency)}
+              className="h-8 px-2 sm:px-3"
+              title="Plot efficient hours played on the right axis"
+              aria-pressed={showEfficiency}
+            >
+              <Hourglass className="h-4 w-4 mr-1 sm:mr-2" />
+              <span className="text-xs sm:text-sm">EHP</span>
+            </Button>
+          )}
+          {chartReady && (
+            <ChartExportMenu
+              chartRef={exportRef}
+              filename={getExportFilename(playerName ?? '', selectedActivity ?? 'overall', chartType === 'daily' ? `${bucketSize}-gains` : 'progress')}
+              getCsv={getCsv}
+            />
+          )}
+        </div>
       </div>
 
       <div
@@ -442,28 +399,127 @@ export function GainsChart({ deltaResponse, selectedActivity, chartType = 'cumul
         className="h-64 sm:h-80 relative overflow-hidden w-full"
         style={{ maxWidth: 'calc(100vw - 2rem)' }}
       >
-        {chartType === 'cumulative' ? (
+        {chartPreparing && chartReady && (
+          <div className="absolute top-2 right-2 z-10 animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+        )}
+        {!series ? (
+          <LoadProgressIndicator progress={null} className="h-full" />
+        ) : chartType === 'cumulative' ? (
           /* WebGL-accelerated line chart for cumulative progress */
           <WebGLLineChart
-            data={webglLineData}
+            lines={lines}
             width={containerSize.width}
             height={containerSize.height}
             valueLabel={valueLabel}
+            goalLines={goalLines}
             onTimeRangeSelect={onTimeRangeSelect}
+            exportRef={exportRef}
           />
+        ) : !bucketed ? (
+          <LoadProgressIndicator progress={null} className="h-full" />
         ) : (
           /* WebGL-accelerated bar chart for daily gains */
           <WebGLBarChart
-            data={webglBarData}
+            series={bucketed}
             yAxisMax={yAxisDomain[1]}
             yAxisMinMax={isSmallValueActivity(selectedActivity) ? 10 : 100}
             onYAxisMaxChange={handleYAxisMaxChange}
+            stacked={canStack && stacked}
             width={containerSize.width}
             height={containerSize.height}
             onTimeRangeSelect={onTimeRangeSelect}
+            exportRef={exportRef}
           />
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// One line per player over the same range, colored in selection order
+export function ComparisonChart({
+  players,
+  playerNames,
+  selectedActivity,
+  normalized = false,
+  onTimeRangeSelect
+}: ComparisonChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const containerSize = useContainerSize(containerRef);
+
+  const exportRef = useRef<ChartExportHandle>(null);
+
+  const { data: playerSeries, preparing } = useComparisonSeries(players, selectedActivity);
+
+  const valueLabel = useMemo(() => {
+    const label = getValueLabel(selectedActivity);
+    return normalized ? `${label} Gained` : label;
+  }, [selectedActivity, normalized]);
+
+  const lines = useMemo<ChartLine[]>(() => {
+    if (!playerSeries) return [];
+    // Series may still be for the previous selection while new ones are prepared,
+    // so colors follow each player's current position rather than the series order
+    return playerSeries.map(({ userId, series }, index) => {
+      const position = players.findIndex(player => player.userId === userId);
+      return {
+        id: userId,
+        label: playerNames.get(userId) ?? userId,
+        color: getPlayerColor(position === -1 ? index : position),
+        series: normalized ? normalizeChartSeries(series) : series,
+        // Gains from zero aren't levels
+        showLevels: !normalized && isSkillExperience(selectedActivity)
+      };
+    });
+  }, [players, playerSeries, playerNames, normalized, selectedActivity]);
+
+  // Values are as plotted, so gains from zero when normalized
+  const getCsv = useCallback(() => ({
+    header: ['player', 'timestamp', 'value', 'dailyGain'],
+    rows: lines.flatMap(line => getSeriesCsvRows(line).map(row => [line.label, ...row]))
+  }), [lines]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base sm:text-lg font-semibold">
+          {normalized ? 'Gains Since Start of Range' : 'Progress Over Time'}
+          {selectedActivity && (
+            <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-normal text-muted-foreground">
+              ({formatActivityTypeName(selectedActivity)})
+            </span>
+          )}
+        </h3>
+        {playerSeries && (
+          <ChartExportMenu
+            chartRef={exportRef}
+            filename={getExportFilename('comparison', selectedActivity ?? 'overall', normalized ? 'gained' : 'progress')}
+            getCsv={getCsv}
+          />
+        )}
+      </div>
+
+      <div
+        ref={containerRef}
+        className="h-64 sm:h-80 relative overflow-hidden w-full"
+        style={{ maxWidth: 'calc(100vw - 2rem)' }}
+      >
+        {preparing && playerSeries && (
+          <div className="absolute top-2 right-2 z-10 animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+        )}
+        {!playerSeries ? (
+          <LoadProgressIndicator progress={null} className="h-full" />
+        ) : (
+          <WebGLLineChart
+            lines={lines}
+            width={containerSize.width}
+            height={containerSize.height}
+            valueLabel={valueLabel}
+            onTimeRangeSelect={onTimeRangeSelect}
+            exportRef={exportRef}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
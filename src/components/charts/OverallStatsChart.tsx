@@ -1,13 +1,13 @@
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { OverallStatsDataPoint } from '@/lib/dataUtils';
+import type { CombatStyle } from '@/lib/derivedStats';
 
-interface OverallStatsDataPoint {
-  timestamp: string;
-  totalLevel: number;
-  totalExperience: number;
-  combatLevel: number;
-  date: Date;
-}
+const COMBAT_STYLE_NAMES: Record<CombatStyle, string> = {
+  melee: 'Melee',
+  ranged: 'Ranged',
+  magic: 'Magic'
+};
 
 interface OverallStatsChartProps {
   data: OverallStatsDataPoint[];
@@ -26,14 +26,17 @@ export function OverallStatsChart({
     });
   };
 
-  const formatTooltip = (value: number, name: string) => {
-    switch (name) {
+  // Lines have display names, so match on the data key
+  const formatTooltip = (value: number, name: string, item: { dataKey?: unknown; payload?: OverallStatsDataPoint }) => {
+    switch (item.dataKey ?? name) {
       case 'totalLevel':
         return [value, 'Total Level'];
+      case 'virtualTotalLevel':
+        return [value, 'Virtual Total Level'];
       case 'totalExperience':
         return [value.toLocaleString(), 'Total XP'];
       case 'combatLevel':
-        return [value, 'Combat Level'];
+        return [value, item.payload ? `Combat Level (${COMBAT_STYLE_NAMES[item.payload.combatStyle]})` : 'Combat Level'];
       default:
         return [value, name];
     }
@@ -78,6 +81,14 @@ export function OverallStatsChart({
                 strokeWidth={2}
                 name="Total Level"
               />
+              <Line 
+                type="monotone" 
+                dataKey="virtualTotalLevel" 
+                stroke="hsl(var(--primary))" 
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                name="Virtual Total Level"
+              />
               <Line 
                 type="monotone" 
                 dataKey="combatLevel" 
@@ -1,5 +1,6 @@
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getFractionalLevel } from '@/lib/experience';
 
 interface SkillDataPoint {
   timestamp: string;
@@ -29,7 +30,7 @@ export function SkillProgressChart({
 
   const formatTooltip = (value: number, name: string) => {
     if (name === 'experience') {
-      return [value.toLocaleString(), 'Experience'];
+      return [`${value.toLocaleString()} (level ${getFractionalLevel(value).toFixed(2)})`, 'Experience'];
     }
     return [value, 'Level'];
   };
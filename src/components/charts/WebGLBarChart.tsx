@@ -1,86 +1,214 @@
-import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import { useRef, useEffect, useCallback, useState, useMemo, useImperativeHandle, type Ref } from 'react';
+import type { ActivityType } from '@/types/api';
 import { formatNumber } from '@/lib/dataUtils';
-
-interface SkillGain {
-  skill: string;
-  experience: number;
-}
-
-interface DataPoint {
-  timestamp: number;
-  value: number;
-  date: string;
-  skillBreakdown?: SkillGain[];
-}
+import { getSkillColor, OTHER_SKILLS_COLOR } from '@/lib/chartColors';
+import { formatBucketLabel } from '@/lib/timeBuckets';
+import {
+  buildAxisLayers,
+  buildLegendLayer,
+  captureWebGLCanvas,
+  mergeLayers,
+  type ChartExportHandle,
+  type ChartPicture,
+  type PictureRect
+} from '@/lib/chartExport';
+import type { BucketedSeries } from '@/lib/chartSeries';
 
 interface WebGLBarChartProps {
-  data: DataPoint[];
+  // One bar per bucket, spanning `timestamps[i]` to `bucketEnds[i]`
+  series: BucketedSeries;
   yAxisMax: number;
   yAxisMinMax?: number; // Minimum value for yAxisMax when dragging (default 100)
   onYAxisMaxChange?: (max: number) => void;
   barColor?: string;
   overflowColor?: string;
+  // Split each bar into its top skills from `skillBreakdowns`
+  stacked?: boolean;
   width?: number;
   height?: number;
   onTimeRangeSelect?: (startTime: Date, endTime: Date) => void;
+  exportRef?: Ref<ChartExportHandle>;
+}
+
+// A skill in stacked mode, or the remainder its top skills don't cover
+interface StackSkill {
+  key: ActivityType | typeof OTHER_SKILLS_KEY;
+  label: string;
+  color: string;
+  hidden: boolean;
+}
+
+interface BarSegment {
+  // Index into StackedBars.skills
+  skill: number;
+  base: number;
+  value: number;
+}
+
+interface StackedBars {
+  // Legend order: most gained over the series first, the remainder last
+  skills: StackSkill[];
+  // Bottom to top, per bar
+  segments: BarSegment[][];
 }
 
-// Vertex shader - transforms bar positions based on timestamp
+const OTHER_SKILLS_KEY = 'OTHER';
+
+// Stack each bar's top skills in legend order so a skill sits at the same
+// height in every bar; hidden skills are left out and the stack shrinks.
+// If only hidden skills remain for this series, show them all again.
+function buildStackedBars(series: BucketedSeries, hiddenSkills: ReadonlySet<string>): StackedBars {
+  const totals = new Map<ActivityType, { label: string; experience: number }>();
+  let hasOther = false;
+
+  for (let i = 0; i < series.dailyGains.length; i++) {
+    if (series.dailyGains[i] <= 0) continue;
+
+    let covered = 0;
+    for (const gain of series.skillBreakdowns[i] ?? []) {
+      const total = totals.get(gain.activityType);
+      if (total) {
+        total.experience += gain.experience;
+      } else {
+        totals.set(gain.activityType, { label: gain.skill, experience: gain.experience });
+      }
+      covered += gain.experience;
+    }
+    if (series.dailyGains[i] - covered >= 1) hasOther = true;
+  }
+
+  const skills: StackSkill[] = Array.from(totals.entries())
+    .sort((a, b) => b[1].experience - a[1].experience)
+    .map(([activityType, { label }]) => ({ key: activityType, label, color: getSkillColor(activityType), hidden: false }));
+  if (hasOther) {
+    skills.push({ key: OTHER_SKILLS_KEY, label: 'Other', color: OTHER_SKILLS_COLOR, hidden: false });
+  }
+  if (skills.some(skill => !hiddenSkills.has(skill.key))) {
+    skills.forEach(skill => { skill.hidden = hiddenSkills.has(skill.key); });
+  }
+  const skillIndices = new Map(skills.map((skill, index) => [skill.key, index]));
+  const otherIndex = skillIndices.get(OTHER_SKILLS_KEY);
+
+  const segments = Array.from(series.dailyGains, (dailyGain, i) => {
+    const bar: BarSegment[] = [];
+    if (dailyGain <= 0) return bar;
+
+    const breakdown = [...(series.skillBreakdowns[i] ?? [])]
+      .sort((a, b) => skillIndices.get(a.activityType)! - skillIndices.get(b.activityType)!);
+
+    let base = 0;
+    let covered = 0;
+    for (const gain of breakdown) {
+      covered += gain.experience;
+      const skill = skillIndices.get(gain.activityType)!;
+      if (skills[skill].hidden) continue;
+      bar.push({ skill, base, value: gain.experience });
+      base += gain.experience;
+    }
+
+    const other = dailyGain - covered;
+    if (otherIndex !== undefined && other >= 1 && !skills[otherIndex].hidden) {
+      bar.push({ skill: otherIndex, base, value: other });
+    }
+    return bar;
+  });
+
+  return { skills, segments };
+}
+
+// Bucket containing the timestamp, else the one whose center is closest
+function findBucketAt(series: BucketedSeries, timestamp: number): number {
+  let closestIndex = 0;
+  let closestDistance = Infinity;
+
+  for (let i = 0; i < series.timestamps.length; i++) {
+    if (timestamp >= series.timestamps[i] && timestamp < series.bucketEnds[i]) return i;
+
+    const distance = Math.abs((series.timestamps[i] + series.bucketEnds[i]) / 2 - timestamp);
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestIndex = i;
+    }
+  }
+  return closestIndex;
+}
+
+// Vertex shader - transforms bar segment positions based on timestamp
+// Unstacked bars are a single segment from zero
 const VERTEX_SHADER = `
   attribute vec2 a_position;
+  attribute float a_base;
   attribute float a_value;
+  attribute float a_total;
   attribute float a_timestamp;
+  attribute float a_bucketEnd;
+  attribute vec3 a_color;
+  attribute float a_skill;
 
   uniform vec2 u_resolution;
   uniform float u_yAxisMax;
-  uniform float u_barWidth;
+  uniform float u_minBarWidth;
   uniform float u_marginLeft;
   uniform float u_marginRight;
   uniform float u_marginTop;
   uniform float u_marginBottom;
   uniform float u_minTimestamp;
   uniform float u_maxTimestamp;
+  uniform float u_isolatedSkill;
 
-  varying float v_value;
+  varying float v_total;
   varying float v_yAxisMax;
+  varying vec3 v_color;
+  varying float v_dimmed;
 
   void main() {
     float chartWidth = u_resolution.x - u_marginLeft - u_marginRight;
     float chartHeight = u_resolution.y - u_marginTop - u_marginBottom;
 
-    // Calculate bar position based on timestamp (time-proportional)
+    // Bars span their bucket (time-proportional), leaving a gap between neighbours
     float timeRange = u_maxTimestamp - u_minTimestamp;
-    float normalizedTime = (a_timestamp - u_minTimestamp) / timeRange;
-    float x = u_marginLeft + normalizedTime * chartWidth + a_position.x * u_barWidth * 0.5;
+    float left = (a_timestamp - u_minTimestamp) / timeRange * chartWidth;
+    float right = (a_bucketEnd - u_minTimestamp) / timeRange * chartWidth;
+    float halfWidth = max((right - left) * 0.4, u_minBarWidth * 0.5);
+    float x = u_marginLeft + (left + right) * 0.5 + a_position.x * halfWidth;
 
-    // Clamp height to yAxisMax for display
-    float normalizedHeight = min(a_value / u_yAxisMax, 1.0);
-    float y = u_marginBottom + a_position.y * normalizedHeight * chartHeight;
+    // Clamp both ends of the segment to yAxisMax for display
+    float bottom = min(a_base / u_yAxisMax, 1.0);
+    float top = min((a_base + a_value) / u_yAxisMax, 1.0);
+    float y = u_marginBottom + mix(bottom, top, a_position.y) * chartHeight;
 
     // Convert to clip space (-1 to 1)
     vec2 clipSpace = (vec2(x, y) / u_resolution) * 2.0 - 1.0;
 
     gl_Position = vec4(clipSpace.x, clipSpace.y, 0, 1);
 
-    v_value = a_value;
+    v_total = a_total;
     v_yAxisMax = u_yAxisMax;
+    v_color = a_color;
+    // Fade every other skill while one is isolated
+    v_dimmed = u_isolatedSkill >= 0.0 && abs(a_skill - u_isolatedSkill) > 0.5 ? 1.0 : 0.0;
   }
 `;
 
 // Fragment shader - colors bars that exceed yAxisMax
 // yAxisMax is calculated excluding overall anomaly days, so overflow = anomaly
+// Stacked segments keep their skill color instead
 const FRAGMENT_SHADER = `
   precision mediump float;
 
   uniform vec3 u_barColor;
   uniform vec3 u_overflowColor;
+  uniform float u_stacked;
 
-  varying float v_value;
+  varying float v_total;
   varying float v_yAxisMax;
+  varying vec3 v_color;
+  varying float v_dimmed;
 
   void main() {
-    vec3 color = v_value > v_yAxisMax ? u_overflowColor : u_barColor;
-    gl_FragColor = vec4(color, 1.0);
+    vec3 color = u_stacked > 0.5 ? v_color : (v_total > v_yAxisMax ? u_overflowColor : u_barColor);
+    float alpha = v_dimmed > 0.5 ? 0.2 : 1.0;
+    gl_FragColor = vec4(color * alpha, alpha);
   }
 `;
 
@@ -130,15 +258,17 @@ function hexToRgb(hex: string): [number, number, number] {
 }
 
 export function WebGLBarChart({
-  data,
+  series,
   yAxisMax,
   yAxisMinMax = 100,
   onYAxisMaxChange,
   barColor = '#10b981',
   overflowColor = '#f59e0b',
+  stacked = false,
   width = 800,
   height = 320,
-  onTimeRangeSelect
+  onTimeRangeSelect,
+  exportRef
 }: WebGLBarChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
@@ -147,8 +277,14 @@ export function WebGLBarChart({
   const isYAxisDragging = useRef(false);
   const dragStartY = useRef(0);
   const dragStartMax = useRef(0);
+  const vertexCountRef = useRef(0);
+  // Overrides the display's pixel ratio while rendering an export
+  const pixelRatioRef = useRef<number | null>(null);
 
   const [hoveredBar, setHoveredBar] = useState<number | null>(null);
+  // Index into stackedBars.skills of the segment under the cursor
+  const [hoveredSkill, setHoveredSkill] = useState<number | null>(null);
+  const [hiddenSkills, setHiddenSkills] = useState<ReadonlySet<string>>(() => new Set());
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [hoverLineX, setHoverLineX] = useState<number | null>(null);
 
@@ -171,6 +307,24 @@ export function WebGLBarChart({
   // Check if mobile
   const isMobile = width < 500;
 
+  const stackedBars = useMemo(
+    () => stacked ? buildStackedBars(series, hiddenSkills) : null,
+    [stacked, series, hiddenSkills]
+  );
+
+  const toggleSkill = useCallback((key: string) => {
+    setHiddenSkills(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+    setHoveredSkill(null);
+  }, []);
+
   // Responsive margins - smaller on mobile
   const margins = useMemo(() => {
     return {
@@ -193,11 +347,11 @@ export function WebGLBarChart({
 
   // Calculate X-axis ticks (months)
   const xAxisTicks = useMemo(() => {
-    if (data.length === 0) return [];
+    if (series.timestamps.length === 0) return [];
 
     const ticks: { timestamp: number; label: string }[] = [];
-    const startDate = new Date(data[0].timestamp);
-    const endDate = new Date(data[data.length - 1].timestamp);
+    const startDate = new Date(series.timestamps[0]);
+    const endDate = new Date(series.bucketEnds[series.bucketEnds.length - 1]);
 
     // Check if range spans multiple years
     const spansMultipleYears = startDate.getFullYear() !== endDate.getFullYear();
@@ -214,7 +368,7 @@ export function WebGLBarChart({
       current.setMonth(current.getMonth() + 1);
     }
     return ticks;
-  }, [data]);
+  }, [series]);
 
   // Initialize WebGL
   useEffect(() => {
@@ -243,7 +397,7 @@ export function WebGLBarChart({
     uniformsRef.current = {
       u_resolution: gl.getUniformLocation(program, 'u_resolution'),
       u_yAxisMax: gl.getUniformLocation(program, 'u_yAxisMax'),
-      u_barWidth: gl.getUniformLocation(program, 'u_barWidth'),
+      u_minBarWidth: gl.getUniformLocation(program, 'u_minBarWidth'),
       u_marginLeft: gl.getUniformLocation(program, 'u_marginLeft'),
       u_marginRight: gl.getUniformLocation(program, 'u_marginRight'),
       u_marginTop: gl.getUniformLocation(program, 'u_marginTop'),
@@ -251,7 +405,9 @@ export function WebGLBarChart({
       u_minTimestamp: gl.getUniformLocation(program, 'u_minTimestamp'),
       u_maxTimestamp: gl.getUniformLocation(program, 'u_maxTimestamp'),
       u_barColor: gl.getUniformLocation(program, 'u_barColor'),
-      u_overflowColor: gl.getUniformLocation(program, 'u_overflowColor')
+      u_overflowColor: gl.getUniformLocation(program, 'u_overflowColor'),
+      u_stacked: gl.getUniformLocation(program, 'u_stacked'),
+      u_isolatedSkill: gl.getUniformLocation(program, 'u_isolatedSkill')
     };
 
     return () => {
@@ -265,126 +421,127 @@ export function WebGLBarChart({
   useEffect(() => {
     const gl = glRef.current;
     const program = programRef.current;
-    if (!gl || !program || data.length === 0) return;
+    if (!gl || !program || series.timestamps.length === 0) return;
 
     gl.useProgram(program);
 
-    // Build vertex data for bars (2 triangles per bar = 6 vertices)
-    const vertexData: number[] = [];
-    const valueData: number[] = [];
-    const timestampData: number[] = [];
-
-    data.forEach((point) => {
-      // Each bar is a rectangle made of 2 triangles
-      // Vertex positions relative to bar center (x: -1 to 1, y: 0 to 1)
-      const positions = [
-        [-1, 0], [1, 0], [1, 1],  // Triangle 1
-        [-1, 0], [1, 1], [-1, 1]  // Triangle 2
-      ];
-
-      positions.forEach(([x, y]) => {
-        vertexData.push(x, y);
-        valueData.push(point.value);
-        timestampData.push(point.timestamp);
-      });
-    });
-
-    // Position buffer
-    const positionBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(vertexData), gl.STATIC_DRAW);
+    // Build vertex data for segments (2 triangles per segment = 6 vertices);
+    // each bar is one segment, or one per skill when stacked
+    const barCount = series.timestamps.length;
+    const segmentCount = stackedBars
+      ? stackedBars.segments.reduce((sum, bar) => sum + bar.length, 0)
+      : barCount;
+    const vertexData = new Float32Array(segmentCount * 12);
+    const baseData = new Float32Array(segmentCount * 6);
+    const valueData = new Float32Array(segmentCount * 6);
+    const totalData = new Float32Array(segmentCount * 6);
+    const timestampData = new Float32Array(segmentCount * 6);
+    const bucketEndData = new Float32Array(segmentCount * 6);
+    const colorData = new Float32Array(segmentCount * 18);
+    const skillData = new Float32Array(segmentCount * 6);
+
+    // Each segment is a rectangle made of 2 triangles
+    // Vertex positions relative to segment center (x: -1 to 1, y: bottom 0 to top 1)
+    const positions = [
+      [-1, 0], [1, 0], [1, 1],  // Triangle 1
+      [-1, 0], [1, 1], [-1, 1]  // Triangle 2
+    ];
 
-    const positionLoc = gl.getAttribLocation(program, 'a_position');
-    gl.enableVertexAttribArray(positionLoc);
-    gl.vertexAttribPointer(positionLoc, 2, gl.FLOAT, false, 0, 0);
+    const skillColors = stackedBars?.skills.map(skill => hexToRgb(skill.color)) ?? [];
+    let segment = 0;
+    const addSegment = (bar: number, base: number, value: number, skill: number) => {
+      const color = skillColors[skill] ?? [0, 0, 0];
+      positions.forEach(([x, y], v) => {
+        const vertex = segment * 6 + v;
+        vertexData[vertex * 2] = x;
+        vertexData[vertex * 2 + 1] = y;
+        baseData[vertex] = base;
+        valueData[vertex] = value;
+        totalData[vertex] = series.dailyGains[bar];
+        timestampData[vertex] = series.timestamps[bar];
+        bucketEndData[vertex] = series.bucketEnds[bar];
+        colorData.set(color, vertex * 3);
+        skillData[vertex] = skill;
+      });
+      segment++;
+    };
 
-    // Value buffer
-    const valueBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, valueBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(valueData), gl.STATIC_DRAW);
+    for (let i = 0; i < barCount; i++) {
+      if (stackedBars) {
+        for (const { skill, base, value } of stackedBars.segments[i]) {
+          addSegment(i, base, value, skill);
+        }
+      } else {
+        addSegment(i, 0, series.dailyGains[i], -1);
+      }
+    }
+    vertexCountRef.current = segmentCount * 6;
 
-    const valueLoc = gl.getAttribLocation(program, 'a_value');
-    gl.enableVertexAttribArray(valueLoc);
-    gl.vertexAttribPointer(valueLoc, 1, gl.FLOAT, false, 0, 0);
+    const createAttributeBuffer = (name: string, data: Float32Array, size: number) => {
+      const buffer = gl.createBuffer();
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
 
-    // Timestamp buffer
-    const timestampBuffer = gl.createBuffer();
-    gl.bindBuffer(gl.ARRAY_BUFFER, timestampBuffer);
-    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(timestampData), gl.STATIC_DRAW);
+      const location = gl.getAttribLocation(program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, 0, 0);
+      return buffer;
+    };
 
-    const timestampLoc = gl.getAttribLocation(program, 'a_timestamp');
-    gl.enableVertexAttribArray(timestampLoc);
-    gl.vertexAttribPointer(timestampLoc, 1, gl.FLOAT, false, 0, 0);
+    const buffers = [
+      createAttributeBuffer('a_position', vertexData, 2),
+      createAttributeBuffer('a_base', baseData, 1),
+      createAttributeBuffer('a_value', valueData, 1),
+      createAttributeBuffer('a_total', totalData, 1),
+      createAttributeBuffer('a_timestamp', timestampData, 1),
+      createAttributeBuffer('a_bucketEnd', bucketEndData, 1),
+      createAttributeBuffer('a_color', colorData, 3),
+      createAttributeBuffer('a_skill', skillData, 1)
+    ];
 
     return () => {
-      gl.deleteBuffer(positionBuffer);
-      gl.deleteBuffer(valueBuffer);
-      gl.deleteBuffer(timestampBuffer);
+      buffers.forEach(buffer => gl.deleteBuffer(buffer));
     };
-  }, [data]);
+  }, [series, stackedBars]);
 
-  // Calculate full time range from data
+  // Calculate full time range from data, from the first bucket's start to the last one's end
   const fullTimeRange = useMemo(() => {
-    if (data.length === 0) return { min: 0, max: 1 };
+    if (series.timestamps.length === 0) return { min: 0, max: 1 };
     return {
-      min: data[0].timestamp,
-      max: data[data.length - 1].timestamp
+      min: series.timestamps[0],
+      max: series.bucketEnds[series.bucketEnds.length - 1]
     };
-  }, [data]);
-
-  // Calculate time range and minimum gap for positioning
-  const { timeRange, minGap } = useMemo(() => {
-    if (data.length === 0) return { timeRange: { min: 0, max: 1 }, minGap: 1 };
-
-    let minTimeGap = Infinity;
-    for (let i = 1; i < data.length; i++) {
-      const gap = data[i].timestamp - data[i - 1].timestamp;
-      if (gap > 0 && gap < minTimeGap) {
-        minTimeGap = gap;
-      }
-    }
+  }, [series]);
 
-    // Use viewRange if set (for zoom/pan), normalized to min/max
-    const range = viewRange
-      ? { min: viewRange.start, max: viewRange.end }
-      : { min: data[0].timestamp, max: data[data.length - 1].timestamp };
-
-    return {
-      timeRange: range,
-      minGap: minTimeGap === Infinity ? 1 : minTimeGap
-    };
-  }, [data, viewRange]);
+  // Use viewRange if set (for zoom/pan)
+  const timeRange = useMemo(
+    () => viewRange ? { min: viewRange.start, max: viewRange.end } : fullTimeRange,
+    [viewRange, fullTimeRange]
+  );
 
   // Reset view range when data changes
   useEffect(() => {
     setViewRange(null);
-  }, [data]);
+  }, [series]);
 
   // Render function - only updates uniforms, GPU does the rest
   const render = useCallback(() => {
     const gl = glRef.current;
     const program = programRef.current;
     const uniforms = uniformsRef.current;
-    if (!gl || !program || data.length === 0) return;
+    if (!gl || !program || series.timestamps.length === 0) return;
 
-    const dpr = typeof window !== 'undefined' ? window.devicePixelRatio : 1;
+    const dpr = pixelRatioRef.current ?? (typeof window !== 'undefined' ? window.devicePixelRatio : 1);
     const scaledWidth = width * dpr;
     const scaledHeight = height * dpr;
 
     gl.useProgram(program);
 
-    // Calculate appropriate bar width based on minimum gap to prevent overlap
-    const chartWidth = width - margins.left - margins.right;
-    const totalTimeRange = timeRange.max - timeRange.min;
-    // Calculate the pixel width that corresponds to the minimum time gap
-    const minGapPixelWidth = totalTimeRange > 0 ? (minGap / totalTimeRange) * chartWidth : chartWidth;
-    // Bar width should be smaller than the minimum gap (70% of gap width, capped at 12px)
-    const barWidth = Math.max(2, Math.min(minGapPixelWidth * 0.7, 12));
-
     // Set uniforms using scaled dimensions
     gl.uniform2f(uniforms.u_resolution, scaledWidth, scaledHeight);
     gl.uniform1f(uniforms.u_yAxisMax, yAxisMax);
-    gl.uniform1f(uniforms.u_barWidth, barWidth * dpr);
+    // Keep bars for short buckets on long ranges at least a pixel wide
+    gl.uniform1f(uniforms.u_minBarWidth, dpr);
     gl.uniform1f(uniforms.u_marginLeft, margins.left * dpr);
     gl.uniform1f(uniforms.u_marginRight, margins.right * dpr);
     gl.uniform1f(uniforms.u_marginTop, margins.top * dpr);
@@ -396,15 +553,18 @@ export function WebGLBarChart({
     const overflowRgb = hexToRgb(overflowColor);
     gl.uniform3f(uniforms.u_barColor, barRgb[0], barRgb[1], barRgb[2]);
     gl.uniform3f(uniforms.u_overflowColor, overflowRgb[0], overflowRgb[1], overflowRgb[2]);
+    gl.uniform1f(uniforms.u_stacked, stackedBars ? 1 : 0);
+    // Only isolate while a bar is hovered so the fade clears when the cursor leaves
+    gl.uniform1f(uniforms.u_isolatedSkill, stackedBars && hoveredBar !== null ? hoveredSkill ?? -1 : -1);
 
     // Clear and draw using scaled viewport
     gl.viewport(0, 0, scaledWidth, scaledHeight);
     gl.clearColor(0, 0, 0, 0);
     gl.clear(gl.COLOR_BUFFER_BIT);
 
-    // Draw all bars (6 vertices per bar)
-    gl.drawArrays(gl.TRIANGLES, 0, data.length * 6);
-  }, [data, yAxisMax, width, height, margins, barColor, overflowColor, timeRange, minGap]);
+    // Draw all segments (6 vertices per segment)
+    gl.drawArrays(gl.TRIANGLES, 0, vertexCountRef.current);
+  }, [series, stackedBars, hoveredBar, hoveredSkill, yAxisMax, width, height, margins, barColor, overflowColor, timeRange]);
 
   // Re-render when yAxisMax changes
   useEffect(() => {
@@ -494,13 +654,26 @@ export function WebGLBarChart({
     setRangeEndX(null);
   }, [isRangeSelecting, rangeStartX, rangeEndX, onTimeRangeSelect, xToTimestamp]);
 
+  // Skill whose segment of the bar is under chart y, if any
+  const findSkillAt = useCallback((bar: number, y: number): number | null => {
+    if (!stackedBars) return null;
+
+    const chartHeight = height - margins.top - margins.bottom;
+    const value = ((height - margins.bottom - y) / chartHeight) * yAxisMax;
+    const segment = stackedBars.segments[bar]?.find(
+      ({ base, value: segmentValue }) => value >= base && value < base + segmentValue
+    );
+    return segment ? segment.skill : null;
+  }, [stackedBars, height, margins, yAxisMax]);
+
   // Handle hover for tooltips
   const handleCanvasMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || series.timestamps.length === 0) return;
 
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
 
     setMousePos({ x: e.clientX, y: e.clientY });
 
@@ -513,29 +686,19 @@ export function WebGLBarChart({
       const normalizedX = relativeX / chartWidth;
       const hoverTimestamp = timeRange.min + normalizedX * (timeRange.max - timeRange.min);
 
-      // Find the closest bar to this timestamp
-      let closestIndex = 0;
-      let closestDistance = Math.abs(data[0].timestamp - hoverTimestamp);
-
-      for (let i = 1; i < data.length; i++) {
-        const distance = Math.abs(data[i].timestamp - hoverTimestamp);
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestIndex = i;
-        }
-      }
-
-      // Only show hover if we're reasonably close to a bar
-      const barTimestamp = data[closestIndex].timestamp;
+      // Find the bar whose bucket covers this timestamp
+      const closestIndex = findBucketAt(series, hoverTimestamp);
+      const barTimestamp = (series.timestamps[closestIndex] + series.bucketEnds[closestIndex]) / 2;
       const barX = margins.left + ((barTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
 
       setHoveredBar(closestIndex);
+      setHoveredSkill(findSkillAt(closestIndex, y));
       setHoverLineX(barX);
     } else {
       setHoveredBar(null);
       setHoverLineX(null);
     }
-  }, [data, width, margins, timeRange]);
+  }, [series, width, margins, timeRange, findSkillAt]);
 
   const handleCanvasMouseLeave = useCallback(() => {
     setHoveredBar(null);
@@ -545,33 +708,25 @@ export function WebGLBarChart({
   // Helper to update indicator position from touch
   const updateIndicatorFromTouch = useCallback((clientX: number, clientY: number, rect: DOMRect) => {
     const x = clientX - rect.left;
+    const y = clientY - rect.top;
     setMousePos({ x: clientX, y: clientY });
 
     const chartWidth = width - margins.left - margins.right;
     const relativeX = x - margins.left;
 
-    if (relativeX >= 0 && relativeX <= chartWidth && data.length > 0) {
+    if (relativeX >= 0 && relativeX <= chartWidth && series.timestamps.length > 0) {
       const normalizedX = relativeX / chartWidth;
       const hoverTimestamp = timeRange.min + normalizedX * (timeRange.max - timeRange.min);
 
-      let closestIndex = 0;
-      let closestDistance = Math.abs(data[0].timestamp - hoverTimestamp);
-
-      for (let i = 1; i < data.length; i++) {
-        const distance = Math.abs(data[i].timestamp - hoverTimestamp);
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestIndex = i;
-        }
-      }
-
-      const barTimestamp = data[closestIndex].timestamp;
+      const closestIndex = findBucketAt(series, hoverTimestamp);
+      const barTimestamp = (series.timestamps[closestIndex] + series.bucketEnds[closestIndex]) / 2;
       const barX = margins.left + ((barTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
 
       setHoveredBar(closestIndex);
+      setHoveredSkill(findSkillAt(closestIndex, y));
       setHoverLineX(barX);
     }
-  }, [data, width, margins, timeRange]);
+  }, [series, width, margins, timeRange, findSkillAt]);
 
   // Helper to clear long-press timeout
   const clearLongPressTimeout = useCallback(() => {
@@ -584,7 +739,7 @@ export function WebGLBarChart({
   // Touch support for mobile - Robinhood-style: single finger pan, long press for tooltip, pinch to zoom
   const handleTouchStart = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || series.timestamps.length === 0) return;
 
     if (e.touches.length === 2) {
       // Two-finger: pinch zoom only
@@ -614,11 +769,11 @@ export function WebGLBarChart({
         updateIndicatorFromTouch(touch.clientX, touch.clientY, rect);
       }, 400);
     }
-  }, [data, clearLongPressTimeout, updateIndicatorFromTouch]);
+  }, [series, clearLongPressTimeout, updateIndicatorFromTouch]);
 
   const handleTouchMove = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || series.timestamps.length === 0) return;
 
     const chartWidth = width - margins.left - margins.right;
     const currentRange = viewRange
@@ -703,7 +858,7 @@ export function WebGLBarChart({
         }
       }
     }
-  }, [data, width, margins, viewRange, fullTimeRange, clearLongPressTimeout, updateIndicatorFromTouch]);
+  }, [series, width, margins, viewRange, fullTimeRange, clearLongPressTimeout, updateIndicatorFromTouch]);
 
   const handleTouchEnd = useCallback(() => {
     clearLongPressTimeout();
@@ -736,18 +891,81 @@ export function WebGLBarChart({
 
   // Calculate tick positions for rendering
   const getXPosition = useCallback((timestamp: number) => {
-    if (data.length === 0) return 0;
-    const minTime = data[0].timestamp;
-    const maxTime = data[data.length - 1].timestamp;
+    if (series.timestamps.length === 0) return 0;
+    const minTime = series.timestamps[0];
+    const maxTime = series.bucketEnds[series.bucketEnds.length - 1];
     const chartWidth = width - margins.left - margins.right;
     return margins.left + ((timestamp - minTime) / (maxTime - minTime)) * chartWidth;
-  }, [data, width, margins]);
+  }, [series, width, margins]);
 
   const getYPosition = useCallback((value: number) => {
     const chartHeight = height - margins.top - margins.bottom;
     return height - margins.bottom - (value / yAxisMax) * chartHeight;
   }, [height, margins, yAxisMax]);
 
+  // The chart as drawn, for SVG and the axes/labels over a PNG capture
+  const getPicture = useCallback((): ChartPicture => {
+    const chartWidth = width - margins.left - margins.right;
+    const chartHeight = height - margins.top - margins.bottom;
+    const toX = (timestamp: number) => margins.left + ((timestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
+    const toY = (value: number) => height - margins.bottom - Math.min(value / yAxisMax, 1) * chartHeight;
+
+    // Same geometry as the vertex shader
+    const rects: PictureRect[] = [];
+    for (let i = 0; i < series.timestamps.length; i++) {
+      const left = toX(series.timestamps[i]);
+      const right = toX(series.bucketEnds[i]);
+      const halfWidth = Math.max((right - left) * 0.4, 0.5);
+      const segments = stackedBars ? stackedBars.segments[i] : [{ skill: -1, base: 0, value: series.dailyGains[i] }];
+
+      for (const { skill, base, value } of segments) {
+        if (value <= 0) continue;
+        const top = toY(base + value);
+        rects.push({
+          x: (left + right) / 2 - halfWidth,
+          y: top,
+          width: halfWidth * 2,
+          height: toY(base) - top,
+          color: stackedBars
+            ? stackedBars.skills[skill].color
+            : series.dailyGains[i] > yAxisMax ? overflowColor : barColor
+        });
+      }
+    }
+
+    const axes = buildAxisLayers({
+      width,
+      height,
+      margins,
+      yTicks: yAxisTicks.map(tick => ({ position: getYPosition(tick), label: formatNumber(tick) })),
+      xTicks: xAxisTicks.map(tick => ({ position: getXPosition(tick.timestamp), label: tick.label }))
+    });
+    const legend = stackedBars
+      ? buildLegendLayer(stackedBars.skills.filter(skill => !skill.hidden), margins.left + 12, margins.top + 14)
+      : {};
+
+    return {
+      width,
+      height,
+      plot: { x: margins.left, y: margins.top, width: chartWidth, height: chartHeight },
+      grid: axes.grid,
+      marks: { rects },
+      labels: mergeLayers(axes.labels, legend)
+    };
+  }, [series, stackedBars, width, height, margins, timeRange, yAxisMax, yAxisTicks, xAxisTicks, barColor, overflowColor, getXPosition, getYPosition]);
+
+  useImperativeHandle(exportRef, () => ({
+    getPicture,
+    captureCanvas: scale => {
+      const canvas = canvasRef.current;
+      if (!canvas || !glRef.current) return null;
+      return captureWebGLCanvas(canvas, width, height, scale, pixelRatio => {
+        pixelRatioRef.current = pixelRatio;
+        render();
+      });
+    }
+  }), [getPicture, render, width, height]);
+
   return (
     <div className="relative w-full h-full overflow-hidden" style={{ height }}>
       {/* Y-axis drag zone - subtle, only shows indicator on hover (hidden on mobile) */}
@@ -904,10 +1122,42 @@ export function WebGLBarChart({
         />
       )}
 
+      {/* Skill legend in stacked mode; click to show/hide */}
+      {stackedBars && stackedBars.skills.length > 0 && (() => {
+        const visibleCount = stackedBars.skills.filter(skill => !skill.hidden).length;
+        return (
+          <div
+            className="absolute flex flex-wrap gap-x-3 gap-y-1 px-2 py-1 text-xs bg-background/80 rounded"
+            style={{ left: margins.left + 4, top: margins.top + 4, maxWidth: width - margins.left - margins.right - 100 }}
+          >
+            {stackedBars.skills.map((skill, index) => {
+              const isHidden = skill.hidden;
+              // Keep at least one skill on the chart
+              const isLastVisible = !isHidden && visibleCount === 1;
+              const isIsolated = hoveredBar !== null && hoveredSkill === index;
+              return (
+                <button
+                  key={skill.key}
+                  onClick={() => toggleSkill(skill.key)}
+                  disabled={isLastVisible}
+                  className={`flex items-center gap-1.5 ${isHidden ? 'opacity-40 line-through' : ''} ${isIsolated ? 'font-semibold' : ''} ${isLastVisible ? 'cursor-default' : 'hover:text-foreground'}`}
+                  aria-pressed={!isHidden}
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: skill.color }} />
+                  <span className="truncate">{skill.label}</span>
+                </button>
+              );
+            })}
+          </div>
+        );
+      })()}
+
       {/* Tooltip */}
-      {hoveredBar !== null && data[hoveredBar] && (() => {
+      {hoveredBar !== null && hoveredBar < series.timestamps.length && (() => {
         const tooltipWidth = 220;
         const shouldFlipLeft = mousePos.x + tooltipWidth + 10 > window.innerWidth;
+        // Top of the stack first, matching the bar
+        const segments = stackedBars ? [...stackedBars.segments[hoveredBar]].reverse() : [];
         return (
         <div
           className="fixed z-50 bg-background border border-border rounded-lg p-3 shadow-lg pointer-events-none min-w-[200px]"
@@ -917,14 +1167,30 @@ export function WebGLBarChart({
             transform: 'translateY(-100%)'
           }}
         >
-          <p className="font-medium border-b border-border pb-1 mb-2">{data[hoveredBar].date}</p>
+          <p className="font-medium border-b border-border pb-1 mb-2">{formatBucketLabel(series.timestamps[hoveredBar], series.bucketEnds[hoveredBar], series.size)}</p>
           <p className="text-green-600 dark:text-green-400 font-medium mb-2">
-            Gain: +{formatNumber(data[hoveredBar].value)}
+            Gain: +{formatNumber(series.dailyGains[hoveredBar])}
           </p>
-          {data[hoveredBar].skillBreakdown && data[hoveredBar].skillBreakdown.length > 0 && (
+          {stackedBars ? segments.length > 0 && (
+            <div className="space-y-1">
+              {segments.map(({ skill, value }) => {
+                const { key, label, color } = stackedBars.skills[skill];
+                const isDimmed = hoveredSkill !== null && hoveredSkill !== skill;
+                return (
+                  <div key={key} className={`flex justify-between items-center text-xs ${isDimmed ? 'opacity-40' : ''}`}>
+                    <span className={`flex items-center gap-1.5 text-foreground ${hoveredSkill === skill ? 'font-semibold' : ''}`}>
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+                      {label}
+                    </span>
+                    <span className="text-green-600 dark:text-green-400 ml-2">+{formatNumber(value)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : series.skillBreakdowns[hoveredBar] && series.skillBreakdowns[hoveredBar]!.length > 0 && (
             <div className="space-y-1">
               <p className="text-muted-foreground text-xs font-medium mb-1">Top Skills:</p>
-              {data[hoveredBar].skillBreakdown!.map((skill, idx) => (
+              {series.skillBreakdowns[hoveredBar]!.map((skill, idx) => (
                 <div key={idx} className="flex justify-between items-center text-xs">
                   <span className="text-foreground capitalize">{skill.skill.toLowerCase()}</span>
                   <span className="text-green-600 dark:text-green-400 ml-2">+{formatNumber(skill.experience)}</span>
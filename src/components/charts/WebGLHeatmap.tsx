@@ -1,5 +1,19 @@
-import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo, useImperativeHandle, type Ref } from 'react';
 import { formatNumber } from '@/lib/dataUtils';
+import {
+  getHeatmapColor,
+  getHeatmapLegend,
+  getHeatmapLevelColor,
+  type HeatmapPaletteId,
+  type HeatmapScale
+} from '@/lib/heatmapScale';
+import {
+  captureWebGLCanvas,
+  type ChartExportHandle,
+  type ChartPicture,
+  type PictureRect,
+  type PictureText
+} from '@/lib/chartExport';
 
 interface SkillGain {
   skill: string;
@@ -8,7 +22,7 @@ interface SkillGain {
 
 interface HeatmapCell {
   date: Date;
-  experience: number;
+  value: number;
   weekIndex: number;
   dayOfWeek: number;
   month: number;
@@ -22,6 +36,11 @@ interface WebGLHeatmapProps {
   monthLabels: Array<{ label: string; weekIndex: number }>;
   width: number;
   height: number;
+  scale: HeatmapScale;
+  palette: HeatmapPaletteId;
+  // "XP", "KC" or "score"
+  unitLabel: string;
+  exportRef?: Ref<ChartExportHandle>;
 }
 
 // Vertex shader for rendering rounded rectangles
@@ -79,30 +98,13 @@ const FRAGMENT_SHADER = `
   }
 `;
 
-// Color thresholds matching the original component
-function getIntensityColor(experience: number, isDarkMode: boolean): [number, number, number, number] {
-  if (experience === 0) {
-    return isDarkMode ? [31, 41, 55, 1] : [243, 244, 246, 1]; // gray-800 / gray-100
-  }
+function toCssColor([r, g, b]: [number, number, number]): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
 
-  // Green scale based on XP thresholds
-  if (experience < 50_000) {
-    return isDarkMode ? [5, 46, 22, 1] : [220, 252, 231, 1]; // green-950 / green-100
-  } else if (experience < 150_000) {
-    return isDarkMode ? [20, 83, 45, 1] : [187, 247, 208, 1]; // green-900 / green-200
-  } else if (experience < 300_000) {
-    return isDarkMode ? [22, 101, 52, 1] : [134, 239, 172, 1]; // green-800 / green-300
-  } else if (experience < 500_000) {
-    return isDarkMode ? [21, 128, 61, 1] : [74, 222, 128, 1]; // green-700 / green-400
-  } else if (experience < 750_000) {
-    return isDarkMode ? [22, 163, 74, 1] : [34, 197, 94, 1]; // green-600 / green-500
-  } else if (experience < 1_000_000) {
-    return isDarkMode ? [34, 197, 94, 1] : [22, 163, 74, 1]; // green-500 / green-600
-  } else if (experience < 2_000_000) {
-    return isDarkMode ? [74, 222, 128, 1] : [21, 128, 61, 1]; // green-400 / green-700
-  } else {
-    return isDarkMode ? [134, 239, 172, 1] : [22, 101, 52, 1]; // green-300 / green-800
-  }
+// Linear and log bounds fall between whole numbers
+function formatLegendValue(value: number): string {
+  return formatNumber(Math.round(value));
 }
 
 function createShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
@@ -144,11 +146,23 @@ const MARGIN_LEFT = 40;
 const MARGIN_TOP = 30;
 const MIN_CELL_SIZE = 4;
 const MIN_CELL_GAP = 1;
-
-export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmapProps) {
+const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export function WebGLHeatmap({
+  cells,
+  monthLabels,
+  width,
+  height,
+  scale,
+  palette,
+  unitLabel,
+  exportRef
+}: WebGLHeatmapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
   const programRef = useRef<WebGLProgram | null>(null);
+  // Overrides the display's pixel ratio while rendering an export
+  const pixelRatioRef = useRef<number | null>(null);
   const [hoveredCell, setHoveredCell] = useState<HeatmapCell | null>(null);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -233,14 +247,14 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
   }, []);
 
   // Render the heatmap
-  useEffect(() => {
+  const render = useCallback(() => {
     const canvas = canvasRef.current;
     const gl = glRef.current;
     const program = programRef.current;
 
     if (!canvas || !gl || !program || cells.length === 0) return;
 
-    const dpr = window.devicePixelRatio || 1;
+    const dpr = pixelRatioRef.current ?? (window.devicePixelRatio || 1);
     const scaledWidth = width * dpr;
     const scaledHeight = height * dpr;
 
@@ -278,7 +292,7 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
 
           const x = marginLeft + colIdx * (scaledCellSize + scaledCellGap);
           const y = marginTop + dayIdx * (scaledCellSize + scaledCellGap);
-          const color = getIntensityColor(cell.experience, isDarkMode);
+          const color = getHeatmapColor(cell.value, scale, palette, isDarkMode);
 
           // Two triangles for each rectangle with UV coordinates
           // Triangle 1: top-left, top-right, bottom-left
@@ -299,7 +313,7 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
 
           // 6 vertices per cell
           for (let i = 0; i < 6; i++) {
-            colors.push(color[0] / 255, color[1] / 255, color[2] / 255, color[3]);
+            colors.push(color[0] / 255, color[1] / 255, color[2] / 255, 1);
           }
         });
       });
@@ -340,7 +354,79 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
     gl.deleteBuffer(positionBuffer);
     gl.deleteBuffer(colorBuffer);
     gl.deleteBuffer(uvBuffer);
-  }, [cells, weeks, width, height, isDarkMode, cellSize, cellGap]);
+  }, [cells, weeks, width, height, scale, palette, isDarkMode, cellSize, cellGap]);
+
+  useEffect(() => {
+    render();
+  }, [render]);
+
+  // The empty color, then one swatch per level in use
+  const legend = useMemo(() => getHeatmapLegend(scale), [scale]);
+  const legendLevels = useMemo(() => [0, ...legend.map(entry => entry.level)], [legend]);
+
+  // The heatmap as drawn, including the labels and legend around the canvas
+  const getPicture = useCallback((): ChartPicture => {
+    const step = cellSize + cellGap;
+    const rects: PictureRect[] = [];
+    Object.keys(weeks)
+      .sort((a, b) => Number(a) - Number(b))
+      .forEach((weekIdxStr, colIdx) => {
+        for (const cell of weeks[Number(weekIdxStr)]) {
+          rects.push({
+            x: MARGIN_LEFT + colIdx * step,
+            y: MARGIN_TOP + cell.dayOfWeek * step,
+            width: cellSize,
+            height: cellSize,
+            color: toCssColor(getHeatmapColor(cell.value, scale, palette, isDarkMode)),
+            radius: cellSize * 0.15
+          });
+        }
+      });
+
+    const texts: PictureText[] = [
+      ...monthLabels.map(label => ({ x: MARGIN_LEFT + label.weekIndex * step, y: 8, text: label.label })),
+      ...DAYS
+        .map((day, idx) => ({ x: MARGIN_LEFT - 8, y: MARGIN_TOP + idx * step + step / 2, text: day, anchor: 'end' as const }))
+        .filter((_, idx) => idx % 2 === 1)
+    ];
+
+    // "0 [swatches] <best day>" below the grid
+    const legendY = height + 16;
+    const swatchLeft = MARGIN_LEFT + 15;
+    const legendRects: PictureRect[] = legendLevels.map((level, idx) => ({
+      x: swatchLeft + idx * 16,
+      y: legendY - 6,
+      width: 12,
+      height: 12,
+      color: toCssColor(getHeatmapLevelColor(level, palette, isDarkMode)),
+      radius: 2
+    }));
+    texts.push(
+      { x: MARGIN_LEFT, y: legendY, text: '0' },
+      { x: swatchLeft + legendLevels.length * 16 + 4, y: legendY, text: `${formatNumber(scale.max)} ${unitLabel}` }
+    );
+
+    return {
+      width,
+      height: height + 60,
+      plot: { x: 0, y: 0, width, height },
+      grid: {},
+      marks: { rects },
+      labels: { rects: legendRects, texts }
+    };
+  }, [weeks, monthLabels, width, height, scale, palette, unitLabel, legendLevels, isDarkMode, cellSize, cellGap]);
+
+  useImperativeHandle(exportRef, () => ({
+    getPicture,
+    captureCanvas: scale => {
+      const canvas = canvasRef.current;
+      if (!canvas || !glRef.current) return null;
+      return captureWebGLCanvas(canvas, width, height, scale, pixelRatio => {
+        pixelRatioRef.current = pixelRatio;
+        render();
+      });
+    }
+  }), [getPicture, render, width, height]);
 
   // Handle mouse movement for hover
   const handleMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
@@ -401,8 +487,6 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
     setTimeout(() => setHoveredCell(null), 2000);
   }, []);
 
-  const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
-
   return (
     <div className="relative" style={{ width, height: height + 60 }}>
       {/* Month labels */}
@@ -462,17 +546,21 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
       >
         <span>0</span>
         <div className="flex gap-1">
-          <div className="w-3 h-3 rounded-sm bg-gray-100 dark:bg-gray-800" title="No XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-100 dark:bg-green-950" title="< 50k XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-200 dark:bg-green-900" title="50k-150k XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-300 dark:bg-green-800" title="150k-300k XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-400 dark:bg-green-700" title="300k-500k XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-500 dark:bg-green-600" title="500k-750k XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-600 dark:bg-green-500" title="750k-1M XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-700 dark:bg-green-400" title="1M-2M XP" />
-          <div className="w-3 h-3 rounded-sm bg-green-800 dark:bg-green-300" title="2M+ XP" />
+          <div
+            className="w-3 h-3 rounded-sm"
+            style={{ backgroundColor: toCssColor(getHeatmapLevelColor(0, palette, isDarkMode)) }}
+            title={`No ${unitLabel}`}
+          />
+          {legend.map(entry => (
+            <div
+              key={entry.level}
+              className="w-3 h-3 rounded-sm"
+              style={{ backgroundColor: toCssColor(getHeatmapLevelColor(entry.level, palette, isDarkMode)) }}
+              title={`${formatLegendValue(entry.from)}-${formatLegendValue(entry.to)} ${unitLabel}`}
+            />
+          ))}
         </div>
-        <span>2M+</span>
+        <span>{formatNumber(scale.max)} {unitLabel}</span>
       </div>
 
       {/* Tooltip */}
@@ -509,10 +597,10 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
               })}
             </div>
             <div className="text-xs">
-              {hoveredCell.experience > 0 ? (
+              {hoveredCell.value > 0 ? (
                 <>
                   <div className="text-green-400 font-medium mb-2">
-                    Total: +{formatNumber(hoveredCell.experience)} XP
+                    Total: +{formatNumber(hoveredCell.value)} {unitLabel}
                   </div>
                   {hoveredCell.skillBreakdown && hoveredCell.skillBreakdown.length > 0 && (
                     <div className="space-y-1">
@@ -527,7 +615,7 @@ export function WebGLHeatmap({ cells, monthLabels, width, height }: WebGLHeatmap
                   )}
                 </>
               ) : (
-                <span className="text-gray-400">No experience gained</span>
+                <span className="text-gray-400">No {unitLabel} gained</span>
               )}
             </div>
           </div>
@@ -1,28 +1,91 @@
-import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import { useRef, useEffect, useCallback, useState, useMemo, useImperativeHandle, type Ref } from 'react';
 import { formatNumber } from '@/lib/dataUtils';
-
-interface SkillGain {
-  skill: string;
-  experience: number;
+import { formatPointDate, type ChartSeries } from '@/lib/chartSeries';
+import { GOAL_LINE_COLOR } from '@/lib/chartColors';
+import { getFractionalLevel } from '@/lib/experience';
+import {
+  buildAxisLayers,
+  buildLegendLayer,
+  captureWebGLCanvas,
+  mergeLayers,
+  type ChartExportHandle,
+  type ChartPicture,
+  type PictureCircle,
+  type PicturePath
+} from '@/lib/chartExport';
+
+// One named series on the chart, e.g. one player or one skill
+export interface ChartLine {
+  id: string;
+  label: string;
+  color: string;
+  // Plots `cumulative` against `timestamps`
+  series: ChartSeries;
+  // Scale against the right-hand axis, for series with a very different magnitude
+  axis?: 'left' | 'right';
+  // Values are skill XP; tooltips add the (virtual, fractional) level
+  showLevels?: boolean;
 }
 
-interface DataPoint {
-  timestamp: number;
+// Horizontal target on the left axis, e.g. the XP for a level goal
+export interface ChartGoalLine {
+  id: string;
   value: number;
-  dailyGain: number;
-  date: string;
-  level?: number;
-  skillBreakdown?: SkillGain[];
+  label: string;
 }
 
 interface WebGLLineChartProps {
-  data: DataPoint[];
+  // With more than one line, a legend toggles each line's visibility
+  lines: ChartLine[];
   width?: number;
   height?: number;
-  lineColor?: string;
-  dotColor?: string;
   valueLabel?: string;
+  // Drawn across the chart; the left axis is extended to keep them in view
+  goalLines?: ChartGoalLine[];
   onTimeRangeSelect?: (startTime: Date, endTime: Date) => void;
+  exportRef?: Ref<ChartExportHandle>;
+}
+
+const NO_GOAL_LINES: ChartGoalLine[] = [];
+
+interface HoveredPoint {
+  line: number;
+  index: number;
+}
+
+interface YAxisDomain {
+  min: number;
+  max: number;
+}
+
+// Value range of the lines with 10% padding, or null when they have no points
+function getYAxisDomain(lines: ChartLine[]): YAxisDomain | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const line of lines) {
+    for (const value of line.series.cumulative) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+  }
+  if (min > max) return null;
+
+  const range = max - min;
+  const padding = Math.max(range * 0.1, 1);
+  return {
+    min: Math.max(0, min - padding),
+    max: max + padding
+  };
+}
+
+function getYAxisTicks(domain: YAxisDomain): number[] {
+  const tickCount = 5;
+  const range = domain.max - domain.min;
+  const ticks: number[] = [];
+  for (let i = 0; i <= tickCount; i++) {
+    ticks.push(Math.round(domain.min + (range / tickCount) * i));
+  }
+  return ticks;
 }
 
 // Vertex shader for line segments
@@ -132,6 +195,43 @@ function hexToRgb(hex: string): [number, number, number] {
   return [0.231, 0.510, 0.965]; // Default blue #3b82f6
 }
 
+// Closest point to a timestamp across all lines; earlier lines win ties
+function findClosestPoint(lines: ChartLine[], timestamp: number): HoveredPoint | null {
+  let closest: HoveredPoint | null = null;
+  let closestDistance = Infinity;
+
+  lines.forEach((line, lineIndex) => {
+    const { timestamps } = line.series;
+    for (let i = 0; i < timestamps.length; i++) {
+      const distance = Math.abs(timestamps[i] - timestamp);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = { line: lineIndex, index: i };
+      }
+    }
+  });
+
+  return closest;
+}
+
+// Cumulative value of a line as of a timestamp, or null before its first point
+function getValueAt(series: ChartSeries, timestamp: number): number | null {
+  const { timestamps, cumulative } = series;
+  if (timestamps.length === 0 || timestamp < timestamps[0]) return null;
+
+  let low = 0;
+  let high = timestamps.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (timestamps[mid] <= timestamp) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return cumulative[low];
+}
+
 // Smooth monotone cubic interpolation
 // Uses weighted average of slopes for smoother curves while preserving monotonicity
 function monotoneCubicSpline(
@@ -242,13 +342,13 @@ function monotoneCubicSpline(
 }
 
 export function WebGLLineChart({
-  data,
+  lines: allLines,
   width = 800,
   height = 320,
-  lineColor = '#3b82f6',
-  dotColor = '#3b82f6',
   valueLabel = 'Value',
-  onTimeRangeSelect
+  goalLines = NO_GOAL_LINES,
+  onTimeRangeSelect,
+  exportRef
 }: WebGLLineChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const glRef = useRef<WebGLRenderingContext | null>(null);
@@ -257,8 +357,11 @@ export function WebGLLineChart({
   const lastDataIdRef = useRef<string>('');
   const animationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  // Overrides the display's pixel ratio while rendering an export
+  const pixelRatioRef = useRef<number | null>(null);
 
-  const [hoveredPoint, setHoveredPoint] = useState<number | null>(null);
+  const [hiddenLineIds, setHiddenLineIds] = useState<ReadonlySet<string>>(() => new Set());
+  const [hoveredPoint, setHoveredPoint] = useState<HoveredPoint | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [hoverLineX, setHoverLineX] = useState<number | null>(null);
   const [glReady, setGlReady] = useState(false);
@@ -281,39 +384,83 @@ export function WebGLLineChart({
   const isLongPressActiveRef = useRef(false);
   const isPanningRef = useRef(false);
 
-  // Responsive margins - smaller on mobile
+  // Lines hidden from the legend are left out of scaling, drawing and hover.
+  // If the lines change so that only hidden ones remain, show them all again.
+  const lines = useMemo(() => {
+    const visible = allLines.filter(line => !hiddenLineIds.has(line.id));
+    return visible.length > 0 ? visible : allLines;
+  }, [allLines, hiddenLineIds]);
+
+  const toggleLine = useCallback((id: string) => {
+    setHiddenLineIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    setHoveredPoint(null);
+    setHoverLineX(null);
+  }, []);
+
+  const pointCount = useMemo(
+    () => lines.reduce((sum, line) => sum + line.series.timestamps.length, 0),
+    [lines]
+  );
+
+  // Calculate Y-axis domains with padding; the right axis only exists while
+  // a visible line is assigned to it
+  const { yAxisDomain, secondaryYAxisDomain } = useMemo(() => {
+    const primary = getYAxisDomain(lines.filter(line => line.axis !== 'right'));
+    const secondary = getYAxisDomain(lines.filter(line => line.axis === 'right'));
+    // Everything on the right axis still needs a left scale for the grid
+    let domain = primary ?? secondary ?? { min: 0, max: 100 };
+
+    // Keep goal lines in view, with a little room beyond them
+    for (const goal of goalLines) {
+      if (goal.value > domain.max) {
+        domain = { ...domain, max: goal.value + (goal.value - domain.min) * 0.05 };
+      } else if (goal.value < domain.min) {
+        domain = { ...domain, min: Math.max(0, goal.value - (domain.max - goal.value) * 0.05) };
+      }
+    }
+
+    return {
+      yAxisDomain: domain,
+      secondaryYAxisDomain: primary ? secondary : null
+    };
+  }, [lines, goalLines]);
+
+  // Responsive margins - smaller on mobile, wider on the right for a secondary axis
   const margins = useMemo(() => {
     const isMobile = width < 500;
+    const axisWidth = isMobile ? 45 : 70;
     return {
-      left: isMobile ? 45 : 70,
-      right: isMobile ? 10 : 30,
+      left: axisWidth,
+      right: secondaryYAxisDomain ? axisWidth : isMobile ? 10 : 30,
       top: isMobile ? 15 : 20,
       bottom: isMobile ? 30 : 40
     };
-  }, [width]);
-
-  // Calculate Y-axis domain with padding
-  const yAxisDomain = useMemo(() => {
-    if (data.length === 0) return { min: 0, max: 100 };
-    const values = data.map(d => d.value);
-    const min = Math.min(...values);
-    const max = Math.max(...values);
-    const range = max - min;
-    const padding = Math.max(range * 0.1, 1);
-    return {
-      min: Math.max(0, min - padding),
-      max: max + padding
-    };
-  }, [data]);
+  }, [width, secondaryYAxisDomain]);
+
+  const getLineDomain = useCallback(
+    (line: ChartLine) => line.axis === 'right' && secondaryYAxisDomain ? secondaryYAxisDomain : yAxisDomain,
+    [yAxisDomain, secondaryYAxisDomain]
+  );
 
   // Calculate full time range from data
   const fullTimeRange = useMemo(() => {
-    if (data.length === 0) return { min: 0, max: 1 };
-    return {
-      min: data[0].timestamp,
-      max: data[data.length - 1].timestamp
-    };
-  }, [data]);
+    let min = Infinity;
+    let max = -Infinity;
+    for (const { series: { timestamps } } of lines) {
+      if (timestamps.length === 0) continue;
+      min = Math.min(min, timestamps[0]);
+      max = Math.max(max, timestamps[timestamps.length - 1]);
+    }
+    return min <= max ? { min, max } : { min: 0, max: 1 };
+  }, [lines]);
 
   // Effective time range (respects viewRange if set for zoom/pan)
   const timeRange = useMemo(() => {
@@ -326,26 +473,22 @@ export function WebGLLineChart({
   // Reset view range when data changes
   useEffect(() => {
     setViewRange(null);
-  }, [data]);
+  }, [allLines]);
 
   // Calculate Y-axis ticks
-  const yAxisTicks = useMemo(() => {
-    const tickCount = 5;
-    const range = yAxisDomain.max - yAxisDomain.min;
-    const ticks: number[] = [];
-    for (let i = 0; i <= tickCount; i++) {
-      ticks.push(Math.round(yAxisDomain.min + (range / tickCount) * i));
-    }
-    return ticks;
-  }, [yAxisDomain]);
+  const yAxisTicks = useMemo(() => getYAxisTicks(yAxisDomain), [yAxisDomain]);
+  const secondaryYAxisTicks = useMemo(
+    () => secondaryYAxisDomain ? getYAxisTicks(secondaryYAxisDomain) : [],
+    [secondaryYAxisDomain]
+  );
 
   // Calculate X-axis ticks (months)
   const xAxisTicks = useMemo(() => {
-    if (data.length === 0) return [];
+    if (pointCount === 0) return [];
 
     const ticks: { timestamp: number; label: string }[] = [];
-    const startDate = new Date(data[0].timestamp);
-    const endDate = new Date(data[data.length - 1].timestamp);
+    const startDate = new Date(fullTimeRange.min);
+    const endDate = new Date(fullTimeRange.max);
     const spansYears = startDate.getFullYear() !== endDate.getFullYear();
 
     const current = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 1);
@@ -360,7 +503,7 @@ export function WebGLLineChart({
       current.setMonth(current.getMonth() + 1);
     }
     return ticks;
-  }, [data]);
+  }, [fullTimeRange, pointCount]);
 
   // Initialize WebGL
   useEffect(() => {
@@ -405,13 +548,13 @@ export function WebGLLineChart({
   }, []);
 
   // Render function with animation support
-  const render = useCallback((progress: number = 1, hoveredIdx: number | null = null) => {
+  const render = useCallback((progress: number = 1, hovered: HoveredPoint | null = null) => {
     const gl = glRef.current;
     const lineProgram = lineProgramRef.current;
     const dotProgram = dotProgramRef.current;
-    if (!gl || !lineProgram || !dotProgram || data.length === 0) return;
+    if (!gl || !lineProgram || !dotProgram || pointCount === 0) return;
 
-    const dpr = typeof window !== 'undefined' ? window.devicePixelRatio : 1;
+    const dpr = pixelRatioRef.current ?? (typeof window !== 'undefined' ? window.devicePixelRatio : 1);
     const scaledWidth = width * dpr;
     const scaledHeight = height * dpr;
 
@@ -424,111 +567,117 @@ export function WebGLLineChart({
     const marginLeft = margins.left * dpr;
     const marginBottom = margins.bottom * dpr;
 
-    // Convert data points to screen coordinates
-    const screenPoints: { x: number; y: number }[] = [];
-    data.forEach(point => {
-      const normalizedX = (point.timestamp - timeRange.min) / (timeRange.max - timeRange.min);
-      const normalizedY = (point.value - yAxisDomain.min) / (yAxisDomain.max - yAxisDomain.min);
-      const x = marginLeft + normalizedX * chartWidth;
-      const y = marginBottom + normalizedY * chartHeight;
-      screenPoints.push({ x, y });
-    });
-
-    // Generate smooth spline curve
-    const splinePoints = monotoneCubicSpline(screenPoints, 8);
+    const linePosLoc = gl.getAttribLocation(lineProgram, 'a_position');
+    const lineResLoc = gl.getUniformLocation(lineProgram, 'u_resolution');
+    const lineColorLoc = gl.getUniformLocation(lineProgram, 'u_color');
 
-    // Calculate how many spline points to draw based on animation progress
-    const splineDrawCount = Math.floor(splinePoints.length * progress);
+    const dotPosLoc = gl.getAttribLocation(dotProgram, 'a_position');
+    const dotResLoc = gl.getUniformLocation(dotProgram, 'u_resolution');
+    const dotColorLoc = gl.getUniformLocation(dotProgram, 'u_color');
+    const pointSizeLoc = gl.getUniformLocation(dotProgram, 'u_pointSize');
 
-    // Draw lines using spline
-    gl.useProgram(lineProgram);
+    lines.forEach((line, lineIndex) => {
+      const { series, color } = line;
+      if (series.timestamps.length === 0) return;
+
+      const rgb = hexToRgb(color);
+      const hoveredIdx = hovered?.line === lineIndex ? hovered.index : null;
+      const domain = getLineDomain(line);
+
+      // Convert data points to screen coordinates
+      const screenPoints: { x: number; y: number }[] = [];
+      for (let i = 0; i < series.timestamps.length; i++) {
+        const normalizedX = (series.timestamps[i] - timeRange.min) / (timeRange.max - timeRange.min);
+        const normalizedY = (series.cumulative[i] - domain.min) / (domain.max - domain.min);
+        const x = marginLeft + normalizedX * chartWidth;
+        const y = marginBottom + normalizedY * chartHeight;
+        screenPoints.push({ x, y });
+      }
 
-    // Build line segments from spline points
-    const lineVertices: number[] = [];
-    for (let i = 0; i < splineDrawCount - 1; i++) {
-      lineVertices.push(splinePoints[i].x, splinePoints[i].y);
-      lineVertices.push(splinePoints[i + 1].x, splinePoints[i + 1].y);
-    }
+      // Generate smooth spline curve
+      const splinePoints = monotoneCubicSpline(screenPoints, 8);
 
-    if (lineVertices.length > 0) {
-      const lineBuffer = gl.createBuffer();
-      gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(lineVertices), gl.STATIC_DRAW);
+      // Calculate how many spline points to draw based on animation progress
+      const splineDrawCount = Math.floor(splinePoints.length * progress);
 
-      const linePosLoc = gl.getAttribLocation(lineProgram, 'a_position');
-      gl.enableVertexAttribArray(linePosLoc);
-      gl.vertexAttribPointer(linePosLoc, 2, gl.FLOAT, false, 0, 0);
+      // Draw lines using spline
+      gl.useProgram(lineProgram);
 
-      const lineResLoc = gl.getUniformLocation(lineProgram, 'u_resolution');
-      gl.uniform2f(lineResLoc, scaledWidth, scaledHeight);
+      // Build line segments from spline points
+      const lineVertices: number[] = [];
+      for (let i = 0; i < splineDrawCount - 1; i++) {
+        lineVertices.push(splinePoints[i].x, splinePoints[i].y);
+        lineVertices.push(splinePoints[i + 1].x, splinePoints[i + 1].y);
+      }
 
-      const lineColorLoc = gl.getUniformLocation(lineProgram, 'u_color');
-      const lineRgb = hexToRgb(lineColor);
-      gl.uniform3f(lineColorLoc, lineRgb[0], lineRgb[1], lineRgb[2]);
+      if (lineVertices.length > 0) {
+        const lineBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, lineBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(lineVertices), gl.STATIC_DRAW);
 
-      gl.lineWidth(2.0 * dpr);
-      gl.drawArrays(gl.LINES, 0, lineVertices.length / 2);
+        gl.enableVertexAttribArray(linePosLoc);
+        gl.vertexAttribPointer(linePosLoc, 2, gl.FLOAT, false, 0, 0);
 
-      gl.deleteBuffer(lineBuffer);
-    }
+        gl.uniform2f(lineResLoc, scaledWidth, scaledHeight);
+        gl.uniform3f(lineColorLoc, rgb[0], rgb[1], rgb[2]);
 
-    // Calculate how many data points to show based on animation progress
-    const dotDrawCount = Math.floor(data.length * progress);
+        gl.lineWidth(2.0 * dpr);
+        gl.drawArrays(gl.LINES, 0, lineVertices.length / 2);
 
-    // Draw dots (only actual data points, not spline points)
-    gl.useProgram(dotProgram);
+        gl.deleteBuffer(lineBuffer);
+      }
 
-    const dotPosLoc = gl.getAttribLocation(dotProgram, 'a_position');
-    const dotResLoc = gl.getUniformLocation(dotProgram, 'u_resolution');
-    const dotColorLoc = gl.getUniformLocation(dotProgram, 'u_color');
-    const pointSizeLoc = gl.getUniformLocation(dotProgram, 'u_pointSize');
+      // Calculate how many data points to show based on animation progress
+      const dotDrawCount = Math.floor(series.timestamps.length * progress);
 
-    const dotRgb = hexToRgb(dotColor);
+      // Draw dots (only actual data points, not spline points)
+      gl.useProgram(dotProgram);
 
-    // First pass: draw regular sized dots (excluding hovered)
-    const regularDotPositions: number[] = [];
-    for (let i = 0; i < dotDrawCount; i++) {
-      if (i !== hoveredIdx) {
-        regularDotPositions.push(screenPoints[i].x, screenPoints[i].y);
+      // First pass: draw regular sized dots (excluding hovered)
+      const regularDotPositions: number[] = [];
+      for (let i = 0; i < dotDrawCount; i++) {
+        if (i !== hoveredIdx) {
+          regularDotPositions.push(screenPoints[i].x, screenPoints[i].y);
+        }
       }
-    }
 
-    if (regularDotPositions.length > 0) {
-      const regularDotBuffer = gl.createBuffer();
-      gl.bindBuffer(gl.ARRAY_BUFFER, regularDotBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(regularDotPositions), gl.STATIC_DRAW);
+      if (regularDotPositions.length > 0) {
+        const regularDotBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, regularDotBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(regularDotPositions), gl.STATIC_DRAW);
 
-      gl.enableVertexAttribArray(dotPosLoc);
-      gl.vertexAttribPointer(dotPosLoc, 2, gl.FLOAT, false, 0, 0);
+        gl.enableVertexAttribArray(dotPosLoc);
+        gl.vertexAttribPointer(dotPosLoc, 2, gl.FLOAT, false, 0, 0);
 
-      gl.uniform2f(dotResLoc, scaledWidth, scaledHeight);
-      gl.uniform3f(dotColorLoc, dotRgb[0], dotRgb[1], dotRgb[2]);
-      gl.uniform1f(pointSizeLoc, 10.0 * dpr);
+        gl.uniform2f(dotResLoc, scaledWidth, scaledHeight);
+        gl.uniform3f(dotColorLoc, rgb[0], rgb[1], rgb[2]);
+        gl.uniform1f(pointSizeLoc, 10.0 * dpr);
 
-      gl.drawArrays(gl.POINTS, 0, regularDotPositions.length / 2);
-      gl.deleteBuffer(regularDotBuffer);
-    }
+        gl.drawArrays(gl.POINTS, 0, regularDotPositions.length / 2);
+        gl.deleteBuffer(regularDotBuffer);
+      }
 
-    // Second pass: draw hovered dot larger
-    if (hoveredIdx !== null && hoveredIdx < dotDrawCount && screenPoints[hoveredIdx]) {
-      const hoveredDotBuffer = gl.createBuffer();
-      gl.bindBuffer(gl.ARRAY_BUFFER, hoveredDotBuffer);
-      gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
-        screenPoints[hoveredIdx].x,
-        screenPoints[hoveredIdx].y
-      ]), gl.STATIC_DRAW);
+      // Second pass: draw hovered dot larger
+      if (hoveredIdx !== null && hoveredIdx < dotDrawCount && screenPoints[hoveredIdx]) {
+        const hoveredDotBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, hoveredDotBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
+          screenPoints[hoveredIdx].x,
+          screenPoints[hoveredIdx].y
+        ]), gl.STATIC_DRAW);
 
-      gl.enableVertexAttribArray(dotPosLoc);
-      gl.vertexAttribPointer(dotPosLoc, 2, gl.FLOAT, false, 0, 0);
+        gl.enableVertexAttribArray(dotPosLoc);
+        gl.vertexAttribPointer(dotPosLoc, 2, gl.FLOAT, false, 0, 0);
 
-      gl.uniform2f(dotResLoc, scaledWidth, scaledHeight);
-      gl.uniform3f(dotColorLoc, dotRgb[0], dotRgb[1], dotRgb[2]);
-      gl.uniform1f(pointSizeLoc, 16.0 * dpr); // 60% larger on hover
+        gl.uniform2f(dotResLoc, scaledWidth, scaledHeight);
+        gl.uniform3f(dotColorLoc, rgb[0], rgb[1], rgb[2]);
+        gl.uniform1f(pointSizeLoc, 16.0 * dpr); // 60% larger on hover
 
-      gl.drawArrays(gl.POINTS, 0, 1);
-      gl.deleteBuffer(hoveredDotBuffer);
-    }
-  }, [data, width, height, margins, timeRange, yAxisDomain, lineColor, dotColor]);
+        gl.drawArrays(gl.POINTS, 0, 1);
+        gl.deleteBuffer(hoveredDotBuffer);
+      }
+    });
+  }, [lines, pointCount, width, height, margins, timeRange, getLineDomain]);
 
   // Cleanup animation on unmount only
   useEffect(() => {
@@ -544,10 +693,13 @@ export function WebGLLineChart({
 
   // Animate when data changes (including activity/time range changes)
   useEffect(() => {
-    if (!glReady || data.length === 0) return;
+    if (!glReady || pointCount === 0) return;
 
-    // Create ID from data content - will change when activity or time range changes
-    const dataId = `${data[0].timestamp}-${data[data.length - 1].timestamp}-${data.length}-${data.reduce((sum, d) => sum + d.value, 0)}`;
+    // Create ID from data content - will change when activity, time range or players change
+    // Toggling a line's visibility keeps the ID, so it doesn't replay the animation
+    const dataId = allLines.map(({ id, series: { timestamps, cumulative } }) =>
+      `${id}:${timestamps[0]}-${timestamps[timestamps.length - 1]}-${timestamps.length}-${cumulative.reduce((sum, value) => sum + value, 0)}`
+    ).join('|');
 
     if (dataId !== lastDataIdRef.current) {
       const isFirstRender = lastDataIdRef.current === '';
@@ -596,18 +748,18 @@ export function WebGLLineChart({
       }, delay);
     }
     // No cleanup here - handled by separate unmount effect
-  }, [glReady, data]);
+  }, [glReady, allLines, pointCount]);
 
   // Render when progress or hover changes (only after animation has started)
   useEffect(() => {
-    if (!glReady || data.length === 0 || !animationStarted) return;
+    if (!glReady || pointCount === 0 || !animationStarted) return;
     render(progress, hoveredPoint);
-  }, [render, glReady, data, hoveredPoint, width, height, progress, animationStarted]);
+  }, [render, glReady, pointCount, hoveredPoint, width, height, progress, animationStarted]);
 
   // Handle hover for tooltips and drag selection
   const handleCanvasMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || pointCount === 0) return;
 
     const rect = canvas.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -629,28 +781,20 @@ export function WebGLLineChart({
         const hoverTimestamp = timeRange.min + normalizedX * (timeRange.max - timeRange.min);
 
         // Find closest point
-        let closestIndex = 0;
-        let closestDistance = Math.abs(data[0].timestamp - hoverTimestamp);
-
-        for (let i = 1; i < data.length; i++) {
-          const distance = Math.abs(data[i].timestamp - hoverTimestamp);
-          if (distance < closestDistance) {
-            closestDistance = distance;
-            closestIndex = i;
-          }
-        }
+        const closest = findClosestPoint(lines, hoverTimestamp);
+        if (closest) {
+          const pointTimestamp = lines[closest.line].series.timestamps[closest.index];
+          const pointX = margins.left + ((pointTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
 
-        const pointTimestamp = data[closestIndex].timestamp;
-        const pointX = margins.left + ((pointTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
-
-        setHoveredPoint(closestIndex);
-        setHoverLineX(pointX);
+          setHoveredPoint(closest);
+          setHoverLineX(pointX);
+        }
       }
     } else if (!isDragging) {
       setHoveredPoint(null);
       setHoverLineX(null);
     }
-  }, [data, width, margins, timeRange, isDragging]);
+  }, [lines, pointCount, width, margins, timeRange, isDragging]);
 
   // Helper to update indicator position from touch
   const updateIndicatorFromTouch = useCallback((clientX: number, clientY: number, rect: DOMRect) => {
@@ -660,28 +804,20 @@ export function WebGLLineChart({
     const chartWidth = width - margins.left - margins.right;
     const relativeX = x - margins.left;
 
-    if (relativeX >= 0 && relativeX <= chartWidth && data.length > 0) {
+    if (relativeX >= 0 && relativeX <= chartWidth) {
       const normalizedX = relativeX / chartWidth;
       const hoverTimestamp = timeRange.min + normalizedX * (timeRange.max - timeRange.min);
 
-      let closestIndex = 0;
-      let closestDistance = Math.abs(data[0].timestamp - hoverTimestamp);
+      const closest = findClosestPoint(lines, hoverTimestamp);
+      if (closest) {
+        const pointTimestamp = lines[closest.line].series.timestamps[closest.index];
+        const pointX = margins.left + ((pointTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
 
-      for (let i = 1; i < data.length; i++) {
-        const distance = Math.abs(data[i].timestamp - hoverTimestamp);
-        if (distance < closestDistance) {
-          closestDistance = distance;
-          closestIndex = i;
-        }
+        setHoveredPoint(closest);
+        setHoverLineX(pointX);
       }
-
-      const pointTimestamp = data[closestIndex].timestamp;
-      const pointX = margins.left + ((pointTimestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
-
-      setHoveredPoint(closestIndex);
-      setHoverLineX(pointX);
     }
-  }, [data, width, margins, timeRange]);
+  }, [lines, width, margins, timeRange]);
 
   // Helper to clear long-press timeout
   const clearLongPressTimeout = useCallback(() => {
@@ -694,7 +830,7 @@ export function WebGLLineChart({
   // Touch support for mobile - Robinhood-style: single finger pan, long press for tooltip, pinch to zoom
   const handleTouchStart = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || pointCount === 0) return;
 
     if (e.touches.length === 2) {
       // Two-finger: pinch zoom only
@@ -724,11 +860,11 @@ export function WebGLLineChart({
         updateIndicatorFromTouch(touch.clientX, touch.clientY, rect);
       }, 400);
     }
-  }, [data, clearLongPressTimeout, updateIndicatorFromTouch]);
+  }, [pointCount, clearLongPressTimeout, updateIndicatorFromTouch]);
 
   const handleTouchMove = useCallback((e: React.TouchEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
-    if (!canvas || data.length === 0) return;
+    if (!canvas || pointCount === 0) return;
 
     const chartWidth = width - margins.left - margins.right;
     const currentRange = viewRange
@@ -813,7 +949,7 @@ export function WebGLLineChart({
         }
       }
     }
-  }, [data, width, margins, viewRange, fullTimeRange, clearLongPressTimeout, updateIndicatorFromTouch]);
+  }, [pointCount, width, margins, viewRange, fullTimeRange, clearLongPressTimeout, updateIndicatorFromTouch]);
 
   const handleTouchEnd = useCallback(() => {
     clearLongPressTimeout();
@@ -907,13 +1043,75 @@ export function WebGLLineChart({
     return margins.left + ((timestamp - timeRange.min) / (timeRange.max - timeRange.min)) * chartWidth;
   }, [width, margins, timeRange]);
 
-  const getYPosition = useCallback((value: number) => {
+  const getYPosition = useCallback((value: number, domain: YAxisDomain = yAxisDomain) => {
     const chartHeight = height - margins.top - margins.bottom;
-    const normalizedY = (value - yAxisDomain.min) / (yAxisDomain.max - yAxisDomain.min);
+    const normalizedY = (value - domain.min) / (domain.max - domain.min);
     return height - margins.bottom - normalizedY * chartHeight;
   }, [height, margins, yAxisDomain]);
 
-  if (data.length === 0) {
+  // The chart as drawn, for SVG and the axes/labels over a PNG capture
+  const getPicture = useCallback((): ChartPicture => {
+    const paths: PicturePath[] = [];
+    const circles: PictureCircle[] = [];
+    for (const line of lines) {
+      const domain = getLineDomain(line);
+      const points = Array.from(line.series.timestamps, (timestamp, i) => ({
+        x: getXPosition(timestamp),
+        y: getYPosition(line.series.cumulative[i], domain)
+      }));
+      paths.push({ points: monotoneCubicSpline(points, 8), color: line.color, width: 2 });
+      circles.push(...points.map(({ x, y }) => ({ x, y, radius: 5, color: line.color })));
+    }
+
+    const axes = buildAxisLayers({
+      width,
+      height,
+      margins,
+      yTicks: yAxisTicks.map(tick => ({ position: getYPosition(tick), label: formatNumber(tick) })),
+      secondaryYTicks: secondaryYAxisDomain
+        ? secondaryYAxisTicks.map(tick => ({ position: getYPosition(tick, secondaryYAxisDomain), label: formatNumber(tick) }))
+        : [],
+      xTicks: xAxisTicks.map(tick => ({ position: getXPosition(tick.timestamp), label: tick.label }))
+    });
+    const goals = mergeLayers(...goalLines.map(goal => {
+      const y = getYPosition(goal.value);
+      return {
+        lines: [{ x1: margins.left, y1: y, x2: width - margins.right, y2: y, color: GOAL_LINE_COLOR, dashed: true }],
+        texts: [{ x: width - margins.right - 4, y: y - 8, text: goal.label, anchor: 'end' as const, tone: 'foreground' as const }]
+      };
+    }));
+    const legend = allLines.length > 1
+      ? buildLegendLayer(
+        lines.map(line => ({ label: line.axis === 'right' ? `${line.label} (right)` : line.label, color: line.color })),
+        margins.left + 12,
+        margins.top + 14
+      )
+      : {};
+
+    return {
+      width,
+      height,
+      plot: { x: margins.left, y: margins.top, width: width - margins.left - margins.right, height: height - margins.top - margins.bottom },
+      grid: axes.grid,
+      marks: { paths, circles },
+      labels: mergeLayers(axes.labels, goals, legend)
+    };
+  }, [allLines, lines, goalLines, width, height, margins, yAxisTicks, secondaryYAxisTicks, secondaryYAxisDomain, xAxisTicks, getLineDomain, getXPosition, getYPosition]);
+
+  useImperativeHandle(exportRef, () => ({
+    getPicture,
+    captureCanvas: scale => {
+      const canvas = canvasRef.current;
+      if (!canvas || !glRef.current) return null;
+      // The export shows every point, without the hover highlight
+      return captureWebGLCanvas(canvas, width, height, scale, pixelRatio => {
+        pixelRatioRef.current = pixelRatio;
+        render(pixelRatio === null ? progress : 1, pixelRatio === null ? hoveredPoint : null);
+      });
+    }
+  }), [getPicture, render, width, height, progress, hoveredPoint]);
+
+  if (pointCount === 0) {
     return (
       <div className="h-64 flex items-center justify-center text-muted-foreground">
         No data available for chart
@@ -940,6 +1138,25 @@ export function WebGLLineChart({
         ))}
       </div>
 
+      {/* Secondary Y-axis labels */}
+      {secondaryYAxisDomain && (
+        <div className="absolute pointer-events-none" style={{ right: 0, top: 0, width: margins.right - 5 }}>
+          {secondaryYAxisTicks.map((tick, i) => (
+            <div
+              key={i}
+              className="absolute text-xs text-muted-foreground text-left pl-2"
+              style={{
+                left: 5,
+                top: getYPosition(tick, secondaryYAxisDomain) - 8,
+                width: margins.right - 10
+              }}
+            >
+              {formatNumber(tick)}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* X-axis labels */}
       <div className="absolute pointer-events-none overflow-hidden" style={{ left: margins.left, bottom: 0, right: margins.right, height: margins.bottom }}>
         {xAxisTicks.map((tick, i) => (
@@ -1010,6 +1227,36 @@ export function WebGLLineChart({
         />
       </div>
 
+      {/* Goal lines, over the data */}
+      {goalLines.length > 0 && (
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          {goalLines.map(goal => {
+            const y = getYPosition(goal.value);
+            return (
+              <g key={goal.id}>
+                <line
+                  x1={margins.left}
+                  y1={y}
+                  x2={width - margins.right}
+                  y2={y}
+                  stroke={GOAL_LINE_COLOR}
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                />
+                <text
+                  x={width - margins.right - 4}
+                  y={y - 6}
+                  textAnchor="end"
+                  className="fill-foreground text-xs"
+                >
+                  {goal.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+
       {/* Reset zoom button (shown when zoomed) */}
       {viewRange && (
         <button
@@ -1046,10 +1293,52 @@ export function WebGLLineChart({
         />
       )}
 
+      {/* Legend - only needed when there is more than one line; click to show/hide */}
+      {allLines.length > 1 && (
+        <div
+          className="absolute flex flex-wrap gap-x-3 gap-y-1 px-2 py-1 text-xs bg-background/80 rounded"
+          style={{ left: margins.left + 4, top: margins.top + 4, maxWidth: width - margins.left - margins.right - 100 }}
+        >
+          {allLines.map(line => {
+            const isHidden = !lines.includes(line);
+            // Keep at least one line on the chart
+            const isLastVisible = !isHidden && lines.length === 1;
+            return (
+              <button
+                key={line.id}
+                onClick={() => toggleLine(line.id)}
+                disabled={isLastVisible}
+                className={`flex items-center gap-1.5 ${isHidden ? 'opacity-40 line-through' : ''} ${isLastVisible ? 'cursor-default' : 'hover:text-foreground'}`}
+                aria-pressed={!isHidden}
+              >
+                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+                <span className="truncate">{line.label}</span>
+                {line.axis === 'right' && <span className="text-muted-foreground">(right)</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Tooltip */}
-      {hoveredPoint !== null && data[hoveredPoint] && (() => {
+      {hoveredPoint !== null && hoveredPoint.index < (lines[hoveredPoint.line]?.series.timestamps.length ?? 0) && (() => {
         const tooltipWidth = 220;
         const shouldFlipLeft = mousePos.x + tooltipWidth + 10 > window.innerWidth;
+        const { series } = lines[hoveredPoint.line];
+        const index = hoveredPoint.index;
+        const timestamp = series.timestamps[index];
+
+        // Every visible line's value as of the hovered point; highest first
+        // unless the lines are on different axes and not comparable
+        const values = allLines.length > 1
+          ? lines
+            .map(line => ({ line, value: getValueAt(line.series, timestamp) }))
+            .filter((entry): entry is { line: ChartLine; value: number } => entry.value !== null)
+          : [];
+        if (!secondaryYAxisDomain) {
+          values.sort((a, b) => b.value - a.value);
+        }
+
         return (
         <div
           className="fixed z-50 bg-background border border-border rounded-lg p-3 shadow-lg pointer-events-none min-w-[200px]"
@@ -1059,30 +1348,56 @@ export function WebGLLineChart({
             transform: 'translateY(-100%)'
           }}
         >
-          <p className="font-medium border-b border-border pb-1 mb-2">{data[hoveredPoint].date}</p>
-          <p className="text-blue-600 dark:text-blue-400 font-medium mb-2">
-            {valueLabel}: {formatNumber(data[hoveredPoint].value)}
-          </p>
-          {data[hoveredPoint].dailyGain > 0 && (
-            <p className="text-green-600 dark:text-green-400 mb-2">
-              Gain: +{formatNumber(data[hoveredPoint].dailyGain)}
-            </p>
-          )}
-          {data[hoveredPoint].level && (
-            <p className="text-muted-foreground mb-2">
-              Level: {data[hoveredPoint].level}
-            </p>
-          )}
-          {data[hoveredPoint].skillBreakdown && data[hoveredPoint].skillBreakdown!.length > 0 && (
+          <p className="font-medium border-b border-border pb-1 mb-2">{formatPointDate(timestamp)}</p>
+          {allLines.length > 1 ? (
             <div className="space-y-1">
-              <p className="text-muted-foreground text-xs font-medium mb-1">Daily Gain Breakdown:</p>
-              {data[hoveredPoint].skillBreakdown!.map((skill, idx) => (
-                <div key={idx} className="flex justify-between items-center text-xs">
-                  <span className="text-foreground capitalize">{skill.skill.toLowerCase()}</span>
-                  <span className="text-green-600 dark:text-green-400 ml-2">+{formatNumber(skill.experience)}</span>
+              <p className="text-muted-foreground text-xs font-medium mb-1">{valueLabel}</p>
+              {values.map(({ line, value }) => (
+                <div key={line.id} className="flex justify-between items-center text-xs">
+                  <span className="flex items-center gap-1.5 text-foreground">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: line.color }} />
+                    {line.label}
+                  </span>
+                  <span className="font-medium ml-2">
+                    {formatNumber(value)}
+                    {line.showLevels && (
+                      <span className="text-muted-foreground font-normal ml-1">lvl {getFractionalLevel(value).toFixed(2)}</span>
+                    )}
+                  </span>
                 </div>
               ))}
             </div>
+          ) : (
+            <>
+              <p className="text-blue-600 dark:text-blue-400 font-medium mb-2">
+                {valueLabel}: {formatNumber(series.cumulative[index])}
+              </p>
+              {series.dailyGains[index] > 0 && (
+                <p className="text-green-600 dark:text-green-400 mb-2">
+                  Gain: +{formatNumber(series.dailyGains[index])}
+                </p>
+              )}
+              {lines[hoveredPoint.line].showLevels ? (
+                <p className="text-muted-foreground mb-2">
+                  Level: {getFractionalLevel(series.cumulative[index]).toFixed(2)}
+                </p>
+              ) : index === 0 && series.baselineLevel !== null && series.baselineLevel > 0 && (
+                <p className="text-muted-foreground mb-2">
+                  Level: {series.baselineLevel}
+                </p>
+              )}
+              {series.skillBreakdowns[index] && series.skillBreakdowns[index]!.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground text-xs font-medium mb-1">Daily Gain Breakdown:</p>
+                  {series.skillBreakdowns[index]!.map((skill, idx) => (
+                    <div key={idx} className="flex justify-between items-center text-xs">
+                      <span className="text-foreground capitalize">{skill.skill.toLowerCase()}</span>
+                      <span className="text-green-600 dark:text-green-400 ml-2">+{formatNumber(skill.experience)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
         );
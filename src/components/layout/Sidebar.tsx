@@ -1,16 +1,27 @@
 import { NavLink } from 'react-router-dom';
 import { cn } from '@/lib/utils';
-import { TrendingUp, Menu, X, CheckCircle2, AlertCircle } from 'lucide-react';
+import { TrendingUp, LayoutDashboard, Swords, Skull, GitCompare, Medal, Menu, X, CheckCircle2, AlertCircle, Settings, ChevronDown } from 'lucide-react';
 import { useState, useEffect } from 'react';
-import { useApiHealth } from '@/hooks/useApi';
+import { useApiHealth, useApiConfig } from '@/hooks/useApi';
+import { useSharedSearch } from '@/hooks/usePlayerUrlState';
+import { ApiSettings } from '@/components/ApiSettings';
 
 const navigation = [
   { name: 'Gains Tracker', href: '/', icon: TrendingUp },
+  { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
+  { name: 'Skills', href: '/skills', icon: Swords },
+  { name: 'Bosses', href: '/bosses', icon: Skull },
+  { name: 'Compare', href: '/compare', icon: GitCompare },
+  { name: 'Records', href: '/records', icon: Medal },
 ];
 
 export function Sidebar() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isApiSettingsOpen, setIsApiSettingsOpen] = useState(false);
   const { isHealthy, checking } = useApiHealth();
+  const apiConfig = useApiConfig();
+  // Keep the selected player and range when switching pages
+  const sharedSearch = useSharedSearch();
 
   // Close menu when route changes or escape is pressed
   useEffect(() => {
@@ -77,7 +88,8 @@ export function Sidebar() {
           {navigation.map((item) => (
             <NavLink
               key={item.name}
-              to={item.href}
+              to={{ pathname: item.href, search: sharedSearch }}
+              end
               onClick={() => setIsMobileMenuOpen(false)}
               className={({ isActive }) =>
                 cn(
@@ -93,6 +105,9 @@ export function Sidebar() {
             </NavLink>
           ))}
         </nav>
+        <div className="px-4 pb-4 border-t pt-4">
+          <ApiSettings />
+        </div>
       </div>
 
       {/* Desktop sidebar */}
@@ -105,7 +120,8 @@ export function Sidebar() {
           {navigation.map((item) => (
             <NavLink
               key={item.name}
-              to={item.href}
+              to={{ pathname: item.href, search: sharedSearch }}
+              end
               className={({ isActive }) =>
                 cn(
                   'flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors',
@@ -121,7 +137,18 @@ export function Sidebar() {
           ))}
         </nav>
 
-        <div className="p-4 border-t">
+        <div className="p-4 border-t space-y-3">
+          <button
+            onClick={() => setIsApiSettingsOpen(!isApiSettingsOpen)}
+            className="w-full flex items-center justify-between text-xs text-muted-foreground hover:text-foreground"
+          >
+            <span className="flex items-center gap-2 truncate">
+              <Settings className="h-3.5 w-3.5 flex-shrink-0" />
+              API: {apiConfig.label}
+            </span>
+            <ChevronDown className={`h-3.5 w-3.5 transition-transform ${isApiSettingsOpen ? 'rotate-180' : ''}`} />
+          </button>
+          {isApiSettingsOpen && <ApiSettings />}
           <div className="text-xs text-muted-foreground">
             <p>RuneScape Hiscore Tracker</p>
             <p>Built with React & TypeScript</p>
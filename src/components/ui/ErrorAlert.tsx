@@ -1,34 +1,83 @@
+import { useEffect, useState } from 'react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, RefreshCw } from 'lucide-react';
-import { type ApiError } from '@/lib/api';
+import {
+  HazelmereApiError,
+  NetworkError,
+  TimeoutError,
+  ClientError,
+  ServerError,
+  DecodeError,
+  RateLimitError
+} from '@/lib/apiErrors';
 
 interface ErrorAlertProps {
-  error: ApiError | Error;
+  error: HazelmereApiError | Error;
   onRetry?: () => void;
   title?: string;
 }
 
-export function ErrorAlert({ error, onRetry, title = "Something went wrong" }: ErrorAlertProps) {
-  const isApiError = (err: any): err is ApiError => {
-    return err && typeof err === 'object' && 'status' in err;
-  };
-
-  const getErrorMessage = (err: ApiError | Error): string => {
-    if (isApiError(err)) {
-      switch (err.status) {
-        case 404:
-          return 'The requested data was not found. This might be because no snapshots exist for this user yet.';
-        case 500:
-          return 'The server encountered an error. Please try again later.';
-        case 503:
-          return 'The service is temporarily unavailable. Please try again later.';
-        default:
-          return err.message;
+// Seconds left until a rate-limited request may be retried; ticks once a second
+function useRetryCountdown(error: HazelmereApiError | Error): number {
+  const retryAt = error instanceof RateLimitError ? error.retryAt : 0;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (retryAt <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) {
+        clearInterval(interval);
       }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return Math.max(0, Math.ceil((retryAt - now) / 1000));
+}
+
+function getErrorMessage(err: HazelmereApiError | Error, secondsUntilRetry: number): string {
+  if (err instanceof RateLimitError) {
+    if (secondsUntilRetry > 0) {
+      return `Too many requests. The API asked us to wait - you can retry in ${secondsUntilRetry}s.`;
     }
-    return err.message || 'An unexpected error occurred';
-  };
+    return 'Too many requests were sent to the API. You can retry now.';
+  }
+  if (err instanceof TimeoutError) {
+    return 'The API took too long to respond. Large time ranges can be slow - try a shorter range or retry.';
+  }
+  if (err instanceof NetworkError) {
+    return 'Could not reach the API. Check your connection or the selected API endpoint.';
+  }
+  if (err instanceof DecodeError) {
+    return 'The server sent a response this app could not read. The API may be running a newer version.';
+  }
+  if (err instanceof ClientError) {
+    switch (err.status) {
+      case 404:
+        return 'The requested data was not found. This might be because no snapshots exist for this user yet.';
+      case 400:
+        return `The request was rejected: ${err.message}`;
+      default:
+        return err.message;
+    }
+  }
+  if (err instanceof ServerError) {
+    switch (err.status) {
+      case 503:
+        return 'The service is temporarily unavailable. Please try again later.';
+      default:
+        return 'The server encountered an error. Please try again later.';
+    }
+  }
+  return err.message || 'An unexpected error occurred';
+}
+
+export function ErrorAlert({ error, onRetry, title = "Something went wrong" }: ErrorAlertProps) {
+  const secondsUntilRetry = useRetryCountdown(error);
 
   return (
     <Alert variant="destructive">
@@ -36,20 +85,21 @@ export function ErrorAlert({ error, onRetry, title = "Something went wrong" }: E
       <AlertTitle className="flex items-center justify-between">
         <span>{title}</span>
         {onRetry && (
-          <Button 
-            variant="outline" 
-            size="sm" 
+          <Button
+            variant="outline"
+            size="sm"
             onClick={onRetry}
+            disabled={secondsUntilRetry > 0}
             className="ml-2"
           >
             <RefreshCw className="h-3 w-3 mr-1" />
-            Retry
+            {secondsUntilRetry > 0 ? `Retry in ${secondsUntilRetry}s` : 'Retry'}
           </Button>
         )}
       </AlertTitle>
       <AlertDescription className="mt-2">
-        {getErrorMessage(error)}
+        {getErrorMessage(error, secondsUntilRetry)}
       </AlertDescription>
     </Alert>
   );
-}
\ No newline at end of file
+}
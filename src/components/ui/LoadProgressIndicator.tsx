@@ -0,0 +1,44 @@
+import type { LoadProgress } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface LoadProgressIndicatorProps {
+  // null while chart data is being prepared after loading
+  progress: LoadProgress | null;
+  className?: string;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+function getProgressLabel(progress: LoadProgress | null): string {
+  if (!progress) {
+    return 'Preparing chart...';
+  }
+  if (progress.phase === 'download') {
+    return progress.total !== null
+      ? `Downloading ${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`
+      : `Downloading ${formatBytes(progress.loaded)}`;
+  }
+  return progress.total !== null
+    ? `Decoding ${progress.loaded.toLocaleString()} of ${progress.total.toLocaleString()} deltas`
+    : `Decoding ${progress.loaded.toLocaleString()} deltas`;
+}
+
+export function LoadProgressIndicator({ progress, className }: LoadProgressIndicatorProps) {
+  const percent = progress?.total ? Math.min(100, (progress.loaded / progress.total) * 100) : null;
+
+  return (
+    <div className={cn('flex flex-col items-center justify-center gap-3', className)}>
+      <div className="h-2 w-48 sm:w-64 rounded-full bg-muted overflow-hidden">
+        {percent !== null ? (
+          <div className="h-full bg-primary transition-[width] duration-150" style={{ width: `${percent}%` }} />
+        ) : (
+          <div className="h-full w-full bg-primary/60 animate-pulse" />
+        )}
+      </div>
+      <p className="text-xs sm:text-sm text-muted-foreground">{getProgressLabel(progress)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { GetSnapshotWithDeltasResponse } from '@/types/api';
+import type { PlayerDeltaResponse } from '@/hooks/useApi';
+import {
+  applyAnomalyReview,
+  detectAnomalies,
+  excludeDeltas,
+  getAnomalyDecisions,
+  getAnomalySettings,
+  isFlagExcluded,
+  subscribeAnomalies,
+  type AnomalyDecisions,
+  type AnomalyFlag,
+  type AnomalySettings
+} from '@/lib/anomalies';
+
+export interface AnomalyReview {
+  settings: AnomalySettings;
+  flags: AnomalyFlag[];
+  decisions: AnomalyDecisions;
+  // Keys (see getDeltaKey) of the deltas left out
+  excludedKeys: ReadonlySet<string>;
+  // The response without excluded deltas; what every total should be built from
+  response: GetSnapshotWithDeltasResponse | null;
+}
+
+export function useAnomalySettings(): AnomalySettings {
+  return useSyncExternalStore(subscribeAnomalies, getAnomalySettings);
+}
+
+// Flagged deltas for the player's response and the response with the excluded
+// ones removed, updated when settings or decisions change anywhere
+export function useAnomalyReview(userId: string | null, response: GetSnapshotWithDeltasResponse | null): AnomalyReview {
+  const settings = useAnomalySettings();
+  const getDecisions = useCallback(() => getAnomalyDecisions(userId), [userId]);
+  const decisions = useSyncExternalStore(subscribeAnomalies, getDecisions);
+
+  const flags = useMemo(() => response ? detectAnomalies(response.deltas, settings) : [], [response, settings]);
+
+  // Keyed by content so the filtered response (and the worker's copy of it)
+  // only changes when the excluded deltas do
+  const excludedKey = flags
+    .filter(flag => isFlagExcluded(flag, decisions))
+    .map(flag => flag.deltaKey)
+    .join('\n');
+  const excludedKeys = useMemo(() => new Set(excludedKey ? excludedKey.split('\n') : []), [excludedKey]);
+  const reviewed = useMemo(() => response ? excludeDeltas(response, excludedKeys) : null, [response, excludedKeys]);
+
+  return { settings, flags, decisions, excludedKeys, response: reviewed };
+}
+
+// Compared players' responses without the deltas each player has excluded, so
+// rankings match what each player's own review shows
+export function useComparisonReview(players: PlayerDeltaResponse[] | null): PlayerDeltaResponse[] | null {
+  const settings = useAnomalySettings();
+
+  // Decisions are cached per player, so the list only changes when one does
+  const decisionsRef = useRef<AnomalyDecisions[]>([]);
+  const getDecisions = useCallback(() => {
+    const next = (players ?? []).map(player => getAnomalyDecisions(player.userId));
+    const previous = decisionsRef.current;
+    if (next.length !== previous.length || next.some((decisions, i) => decisions !== previous[i])) {
+      decisionsRef.current = next;
+    }
+    return decisionsRef.current;
+  }, [players]);
+  const decisions = useSyncExternalStore(subscribeAnomalies, getDecisions);
+
+  return useMemo(() => players?.map((player, i) => ({
+    userId: player.userId,
+    response: applyAnomalyReview(player.response, settings, decisions[i] ?? {})
+  })) ?? null, [players, settings, decisions]);
+}
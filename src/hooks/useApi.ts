@@ -1,18 +1,33 @@
-import { useState, useEffect, useCallback } from 'react';
-import { apiClient, type ApiError } from '@/lib/api';
-import type { HiscoreSnapshot, User, AggregationWindow, GetSnapshotWithDeltasResponse } from '@/types/api';
-
-// Determine aggregation window based on date range
-// < 1 year: daily, 1-2 years: weekly, > 2 years: monthly
-export function getAggregationWindow(startTime: Date, endTime: Date): AggregationWindow {
-  const daysDiff = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60 * 24);
-
-  if (daysDiff > 730) { // > 2 years
-    return 'monthly';
-  } else if (daysDiff > 365) { // 1-2 years
-    return 'weekly';
-  }
-  return 'daily';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { apiClient, isAbortError, type ApiError, type CacheMode, type LoadProgress } from '@/lib/api';
+import { getApiConfig, subscribeApiConfig, type ApiConfig } from '@/lib/apiConfig';
+import { getAggregationWindow } from '@/lib/timeBuckets';
+import type {
+  HiscoreSnapshot,
+  User,
+  AggregationWindow,
+  GetSnapshotIntervalResponse,
+  GetSnapshotWithDeltasResponse
+} from '@/types/api';
+
+// Active API profile/base URL; re-renders when the settings panel switches endpoints
+export function useApiConfig(): ApiConfig {
+  return useSyncExternalStore(subscribeApiConfig, getApiConfig);
+}
+
+// Hands out a fresh AbortSignal per request, aborting the previous request
+// so a slow response for old inputs can't overwrite newer data. Also aborts
+// on unmount.
+function useRequestSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
 }
 
 interface UseApiState<T> {
@@ -31,8 +46,12 @@ export function useSnapshots(userId: string | null): UseApiResult<HiscoreSnapsho
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
+  const nextSignal = useRequestSignal();
 
   const fetchData = useCallback(async () => {
+    const signal = nextSignal();
+
     if (!userId) {
       setState({ data: null, loading: false, error: null });
       return;
@@ -41,16 +60,17 @@ export function useSnapshots(userId: string | null): UseApiResult<HiscoreSnapsho
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
-      const snapshots = await apiClient.getAllSnapshotsForUser(userId);
+      const snapshots = await apiClient.getAllSnapshotsForUser(userId, { signal });
       setState({ data: snapshots, loading: false, error: null });
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
     }
-  }, [userId]);
+  }, [userId, nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
 
   return { ...state, refetch: fetchData };
 }
@@ -64,8 +84,13 @@ export function useSnapshotNearest(
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
+
+  const nextSignal = useRequestSignal();
 
   const fetchData = useCallback(async () => {
+    const signal = nextSignal();
+
     if (!userId || !timestamp) {
       setState({ data: null, loading: false, error: null });
       return;
@@ -74,16 +99,17 @@ export function useSnapshotNearest(
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
-      const snapshot = await apiClient.getSnapshotNearestTimestamp(userId, timestamp);
+      const snapshot = await apiClient.getSnapshotNearestTimestamp(userId, timestamp, { signal });
       setState({ data: snapshot, loading: false, error: null });
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
     }
-  }, [userId, timestamp]);
+  }, [userId, timestamp, nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
 
   return { ...state, refetch: fetchData };
 }
@@ -108,13 +134,18 @@ export function useSnapshotInterval(
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
   const [totalSnapshots, setTotalSnapshots] = useState(0);
   const [snapshotsWithGains, setSnapshotsWithGains] = useState(0);
 
   // Calculate aggregation window based on date range
   const aggregationWindow = startTime && endTime ? getAggregationWindow(startTime, endTime) : null;
 
-  const fetchData = useCallback(async () => {
+  const nextSignal = useRequestSignal();
+
+  const fetchData = useCallback(async (cache: CacheMode = 'default') => {
+    const signal = nextSignal();
+
     if (!userId || !startTime || !endTime) {
       setState({ data: null, loading: false, error: null });
       setTotalSnapshots(0);
@@ -124,24 +155,36 @@ export function useSnapshotInterval(
 
     setState(prev => ({ ...prev, loading: true, error: null }));
 
-    try {
-      const window = getAggregationWindow(startTime, endTime);
-      const response = await apiClient.getSnapshotInterval(userId, startTime, endTime, window);
+    const applyResponse = (response: GetSnapshotIntervalResponse) => {
       setState({ data: response.snapshots, loading: false, error: null });
       setTotalSnapshots(response.totalSnapshots);
       setSnapshotsWithGains(response.snapshotsWithGains);
+    };
+
+    try {
+      const window = getAggregationWindow(startTime, endTime);
+      const response = await apiClient.getSnapshotInterval(userId, startTime, endTime, window, {
+        cache,
+        signal,
+        onRevalidate: applyResponse
+      });
+      applyResponse(response);
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
       setTotalSnapshots(0);
       setSnapshotsWithGains(0);
     }
-  }, [userId, startTime, endTime]);
+  }, [userId, startTime, endTime, nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
+
+  // An explicit refetch always goes to the network
+  const refetch = useCallback(() => fetchData('reload'), [fetchData]);
 
-  return { ...state, refetch: fetchData, aggregationWindow, totalSnapshots, snapshotsWithGains };
+  return { ...state, refetch, aggregationWindow, totalSnapshots, snapshotsWithGains };
 }
 
 export function useYearlySnapshotData(userId: string | null): UseApiResult<HiscoreSnapshot[]> {
@@ -150,8 +193,13 @@ export function useYearlySnapshotData(userId: string | null): UseApiResult<Hisco
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
+
+  const nextSignal = useRequestSignal();
+
+  const fetchData = useCallback(async (cache: CacheMode = 'default') => {
+    const signal = nextSignal();
 
-  const fetchData = useCallback(async () => {
     if (!userId) {
       setState({ data: null, loading: false, error: null });
       return;
@@ -165,18 +213,25 @@ export function useYearlySnapshotData(userId: string | null): UseApiResult<Hisco
       const startDate = new Date();
       startDate.setFullYear(startDate.getFullYear() - 1);
       
-      const response = await apiClient.getSnapshotInterval(userId, startDate, endDate);
+      const response = await apiClient.getSnapshotInterval(userId, startDate, endDate, undefined, {
+        cache,
+        signal,
+        onRevalidate: fresh => setState({ data: fresh.snapshots, loading: false, error: null })
+      });
       setState({ data: response.snapshots, loading: false, error: null });
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
     }
-  }, [userId]);
+  }, [userId, nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
 
-  return { ...state, refetch: fetchData };
+  const refetch = useCallback(() => fetchData('reload'), [fetchData]);
+
+  return { ...state, refetch };
 }
 
 export function useAllUsers(): UseApiResult<User[]> {
@@ -185,21 +240,27 @@ export function useAllUsers(): UseApiResult<User[]> {
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
+
+  const nextSignal = useRequestSignal();
 
   const fetchData = useCallback(async () => {
+    const signal = nextSignal();
+
     setState(prev => ({ ...prev, loading: true, error: null }));
     
     try {
-      const users = await apiClient.getAllUsers();
+      const users = await apiClient.getAllUsers({ signal });
       setState({ data: users, loading: false, error: null });
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
     }
-  }, []);
+  }, [nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
 
   return { ...state, refetch: fetchData };
 }
@@ -207,25 +268,33 @@ export function useAllUsers(): UseApiResult<User[]> {
 export function useApiHealth() {
   const [isHealthy, setIsHealthy] = useState<boolean | null>(null);
   const [checking, setChecking] = useState(false);
+  const { baseUrl } = useApiConfig();
+
+  const nextSignal = useRequestSignal();
 
   const checkHealth = useCallback(async () => {
+    const signal = nextSignal();
+
     setChecking(true);
     try {
-      const healthy = await apiClient.healthCheck();
+      const healthy = await apiClient.healthCheck({ signal });
       setIsHealthy(healthy);
     } catch (error) {
+      if (isAbortError(error)) return;
       setIsHealthy(false);
     } finally {
-      setChecking(false);
+      if (!signal.aborted) {
+        setChecking(false);
+      }
     }
-  }, []);
+  }, [nextSignal]);
 
   useEffect(() => {
     checkHealth();
     // Check health every 30 seconds
     const interval = setInterval(checkHealth, 30000);
     return () => clearInterval(interval);
-  }, [checkHealth]);
+  }, [checkHealth, baseUrl]);
 
   return { isHealthy, checking, checkHealth };
 }
@@ -236,6 +305,8 @@ interface SnapshotWithDeltasResult {
   error: ApiError | Error | null;
   refetch: () => Promise<void>;
   totalDeltas: number;
+  // Download/decode progress while a large payload loads, otherwise null
+  progress: LoadProgress | null;
 }
 
 export function useSnapshotWithDeltas(
@@ -248,9 +319,16 @@ export function useSnapshotWithDeltas(
     loading: false,
     error: null,
   });
+  const { baseUrl } = useApiConfig();
   const [totalDeltas, setTotalDeltas] = useState(0);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
+
+  const nextSignal = useRequestSignal();
+
+  const fetchData = useCallback(async (cache: CacheMode = 'default') => {
+    const signal = nextSignal();
+    setProgress(null);
 
-  const fetchData = useCallback(async () => {
     if (!userId || !startTime || !endTime) {
       setState({ data: null, loading: false, error: null });
       setTotalDeltas(0);
@@ -259,19 +337,105 @@ export function useSnapshotWithDeltas(
 
     setState(prev => ({ ...prev, loading: true, error: null }));
 
-    try {
-      const response = await apiClient.getSnapshotWithDeltas(userId, startTime, endTime);
+    const applyResponse = (response: GetSnapshotWithDeltasResponse) => {
       setState({ data: response, loading: false, error: null });
       setTotalDeltas(response.deltas?.length || 0);
+      setProgress(null);
+    };
+
+    try {
+      // Cached data paints immediately; a stale hit is refreshed in the background
+      const response = await apiClient.getSnapshotWithDeltas(userId, startTime, endTime, {
+        cache,
+        signal,
+        onRevalidate: applyResponse,
+        onProgress: update => {
+          if (!signal.aborted) setProgress(update);
+        }
+      });
+      applyResponse(response);
     } catch (error) {
+      if (isAbortError(error)) return;
       setState({ data: null, loading: false, error: error as ApiError });
       setTotalDeltas(0);
+      setProgress(null);
     }
-  }, [userId, startTime, endTime]);
+  }, [userId, startTime, endTime, nextSignal]);
 
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, baseUrl]);
+
+  const refetch = useCallback(() => fetchData('reload'), [fetchData]);
 
-  return { ...state, refetch: fetchData, totalDeltas };
-}
\ No newline at end of file
+  return { ...state, refetch, totalDeltas, progress };
+}
+
+export interface PlayerDeltaResponse {
+  userId: string;
+  response: GetSnapshotWithDeltasResponse;
+}
+
+// Snapshot + deltas for several players over the same range, in `userIds` order.
+// Requests run in parallel and share the per-player cache with useSnapshotWithDeltas.
+export function useComparisonDeltas(
+  userIds: string[],
+  startTime: Date | null,
+  endTime: Date | null
+): UseApiResult<PlayerDeltaResponse[]> {
+  const [state, setState] = useState<UseApiState<PlayerDeltaResponse[]>>({
+    data: null,
+    loading: false,
+    error: null,
+  });
+  const { baseUrl } = useApiConfig();
+
+  const nextSignal = useRequestSignal();
+
+  const fetchData = useCallback(async (cache: CacheMode = 'default') => {
+    const signal = nextSignal();
+
+    if (userIds.length === 0 || !startTime || !endTime) {
+      setState({ data: null, loading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    // A background refresh for one player only replaces that player's entry
+    const revalidate = (userId: string) => (response: GetSnapshotWithDeltasResponse) => {
+      setState(prev => prev.data
+        ? { ...prev, data: prev.data.map(entry => entry.userId === userId ? { userId, response } : entry) }
+        : prev
+      );
+    };
+
+    // One controller for the batch, so a failed player can cancel the rest
+    const batch = new AbortController();
+    signal.addEventListener('abort', () => batch.abort(), { once: true });
+
+    try {
+      const data = await Promise.all(userIds.map(async userId => ({
+        userId,
+        response: await apiClient.getSnapshotWithDeltas(userId, startTime, endTime, {
+          cache,
+          signal: batch.signal,
+          onRevalidate: revalidate(userId)
+        })
+      })));
+      setState({ data, loading: false, error: null });
+    } catch (error) {
+      batch.abort();
+      if (isAbortError(error)) return;
+      setState({ data: null, loading: false, error: error as ApiError });
+    }
+  }, [userIds, startTime, endTime, nextSignal]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, baseUrl]);
+
+  const refetch = useCallback(() => fetchData('reload'), [fetchData]);
+
+  return { ...state, refetch };
+}
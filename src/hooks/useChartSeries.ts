@@ -0,0 +1,132 @@
+import { useState, useEffect, useMemo } from 'react';
+import { isAbortError } from '@/lib/api';
+import { deltaPipeline } from '@/lib/deltaPipeline';
+import type { ChartSeries, PreparedChartSeries, BucketedSeries, DailyTotals } from '@/lib/chartSeries';
+import type { BucketSize } from '@/lib/timeBuckets';
+import type { PlayerRecords } from '@/lib/records';
+import { DEFAULT_ANOMALY_SETTINGS, type OutlierRule } from '@/lib/anomalies';
+import type { PlayerDeltaResponse } from '@/hooks/useApi';
+import type { AccountType, ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+
+interface PreparedState<T> {
+  data: T | null;
+  preparing: boolean;
+  error: Error | null;
+}
+
+// Runs `prepare` off the main thread whenever its inputs change; the previous
+// result stays visible until the new one arrives
+function usePrepared<T>(
+  prepare: ((signal: AbortSignal) => Promise<T>) | null
+): PreparedState<T> {
+  const [state, setState] = useState<PreparedState<T>>({ data: null, preparing: false, error: null });
+
+  useEffect(() => {
+    if (!prepare) {
+      setState({ data: null, preparing: false, error: null });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, preparing: true, error: null }));
+
+    prepare(controller.signal)
+      .then(data => setState({ data, preparing: false, error: null }))
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error('Failed to prepare chart data:', error);
+        setState({ data: null, preparing: false, error: error as Error });
+      });
+
+    return () => controller.abort();
+  }, [prepare]);
+
+  return state;
+}
+
+// Typed-array series for GainsChart, built in the delta worker; `rule` picks
+// the overall XP outliers kept out of the y-axis scale
+export function useChartSeries(
+  response: GetSnapshotWithDeltasResponse | null,
+  activityType?: ActivityType,
+  rule: OutlierRule = DEFAULT_ANOMALY_SETTINGS
+): PreparedState<PreparedChartSeries> {
+  const { strategy, sensitivity } = rule;
+  const prepare = useMemo(() => response
+    ? (signal: AbortSignal) => deltaPipeline.prepareChartSeries(response, activityType, { strategy, sensitivity }, { signal })
+    : null,
+  [response, activityType, strategy, sensitivity]);
+
+  return usePrepared(prepare);
+}
+
+// Calendar-bucketed gains for the bar chart, summed in the delta worker
+export function useBucketedSeries(
+  response: GetSnapshotWithDeltasResponse | null,
+  activityType: ActivityType | undefined,
+  size: BucketSize
+): PreparedState<BucketedSeries> {
+  const prepare = useMemo(() => response
+    ? (signal: AbortSignal) => deltaPipeline.buildBucketedSeries(response, activityType, size, { signal })
+    : null,
+  [response, activityType, size]);
+
+  return usePrepared(prepare);
+}
+
+// Per-day totals of the activity for the heatmap, aggregated in the delta worker
+export function useDailyTotals(
+  response: GetSnapshotWithDeltasResponse | null,
+  activityType?: ActivityType
+): PreparedState<DailyTotals> {
+  const prepare = useMemo(() => response
+    ? (signal: AbortSignal) => deltaPipeline.aggregateDailyTotals(response, activityType, { signal })
+    : null,
+  [response, activityType]);
+
+  return usePrepared(prepare);
+}
+
+// Cumulative efficient hours played, priced in the delta worker
+export function useEfficiencySeries(
+  response: GetSnapshotWithDeltasResponse | null,
+  accountType: AccountType | undefined
+): PreparedState<ChartSeries> {
+  const prepare = useMemo(() => response
+    ? (signal: AbortSignal) => deltaPipeline.buildEfficiencySeries(response, accountType, { signal })
+    : null,
+  [response, accountType]);
+
+  return usePrepared(prepare);
+}
+
+// Best periods, streaks and gaps, found in the delta worker
+export function useRecords(response: GetSnapshotWithDeltasResponse | null): PreparedState<PlayerRecords> {
+  const prepare = useMemo(() => response
+    ? (signal: AbortSignal) => deltaPipeline.findRecords(response, { signal })
+    : null,
+  [response]);
+
+  return usePrepared(prepare);
+}
+
+export interface PlayerChartSeries {
+  userId: string;
+  series: ChartSeries;
+}
+
+// One series per compared player, in the same order as `players`
+export function useComparisonSeries(
+  players: PlayerDeltaResponse[] | null,
+  activityType?: ActivityType
+): PreparedState<PlayerChartSeries[]> {
+  const prepare = useMemo(() => players
+    ? (signal: AbortSignal) => Promise.all(players.map(({ userId, response }) =>
+      deltaPipeline.prepareChartSeries(response, activityType, DEFAULT_ANOMALY_SETTINGS, { signal })
+        .then(prepared => ({ userId, series: prepared.series }))
+    ))
+    : null,
+  [players, activityType]);
+
+  return usePrepared(prepare);
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, type RefObject } from 'react';
+
+interface ContainerSize {
+  width: number;
+  height: number;
+}
+
+// Track an element's size for the WebGL charts, capped to the viewport to prevent overflow
+export function useContainerSize(containerRef: RefObject<HTMLElement | null>): ContainerSize {
+  const [containerSize, setContainerSize] = useState<ContainerSize>({
+    width: typeof window !== 'undefined' ? Math.min(800, window.innerWidth - 32) : 800,
+    height: 320
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const updateSize = () => {
+      const rect = container.getBoundingClientRect();
+      const maxWidth = typeof window !== 'undefined' ? window.innerWidth - 32 : rect.width;
+      setContainerSize({
+        width: Math.min(rect.width, maxWidth),
+        height: rect.height
+      });
+    };
+
+    updateSize();
+    const resizeObserver = new ResizeObserver(updateSize);
+    resizeObserver.observe(container);
+
+    return () => resizeObserver.disconnect();
+  }, [containerRef]);
+
+  return containerSize;
+}
@@ -0,0 +1,8 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getGoals, subscribeGoals, type Goal } from '@/lib/goals';
+
+// The player's goals, updated when they are added or removed anywhere (including other tabs)
+export function useGoals(userId: string | null): Goal[] {
+  const getSnapshot = useCallback(() => getGoals(userId), [userId]);
+  return useSyncExternalStore(subscribeGoals, getSnapshot);
+}
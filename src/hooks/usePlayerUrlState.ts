@@ -0,0 +1,81 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseTimeRange, writeTimeRange, type TimeRange } from '@/lib/timeRanges';
+
+// Search params every page reads, carried along when navigating between pages
+const SHARED_SEARCH_PARAMS = ['player', 'range', 'start', 'end'];
+
+export interface PlayerUrlState {
+  // First selected player; pages without comparison only use this one
+  userId: string | null;
+  setUserId: (userId: string | null) => void;
+  // Every `?player=` in order, for comparison mode
+  userIds: string[];
+  setUserIds: (userIds: string[]) => void;
+  timeRange: TimeRange;
+  setTimeRange: (timeRange: TimeRange) => void;
+  searchParams: URLSearchParams;
+  // Edit a copy of the current params; the URL entry is replaced, not pushed
+  updateSearchParams: (update: (params: URLSearchParams) => void) => void;
+}
+
+// Player and time range live in the URL so pages share them and links can be shared
+export function usePlayerUrlState(): PlayerUrlState {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const playersKey = searchParams.getAll('player').join(',');
+  // Dedupe and keep one array per distinct selection so data hooks don't refetch
+  const userIds = useMemo(
+    () => Array.from(new Set(playersKey.split(',').filter(Boolean))),
+    [playersKey]
+  );
+  const userId = userIds[0] ?? null;
+  const range = searchParams.get('range');
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+
+  // Keep the same object while the params are unchanged so data hooks don't refetch
+  const timeRange = useMemo(() => parseTimeRange(range, start, end), [range, start, end]);
+
+  const updateSearchParams = useCallback((update: (params: URLSearchParams) => void) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      update(next);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setUserIds = useCallback((nextUserIds: string[]) => {
+    updateSearchParams(params => {
+      params.delete('player');
+      for (const id of nextUserIds) {
+        params.append('player', id);
+      }
+    });
+  }, [updateSearchParams]);
+
+  const setUserId = useCallback((nextUserId: string | null) => {
+    setUserIds(nextUserId ? [nextUserId] : []);
+  }, [setUserIds]);
+
+  const setTimeRange = useCallback((nextTimeRange: TimeRange) => {
+    updateSearchParams(params => writeTimeRange(params, nextTimeRange));
+  }, [updateSearchParams]);
+
+  return { userId, setUserId, userIds, setUserIds, timeRange, setTimeRange, searchParams, updateSearchParams };
+}
+
+// The shared part of the current query string, for links to other pages
+export function useSharedSearch(): string {
+  const [searchParams] = useSearchParams();
+
+  const shared = new URLSearchParams();
+  for (const key of SHARED_SEARCH_PARAMS) {
+    for (const value of searchParams.getAll(key)) {
+      if (value) shared.append(key, value);
+    }
+  }
+
+  const search = shared.toString();
+  return search ? `?${search}` : '';
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ACTIVITY_TYPES_BY_INDEX,
+  validateActivityRegistry,
+  type ActivityDefinition
+} from './activityRegistry';
+
+// The binary protocol's index table. Indices are part of the wire format, so
+// entries may be appended but never changed or removed.
+const WIRE_INDICES: [number, string][] = [
+  [0, 'UNKNOWN'],
+  [1, 'OVERALL'],
+  [2, 'ATTACK'],
+  [3, 'DEFENCE'],
+  [4, 'STRENGTH'],
+  [5, 'HITPOINTS'],
+  [6, 'RANGED'],
+  [7, 'PRAYER'],
+  [8, 'MAGIC'],
+  [9, 'COOKING'],
+  [10, 'WOODCUTTING'],
+  [11, 'FLETCHING'],
+  [12, 'FISHING'],
+  [13, 'FIREMAKING'],
+  [14, 'CRAFTING'],
+  [15, 'SMITHING'],
+  [16, 'MINING'],
+  [17, 'HERBLORE'],
+  [18, 'AGILITY'],
+  [19, 'THIEVING'],
+  [20, 'SLAYER'],
+  [21, 'FARMING'],
+  [22, 'RUNECRAFT'],
+  [23, 'HUNTER'],
+  [24, 'CONSTRUCTION'],
+  [25, 'SAILING'],
+  [26, 'LEAGUE_POINTS'],
+  [27, 'DEADMAN_POINTS'],
+  [28, 'BOUNTY_HUNTER__HUNTER'],
+  [29, 'BOUNTY_HUNTER__ROGUE'],
+  [30, 'BOUNTY_HUNTER_LEGACY__HUNTER'],
+  [31, 'BOUNTY_HUNTER_LEGACY__ROGUE'],
+  [32, 'CLUE_SCROLLS_ALL'],
+  [33, 'CLUE_SCROLLS_BEGINNER'],
+  [34, 'CLUE_SCROLLS_EASY'],
+  [35, 'CLUE_SCROLLS_MEDIUM'],
+  [36, 'CLUE_SCROLLS_HARD'],
+  [37, 'CLUE_SCROLLS_ELITE'],
+  [38, 'CLUE_SCROLLS_MASTER'],
+  [39, 'GRID_POINTS'],
+  [40, 'LMS__RANK'],
+  [41, 'PVP_ARENA__RANK'],
+  [42, 'SOUL_WARS_ZEAL'],
+  [43, 'RIFTS_CLOSED'],
+  [44, 'COLOSSEUM_GLORY'],
+  [45, 'COLLECTIONS_LOGGED'],
+  [46, 'ABYSSAL_SIRE'],
+  [47, 'ALCHEMICAL_HYDRA'],
+  [48, 'AMOXLIATL'],
+  [49, 'ARAXXOR'],
+  [50, 'ARTIO'],
+  [51, 'BARROWS_CHESTS'],
+  [52, 'BRYOPHYTA'],
+  [53, 'CALLISTO'],
+  [54, 'CALVARION'],
+  [55, 'CERBERUS'],
+  [56, 'CHAMBERS_OF_XERIC'],
+  [57, 'CHAMBERS_OF_XERIC_CHALLENGE_MODE'],
+  [58, 'CHAOS_ELEMENTAL'],
+  [59, 'CHAOS_FANATIC'],
+  [60, 'COMMANDER_ZILYANA'],
+  [61, 'CORPOREAL_BEAST'],
+  [62, 'CRAZY_ARCHAEOLOGIST'],
+  [63, 'DAGANNOTH_PRIME'],
+  [64, 'DAGANNOTH_REX'],
+  [65, 'DAGANNOTH_SUPREME'],
+  [66, 'DERANGED_ARCHAEOLOGIST'],
+  [67, 'DOOM_OF_MOKHAIOTL'],
+  [68, 'DUKE_SUCELLUS'],
+  [69, 'GENERAL_GRAARDOR'],
+  [70, 'GIANT_MOLE'],
+  [71, 'GROTESQUE_GUARDIANS'],
+  [72, 'HESPORI'],
+  [73, 'KALPHITE_QUEEN'],
+  [74, 'KING_BLACK_DRAGON'],
+  [75, 'KRAKEN'],
+  [76, 'KREEARRA'],
+  [77, 'KRIL_TSUTSAROTH'],
+  [78, 'LUNAR_CHESTS'],
+  [79, 'MIMIC'],
+  [80, 'NEX'],
+  [81, 'NIGHTMARE'],
+  [82, 'PHOSANIS_NIGHTMARE'],
+  [83, 'OBOR'],
+  [84, 'PHANTOM_MUSPAH'],
+  [85, 'SARACHNIS'],
+  [86, 'SCORPIA'],
+  [87, 'SCURRIUS'],
+  [88, 'SHELLBANE_GRYPHON'],
+  [89, 'SKOTIZO'],
+  [90, 'SOL_HEREDIT'],
+  [91, 'SPINDEL'],
+  [92, 'TEMPOROSS'],
+  [93, 'THE_GAUNTLET'],
+  [94, 'THE_CORRUPTED_GAUNTLET'],
+  [95, 'THE_HUEYCOATL'],
+  [96, 'THE_LEVIATHAN'],
+  [97, 'THE_ROYAL_TITANS'],
+  [98, 'THE_WHISPERER'],
+  [99, 'THEATRE_OF_BLOOD'],
+  [100, 'THEATRE_OF_BLOOD_HARD_MODE'],
+  [101, 'THERMONUCLEAR_SMOKE_DEVIL'],
+  [102, 'TOMBS_OF_AMASCUT'],
+  [103, 'TOMBS_OF_AMASCUT_EXPERT_MODE'],
+  [104, 'TZKALZUK'],
+  [105, 'TZTOKJAD'],
+  [106, 'VARDORVIS'],
+  [107, 'VENENATIS'],
+  [108, 'VETION'],
+  [109, 'VORKATH'],
+  [110, 'WINTERTODT'],
+  [111, 'YAMA'],
+  [112, 'ZALCANO'],
+  [113, 'ZULRAH']
+];
+
+describe('activity registry', () => {
+  it('has no consistency problems', () => {
+    expect(validateActivityRegistry()).toEqual([]);
+  });
+
+  it('matches the wire format index table', () => {
+    for (const [index, activityType] of WIRE_INDICES) {
+      expect(ACTIVITY_TYPES_BY_INDEX[index], `index ${index}`).toBe(activityType);
+    }
+  });
+});
+
+describe('validateActivityRegistry', () => {
+  const definition = (overrides: Partial<ActivityDefinition>): ActivityDefinition => ({
+    type: 'ATTACK',
+    index: 2,
+    category: 'skill',
+    name: 'Attack',
+    unit: 'xp',
+    icon: '',
+    since: 1,
+    ...overrides
+  });
+
+  it('reports duplicate types and reused indices', () => {
+    expect(validateActivityRegistry([
+      definition({}),
+      definition({}),
+      definition({ type: 'DEFENCE' })
+    ])).toEqual([
+      'ATTACK is defined more than once',
+      'ATTACK reuses binary index 2 of ATTACK',
+      'DEFENCE reuses binary index 2 of ATTACK'
+    ]);
+  });
+
+  it('reports indices outside their range, wrong units and unknown versions', () => {
+    expect(validateActivityRegistry([
+      definition({ type: 'ZULRAH', index: 20, category: 'boss', unit: 'kc' }),
+      definition({ type: 'CLUE', index: 30, category: 'activity', unit: 'xp' }),
+      definition({ type: 'NEW_SKILL', index: 25, since: 99 })
+    ])).toEqual([
+      'ZULRAH has index 20 outside the boss range 46-255',
+      'CLUE is a activity but measured in xp',
+      'NEW_SKILL references unknown registry version 99'
+    ]);
+  });
+});
@@ -0,0 +1,284 @@
+// Single source of truth for hiscore activities. The ActivityType union, the
+// category lists, the binary protocol index map and display metadata are all
+// derived from ACTIVITY_DEFINITIONS, so adding an activity is a one-line change.
+//
+// Binary indices are part of the wire format and must never be reused or
+// renumbered: skills 0-25, activities 26-45, bosses 46 and up. New entries are
+// appended with the next free index in their range and tagged with the
+// registry version they were introduced in. activityRegistry.test.ts pins the
+// published indices.
+
+export type ActivityCategory = 'skill' | 'activity' | 'boss';
+
+// What the tracked value counts: experience, kill count or a score
+export type ActivityUnit = 'xp' | 'kc' | 'score';
+
+export interface ActivityDefinition<T extends string = string> {
+  type: T;
+  // Index in the binary delta protocol
+  index: number;
+  category: ActivityCategory;
+  name: string;
+  unit: ActivityUnit;
+  icon: string;
+  // Registry version the activity was added in; see ACTIVITY_REGISTRY_VERSIONS
+  since: number;
+}
+
+// Each registry version and the date it was published
+export const ACTIVITY_REGISTRY_VERSIONS: Record<number, string> = {
+  1: '2026-10-19'
+};
+
+export const ACTIVITY_REGISTRY_VERSION = 1;
+
+const BINARY_INDEX_RANGES: Record<ActivityCategory, [number, number]> = {
+  skill: [0, 25],
+  activity: [26, 45],
+  boss: [46, 255]
+};
+
+const LOWERCASE_WORDS = new Set(['OF', 'THE', 'AND']);
+
+// OVERALL_XP -> "Overall Xp", BOUNTY_HUNTER__ROGUE -> "Bounty Hunter - Rogue"
+function toDisplayName(type: string): string {
+  return type
+    .split('__')
+    .map(part => part
+      .split('_')
+      .map((word, i) => i > 0 && LOWERCASE_WORDS.has(word)
+        ? word.toLowerCase()
+        : word.charAt(0) + word.slice(1).toLowerCase())
+      .join(' '))
+    .join(' - ');
+}
+
+interface DefinitionOptions {
+  name?: string;
+  icon?: string;
+  since?: number;
+}
+
+function skill<T extends string>(type: T, index: number, icon: string, options: DefinitionOptions = {}): ActivityDefinition<T> {
+  return { type, index, category: 'skill', unit: 'xp', name: options.name ?? toDisplayName(type), icon, since: options.since ?? 1 };
+}
+
+function activity<T extends string>(type: T, index: number, icon: string, options: DefinitionOptions = {}): ActivityDefinition<T> {
+  return { type, index, category: 'activity', unit: 'score', name: options.name ?? toDisplayName(type), icon, since: options.since ?? 1 };
+}
+
+function boss<T extends string>(type: T, index: number, options: DefinitionOptions = {}): ActivityDefinition<T> {
+  return { type, index, category: 'boss', unit: 'kc', name: options.name ?? toDisplayName(type), icon: options.icon ?? '👹', since: options.since ?? 1 };
+}
+
+export const ACTIVITY_DEFINITIONS = [
+  // Skills (0-25); UNKNOWN is what unrecognised indices decode to
+  skill('UNKNOWN', 0, '❔'),
+  skill('OVERALL', 1, '📊'),
+  skill('ATTACK', 2, '⚔️'),
+  skill('DEFENCE', 3, '🛡️'),
+  skill('STRENGTH', 4, '💪'),
+  skill('HITPOINTS', 5, '❤️'),
+  skill('RANGED', 6, '🏹'),
+  skill('PRAYER', 7, '🙏'),
+  skill('MAGIC', 8, '🪄'),
+  skill('COOKING', 9, '🍳'),
+  skill('WOODCUTTING', 10, '🪓'),
+  skill('FLETCHING', 11, '🪶'),
+  skill('FISHING', 12, '🎣'),
+  skill('FIREMAKING', 13, '🔥'),
+  skill('CRAFTING', 14, '🧵'),
+  skill('SMITHING', 15, '🔨'),
+  skill('MINING', 16, '⛏️'),
+  skill('HERBLORE', 17, '🌿'),
+  skill('AGILITY', 18, '🏃'),
+  skill('THIEVING', 19, '🦹'),
+  skill('SLAYER', 20, '💀'),
+  skill('FARMING', 21, '🌱'),
+  skill('RUNECRAFT', 22, '🌀'),
+  skill('HUNTER', 23, '🐾'),
+  skill('CONSTRUCTION', 24, '🏠'),
+  skill('SAILING', 25, '⛵'),
+
+  // Activities (26-45)
+  activity('LEAGUE_POINTS', 26, '🏆'),
+  activity('DEADMAN_POINTS', 27, '☠️'),
+  activity('BOUNTY_HUNTER__HUNTER', 28, '🎯'),
+  activity('BOUNTY_HUNTER__ROGUE', 29, '🗡️'),
+  activity('BOUNTY_HUNTER_LEGACY__HUNTER', 30, '🎯', { name: 'Bounty Hunter (Legacy) - Hunter' }),
+  activity('BOUNTY_HUNTER_LEGACY__ROGUE', 31, '🗡️', { name: 'Bounty Hunter (Legacy) - Rogue' }),
+  activity('CLUE_SCROLLS_ALL', 32, '📜', { name: 'Clue Scrolls (all)' }),
+  activity('CLUE_SCROLLS_BEGINNER', 33, '📜', { name: 'Clue Scrolls (beginner)' }),
+  activity('CLUE_SCROLLS_EASY', 34, '📜', { name: 'Clue Scrolls (easy)' }),
+  activity('CLUE_SCROLLS_MEDIUM', 35, '📜', { name: 'Clue Scrolls (medium)' }),
+  activity('CLUE_SCROLLS_HARD', 36, '📜', { name: 'Clue Scrolls (hard)' }),
+  activity('CLUE_SCROLLS_ELITE', 37, '📜', { name: 'Clue Scrolls (elite)' }),
+  activity('CLUE_SCROLLS_MASTER', 38, '📜', { name: 'Clue Scrolls (master)' }),
+  activity('GRID_POINTS', 39, '🔲'),
+  activity('LMS__RANK', 40, '🏟️', { name: 'LMS - Rank' }),
+  activity('PVP_ARENA__RANK', 41, '⚔️', { name: 'PvP Arena - Rank' }),
+  activity('SOUL_WARS_ZEAL', 42, '👻'),
+  activity('RIFTS_CLOSED', 43, '🌀'),
+  activity('COLOSSEUM_GLORY', 44, '🏛️'),
+  activity('COLLECTIONS_LOGGED', 45, '📖'),
+
+  // Bosses (46+)
+  boss('ABYSSAL_SIRE', 46),
+  boss('ALCHEMICAL_HYDRA', 47),
+  boss('AMOXLIATL', 48),
+  boss('ARAXXOR', 49),
+  boss('ARTIO', 50),
+  boss('BARROWS_CHESTS', 51),
+  boss('BRYOPHYTA', 52),
+  boss('CALLISTO', 53),
+  boss('CALVARION', 54, { name: "Calvar'ion" }),
+  boss('CERBERUS', 55),
+  boss('CHAMBERS_OF_XERIC', 56),
+  boss('CHAMBERS_OF_XERIC_CHALLENGE_MODE', 57, { name: 'Chambers of Xeric: Challenge Mode' }),
+  boss('CHAOS_ELEMENTAL', 58),
+  boss('CHAOS_FANATIC', 59),
+  boss('COMMANDER_ZILYANA', 60),
+  boss('CORPOREAL_BEAST', 61),
+  boss('CRAZY_ARCHAEOLOGIST', 62),
+  boss('DAGANNOTH_PRIME', 63),
+  boss('DAGANNOTH_REX', 64),
+  boss('DAGANNOTH_SUPREME', 65),
+  boss('DERANGED_ARCHAEOLOGIST', 66),
+  boss('DOOM_OF_MOKHAIOTL', 67),
+  boss('DUKE_SUCELLUS', 68),
+  boss('GENERAL_GRAARDOR', 69),
+  boss('GIANT_MOLE', 70),
+  boss('GROTESQUE_GUARDIANS', 71),
+  boss('HESPORI', 72),
+  boss('KALPHITE_QUEEN', 73),
+  boss('KING_BLACK_DRAGON', 74),
+  boss('KRAKEN', 75),
+  boss('KREEARRA', 76, { name: "Kree'arra" }),
+  boss('KRIL_TSUTSAROTH', 77, { name: "K'ril Tsutsaroth" }),
+  boss('LUNAR_CHESTS', 78),
+  boss('MIMIC', 79),
+  boss('NEX', 80),
+  boss('NIGHTMARE', 81, { name: 'The Nightmare' }),
+  boss('PHOSANIS_NIGHTMARE', 82, { name: "Phosani's Nightmare" }),
+  boss('OBOR', 83),
+  boss('PHANTOM_MUSPAH', 84),
+  boss('SARACHNIS', 85),
+  boss('SCORPIA', 86),
+  boss('SCURRIUS', 87),
+  boss('SHELLBANE_GRYPHON', 88),
+  boss('SKOTIZO', 89),
+  boss('SOL_HEREDIT', 90),
+  boss('SPINDEL', 91),
+  boss('TEMPOROSS', 92),
+  boss('THE_GAUNTLET', 93),
+  boss('THE_CORRUPTED_GAUNTLET', 94),
+  boss('THE_HUEYCOATL', 95),
+  boss('THE_LEVIATHAN', 96),
+  boss('THE_ROYAL_TITANS', 97),
+  boss('THE_WHISPERER', 98),
+  boss('THEATRE_OF_BLOOD', 99),
+  boss('THEATRE_OF_BLOOD_HARD_MODE', 100, { name: 'Theatre of Blood: Hard Mode' }),
+  boss('THERMONUCLEAR_SMOKE_DEVIL', 101),
+  boss('TOMBS_OF_AMASCUT', 102),
+  boss('TOMBS_OF_AMASCUT_EXPERT_MODE', 103, { name: 'Tombs of Amascut: Expert Mode' }),
+  boss('TZKALZUK', 104, { name: 'TzKal-Zuk' }),
+  boss('TZTOKJAD', 105, { name: 'TzTok-Jad' }),
+  boss('VARDORVIS', 106),
+  boss('VENENATIS', 107),
+  boss('VETION', 108, { name: "Vet'ion" }),
+  boss('VORKATH', 109),
+  boss('WINTERTODT', 110),
+  boss('YAMA', 111),
+  boss('ZALCANO', 112),
+  boss('ZULRAH', 113)
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_DEFINITIONS)[number]['type'];
+
+const DEFINITIONS_BY_TYPE: Map<string, ActivityDefinition<ActivityType>> = new Map(
+  ACTIVITY_DEFINITIONS.map(definition => [definition.type, definition])
+);
+
+// Binary index -> activity type; holes (if any) decode as unknown
+export const ACTIVITY_TYPES_BY_INDEX: (ActivityType | undefined)[] = (() => {
+  const byIndex: (ActivityType | undefined)[] = [];
+  for (const definition of ACTIVITY_DEFINITIONS) {
+    byIndex[definition.index] = definition.type;
+  }
+  return byIndex;
+})();
+
+function listCategory(category: ActivityCategory): ActivityType[] {
+  return ACTIVITY_DEFINITIONS
+    .filter(definition => definition.category === category && definition.type !== 'UNKNOWN')
+    .sort((a, b) => a.index - b.index)
+    .map(definition => definition.type);
+}
+
+export const SKILL_ACTIVITY_TYPES: ActivityType[] = listCategory('skill');
+export const ACTIVITY_ACTIVITY_TYPES: ActivityType[] = listCategory('activity');
+export const BOSS_ACTIVITY_TYPES: ActivityType[] = listCategory('boss');
+
+export function isActivityType(value: string): value is ActivityType {
+  return DEFINITIONS_BY_TYPE.has(value);
+}
+
+export function getActivityDefinition(activityType: string): ActivityDefinition<ActivityType> | null {
+  return DEFINITIONS_BY_TYPE.get(activityType) ?? null;
+}
+
+export function getActivityName(activityType: string): string {
+  return DEFINITIONS_BY_TYPE.get(activityType)?.name ?? toDisplayName(activityType);
+}
+
+// Unknown types are treated as experience, matching the default chart behaviour
+export function getActivityUnit(activityType: string): ActivityUnit {
+  return DEFINITIONS_BY_TYPE.get(activityType)?.unit ?? 'xp';
+}
+
+export function getActivityIndex(activityType: string): number {
+  return DEFINITIONS_BY_TYPE.get(activityType)?.index ?? 0;
+}
+
+export function getActivityAddedDate(activityType: string): string | null {
+  const definition = DEFINITIONS_BY_TYPE.get(activityType);
+  return definition ? ACTIVITY_REGISTRY_VERSIONS[definition.since] ?? null : null;
+}
+
+// Consistency problems in the registry: duplicate types or indices, indices
+// outside their category's range, unit/category mismatches, unknown versions.
+// Empty when the registry is sound.
+export function validateActivityRegistry(
+  definitions: readonly ActivityDefinition[] = ACTIVITY_DEFINITIONS
+): string[] {
+  const problems: string[] = [];
+  const seenTypes = new Set<string>();
+  const seenIndices = new Map<number, string>();
+  const expectedUnits: Record<ActivityCategory, ActivityUnit> = { skill: 'xp', activity: 'score', boss: 'kc' };
+
+  for (const definition of definitions) {
+    if (seenTypes.has(definition.type)) {
+      problems.push(`${definition.type} is defined more than once`);
+    }
+    seenTypes.add(definition.type);
+
+    const clash = seenIndices.get(definition.index);
+    if (clash) {
+      problems.push(`${definition.type} reuses binary index ${definition.index} of ${clash}`);
+    }
+    seenIndices.set(definition.index, definition.type);
+
+    const [min, max] = BINARY_INDEX_RANGES[definition.category];
+    if (definition.index < min || definition.index > max) {
+      problems.push(`${definition.type} has index ${definition.index} outside the ${definition.category} range ${min}-${max}`);
+    }
+    if (definition.unit !== expectedUnits[definition.category]) {
+      problems.push(`${definition.type} is a ${definition.category} but measured in ${definition.unit}`);
+    }
+    if (!(definition.since in ACTIVITY_REGISTRY_VERSIONS) || definition.since > ACTIVITY_REGISTRY_VERSION) {
+      problems.push(`${definition.type} references unknown registry version ${definition.since}`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { GetSnapshotWithDeltasResponse, HiscoreDelta } from '@/types/api';
+import {
+  DEFAULT_ANOMALY_SETTINGS,
+  applyAnomalyReview,
+  detectAnomalies,
+  excludeDeltas,
+  getAnomalyDecisions,
+  isFlagExcluded,
+  setAnomalyDecision
+} from './anomalies';
+import { decodeBinaryDeltaResponse, encodeSnapshotWithDeltas } from './binaryProtocol';
+import { getDeltaKey } from './dataUtils';
+
+const USER_ID = 'user-1';
+const START = Date.UTC(2025, 0, 1);
+
+// Overall and Attack XP gains, one delta an hour
+function createResponse(gains: number[]): GetSnapshotWithDeltasResponse {
+  return {
+    snapshot: { id: 'snapshot-0', userId: USER_ID, timestamp: new Date(START).toISOString(), skills: [], bosses: [], activities: [] },
+    deltas: gains.map((gain, i): HiscoreDelta => ({
+      id: `delta-${i}`,
+      userId: USER_ID,
+      snapshotId: `snapshot-${i + 1}`,
+      previousSnapshotId: `snapshot-${i}`,
+      timestamp: new Date(START + (i + 1) * 3_600_000).toISOString(),
+      skills: [
+        { activityType: 'OVERALL', name: 'Overall', experienceGain: gain, levelGain: 0 },
+        { activityType: 'ATTACK', name: 'Attack', experienceGain: gain, levelGain: 0 }
+      ]
+    }))
+  };
+}
+
+// Through a v1 payload, which carries no IDs, as older servers send it
+function withoutIds(response: GetSnapshotWithDeltasResponse): GetSnapshotWithDeltasResponse {
+  return decodeBinaryDeltaResponse(encodeSnapshotWithDeltas(response, { version: 1 }), USER_ID);
+}
+
+function getExcludedKeys(response: GetSnapshotWithDeltasResponse, userId: string): Set<string> {
+  const decisions = getAnomalyDecisions(userId);
+  return new Set(
+    detectAnomalies(response.deltas, DEFAULT_ANOMALY_SETTINGS)
+      .filter(flag => isFlagExcluded(flag, decisions))
+      .map(flag => flag.deltaKey)
+  );
+}
+
+const GAINS = [10_000, 12_000, 11_000, 20_000_000, 13_000, 9_000, 5_000_000, 14_000, 10_500, 12_500];
+
+describe('getDeltaKey', () => {
+  it('uses the ID when there is one, otherwise the timestamp', () => {
+    const [delta] = createResponse([1]).deltas;
+
+    expect(getDeltaKey(delta)).toBe('delta-0');
+    expect(getDeltaKey({ ...delta, id: '' })).toBe(delta.timestamp);
+  });
+});
+
+describe('anomalies in payloads without delta IDs', () => {
+  const response = withoutIds(createResponse(GAINS));
+
+  it('decodes every delta with an empty ID', () => {
+    expect(response.deltas.every(delta => delta.id === '')).toBe(true);
+  });
+
+  it('keys each flag by its own delta', () => {
+    const flags = detectAnomalies(response.deltas, DEFAULT_ANOMALY_SETTINGS);
+
+    expect(flags.map(flag => [flag.reason, flag.deltaKey])).toEqual([
+      ['cap', response.deltas[3].timestamp],
+      ['outlier', response.deltas[6].timestamp]
+    ]);
+  });
+
+  it('only leaves out the capped delta by default', () => {
+    const reviewed = excludeDeltas(response, getExcludedKeys(response, 'no-decisions'));
+
+    expect(reviewed.deltas).toHaveLength(9);
+    expect(reviewed.deltas).not.toContain(response.deltas[3]);
+  });
+
+  it('applies a decision to the one delta it was made for', () => {
+    const userId = 'decisions';
+    const [capped, outlier] = detectAnomalies(response.deltas, DEFAULT_ANOMALY_SETTINGS);
+
+    setAnomalyDecision(userId, outlier.deltaKey, true);
+    expect(excludeDeltas(response, getExcludedKeys(response, userId)).deltas).toHaveLength(8);
+
+    setAnomalyDecision(userId, capped.deltaKey, false);
+    const reviewed = excludeDeltas(response, getExcludedKeys(response, userId));
+    expect(reviewed.deltas).toHaveLength(9);
+    expect(reviewed.deltas).toContain(response.deltas[3]);
+    expect(reviewed.deltas).not.toContain(response.deltas[6]);
+  });
+
+  it('gives the same response with applyAnomalyReview', () => {
+    const userId = 'applied';
+    const [, outlier] = detectAnomalies(response.deltas, DEFAULT_ANOMALY_SETTINGS);
+    setAnomalyDecision(userId, outlier.deltaKey, true);
+
+    const reviewed = applyAnomalyReview(response, DEFAULT_ANOMALY_SETTINGS, getAnomalyDecisions(userId));
+    expect(reviewed).toEqual(excludeDeltas(response, getExcludedKeys(response, userId)));
+    expect(reviewed.deltas).toHaveLength(8);
+  });
+
+  it('keeps the same response when nothing is excluded', () => {
+    const clean = withoutIds(createResponse(GAINS.filter(gain => gain < 1_000_000)));
+    expect(applyAnomalyReview(clean, DEFAULT_ANOMALY_SETTINGS, {})).toBe(clean);
+  });
+});
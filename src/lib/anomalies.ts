@@ -0,0 +1,349 @@
+import type { ActivityType, GetSnapshotWithDeltasResponse, HiscoreDelta } from '@/types/api';
+import { getActivityUnit, isActivityType } from './activityRegistry';
+import { getDeltaKey } from './dataUtils';
+
+// Spotting gains that are probably data errors (a hiscore glitch, a reset
+// account) or just unusually large (a lamp dump). Deltas over a hard cap are
+// left out of every total by default; statistical outliers stay in but are
+// listed for review and kept from blowing out chart axes. Players can include
+// or exclude each flagged delta, and the choice is kept per player.
+
+// 'cap' only applies the hard caps; the others also flag gains far above the rest
+export type AnomalyStrategy = 'cap' | 'iqr' | 'mad' | 'zscore';
+
+export interface AnomalySettings {
+  strategy: AnomalyStrategy;
+  // How far above the typical gain counts as an outlier, in the strategy's own
+  // unit: IQRs above Q3, or (robust) standard deviations above the centre
+  sensitivity: number;
+  // Hard cap for a single delta's XP in any skill, overall included
+  experienceCap: number;
+  // Caps for specific activities, overriding the XP cap; kill counts and scores
+  // have no cap unless set here
+  activityCaps: Partial<Record<ActivityType, number>>;
+}
+
+// What decides a statistical outlier, without the caps
+export type OutlierRule = Pick<AnomalySettings, 'strategy' | 'sensitivity'>;
+
+export interface AnomalyStrategyOption {
+  id: AnomalyStrategy;
+  label: string;
+  description: string;
+  defaultSensitivity: number;
+}
+
+export interface AnomalyFlag {
+  // getDeltaKey() of the flagged delta
+  deltaKey: string;
+  timestamp: string;
+  // Overall XP of the delta, for context
+  experienceGain: number;
+  // The activity whose gain was flagged; OVERALL for outliers
+  activityType: ActivityType;
+  gain: number;
+  // The cap or outlier bound the gain went past
+  limit: number;
+  reason: 'cap' | 'outlier';
+}
+
+export const ANOMALY_STRATEGIES: AnomalyStrategyOption[] = [
+  { id: 'cap', label: 'Cap only', description: 'Only flag gains over the caps', defaultSensitivity: 0 },
+  { id: 'iqr', label: 'IQR', description: 'Flag gains more than N interquartile ranges above Q3', defaultSensitivity: 3 },
+  { id: 'mad', label: 'MAD', description: 'Flag gains more than N robust deviations (median absolute deviation) above the median', defaultSensitivity: 3.5 },
+  { id: 'zscore', label: 'Z-score', description: 'Flag gains more than N standard deviations above the mean', defaultSensitivity: 3 }
+];
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  strategy: 'iqr',
+  sensitivity: 3,
+  experienceCap: 10_000_000,
+  activityCaps: {}
+};
+
+// Fewer gains than this say nothing about what's typical
+const MIN_OUTLIER_SAMPLE = 4;
+
+// Scales the MAD to a standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+
+const SETTINGS_STORAGE_KEY = 'hazelmere.anomalies';
+const REVIEW_STORAGE_KEY_PREFIX = 'hazelmere.anomalies.review.';
+
+// Delta key (see getDeltaKey) -> whether the player excluded it; unset means
+// the default for its flag
+export type AnomalyDecisions = Record<string, boolean>;
+
+const NO_DECISIONS: AnomalyDecisions = {};
+
+let settingsCache: AnomalySettings | null = null;
+// Parsed decisions per player, so every read of the same player returns the same object
+const decisionCache = new Map<string, AnomalyDecisions>();
+const listeners = new Set<() => void>();
+
+export function getStrategyOption(strategy: AnomalyStrategy): AnomalyStrategyOption {
+  return ANOMALY_STRATEGIES.find(option => option.id === strategy) ?? ANOMALY_STRATEGIES[0];
+}
+
+function quantile(sorted: number[], fraction: number): number {
+  return sorted[Math.floor(sorted.length * fraction)];
+}
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Upper bound for the positive values under a statistical strategy; null for
+// 'cap', with too few values, or when the values don't spread at all
+export function getOutlierBound(
+  values: ArrayLike<number>,
+  strategy: AnomalyStrategy,
+  sensitivity: number
+): number | null {
+  if (strategy === 'cap') return null;
+
+  const positive: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > 0) positive.push(values[i]);
+  }
+  if (positive.length < MIN_OUTLIER_SAMPLE) return null;
+  positive.sort((a, b) => a - b);
+
+  switch (strategy) {
+    case 'iqr': {
+      const q1 = quantile(positive, 0.25);
+      const q3 = quantile(positive, 0.75);
+      return q3 + sensitivity * (q3 - q1);
+    }
+    case 'mad': {
+      const centre = median(positive);
+      const deviations = positive.map(value => Math.abs(value - centre)).sort((a, b) => a - b);
+      const mad = median(deviations) * MAD_SCALE;
+      return mad > 0 ? centre + sensitivity * mad : null;
+    }
+    case 'zscore': {
+      const mean = positive.reduce((sum, value) => sum + value, 0) / positive.length;
+      const variance = positive.reduce((sum, value) => sum + (value - mean) ** 2, 0) / positive.length;
+      const deviation = Math.sqrt(variance);
+      return deviation > 0 ? mean + sensitivity * deviation : null;
+    }
+  }
+}
+
+// Largest believable gain for the activity in one delta
+export function getGainCap(activityType: ActivityType, settings: AnomalySettings): number {
+  const cap = settings.activityCaps[activityType];
+  if (cap !== undefined) return cap;
+  return getActivityUnit(activityType) === 'xp' ? settings.experienceCap : Infinity;
+}
+
+function getOverallGain(delta: HiscoreDelta): number {
+  return delta.skills?.find(skill => skill.activityType === 'OVERALL')?.experienceGain ?? 0;
+}
+
+interface CapBreach {
+  activityType: ActivityType;
+  gain: number;
+  limit: number;
+}
+
+// The gain furthest over its cap, if any; on a tie the skill rather than overall
+function findCapBreach(delta: HiscoreDelta, settings: AnomalySettings): CapBreach | null {
+  const gains: [ActivityType, number][] = [
+    ...(delta.skills ?? []).map(skill => [skill.activityType, skill.experienceGain] as [ActivityType, number]),
+    ...(delta.bosses ?? []).map(boss => [boss.activityType, boss.killCountGain] as [ActivityType, number]),
+    ...(delta.activities ?? []).map(activity => [activity.activityType, activity.scoreGain] as [ActivityType, number])
+  ];
+
+  let breach: CapBreach | null = null;
+  for (const [activityType, gain] of gains) {
+    const limit = getGainCap(activityType, settings);
+    if (gain <= limit) continue;
+    const overshoot = gain / limit;
+    const previous = breach ? breach.gain / breach.limit : 0;
+    if (overshoot > previous || (overshoot === previous && breach?.activityType === 'OVERALL')) {
+      breach = { activityType, gain, limit };
+    }
+  }
+  return breach;
+}
+
+// Flag deltas over a cap, then deltas whose overall XP is an outlier among the rest
+export function detectAnomalies(deltas: HiscoreDelta[], settings: AnomalySettings): AnomalyFlag[] {
+  const flags: AnomalyFlag[] = [];
+  const unflagged: HiscoreDelta[] = [];
+
+  for (const delta of deltas) {
+    const breach = findCapBreach(delta, settings);
+    if (breach) {
+      flags.push({ deltaKey: getDeltaKey(delta), timestamp: delta.timestamp, experienceGain: getOverallGain(delta), ...breach, reason: 'cap' });
+    } else {
+      unflagged.push(delta);
+    }
+  }
+
+  const bound = getOutlierBound(unflagged.map(getOverallGain), settings.strategy, settings.sensitivity);
+  if (bound !== null) {
+    for (const delta of unflagged) {
+      const gain = getOverallGain(delta);
+      if (gain > bound) {
+        flags.push({
+          deltaKey: getDeltaKey(delta),
+          timestamp: delta.timestamp,
+          experienceGain: gain,
+          activityType: 'OVERALL',
+          gain,
+          limit: bound,
+          reason: 'outlier'
+        });
+      }
+    }
+  }
+
+  return flags.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+// Capped gains are left out unless the player includes them; outliers stay in
+// unless they are excluded
+export function isFlagExcluded(flag: AnomalyFlag, decisions: AnomalyDecisions): boolean {
+  return decisions[flag.deltaKey] ?? flag.reason === 'cap';
+}
+
+// The response without the excluded deltas; the same object when nothing is excluded
+export function excludeDeltas(
+  response: GetSnapshotWithDeltasResponse,
+  excludedKeys: ReadonlySet<string>
+): GetSnapshotWithDeltasResponse {
+  if (excludedKeys.size === 0) return response;
+  return { ...response, deltas: response.deltas.filter(delta => !excludedKeys.has(getDeltaKey(delta))) };
+}
+
+// The response without the deltas excluded under the settings and the
+// player's decisions, for when the flags themselves aren't shown
+export function applyAnomalyReview(
+  response: GetSnapshotWithDeltasResponse,
+  settings: AnomalySettings,
+  decisions: AnomalyDecisions
+): GetSnapshotWithDeltasResponse {
+  const excludedKeys = new Set(
+    detectAnomalies(response.deltas, settings)
+      .filter(flag => isFlagExcluded(flag, decisions))
+      .map(flag => flag.deltaKey)
+  );
+  return excludeDeltas(response, excludedKeys);
+}
+
+function readStorage(key: string): unknown {
+  try {
+    const value = typeof window !== 'undefined' ? window.localStorage.getItem(key) : null;
+    return value ? JSON.parse(value) : null;
+  } catch {
+    // Unavailable storage or a corrupt entry - fall back to the defaults
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    if (typeof window === 'undefined') return;
+    if (value === null) {
+      window.localStorage.removeItem(key);
+    } else {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage can be unavailable (private mode, quota) - the choice still applies until reload
+  }
+  listeners.forEach(listener => listener());
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function parseSettings(value: unknown): AnomalySettings {
+  if (!value || typeof value !== 'object') return DEFAULT_ANOMALY_SETTINGS;
+  const stored = value as Partial<AnomalySettings>;
+  const strategy = ANOMALY_STRATEGIES.some(option => option.id === stored.strategy)
+    ? stored.strategy as AnomalyStrategy
+    : DEFAULT_ANOMALY_SETTINGS.strategy;
+
+  const activityCaps: Partial<Record<ActivityType, number>> = {};
+  for (const [activityType, cap] of Object.entries(stored.activityCaps ?? {})) {
+    if (isActivityType(activityType) && isPositiveNumber(cap)) activityCaps[activityType] = cap;
+  }
+
+  return {
+    strategy,
+    sensitivity: isPositiveNumber(stored.sensitivity) ? stored.sensitivity : getStrategyOption(strategy).defaultSensitivity,
+    experienceCap: isPositiveNumber(stored.experienceCap) ? stored.experienceCap : DEFAULT_ANOMALY_SETTINGS.experienceCap,
+    activityCaps
+  };
+}
+
+export function getAnomalySettings(): AnomalySettings {
+  if (!settingsCache) {
+    settingsCache = parseSettings(readStorage(SETTINGS_STORAGE_KEY));
+  }
+  return settingsCache;
+}
+
+export function setAnomalySettings(settings: AnomalySettings) {
+  settingsCache = settings;
+  writeStorage(SETTINGS_STORAGE_KEY, settings);
+}
+
+export function resetAnomalySettings() {
+  settingsCache = DEFAULT_ANOMALY_SETTINGS;
+  writeStorage(SETTINGS_STORAGE_KEY, null);
+}
+
+export function getAnomalyDecisions(userId: string | null): AnomalyDecisions {
+  if (!userId) return NO_DECISIONS;
+  let decisions = decisionCache.get(userId);
+  if (!decisions) {
+    const stored = readStorage(`${REVIEW_STORAGE_KEY_PREFIX}${userId}`);
+    decisions = NO_DECISIONS;
+    if (stored && typeof stored === 'object') {
+      decisions = Object.fromEntries(
+        Object.entries(stored).filter((entry): entry is [string, boolean] => typeof entry[1] === 'boolean')
+      );
+    }
+    decisionCache.set(userId, decisions);
+  }
+  return decisions;
+}
+
+// Include or exclude a flagged delta; null goes back to the default for its flag
+export function setAnomalyDecision(userId: string, deltaKey: string, excluded: boolean | null) {
+  const decisions = { ...getAnomalyDecisions(userId) };
+  if (excluded === null) {
+    delete decisions[deltaKey];
+  } else {
+    decisions[deltaKey] = excluded;
+  }
+  decisionCache.set(userId, decisions);
+  writeStorage(`${REVIEW_STORAGE_KEY_PREFIX}${userId}`, Object.keys(decisions).length > 0 ? decisions : null);
+}
+
+export function subscribeAnomalies(listener: () => void): () => void {
+  // Settings or decisions changed in another tab
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === SETTINGS_STORAGE_KEY) {
+      settingsCache = null;
+    } else if (event.key?.startsWith(REVIEW_STORAGE_KEY_PREFIX)) {
+      decisionCache.delete(event.key.slice(REVIEW_STORAGE_KEY_PREFIX.length));
+    } else {
+      return;
+    }
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -15,24 +15,242 @@ import type {
   GetDeltaSummaryResponse,
   GetSnapshotWithDeltasResponse
 } from '@/types/api';
-import { decodeBinaryDeltaResponse } from './binaryProtocol';
+import { BINARY_ACCEPT_HEADER } from './binaryProtocol';
+import { deltaPipeline } from './deltaPipeline';
+import { getApiConfig, subscribeApiConfig } from './apiConfig';
+import { ResponseCache, type CachePolicy } from './responseCache';
+import { DeltaRangeStore } from './deltaRangeStore';
+import {
+  HazelmereApiError,
+  NetworkError,
+  TimeoutError,
+  DecodeError,
+  RateLimitError,
+  createHttpError
+} from './apiErrors';
+
+// Errors thrown by the client are always HazelmereApiError subclasses
+export type ApiError = HazelmereApiError;
+
+export interface RetryPolicy {
+  // Additional attempts after the first; 0 disables retries
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000
+};
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// 'default' serves from cache when possible, 'reload' skips the lookup but
+// stores the fresh response, 'no-store' bypasses the cache entirely
+export type CacheMode = 'default' | 'reload' | 'no-store';
+
+export interface RequestOptions {
+  // Aborts the request; the returned promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Overrides the client's retry policy for idempotent calls; false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Per-attempt timeout
+  timeoutMs?: number;
+}
+
+export interface CachedRequestOptions<T> extends RequestOptions {
+  cache?: CacheMode;
+  // Called with fresh data when a stale cached response was returned and the
+  // background revalidation completes
+  onRevalidate?: (data: T) => void;
+}
+
+// Loading progress for large delta payloads: bytes while downloading, deltas
+// while decoding. `total` is null when the server didn't send a length.
+export interface LoadProgress {
+  phase: 'download' | 'decode';
+  loaded: number;
+  total: number | null;
+}
+
+export interface DeltaRequestOptions extends CachedRequestOptions<GetSnapshotWithDeltasResponse> {
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+// Payloads smaller than this load fast enough that progress would only flicker
+const PROGRESS_MIN_BYTES = 256 * 1024;
+
+// Range boundaries are rounded to this resolution in cache keys so that
+// "last 7 days" requested a few seconds apart hits the same entry
+const CACHE_KEY_RESOLUTION_MS = 5 * 60 * 1000;
+
+// Ranges that ended more than this long ago won't gain new data
+const HISTORICAL_RANGE_THRESHOLD_MS = 60 * 60 * 1000;
+
+const RECENT_RANGE_CACHE_POLICY: CachePolicy = {
+  freshMs: 2 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000
+};
+
+const HISTORICAL_RANGE_CACHE_POLICY: CachePolicy = {
+  freshMs: 24 * 60 * 60 * 1000,
+  staleMs: 30 * 24 * 60 * 60 * 1000
+};
+
+// A freshly loaded response and its approximate in-memory size. Partial
+// responses (e.g. a truncated binary payload) are returned but not cached.
+interface LoadedResponse<T> {
+  data: T;
+  size: number;
+  cacheable?: boolean;
+}
+
+// Decoded binary responses are several times larger in memory than on the wire
+const DECODED_BINARY_SIZE_FACTOR = 8;
+
+function getCachePolicy(endTime: Date): CachePolicy {
+  return Date.now() - endTime.getTime() > HISTORICAL_RANGE_THRESHOLD_MS
+    ? HISTORICAL_RANGE_CACHE_POLICY
+    : RECENT_RANGE_CACHE_POLICY;
+}
+
+function quantizeTime(time: Date): number {
+  return Math.floor(time.getTime() / CACHE_KEY_RESOLUTION_MS) * CACHE_KEY_RESOLUTION_MS;
+}
+
+function getUserCacheTag(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Exponential backoff with equal jitter: half the window is fixed, half random,
+// so concurrent clients spread out without retrying immediately.
+// Rate limits wait for Retry-After instead; null means give up.
+function getRetryDelay(error: HazelmereApiError, attempt: number, policy: RetryPolicy): number | null {
+  if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return window / 2 + Math.random() * (window / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  if (!text) {
+    return {} as T;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new DecodeError('Invalid JSON response from server', { status: response.status, cause: error });
+  }
+}
+
+// Read a binary body, reporting download progress as chunks arrive
+async function readBufferWithProgress(
+  response: Response,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<ArrayBuffer> {
+  const contentLength = Number(response.headers.get('Content-Length')) || null;
+  if (!onProgress || !response.body) {
+    return response.arrayBuffer();
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    // Content-Length is the compressed size when the body is encoded
+    onProgress({ phase: 'download', loaded, total: contentLength !== null && loaded <= contentLength ? contentLength : null });
+  }
+
+  const buffer = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+}
 
-// Always use the public API URL
-const API_BASE_URL = 'https://api.hazelmere.xyz';
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+    || error instanceof DOMException && error.name === 'AbortError';
+}
 
-export interface ApiError {
-  message: string;
-  status: number;
-  code?: string;
+// Settle with `promise`, or reject as soon as `signal` aborts. Used where the
+// underlying request is shared and must keep running for other callers.
+function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
 export class HazelmereApiClient {
   private baseUrl: string;
   // Track in-flight requests to deduplicate concurrent identical requests
   private inFlightRequests: Map<string, Promise<GetSnapshotIntervalResponse>> = new Map();
+  // Persisted responses for range queries, keyed per endpoint/user/range/window
+  private responseCache: ResponseCache;
+  // Keys with a background revalidation running, so stale hits don't stampede
+  private revalidating: Set<string> = new Set();
+  // Already-loaded delta windows, used to answer sub-ranges without a request
+  private deltaRangeStore: DeltaRangeStore = new DeltaRangeStore();
+  private retryPolicy: RetryPolicy;
+
+  constructor(
+    baseUrl: string = getApiConfig().baseUrl,
+    responseCache: ResponseCache = new ResponseCache(),
+    retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY
+  ) {
+    this.baseUrl = baseUrl;
+    this.responseCache = responseCache;
+    this.retryPolicy = retryPolicy;
+  }
 
-  constructor(baseUrl: string = API_BASE_URL) {
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // Point the client at a different API; in-flight requests belong to the old endpoint
+  setBaseUrl(baseUrl: string) {
+    if (baseUrl === this.baseUrl) return;
     this.baseUrl = baseUrl;
+    this.inFlightRequests.clear();
   }
 
   // Generate a cache key for interval requests
@@ -42,101 +260,254 @@ export class HazelmereApiClient {
     endTime: Date,
     aggregationWindow?: AggregationWindow
   ): string {
-    return `${userId}-${startTime.toISOString()}-${endTime.toISOString()}-${aggregationWindow || 'none'}`;
+    return `${this.baseUrl}-${userId}-${startTime.toISOString()}-${endTime.toISOString()}-${aggregationWindow || 'none'}`;
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      const errorBody = await response.text().catch(() => '');
-      let message = `HTTP ${response.status}: ${response.statusText}`;
-      
+  private getRangeCacheKey(
+    kind: string,
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    aggregationWindow?: AggregationWindow
+  ): string {
+    return `${kind}|${this.baseUrl}|${userId}|${quantizeTime(startTime)}|${quantizeTime(endTime)}|${aggregationWindow || 'none'}`;
+  }
+
+  // Serve a range query from the response cache, falling back to `load`.
+  // Stale entries are returned immediately and refreshed in the background.
+  private async withCache<T>(
+    key: string,
+    userId: string,
+    endTime: Date,
+    options: CachedRequestOptions<T>,
+    load: (signal?: AbortSignal) => Promise<LoadedResponse<T>>
+  ): Promise<T> {
+    const mode = options.cache ?? 'default';
+
+    if (mode === 'default') {
+      const cached = await raceWithSignal(this.responseCache.get<T>(key), options.signal);
+      if (cached) {
+        if (cached.isStale) {
+          this.revalidate(key, userId, endTime, load, options);
+        }
+        return cached.value;
+      }
+    }
+
+    const { data, size, cacheable = true } = await load(options.signal);
+    if (mode !== 'no-store' && cacheable) {
+      this.responseCache.set(key, data, { size, policy: getCachePolicy(endTime), tags: [getUserCacheTag(userId)] });
+    }
+    return data;
+  }
+
+  private revalidate<T>(
+    key: string,
+    userId: string,
+    endTime: Date,
+    load: (signal?: AbortSignal) => Promise<LoadedResponse<T>>,
+    { signal, onRevalidate }: CachedRequestOptions<T>
+  ) {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    // Not tied to the caller's signal: the refreshed entry is useful to the
+    // next caller even if this one has moved on
+    load()
+      .then(({ data, size, cacheable = true }) => {
+        if (cacheable) {
+          this.responseCache.set(key, data, { size, policy: getCachePolicy(endTime), tags: [getUserCacheTag(userId)] });
+        }
+        if (!signal?.aborted) {
+          onRevalidate?.(data);
+        }
+      })
+      .catch(error => {
+        console.warn('Background revalidation failed:', key, error);
+      })
+      .finally(() => {
+        this.revalidating.delete(key);
+      });
+  }
+
+  // Drop cached responses for one user, or everything when no user is given
+  invalidateCache(userId?: string): Promise<void> {
+    if (userId) {
+      this.deltaRangeStore.clear(key => key.endsWith(`|${userId}`));
+      return this.responseCache.invalidateTag(getUserCacheTag(userId));
+    }
+    this.deltaRangeStore.clear();
+    return this.responseCache.clear();
+  }
+
+  // Issue a request and read its body, with a per-attempt timeout and typed
+  // errors. Idempotent calls are retried with backoff on retryable failures.
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>,
+    { signal, retry, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions = {},
+    idempotent: boolean = true
+  ): Promise<T> {
+    const policy: RetryPolicy = retry === false || !idempotent
+      ? { ...this.retryPolicy, retries: 0 }
+      : { ...this.retryPolicy, ...retry };
+
+    for (let attempt = 0; ; attempt++) {
       try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson.message) {
-          message = errorJson.message;
+        return await this.attemptRequest(`${this.baseUrl}${path}`, init, read, signal, timeoutMs);
+      } catch (error) {
+        if (!(error instanceof HazelmereApiError) || !error.retryable || attempt >= policy.retries) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(error, attempt, policy);
+        if (delay === null) {
+          throw error;
         }
-      } catch {
-        if (errorBody) {
-          message = errorBody;
+
+        // ErrorAlert shows the countdown; only log the backoff while developing
+        if (import.meta.env.DEV) {
+          console.warn(`Retrying ${path} in ${Math.round(delay)}ms (attempt ${attempt + 2}/${policy.retries + 1}):`, error.message);
         }
+        await sleep(delay, signal);
       }
-
-      const error: ApiError = {
-        message,
-        status: response.status,
-      };
-      throw error;
     }
+  }
 
-    const text = await response.text();
-    if (!text) {
-      return {} as T;
+  private async attemptRequest<T>(
+    url: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>,
+    signal: AbortSignal | undefined,
+    timeoutMs: number
+  ): Promise<T> {
+    if (signal?.aborted) {
+      throw signal.reason;
     }
-    
+
+    // One controller for both the caller's signal and the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     try {
-      return JSON.parse(text);
-    } catch (e) {
-      throw new Error('Invalid JSON response from server');
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw await createHttpError(response);
+      }
+      return await read(response);
+    } catch (error) {
+      if (error instanceof HazelmereApiError) throw error;
+      if (timedOut) throw new TimeoutError(timeoutMs, { cause: error });
+      if (signal?.aborted) throw error;
+      // fetch rejects with a bare TypeError for DNS, CORS, offline and reset connections
+      throw new NetworkError(undefined, { cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
-  async getAllSnapshotsForUser(userId: string): Promise<HiscoreSnapshot[]> {
+  async getAllSnapshotsForUser(userId: string, options: RequestOptions = {}): Promise<HiscoreSnapshot[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/snapshot/${userId}`, {
-        headers: {
-          'Accept': 'application/json',
+      const data = await this.request(
+        `/v1/snapshot/${userId}`,
+        {
+          headers: {
+            'Accept': 'application/json',
+          },
         },
-      });
-      const data = await this.handleResponse<GetAllSnapshotsForUserResponse>(response);
+        readJson<GetAllSnapshotsForUserResponse>,
+        options
+      );
       return data.snapshots || [];
     } catch (error) {
-      console.error('Failed to fetch snapshots for user:', userId, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch snapshots for user:', userId, error);
+      }
       throw error;
     }
   }
 
   async getSnapshotNearestTimestamp(
     userId: string, 
-    timestamp: number
+    timestamp: number,
+    options: RequestOptions = {}
   ): Promise<HiscoreSnapshot> {
     try {
-      const response = await fetch(
-        `${this.baseUrl}/v1/snapshot/${userId}/nearest/${timestamp}`,
+      const data = await this.request(
+        `/v1/snapshot/${userId}/nearest/${timestamp}`,
         {
           headers: {
             'Accept': 'application/json',
           },
-        }
+        },
+        readJson<GetSnapshotNearestTimestampResponse>,
+        options
       );
-      const data = await this.handleResponse<GetSnapshotNearestTimestampResponse>(response);
       return data.snapshot;
     } catch (error) {
-      console.error('Failed to fetch snapshot nearest timestamp:', { userId, timestamp }, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch snapshot nearest timestamp:', { userId, timestamp }, error);
+      }
       throw error;
     }
   }
 
-  async createSnapshot(snapshot: HiscoreSnapshot): Promise<HiscoreSnapshot> {
+  async createSnapshot(snapshot: HiscoreSnapshot, options: RequestOptions = {}): Promise<HiscoreSnapshot> {
     try {
       const request: CreateSnapshotRequest = { snapshot };
-      const response = await fetch(`${this.baseUrl}/v1/snapshot`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
+      // Not idempotent - a retry after a lost response could store the snapshot twice
+      const data = await this.request(
+        '/v1/snapshot',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          body: JSON.stringify(request),
         },
-        body: JSON.stringify(request)
-      });
-      
-      const data = await this.handleResponse<CreateSnapshotResponse>(response);
+        readJson<CreateSnapshotResponse>,
+        options,
+        false
+      );
+
       return data.snapshot;
     } catch (error) {
-      console.error('Failed to create snapshot:', error);
+      if (!isAbortError(error)) {
+        console.error('Failed to create snapshot:', error);
+      }
       throw error;
     }
   }
 
   async getSnapshotInterval(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    aggregationWindow?: AggregationWindow,
+    options: CachedRequestOptions<GetSnapshotIntervalResponse> = {}
+  ): Promise<GetSnapshotIntervalResponse> {
+    return this.withCache(
+      this.getRangeCacheKey('interval', userId, startTime, endTime, aggregationWindow),
+      userId,
+      endTime,
+      options,
+      async signal => {
+        const data = await raceWithSignal(this.fetchSnapshotInterval(userId, startTime, endTime, aggregationWindow), signal);
+        return { data, size: JSON.stringify(data).length * 2 };
+      }
+    );
+  }
+
+  private fetchSnapshotInterval(
     userId: string,
     startTime: Date,
     endTime: Date,
@@ -160,16 +531,18 @@ export class HazelmereApiClient {
           ...(aggregationWindow && { aggregationWindow })
         };
 
-        const response = await fetch(`${this.baseUrl}/v1/snapshot/interval`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
+        const data = await this.request(
+          '/v1/snapshot/interval',
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Accept': 'application/json',
+            },
+            body: JSON.stringify(request)
           },
-          body: JSON.stringify(request)
-        });
-
-        const data = await this.handleResponse<GetSnapshotIntervalResponse>(response);
+          readJson<GetSnapshotIntervalResponse>
+        );
         return {
           snapshots: data.snapshots || [],
           totalSnapshots: data.totalSnapshots || 0,
@@ -190,16 +563,19 @@ export class HazelmereApiClient {
     return requestPromise;
   }
 
-  async getAllUsers(): Promise<User[]> {
+  async getAllUsers(options: RequestOptions = {}): Promise<User[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/user`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
+      const data = await this.request(
+        '/v1/user',
+        {
+          method: 'GET',
+          headers: {
+            'Accept': 'application/json',
+          },
         },
-      });
-
-      const data = await this.handleResponse<GetAllUsersResponse>(response);
+        readJson<GetAllUsersResponse>,
+        options
+      );
       
       // Extract users array from response
       if (data && Array.isArray(data.users)) {
@@ -208,13 +584,15 @@ export class HazelmereApiClient {
       
       return [];
     } catch (error) {
-      console.error('Failed to fetch all users:', error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch all users:', error);
+      }
       throw error;
     }
   }
 
   // Health check endpoint - try a simple endpoint to test API connectivity
-  async healthCheck(): Promise<boolean> {
+  async healthCheck({ signal }: RequestOptions = {}): Promise<boolean> {
     try {
       // Try to make a simple request to test API connectivity
       // Since health endpoint might not exist, we'll try the base URL
@@ -223,26 +601,34 @@ export class HazelmereApiClient {
         headers: {
           'Accept': 'application/json',
         },
+        signal,
       });
       // Accept any response that's not a network error
       return true;
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Health check failed:', error);
       return false;
     }
   }
 
-  async getLatestDelta(userId: string): Promise<HiscoreDelta> {
+  async getLatestDelta(userId: string, options: RequestOptions = {}): Promise<HiscoreDelta> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/delta/${userId}/latest`, {
-        headers: {
-          'Accept': 'application/json',
+      const data = await this.request(
+        `/v1/delta/${userId}/latest`,
+        {
+          headers: {
+            'Accept': 'application/json',
+          },
         },
-      });
-      const data = await this.handleResponse<GetLatestDeltaResponse>(response);
+        readJson<GetLatestDeltaResponse>,
+        options
+      );
       return data.delta;
     } catch (error) {
-      console.error('Failed to fetch latest delta:', userId, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch latest delta:', userId, error);
+      }
       throw error;
     }
   }
@@ -250,29 +636,35 @@ export class HazelmereApiClient {
   async getDeltaInterval(
     userId: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    options: RequestOptions = {}
   ): Promise<GetDeltaIntervalResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/delta/interval`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
+      const data = await this.request(
+        '/v1/delta/interval',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            startTime: startTime.toISOString(),
+            endTime: endTime.toISOString()
+          }),
         },
-        body: JSON.stringify({
-          userId,
-          startTime: startTime.toISOString(),
-          endTime: endTime.toISOString()
-        })
-      });
-
-      const data = await this.handleResponse<GetDeltaIntervalResponse>(response);
+        readJson<GetDeltaIntervalResponse>,
+        options
+      );
       return {
         deltas: data.deltas || [],
         totalDeltas: data.totalDeltas || 0
       };
     } catch (error) {
-      console.error('Failed to fetch delta interval:', { userId, startTime, endTime }, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch delta interval:', { userId, startTime, endTime }, error);
+      }
       throw error;
     }
   }
@@ -280,25 +672,49 @@ export class HazelmereApiClient {
   async getDeltaSummary(
     userId: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    options: CachedRequestOptions<GetDeltaSummaryResponse> = {}
+  ): Promise<GetDeltaSummaryResponse> {
+    return this.withCache(
+      this.getRangeCacheKey('summary', userId, startTime, endTime),
+      userId,
+      endTime,
+      options,
+      async signal => {
+        const data = await this.fetchDeltaSummary(userId, startTime, endTime, { ...options, signal });
+        return { data, size: JSON.stringify(data).length * 2 };
+      }
+    );
+  }
+
+  private async fetchDeltaSummary(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    options: RequestOptions
   ): Promise<GetDeltaSummaryResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/v1/delta/summary`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
+      return await this.request(
+        '/v1/delta/summary',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          body: JSON.stringify({
+            userId,
+            startTime: startTime.toISOString(),
+            endTime: endTime.toISOString()
+          }),
         },
-        body: JSON.stringify({
-          userId,
-          startTime: startTime.toISOString(),
-          endTime: endTime.toISOString()
-        })
-      });
-
-      return await this.handleResponse<GetDeltaSummaryResponse>(response);
+        readJson<GetDeltaSummaryResponse>,
+        options
+      );
     } catch (error) {
-      console.error('Failed to fetch delta summary:', { userId, startTime, endTime }, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch delta summary:', { userId, startTime, endTime }, error);
+      }
       throw error;
     }
   }
@@ -306,51 +722,131 @@ export class HazelmereApiClient {
   async getSnapshotWithDeltas(
     userId: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    options: DeltaRequestOptions = {}
   ): Promise<GetSnapshotWithDeltasResponse> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v1/summary/delta`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/x-hazelmere-binary',
-        },
-        body: JSON.stringify({
-          userId,
-          startTime: startTime.toISOString(),
-          endTime: endTime.toISOString()
-        })
-      });
+    const storeKey = `${this.baseUrl}|${userId}`;
 
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => '');
-        let message = `HTTP ${response.status}: ${response.statusText}`;
+    if ((options.cache ?? 'default') === 'default') {
+      const local = await this.readFromDeltaStore(storeKey, userId, startTime.getTime(), endTime.getTime(), options);
+      if (local) {
+        return local;
+      }
+    }
 
-        try {
-          const errorJson = JSON.parse(errorBody);
-          if (errorJson.message) {
-            message = errorJson.message;
-          }
-        } catch {
-          if (errorBody) {
-            message = errorBody;
-          }
-        }
+    return this.withCache(
+      this.getRangeCacheKey('deltas', userId, startTime, endTime),
+      userId,
+      endTime,
+      options,
+      signal => this.fetchSnapshotWithDeltasIntoStore(storeKey, userId, startTime.getTime(), endTime.getTime(), { ...options, signal })
+    );
+  }
 
-        const error: ApiError = {
-          message,
-          status: response.status,
-        };
-        throw error;
-      }
+  // Answer a range from already-loaded deltas, fetching only the uncovered
+  // head/tail. Returns null when nothing overlaps and the full range is needed.
+  private async readFromDeltaStore(
+    storeKey: string,
+    userId: string,
+    start: number,
+    end: number,
+    options: DeltaRequestOptions
+  ): Promise<GetSnapshotWithDeltasResponse | null> {
+    const coverage = this.deltaRangeStore.getCoverage(storeKey);
+    if (!coverage || start > coverage.end || end < coverage.start) {
+      return null;
+    }
+
+    const edges: [number, number][] = [];
+    if (start < coverage.start) edges.push([start, coverage.start]);
+    if (end > coverage.end) edges.push([coverage.end, end]);
+
+    await Promise.all(edges.map(([edgeStart, edgeEnd]) =>
+      this.fetchSnapshotWithDeltasIntoStore(storeKey, userId, edgeStart, edgeEnd, options)
+    ));
 
-      const buffer = await response.arrayBuffer();
-      return decodeBinaryDeltaResponse(buffer, userId);
+    return this.deltaRangeStore.read(storeKey, start, end);
+  }
+
+  private async fetchSnapshotWithDeltasIntoStore(
+    storeKey: string,
+    userId: string,
+    start: number,
+    end: number,
+    options: DeltaRequestOptions
+  ): Promise<LoadedResponse<GetSnapshotWithDeltasResponse>> {
+    const requestedAt = Date.now();
+    const result = await this.fetchSnapshotWithDeltas(userId, new Date(start), new Date(end), options);
+    // A truncated response doesn't cover its range, so keep it out of the store
+    if (result.cacheable !== false) {
+      // Anything after the request time may not exist yet, so it isn't covered
+      this.deltaRangeStore.merge(storeKey, start, Math.min(end, requestedAt), result.data);
+    }
+    return result;
+  }
+
+  private async fetchSnapshotWithDeltas(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    options: DeltaRequestOptions
+  ): Promise<LoadedResponse<GetSnapshotWithDeltasResponse>> {
+    try {
+      return await this.request(
+        '/v1/summary/delta',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': BINARY_ACCEPT_HEADER,
+          },
+          body: JSON.stringify({
+            userId,
+            startTime: startTime.toISOString(),
+            endTime: endTime.toISOString()
+          }),
+        },
+        async response => {
+          const contentLength = Number(response.headers.get('Content-Length'));
+          const onProgress = contentLength > 0 && contentLength < PROGRESS_MIN_BYTES ? undefined : options.onProgress;
+          const buffer = await readBufferWithProgress(response, onProgress);
+          // The buffer is transferred to the decode worker, so note its size first
+          const byteLength = buffer.byteLength;
+          try {
+            // Lenient: a corrupt tail shouldn't cost the user every delta before it
+            const data = await deltaPipeline.decode(buffer, userId, {
+              lenient: true,
+              signal: options.signal,
+              onProgress: onProgress && ((loaded, total) => onProgress({ phase: 'decode', loaded, total }))
+            });
+            if (data.decodeWarnings) {
+              console.warn('Binary delta response decoded with warnings:', { userId, startTime, endTime }, data.decodeWarnings);
+            }
+            return {
+              data,
+              size: byteLength * DECODED_BINARY_SIZE_FACTOR,
+              cacheable: !data.decodeWarnings?.some(w => w.kind === 'truncated')
+            };
+          } catch (error) {
+            if (error instanceof HazelmereApiError || isAbortError(error)) throw error;
+            throw new DecodeError(
+              `Invalid binary delta response: ${error instanceof Error ? error.message : String(error)}`,
+              { status: response.status, cause: error }
+            );
+          }
+        },
+        options
+      );
     } catch (error) {
-      console.error('Failed to fetch snapshot with deltas:', { userId, startTime, endTime }, error);
+      if (!isAbortError(error)) {
+        console.error('Failed to fetch snapshot with deltas:', { userId, startTime, endTime }, error);
+      }
       throw error;
     }
   }
 }
 
-export const apiClient = new HazelmereApiClient();
\ No newline at end of file
+export const apiClient = new HazelmereApiClient();
+
+// Keep the shared client in sync with the settings panel / profile switches
+subscribeApiConfig(config => apiClient.setBaseUrl(config.baseUrl));
@@ -0,0 +1,180 @@
+// API endpoint configuration
+// The active base URL is resolved from (highest priority first):
+//   1. A `?api=` query parameter (profile name or full URL), kept for the browser session
+//   2. The runtime settings panel, persisted in localStorage
+//   3. Vite env variables (VITE_API_PROFILE / VITE_API_BASE_URL)
+//   4. The production profile
+
+export type ApiProfileName = 'production' | 'staging' | 'local' | 'custom';
+
+export type ApiConfigSource = 'default' | 'env' | 'settings' | 'query';
+
+export interface ApiProfile {
+  name: ApiProfileName;
+  label: string;
+  baseUrl: string;
+}
+
+export interface ApiConfig {
+  profile: ApiProfileName;
+  label: string;
+  baseUrl: string;
+  source: ApiConfigSource;
+}
+
+const SETTINGS_STORAGE_KEY = 'hazelmere.api';
+const SESSION_STORAGE_KEY = 'hazelmere.api.override';
+
+const API_PROFILES: Record<Exclude<ApiProfileName, 'custom'>, ApiProfile> = {
+  production: {
+    name: 'production',
+    label: 'Production',
+    baseUrl: import.meta.env.VITE_API_PRODUCTION_URL || 'https://api.hazelmere.xyz'
+  },
+  staging: {
+    name: 'staging',
+    label: 'Staging',
+    baseUrl: import.meta.env.VITE_API_STAGING_URL || 'https://staging.api.hazelmere.xyz'
+  },
+  local: {
+    name: 'local',
+    label: 'Local',
+    baseUrl: import.meta.env.VITE_API_LOCAL_URL || 'http://localhost:8080'
+  }
+};
+
+function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function isValidBaseUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isProfileName(value: string): value is Exclude<ApiProfileName, 'custom'> {
+  return value in API_PROFILES;
+}
+
+// Build a config from either a profile name or a full URL
+function resolveConfig(value: string, source: ApiConfigSource): ApiConfig | null {
+  if (isProfileName(value)) {
+    const profile = API_PROFILES[value];
+    return { profile: profile.name, label: profile.label, baseUrl: normalizeBaseUrl(profile.baseUrl), source };
+  }
+
+  if (isValidBaseUrl(value)) {
+    const baseUrl = normalizeBaseUrl(value);
+    // Reuse a named profile's label when the URL matches one
+    const match = Object.values(API_PROFILES).find(p => normalizeBaseUrl(p.baseUrl) === baseUrl);
+    return match
+      ? { profile: match.name, label: match.label, baseUrl, source }
+      : { profile: 'custom', label: 'Custom', baseUrl, source };
+  }
+
+  return null;
+}
+
+function readStorage(storage: 'localStorage' | 'sessionStorage', key: string): string | null {
+  try {
+    return typeof window !== 'undefined' ? window[storage].getItem(key) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(storage: 'localStorage' | 'sessionStorage', key: string, value: string | null) {
+  try {
+    if (typeof window === 'undefined') return;
+    if (value === null) {
+      window[storage].removeItem(key);
+    } else {
+      window[storage].setItem(key, value);
+    }
+  } catch {
+    // Storage can be unavailable (private mode, quota) - the config still applies in memory
+  }
+}
+
+function readQueryOverride(): string | null {
+  if (typeof window === 'undefined') return null;
+  const value = new URLSearchParams(window.location.search).get('api');
+  if (value) {
+    // Remember the override for this tab so it survives navigation that rewrites the query string
+    writeStorage('sessionStorage', SESSION_STORAGE_KEY, value);
+    return value;
+  }
+  return readStorage('sessionStorage', SESSION_STORAGE_KEY);
+}
+
+// Settings, then env, then the production profile
+function loadStoredConfig(): ApiConfig {
+  const settingsValue = readStorage('localStorage', SETTINGS_STORAGE_KEY);
+  const fromSettings = settingsValue ? resolveConfig(settingsValue, 'settings') : null;
+  if (fromSettings) return fromSettings;
+
+  const envValue = import.meta.env.VITE_API_BASE_URL || import.meta.env.VITE_API_PROFILE;
+  const fromEnv = envValue ? resolveConfig(envValue, 'env') : null;
+  if (fromEnv) return fromEnv;
+
+  return resolveConfig('production', 'default')!;
+}
+
+function loadInitialConfig(): ApiConfig {
+  const queryValue = readQueryOverride();
+  const fromQuery = queryValue ? resolveConfig(queryValue, 'query') : null;
+  return fromQuery ?? loadStoredConfig();
+}
+
+let currentConfig: ApiConfig = loadInitialConfig();
+const listeners = new Set<(config: ApiConfig) => void>();
+
+export function getApiProfiles(): ApiProfile[] {
+  return Object.values(API_PROFILES);
+}
+
+export function getApiConfig(): ApiConfig {
+  return currentConfig;
+}
+
+// Switch to a named profile or custom URL from the settings panel.
+// Returns false when the value is neither a known profile nor a valid http(s) URL.
+export function setApiConfig(value: string): boolean {
+  const config = resolveConfig(value, 'settings');
+  if (!config) return false;
+
+  writeStorage('localStorage', SETTINGS_STORAGE_KEY, config.profile === 'custom' ? config.baseUrl : config.profile);
+  // An explicit choice in the settings panel replaces any session `?api=` override
+  writeStorage('sessionStorage', SESSION_STORAGE_KEY, null);
+  updateConfig(config);
+  return true;
+}
+
+// Drop runtime overrides and fall back to the env/default configuration. A
+// `?api=` still in the URL is skipped, or it would be read straight back.
+export function resetApiConfig() {
+  writeStorage('localStorage', SETTINGS_STORAGE_KEY, null);
+  writeStorage('sessionStorage', SESSION_STORAGE_KEY, null);
+  updateConfig(loadStoredConfig());
+}
+
+export function subscribeApiConfig(listener: (config: ApiConfig) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function updateConfig(config: ApiConfig) {
+  currentConfig = config;
+  listeners.forEach(listener => listener(config));
+}
+
+// Human-readable endpoint string for tooltips and status panels
+export function formatApiEndpoint(config: ApiConfig = currentConfig): string {
+  return `${config.label} (${config.baseUrl})`;
+}
@@ -0,0 +1,148 @@
+// Error taxonomy for the Hazelmere API client.
+// Every failure surfaced by HazelmereApiClient (other than an AbortError from a
+// caller-cancelled request) is a HazelmereApiError subclass, so UI code can
+// branch with `instanceof` instead of inspecting status codes.
+
+export type ApiErrorKind = 'network' | 'timeout' | 'client' | 'server' | 'decode' | 'rate-limit';
+
+interface ApiErrorOptions {
+  status?: number;
+  code?: string;
+  cause?: unknown;
+}
+
+export class HazelmereApiError extends Error {
+  readonly kind: ApiErrorKind;
+  // HTTP status, or 0 when no response was received
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(kind: ApiErrorKind, message: string, { status = 0, code, cause }: ApiErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'HazelmereApiError';
+    this.kind = kind;
+    this.status = status;
+    this.code = code;
+  }
+
+  // Whether repeating the same request may succeed
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, connection reset)
+export class NetworkError extends HazelmereApiError {
+  constructor(message: string = 'Unable to reach the API', options: ApiErrorOptions = {}) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends HazelmereApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, options: ApiErrorOptions = {}) {
+    super('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`, options);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// 4xx other than 429 - the request itself is wrong, retrying won't help
+export class ClientError extends HazelmereApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super('client', message, options);
+    this.name = 'ClientError';
+  }
+}
+
+export class ServerError extends HazelmereApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super('server', message, options);
+    this.name = 'ServerError';
+  }
+
+  // 501 Not Implemented won't start working on a retry
+  get retryable(): boolean {
+    return this.status !== 501;
+  }
+}
+
+// The response arrived but its body couldn't be parsed
+export class DecodeError extends HazelmereApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super('decode', message, options);
+    this.name = 'DecodeError';
+  }
+}
+
+export class RateLimitError extends HazelmereApiError {
+  // From the Retry-After header; null when the server didn't send one
+  readonly retryAfterMs: number | null;
+  // Epoch ms after which a retry is allowed
+  readonly retryAt: number;
+
+  constructor(message: string, retryAfterMs: number | null, options: ApiErrorOptions = {}) {
+    super('rate-limit', message, { status: 429, ...options });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    this.retryAt = Date.now() + (retryAfterMs ?? 0);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Build the typed error for a non-2xx response
+export async function createHttpError(response: Response): Promise<HazelmereApiError> {
+  const errorBody = await response.text().catch(() => '');
+  let message = `HTTP ${response.status}: ${response.statusText}`;
+  let code: string | undefined;
+
+  try {
+    const errorJson = JSON.parse(errorBody);
+    if (errorJson.message) {
+      message = errorJson.message;
+    }
+    if (typeof errorJson.code === 'string') {
+      code = errorJson.code;
+    }
+  } catch {
+    if (errorBody) {
+      message = errorBody;
+    }
+  }
+
+  const options = { status: response.status, code };
+
+  if (response.status === 429) {
+    return new RateLimitError(message, parseRetryAfter(response.headers.get('Retry-After')), options);
+  }
+  if (response.status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new ClientError(message, options);
+}
@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityType, GetSnapshotWithDeltasResponse, HiscoreDelta, SkillSnapshot } from '@/types/api';
+import {
+  BinaryDecodeError,
+  FLAG_IDS,
+  FLAG_RANKS,
+  FLAG_RANK_DELTAS,
+  FLAG_VARINT,
+  decodeBinaryDeltaResponse,
+  encodeSnapshotWithDeltas
+} from './binaryProtocol';
+import {
+  ACTIVITY_ACTIVITY_TYPES,
+  ACTIVITY_TYPES_BY_INDEX,
+  BOSS_ACTIVITY_TYPES,
+  SKILL_ACTIVITY_TYPES,
+  getActivityName
+} from './activityRegistry';
+
+const USER_ID = 'user-1';
+const ALL_FLAGS = FLAG_RANKS | FLAG_RANK_DELTAS | FLAG_IDS | FLAG_VARINT;
+
+// Small seeded PRNG (mulberry32) so a failing case can be replayed
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T,>(values: T[]) => values.filter(() => next() < 0.5);
+  return { int, pick };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function randomResponse(random: Random, deltaCount: number, gainLimit = 0x7fffffff): GetSnapshotWithDeltasResponse {
+  const start = Date.UTC(2025, 0, 1) + random.int(0, 1_000_000) * 1000;
+  const entry = (activityType: ActivityType) => ({ activityType, name: getActivityName(activityType) });
+
+  const snapshot = {
+    id: `snapshot-${random.int(0, 1e6)}`,
+    userId: USER_ID,
+    timestamp: new Date(start).toISOString(),
+    skills: random.pick(SKILL_ACTIVITY_TYPES).map((activityType): SkillSnapshot => ({
+      ...entry(activityType),
+      experience: random.int(0, 200_000_000),
+      level: random.int(1, 99),
+      rank: random.int(-1, 2_000_000)
+    })),
+    bosses: random.pick(BOSS_ACTIVITY_TYPES).map(activityType => ({
+      ...entry(activityType),
+      killCount: random.int(0, 100_000),
+      rank: random.int(-1, 2_000_000)
+    })),
+    activities: random.pick(ACTIVITY_ACTIVITY_TYPES).map(activityType => ({
+      ...entry(activityType),
+      score: random.int(0, 100_000),
+      rank: random.int(-1, 2_000_000)
+    }))
+  };
+
+  const deltas: HiscoreDelta[] = Array.from({ length: deltaCount }, (_, i) => {
+    const skills = random.pick(SKILL_ACTIVITY_TYPES).map(activityType => ({
+      ...entry(activityType),
+      experienceGain: random.int(0, gainLimit),
+      levelGain: random.int(0, 0x7fff),
+      rankGain: random.int(-1_000_000, 1_000_000)
+    }));
+    const bosses = random.pick(BOSS_ACTIVITY_TYPES).map(activityType => ({
+      ...entry(activityType),
+      killCountGain: random.int(0, gainLimit),
+      rankGain: random.int(-1_000_000, 1_000_000)
+    }));
+    const activities = random.pick(ACTIVITY_ACTIVITY_TYPES).map(activityType => ({
+      ...entry(activityType),
+      scoreGain: random.int(0, gainLimit),
+      rankGain: random.int(-1_000_000, 1_000_000)
+    }));
+
+    return {
+      id: `delta-${i}`,
+      userId: USER_ID,
+      snapshotId: `snapshot-${i + 1}`,
+      previousSnapshotId: `snapshot-${i}`,
+      timestamp: new Date(start + (i + 1) * 3_600_000).toISOString(),
+      skills: skills.length > 0 ? skills : undefined,
+      bosses: bosses.length > 0 ? bosses : undefined,
+      activities: activities.length > 0 ? activities : undefined
+    };
+  });
+
+  return { snapshot, deltas };
+}
+
+// What a decode gives back when the payload leaves out the optional sections
+function withoutOptionalSections(response: GetSnapshotWithDeltasResponse, flags: number): GetSnapshotWithDeltasResponse {
+  const hasRanks = (flags & FLAG_RANKS) !== 0;
+  const hasRankDeltas = (flags & FLAG_RANK_DELTAS) !== 0;
+  const hasIds = (flags & FLAG_IDS) !== 0;
+  const rank = <T extends { rank: number }>(entry: T): T => hasRanks ? entry : { ...entry, rank: 0 };
+  const rankGain = <T extends { rankGain?: number }>(entry: T): T => {
+    if (hasRankDeltas) return entry;
+    const rest = { ...entry };
+    delete rest.rankGain;
+    return rest;
+  };
+  const { snapshot, deltas } = response;
+
+  return {
+    snapshot: {
+      ...snapshot,
+      id: hasIds ? snapshot.id : '',
+      skills: snapshot.skills.map(rank),
+      bosses: snapshot.bosses.map(rank),
+      activities: snapshot.activities.map(rank)
+    },
+    deltas: deltas.map(delta => ({
+      ...delta,
+      id: hasIds ? delta.id : '',
+      snapshotId: hasIds ? delta.snapshotId : '',
+      previousSnapshotId: hasIds ? delta.previousSnapshotId : '',
+      skills: delta.skills?.map(rankGain),
+      bosses: delta.bosses?.map(rankGain),
+      activities: delta.activities?.map(rankGain)
+    }))
+  };
+}
+
+function roundTrip(response: GetSnapshotWithDeltasResponse, version: 1 | 2, flags: number) {
+  return decodeBinaryDeltaResponse(encodeSnapshotWithDeltas(response, { version, flags }), USER_ID);
+}
+
+// v1, then a v2 payload with no optional sections, only the default
+// sections, and everything
+const FORMATS: { label: string; version: 1 | 2; flags: number }[] = [
+  { label: 'v1', version: 1, flags: 0 },
+  { label: 'v2 without flags', version: 2, flags: 0 },
+  { label: 'v2 with ranks and ids', version: 2, flags: FLAG_RANKS | FLAG_RANK_DELTAS | FLAG_IDS },
+  { label: 'v2 with varints', version: 2, flags: FLAG_VARINT },
+  { label: 'v2 with every flag', version: 2, flags: ALL_FLAGS }
+];
+
+describe('binary protocol round trip', () => {
+  for (const { label, version, flags } of FORMATS) {
+    it(`decodes randomized responses encoded as ${label}`, () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const response = randomResponse(createRandom(seed), seed * 3, flags & FLAG_VARINT ? 2 ** 40 : 0x7fffffff);
+        expect(roundTrip(response, version, flags), `seed ${seed}`)
+          .toEqual(withoutOptionalSections(response, version === 1 ? 0 : flags));
+      }
+    });
+  }
+
+  it('ignores flags in a v1 header', () => {
+    const response = randomResponse(createRandom(7), 5);
+    const buffer = new Uint8Array(encodeSnapshotWithDeltas(response, { version: 1 }));
+    buffer[1] = ALL_FLAGS;
+
+    expect(decodeBinaryDeltaResponse(buffer.buffer, USER_ID)).toEqual(withoutOptionalSections(response, 0));
+  });
+
+  it('round trips negative gains with zigzag varints', () => {
+    const response = randomResponse(createRandom(11), 3);
+    response.deltas[0].skills = [
+      { activityType: 'ATTACK', name: getActivityName('ATTACK'), experienceGain: -(2 ** 40), levelGain: -5, rankGain: -1 }
+    ];
+
+    expect(roundTrip(response, 2, ALL_FLAGS)).toEqual(response);
+  });
+
+  it('refuses gains that do not fit fixed-width fields', () => {
+    const response = randomResponse(createRandom(13), 1);
+    response.deltas[0].skills = [
+      { activityType: 'ATTACK', name: getActivityName('ATTACK'), experienceGain: 2 ** 31, levelGain: 0 }
+    ];
+
+    expect(() => encodeSnapshotWithDeltas(response, { version: 2, flags: 0 })).toThrow(RangeError);
+    expect(() => encodeSnapshotWithDeltas(response, { version: 2, flags: FLAG_VARINT })).not.toThrow();
+  });
+
+  it('rejects unsupported versions', () => {
+    const buffer = new Uint8Array(encodeSnapshotWithDeltas(randomResponse(createRandom(17), 1)));
+    buffer[0] = 3;
+
+    expect(() => decodeBinaryDeltaResponse(buffer.buffer, USER_ID)).toThrow(/Unsupported binary protocol version: 3/);
+  });
+});
+
+describe('truncated buffers', () => {
+  const response = randomResponse(createRandom(19), 10);
+  const buffer = encodeSnapshotWithDeltas(response, { version: 2, flags: ALL_FLAGS });
+  // End of the snapshot: everything before the delta count
+  const snapshotLength = encodeSnapshotWithDeltas({ ...response, deltas: [] }, { version: 2, flags: ALL_FLAGS }).byteLength - 2;
+
+  it('throws a BinaryDecodeError at every cut point', () => {
+    for (let length = 0; length < buffer.byteLength; length++) {
+      const error = (() => {
+        try {
+          decodeBinaryDeltaResponse(buffer.slice(0, length), USER_ID);
+        } catch (error) {
+          return error;
+        }
+      })();
+
+      expect(error, `length ${length}`).toBeInstanceOf(BinaryDecodeError);
+      expect((error as BinaryDecodeError).offset).toBeLessThanOrEqual(length);
+    }
+  });
+
+  it('reports the section and byte counts of the failed read', () => {
+    expect(() => decodeBinaryDeltaResponse(buffer.slice(0, 5), USER_ID)).toThrow(
+      expect.objectContaining({ section: 'snapshot', offset: 2, expectedBytes: 8, availableBytes: 3 })
+    );
+  });
+
+  it('keeps the whole deltas before the cut when lenient', () => {
+    const decoded = decodeBinaryDeltaResponse(buffer.slice(0, buffer.byteLength - 1), USER_ID, { lenient: true });
+
+    expect(decoded.snapshot).toEqual(response.snapshot);
+    expect(decoded.deltas).toEqual(response.deltas.slice(0, 9));
+    expect(decoded.decodeWarnings).toEqual([expect.objectContaining({ kind: 'truncated', section: expect.stringMatching(/^delta 9/) })]);
+  });
+
+  it('still throws when the snapshot itself is cut short, even when lenient', () => {
+    expect(() => decodeBinaryDeltaResponse(buffer.slice(0, snapshotLength - 1), USER_ID, { lenient: true }))
+      .toThrow(BinaryDecodeError);
+  });
+
+  it('warns about trailing bytes', () => {
+    const padded = new Uint8Array(buffer.byteLength + 3);
+    padded.set(new Uint8Array(buffer));
+
+    const decoded = decodeBinaryDeltaResponse(padded.buffer, USER_ID);
+
+    expect(decoded.deltas).toEqual(response.deltas);
+    expect(decoded.decodeWarnings).toEqual([expect.objectContaining({ kind: 'trailing-bytes', offset: buffer.byteLength })]);
+  });
+});
+
+describe('unknown activity indices', () => {
+  const unknownIndex = ACTIVITY_TYPES_BY_INDEX.length;
+
+  // v1 snapshot at the epoch with the given skill entries and one delta
+  // gaining XP in the first of them
+  function buildPayload(skillIndices: number[]): ArrayBuffer {
+    const bytes: number[] = [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, skillIndices.length];
+    for (const index of skillIndices) {
+      bytes.push(index, 0, 0, 0x03, 0xe8, 0, 10);
+    }
+    bytes.push(0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 1, skillIndices[0], 0, 0, 0, 100, 0, 0, 0, 0);
+    return new Uint8Array(bytes).buffer;
+  }
+
+  it('decodes them as UNKNOWN with one warning per index', () => {
+    expect(unknownIndex).toBeLessThanOrEqual(0xff);
+    const decoded = decodeBinaryDeltaResponse(buildPayload([unknownIndex, 1, unknownIndex]), USER_ID);
+
+    expect(decoded.snapshot.skills.map(skill => skill.activityType)).toEqual(['UNKNOWN', 'OVERALL', 'UNKNOWN']);
+    expect(decoded.snapshot.skills[0]).toMatchObject({ experience: 1000, level: 10 });
+    expect(decoded.deltas[0].skills).toEqual([
+      { activityType: 'UNKNOWN', name: getActivityName('UNKNOWN'), experienceGain: 100, levelGain: 0 }
+    ]);
+    expect(decoded.decodeWarnings).toEqual([
+      { kind: 'unknown-index', message: `Unknown activity index ${unknownIndex}`, offset: 11, section: 'snapshot skills' }
+    ]);
+  });
+
+  it('refuses to encode activity types without an index', () => {
+    const response = randomResponse(createRandom(23), 0);
+    response.snapshot.skills = [{ activityType: 'NOT_AN_ACTIVITY' as ActivityType, name: 'Nope', experience: 0, level: 1, rank: 0 }];
+
+    expect(() => encodeSnapshotWithDeltas(response)).toThrow(/no binary index: NOT_AN_ACTIVITY/);
+  });
+});
+
+describe('entry counts', () => {
+  const skill = (i: number): SkillSnapshot => ({
+    activityType: SKILL_ACTIVITY_TYPES[i % SKILL_ACTIVITY_TYPES.length],
+    name: '',
+    experience: 0,
+    level: 1,
+    rank: 0
+  });
+
+  it('encodes up to 255 snapshot skills', () => {
+    const response = randomResponse(createRandom(29), 0);
+    response.snapshot.skills = Array.from({ length: 255 }, (_, i) => skill(i));
+
+    expect(roundTrip(response, 2, ALL_FLAGS).snapshot.skills).toHaveLength(255);
+  });
+
+  it('refuses more than 255 snapshot skills', () => {
+    const response = randomResponse(createRandom(31), 0);
+    response.snapshot.skills = Array.from({ length: 256 }, (_, i) => skill(i));
+
+    expect(() => encodeSnapshotWithDeltas(response)).toThrow('Too many skills to encode: 256 (max 255)');
+  });
+
+  it('refuses more than 255 skill gains in a delta', () => {
+    const response = randomResponse(createRandom(37), 1);
+    response.deltas[0].skills = Array.from({ length: 256 }, (_, i) => ({
+      activityType: SKILL_ACTIVITY_TYPES[i % SKILL_ACTIVITY_TYPES.length],
+      name: '',
+      experienceGain: 1,
+      levelGain: 0
+    }));
+
+    expect(() => encodeSnapshotWithDeltas(response)).toThrow('Too many skill deltas to encode: 256 (max 255)');
+  });
+});
@@ -8,254 +8,385 @@ import type {
   SkillDelta,
   BossDelta,
   ActivityDelta,
-  GetSnapshotWithDeltasResponse
+  GetSnapshotWithDeltasResponse,
+  DecodeWarning
 } from '@/types/api';
-
-// Activity type index to ActivityType mapping
-// Range 0-25: Skills, 26-45: Activities, 46-113: Bosses
-const ACTIVITY_TYPE_INDEX_MAP: ActivityType[] = [
-  // Skills (0-25)
-  'UNKNOWN',        // 0
-  'OVERALL',        // 1
-  'ATTACK',         // 2
-  'DEFENCE',        // 3
-  'STRENGTH',       // 4
-  'HITPOINTS',      // 5
-  'RANGED',         // 6
-  'PRAYER',         // 7
-  'MAGIC',          // 8
-  'COOKING',        // 9
-  'WOODCUTTING',    // 10
-  'FLETCHING',      // 11
-  'FISHING',        // 12
-  'FIREMAKING',     // 13
-  'CRAFTING',       // 14
-  'SMITHING',       // 15
-  'MINING',         // 16
-  'HERBLORE',       // 17
-  'AGILITY',        // 18
-  'THIEVING',       // 19
-  'SLAYER',         // 20
-  'FARMING',        // 21
-  'RUNECRAFT',      // 22
-  'HUNTER',         // 23
-  'CONSTRUCTION',   // 24
-  'SAILING',        // 25
-
-  // Activities (26-45)
-  'LEAGUE_POINTS',            // 26
-  'DEADMAN_POINTS',           // 27
-  'BOUNTY_HUNTER__HUNTER',    // 28
-  'BOUNTY_HUNTER__ROGUE',     // 29
-  'BOUNTY_HUNTER_LEGACY__HUNTER', // 30
-  'BOUNTY_HUNTER_LEGACY__ROGUE',  // 31
-  'CLUE_SCROLLS_ALL',         // 32
-  'CLUE_SCROLLS_BEGINNER',    // 33
-  'CLUE_SCROLLS_EASY',        // 34
-  'CLUE_SCROLLS_MEDIUM',      // 35
-  'CLUE_SCROLLS_HARD',        // 36
-  'CLUE_SCROLLS_ELITE',       // 37
-  'CLUE_SCROLLS_MASTER',      // 38
-  'GRID_POINTS',              // 39
-  'LMS__RANK',                // 40
-  'PVP_ARENA__RANK',          // 41
-  'SOUL_WARS_ZEAL',           // 42
-  'RIFTS_CLOSED',             // 43
-  'COLOSSEUM_GLORY',          // 44
-  'COLLECTIONS_LOGGED',       // 45
-
-  // Bosses (46-113)
-  'ABYSSAL_SIRE',             // 46
-  'ALCHEMICAL_HYDRA',         // 47
-  'AMOXLIATL',                // 48
-  'ARAXXOR',                  // 49
-  'ARTIO',                    // 50
-  'BARROWS_CHESTS',           // 51
-  'BRYOPHYTA',                // 52
-  'CALLISTO',                 // 53
-  'CALVARION',                // 54
-  'CERBERUS',                 // 55
-  'CHAMBERS_OF_XERIC',        // 56
-  'CHAMBERS_OF_XERIC_CHALLENGE_MODE', // 57
-  'CHAOS_ELEMENTAL',          // 58
-  'CHAOS_FANATIC',            // 59
-  'COMMANDER_ZILYANA',        // 60
-  'CORPOREAL_BEAST',          // 61
-  'CRAZY_ARCHAEOLOGIST',      // 62
-  'DAGANNOTH_PRIME',          // 63
-  'DAGANNOTH_REX',            // 64
-  'DAGANNOTH_SUPREME',        // 65
-  'DERANGED_ARCHAEOLOGIST',   // 66
-  'DOOM_OF_MOKHAIOTL',        // 67
-  'DUKE_SUCELLUS',            // 68
-  'GENERAL_GRAARDOR',         // 69
-  'GIANT_MOLE',               // 70
-  'GROTESQUE_GUARDIANS',      // 71
-  'HESPORI',                  // 72
-  'KALPHITE_QUEEN',           // 73
-  'KING_BLACK_DRAGON',        // 74
-  'KRAKEN',                   // 75
-  'KREEARRA',                 // 76
-  'KRIL_TSUTSAROTH',          // 77
-  'LUNAR_CHESTS',             // 78
-  'MIMIC',                    // 79
-  'NEX',                      // 80
-  'NIGHTMARE',                // 81
-  'PHOSANIS_NIGHTMARE',       // 82
-  'OBOR',                     // 83
-  'PHANTOM_MUSPAH',           // 84
-  'SARACHNIS',                // 85
-  'SCORPIA',                  // 86
-  'SCURRIUS',                 // 87
-  'SHELLBANE_GRYPHON',        // 88
-  'SKOTIZO',                  // 89
-  'SOL_HEREDIT',              // 90
-  'SPINDEL',                  // 91
-  'TEMPOROSS',                // 92
-  'THE_GAUNTLET',             // 93
-  'THE_CORRUPTED_GAUNTLET',   // 94
-  'THE_HUEYCOATL',            // 95
-  'THE_LEVIATHAN',            // 96
-  'THE_ROYAL_TITANS',         // 97
-  'THE_WHISPERER',            // 98
-  'THEATRE_OF_BLOOD',         // 99
-  'THEATRE_OF_BLOOD_HARD_MODE', // 100
-  'THERMONUCLEAR_SMOKE_DEVIL', // 101
-  'TOMBS_OF_AMASCUT',         // 102
-  'TOMBS_OF_AMASCUT_EXPERT_MODE', // 103
-  'TZKALZUK',                 // 104
-  'TZTOKJAD',                 // 105
-  'VARDORVIS',                // 106
-  'VENENATIS',                // 107
-  'VETION',                   // 108
-  'VORKATH',                  // 109
-  'WINTERTODT',               // 110
-  'YAMA',                     // 111
-  'ZALCANO',                  // 112
-  'ZULRAH',                   // 113
-];
-
-// Get activity name from activity type
-function getActivityName(activityType: ActivityType): string {
-  return activityType
-    .split('_')
-    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
-    .join(' ');
+import { DecodeError } from './apiErrors';
+import { ACTIVITY_TYPES_BY_INDEX, getActivityDefinition, getActivityName } from './activityRegistry';
+
+// Binary delta protocol (application/x-hazelmere-binary), big-endian throughout.
+//
+// Header: version u8, flags u8
+// Snapshot: timestamp i64 [id str]
+//   skills:     count u8, then { index u8, xp i32, level i16 [rank i32] }
+//   bosses:     count u8, then { index u8, kc i32 [rank i32] }
+//   activities: count u8, then { index u8, score i32 [rank i32] }
+// Deltas: count u16, then each { timestamp i64 [id str, snapshotId str, previousSnapshotId str]
+//   skills:     count u8, then { index u8, xpGain g32, levelGain g16 [rankGain g32] }
+//   bosses:     count u8, then { index u8, kcGain g32 [rankGain g32] }
+//   activities: count u8, then { index u8, scoreGain g32 [rankGain g32] } }
+//
+// Version 1 ignores flags. Version 2 enables the bracketed sections via flags:
+//   FLAG_RANKS       snapshot ranks
+//   FLAG_RANK_DELTAS per-entry rank gains in deltas
+//   FLAG_IDS         snapshot and delta IDs (str = u16 byte length + UTF-8)
+//   FLAG_VARINT      gains (g16/g32) as zigzag LEB128 varints instead of fixed i16/i32
+//
+// Activity indices come from the activity registry (activityRegistry.ts).
+
+export const BINARY_CONTENT_TYPE = 'application/x-hazelmere-binary';
+
+export const SUPPORTED_BINARY_VERSIONS = [1, 2] as const;
+
+// Prefer v2 but let older servers answer with v1
+export const BINARY_ACCEPT_HEADER = `${BINARY_CONTENT_TYPE}; version=2, ${BINARY_CONTENT_TYPE}; version=1; q=0.9`;
+
+export const FLAG_RANKS = 0x01;
+export const FLAG_RANK_DELTAS = 0x02;
+export const FLAG_IDS = 0x04;
+export const FLAG_VARINT = 0x08;
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+// Structured decode failure: where in the payload it happened and why
+export class BinaryDecodeError extends DecodeError {
+  readonly offset: number;
+  readonly section: string;
+  readonly expectedBytes?: number;
+  readonly availableBytes?: number;
+
+  constructor(
+    message: string,
+    { offset, section, expectedBytes, availableBytes }: { offset: number; section: string; expectedBytes?: number; availableBytes?: number }
+  ) {
+    super(`${message} (${section}, offset ${offset})`);
+    this.name = 'BinaryDecodeError';
+    this.offset = offset;
+    this.section = section;
+    this.expectedBytes = expectedBytes;
+    this.availableBytes = availableBytes;
+  }
 }
 
-// Binary reader helper class
+// Binary reader helper class - every read is bounds checked against the
+// buffer and failures report the section currently being decoded
 class BinaryReader {
   private view: DataView;
   private offset: number = 0;
+  private section: string = 'header';
 
   constructor(buffer: ArrayBuffer) {
     this.view = new DataView(buffer);
   }
 
+  setSection(section: string) {
+    this.section = section;
+  }
+
+  getSection(): string {
+    return this.section;
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  remaining(): number {
+    return this.view.byteLength - this.offset;
+  }
+
+  fail(message: string): BinaryDecodeError {
+    return new BinaryDecodeError(message, { offset: this.offset, section: this.section });
+  }
+
+  private require(bytes: number) {
+    const available = this.remaining();
+    if (bytes > available) {
+      throw new BinaryDecodeError(
+        `Unexpected end of data: needed ${bytes} byte${bytes === 1 ? '' : 's'}, ${available} available`,
+        { offset: this.offset, section: this.section, expectedBytes: bytes, availableBytes: available }
+      );
+    }
+  }
+
   readUint8(): number {
+    this.require(1);
     const value = this.view.getUint8(this.offset);
     this.offset += 1;
     return value;
   }
 
   readInt16(): number {
+    this.require(2);
     const value = this.view.getInt16(this.offset, false); // big-endian
     this.offset += 2;
     return value;
   }
 
   readInt32(): number {
+    this.require(4);
     const value = this.view.getInt32(this.offset, false); // big-endian
     this.offset += 4;
     return value;
   }
 
   readUint16(): number {
+    this.require(2);
     const value = this.view.getUint16(this.offset, false); // big-endian
     this.offset += 2;
     return value;
   }
 
   readInt64(): bigint {
+    this.require(8);
     const value = this.view.getBigInt64(this.offset, false); // big-endian
     this.offset += 8;
     return value;
   }
 
-  getOffset(): number {
-    return this.offset;
+  // Unsigned LEB128, limited to the 53 bits a JS number can hold exactly
+  readVarUint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (let i = 0; i < 8; i++) {
+      const byte = this.readUint8();
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+    throw this.fail('Varint longer than 8 bytes');
+  }
+
+  // Zigzag-encoded signed varint: 0, -1, 1, -2, ... map to 0, 1, 2, 3, ...
+  readVarInt(): number {
+    const value = this.readVarUint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  readString(): string {
+    const length = this.readUint16();
+    this.require(length);
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return textDecoder.decode(bytes);
   }
 }
 
+// Binary writer helper class - mirror of BinaryReader, grows as needed.
+// DataView silently wraps out-of-range integers, so every write is range checked.
+class BinaryWriter {
+  private buffer: ArrayBuffer;
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(initialSize: number = 1024) {
+    this.buffer = new ArrayBuffer(initialSize);
+    this.view = new DataView(this.buffer);
+  }
+
+  private ensureCapacity(bytes: number) {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+
+    let size = this.buffer.byteLength * 2;
+    while (size < this.offset + bytes) size *= 2;
+
+    const next = new ArrayBuffer(size);
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  private checkRange(value: number, min: number, max: number, label: string) {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new RangeError(`${label} out of range: ${value} (expected ${min}..${max})`);
+    }
+  }
+
+  writeUint8(value: number) {
+    this.checkRange(value, 0, 0xff, 'uint8');
+    this.ensureCapacity(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  writeInt16(value: number) {
+    this.checkRange(value, -0x8000, 0x7fff, 'int16');
+    this.ensureCapacity(2);
+    this.view.setInt16(this.offset, value, false); // big-endian
+    this.offset += 2;
+  }
+
+  writeUint16(value: number) {
+    this.checkRange(value, 0, 0xffff, 'uint16');
+    this.ensureCapacity(2);
+    this.view.setUint16(this.offset, value, false); // big-endian
+    this.offset += 2;
+  }
+
+  writeInt32(value: number) {
+    this.checkRange(value, -0x80000000, 0x7fffffff, 'int32');
+    this.ensureCapacity(4);
+    this.view.setInt32(this.offset, value, false); // big-endian
+    this.offset += 4;
+  }
+
+  writeInt64(value: bigint) {
+    this.ensureCapacity(8);
+    this.view.setBigInt64(this.offset, value, false); // big-endian
+    this.offset += 8;
+  }
+
+  writeVarUint(value: number) {
+    this.checkRange(value, 0, Number.MAX_SAFE_INTEGER, 'varint');
+    let remaining = value;
+    do {
+      let byte = remaining % 128;
+      remaining = Math.floor(remaining / 128);
+      if (remaining > 0) byte |= 0x80;
+      this.writeUint8(byte);
+    } while (remaining > 0);
+  }
+
+  writeVarInt(value: number) {
+    this.checkRange(value, -Math.floor(Number.MAX_SAFE_INTEGER / 2), Math.floor(Number.MAX_SAFE_INTEGER / 2), 'varint');
+    this.writeVarUint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  writeString(value: string) {
+    const bytes = textEncoder.encode(value);
+    this.writeUint16(bytes.length);
+    this.ensureCapacity(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+export interface DecodeOptions {
+  // Return the deltas decoded before a truncation/corruption point, with a
+  // warning, instead of throwing. The snapshot itself must still decode.
+  lenient?: boolean;
+  // Called every DECODE_PROGRESS_INTERVAL deltas and once at the end, so large
+  // payloads can report how far decoding has got
+  onProgress?: (decodedDeltas: number, totalDeltas: number) => void;
+}
+
+const DECODE_PROGRESS_INTERVAL = 1000;
+
 export function decodeBinaryDeltaResponse(
   buffer: ArrayBuffer,
-  userId: string
+  userId: string,
+  { lenient = false, onProgress }: DecodeOptions = {}
 ): GetSnapshotWithDeltasResponse {
   const reader = new BinaryReader(buffer);
+  const warnings: DecodeWarning[] = [];
+  const reportedUnknownIndices = new Set<number>();
+
+  // Unknown indices usually mean the server knows about newer content than
+  // this build; keep the entry as UNKNOWN and warn once per index
+  const resolveActivityType = (index: number): ActivityType => {
+    const activityType = ACTIVITY_TYPES_BY_INDEX[index];
+    if (activityType) {
+      return activityType;
+    }
+    if (!reportedUnknownIndices.has(index)) {
+      reportedUnknownIndices.add(index);
+      warnings.push({
+        kind: 'unknown-index',
+        message: `Unknown activity index ${index}`,
+        offset: reader.getOffset() - 1,
+        section: reader.getSection()
+      });
+    }
+    return 'UNKNOWN';
+  };
 
   // Header (2 bytes)
   const version = reader.readUint8();
-  reader.readUint8(); // flags - reserved for future use
+  const headerFlags = reader.readUint8();
 
-  if (version !== 1) {
-    throw new Error(`Unsupported binary protocol version: ${version}`);
+  if (!(SUPPORTED_BINARY_VERSIONS as readonly number[]).includes(version)) {
+    throw reader.fail(`Unsupported binary protocol version: ${version}`);
   }
 
+  // Flags were reserved in v1, so they're only honoured from v2 on
+  const flags = version >= 2 ? headerFlags : 0;
+  const hasRanks = (flags & FLAG_RANKS) !== 0;
+  const hasRankDeltas = (flags & FLAG_RANK_DELTAS) !== 0;
+  const hasIds = (flags & FLAG_IDS) !== 0;
+  const useVarints = (flags & FLAG_VARINT) !== 0;
+
+  const readGain32 = () => useVarints ? reader.readVarInt() : reader.readInt32();
+  const readGain16 = () => useVarints ? reader.readVarInt() : reader.readInt16();
+  const readRank = () => hasRanks ? reader.readInt32() : 0;
+  const readRankGain = () => hasRankDeltas ? readGain32() : undefined;
+
   // Snapshot
+  reader.setSection('snapshot');
   const snapshotTimestamp = Number(reader.readInt64());
+  const snapshotId = hasIds ? reader.readString() : '';
 
   // Skills
+  reader.setSection('snapshot skills');
   const skillCount = reader.readUint8();
   const skills: SkillSnapshot[] = [];
   for (let i = 0; i < skillCount; i++) {
-    const activityTypeIndex = reader.readUint8();
+    const activityType = resolveActivityType(reader.readUint8());
     const experience = reader.readInt32();
     const level = reader.readInt16();
+    const rank = readRank();
 
-    const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
     skills.push({
       activityType,
       name: getActivityName(activityType),
       experience,
       level,
-      rank: 0 // Not included in binary protocol
+      rank
     });
   }
 
   // Bosses
+  reader.setSection('snapshot bosses');
   const bossCount = reader.readUint8();
   const bosses: BossSnapshot[] = [];
   for (let i = 0; i < bossCount; i++) {
-    const activityTypeIndex = reader.readUint8();
+    const activityType = resolveActivityType(reader.readUint8());
     const killCount = reader.readInt32();
+    const rank = readRank();
 
-    const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
     bosses.push({
       activityType,
       name: getActivityName(activityType),
       killCount,
-      rank: 0 // Not included in binary protocol
+      rank
     });
   }
 
   // Activities
+  reader.setSection('snapshot activities');
   const activityCount = reader.readUint8();
   const activities: ActivitySnapshot[] = [];
   for (let i = 0; i < activityCount; i++) {
-    const activityTypeIndex = reader.readUint8();
+    const activityType = resolveActivityType(reader.readUint8());
     const score = reader.readInt32();
+    const rank = readRank();
 
-    const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
     activities.push({
       activityType,
       name: getActivityName(activityType),
       score,
-      rank: 0 // Not included in binary protocol
+      rank
     });
   }
 
   const snapshot: HiscoreSnapshot = {
-    id: '', // Not included in binary protocol
+    id: snapshotId,
     userId,
     timestamp: new Date(snapshotTimestamp).toISOString(),
     skills,
@@ -264,70 +395,233 @@ export function decodeBinaryDeltaResponse(
   };
 
   // Deltas
+  reader.setSection('delta count');
   const deltaCount = reader.readUint16();
   const deltas: HiscoreDelta[] = [];
+  let truncated = false;
 
   for (let d = 0; d < deltaCount; d++) {
+    try {
+      deltas.push(readDelta(d));
+      if (onProgress && (d + 1) % DECODE_PROGRESS_INTERVAL === 0) {
+        onProgress(d + 1, deltaCount);
+      }
+    } catch (error) {
+      if (!lenient || !(error instanceof BinaryDecodeError)) {
+        throw error;
+      }
+      truncated = true;
+      warnings.push({
+        kind: 'truncated',
+        message: `${error.message} - kept ${d} of ${deltaCount} deltas`,
+        offset: error.offset,
+        section: error.section
+      });
+      break;
+    }
+  }
+
+  onProgress?.(deltas.length, deltaCount);
+
+  if (!truncated && reader.remaining() > 0) {
+    warnings.push({
+      kind: 'trailing-bytes',
+      message: `${reader.remaining()} unexpected trailing bytes after ${deltaCount} deltas`,
+      offset: reader.getOffset(),
+      section: 'end of payload'
+    });
+  }
+
+  return warnings.length > 0 ? { snapshot, deltas, decodeWarnings: warnings } : { snapshot, deltas };
+
+  function readDelta(d: number): HiscoreDelta {
+    reader.setSection(`delta ${d}`);
     const deltaTimestamp = Number(reader.readInt64());
+    const deltaId = hasIds ? reader.readString() : '';
+    const deltaSnapshotId = hasIds ? reader.readString() : '';
+    const previousSnapshotId = hasIds ? reader.readString() : '';
 
     // Skill deltas
+    reader.setSection(`delta ${d} skills`);
     const skillDeltaCount = reader.readUint8();
     const skillDeltas: SkillDelta[] = [];
     for (let i = 0; i < skillDeltaCount; i++) {
-      const activityTypeIndex = reader.readUint8();
-      const xpGain = reader.readInt32();
-      const levelGain = reader.readInt16();
+      const activityType = resolveActivityType(reader.readUint8());
+      const xpGain = readGain32();
+      const levelGain = readGain16();
+      const rankGain = readRankGain();
 
-      const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
       skillDeltas.push({
         activityType,
         name: getActivityName(activityType),
         experienceGain: xpGain,
-        levelGain
+        levelGain,
+        ...(rankGain !== undefined && { rankGain })
       });
     }
 
     // Boss deltas
+    reader.setSection(`delta ${d} bosses`);
     const bossDeltaCount = reader.readUint8();
     const bossDeltas: BossDelta[] = [];
     for (let i = 0; i < bossDeltaCount; i++) {
-      const activityTypeIndex = reader.readUint8();
-      const kcGain = reader.readInt32();
+      const activityType = resolveActivityType(reader.readUint8());
+      const kcGain = readGain32();
+      const rankGain = readRankGain();
 
-      const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
       bossDeltas.push({
         activityType,
         name: getActivityName(activityType),
-        killCountGain: kcGain
+        killCountGain: kcGain,
+        ...(rankGain !== undefined && { rankGain })
       });
     }
 
     // Activity deltas
+    reader.setSection(`delta ${d} activities`);
     const activityDeltaCount = reader.readUint8();
     const activityDeltas: ActivityDelta[] = [];
     for (let i = 0; i < activityDeltaCount; i++) {
-      const activityTypeIndex = reader.readUint8();
-      const scoreGain = reader.readInt32();
+      const activityType = resolveActivityType(reader.readUint8());
+      const scoreGain = readGain32();
+      const rankGain = readRankGain();
 
-      const activityType = ACTIVITY_TYPE_INDEX_MAP[activityTypeIndex] || 'UNKNOWN';
       activityDeltas.push({
         activityType,
         name: getActivityName(activityType),
-        scoreGain
+        scoreGain,
+        ...(rankGain !== undefined && { rankGain })
       });
     }
 
-    deltas.push({
-      id: '', // Not included in binary protocol
+    return {
+      id: deltaId,
       userId,
-      snapshotId: '', // Not included in binary protocol
-      previousSnapshotId: '', // Not included in binary protocol
+      snapshotId: deltaSnapshotId,
+      previousSnapshotId,
       timestamp: new Date(deltaTimestamp).toISOString(),
       skills: skillDeltas.length > 0 ? skillDeltas : undefined,
       bosses: bossDeltas.length > 0 ? bossDeltas : undefined,
       activities: activityDeltas.length > 0 ? activityDeltas : undefined
-    });
+    };
+  }
+}
+
+export interface EncodeOptions {
+  version?: 1 | 2;
+  // v2 only; defaults to ranks + rank deltas + IDs so a decode round-trips
+  flags?: number;
+}
+
+function getActivityTypeIndex(activityType: ActivityType): number {
+  const definition = getActivityDefinition(activityType);
+  if (!definition) {
+    throw new Error(`Activity type has no binary index: ${activityType}`);
+  }
+  return definition.index;
+}
+
+function checkCount(count: number, max: number, section: string) {
+  if (count > max) {
+    throw new RangeError(`Too many ${section} to encode: ${count} (max ${max})`);
+  }
+}
+
+// Produce an application/x-hazelmere-binary payload - the inverse of
+// decodeBinaryDeltaResponse. Used for fixtures and mocking the API locally.
+export function encodeSnapshotWithDeltas(
+  { snapshot, deltas }: GetSnapshotWithDeltasResponse,
+  { version = 2, flags = FLAG_RANKS | FLAG_RANK_DELTAS | FLAG_IDS }: EncodeOptions = {}
+): ArrayBuffer {
+  const writer = new BinaryWriter();
+
+  const effectiveFlags = version >= 2 ? flags : 0;
+  const hasRanks = (effectiveFlags & FLAG_RANKS) !== 0;
+  const hasRankDeltas = (effectiveFlags & FLAG_RANK_DELTAS) !== 0;
+  const hasIds = (effectiveFlags & FLAG_IDS) !== 0;
+  const useVarints = (effectiveFlags & FLAG_VARINT) !== 0;
+
+  const writeGain32 = (value: number) => useVarints ? writer.writeVarInt(value) : writer.writeInt32(value);
+  const writeGain16 = (value: number) => useVarints ? writer.writeVarInt(value) : writer.writeInt16(value);
+  const writeRank = (rank: number) => {
+    if (hasRanks) writer.writeInt32(rank);
+  };
+  const writeRankGain = (rankGain: number | undefined) => {
+    if (hasRankDeltas) writeGain32(rankGain ?? 0);
+  };
+
+  // Header
+  writer.writeUint8(version);
+  writer.writeUint8(effectiveFlags);
+
+  // Snapshot
+  writer.writeInt64(BigInt(new Date(snapshot.timestamp).getTime()));
+  if (hasIds) writer.writeString(snapshot.id);
+
+  checkCount(snapshot.skills.length, 0xff, 'skills');
+  writer.writeUint8(snapshot.skills.length);
+  for (const skill of snapshot.skills) {
+    writer.writeUint8(getActivityTypeIndex(skill.activityType));
+    writer.writeInt32(skill.experience);
+    writer.writeInt16(skill.level);
+    writeRank(skill.rank);
+  }
+
+  checkCount(snapshot.bosses.length, 0xff, 'bosses');
+  writer.writeUint8(snapshot.bosses.length);
+  for (const boss of snapshot.bosses) {
+    writer.writeUint8(getActivityTypeIndex(boss.activityType));
+    writer.writeInt32(boss.killCount);
+    writeRank(boss.rank);
+  }
+
+  checkCount(snapshot.activities.length, 0xff, 'activities');
+  writer.writeUint8(snapshot.activities.length);
+  for (const activity of snapshot.activities) {
+    writer.writeUint8(getActivityTypeIndex(activity.activityType));
+    writer.writeInt32(activity.score);
+    writeRank(activity.rank);
+  }
+
+  // Deltas
+  checkCount(deltas.length, 0xffff, 'deltas');
+  writer.writeUint16(deltas.length);
+  for (const delta of deltas) {
+    writer.writeInt64(BigInt(new Date(delta.timestamp).getTime()));
+    if (hasIds) {
+      writer.writeString(delta.id);
+      writer.writeString(delta.snapshotId);
+      writer.writeString(delta.previousSnapshotId);
+    }
+
+    const skillDeltas = delta.skills ?? [];
+    checkCount(skillDeltas.length, 0xff, 'skill deltas');
+    writer.writeUint8(skillDeltas.length);
+    for (const skill of skillDeltas) {
+      writer.writeUint8(getActivityTypeIndex(skill.activityType));
+      writeGain32(skill.experienceGain);
+      writeGain16(skill.levelGain);
+      writeRankGain(skill.rankGain);
+    }
+
+    const bossDeltas = delta.bosses ?? [];
+    checkCount(bossDeltas.length, 0xff, 'boss deltas');
+    writer.writeUint8(bossDeltas.length);
+    for (const boss of bossDeltas) {
+      writer.writeUint8(getActivityTypeIndex(boss.activityType));
+      writeGain32(boss.killCountGain);
+      writeRankGain(boss.rankGain);
+    }
+
+    const activityDeltas = delta.activities ?? [];
+    checkCount(activityDeltas.length, 0xff, 'activity deltas');
+    writer.writeUint8(activityDeltas.length);
+    for (const activity of activityDeltas) {
+      writer.writeUint8(getActivityTypeIndex(activity.activityType));
+      writeGain32(activity.scoreGain);
+      writeRankGain(activity.rankGain);
+    }
   }
 
-  return { snapshot, deltas };
+  return writer.toArrayBuffer();
 }
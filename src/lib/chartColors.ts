@@ -0,0 +1,55 @@
+import type { ActivityType } from '@/types/api';
+
+// Line colors for compared players, in selection order. The first matches the
+// single-player chart so the primary player keeps its color when comparing.
+export const PLAYER_COLORS = [
+  '#3b82f6', // blue
+  '#f97316', // orange
+  '#10b981', // green
+  '#e11d48', // rose
+  '#a855f7', // purple
+  '#eab308'  // yellow
+];
+
+export function getPlayerColor(index: number): string {
+  return PLAYER_COLORS[index % PLAYER_COLORS.length];
+}
+
+// Stacked bar segment per skill, loosely after each skill's in-game icon. Keyed
+// by activity type so a skill keeps its color whichever chart it shows up in.
+export const SKILL_COLORS: Partial<Record<ActivityType, string>> = {
+  ATTACK: '#7c2d12',
+  DEFENCE: '#6b8fd6',
+  STRENGTH: '#2f855a',
+  HITPOINTS: '#e53e3e',
+  RANGED: '#68a33c',
+  PRAYER: '#ecc94b',
+  MAGIC: '#3b5bdb',
+  COOKING: '#805ad5',
+  WOODCUTTING: '#8d6e3f',
+  FLETCHING: '#0f766e',
+  FISHING: '#63b3ed',
+  FIREMAKING: '#f6ad55',
+  CRAFTING: '#a47148',
+  SMITHING: '#718096',
+  MINING: '#4a5568',
+  HERBLORE: '#38a169',
+  AGILITY: '#2b6cb0',
+  THIEVING: '#6b46c1',
+  SLAYER: '#b91c1c',
+  FARMING: '#48bb78',
+  RUNECRAFT: '#d69e2e',
+  HUNTER: '#b7791f',
+  CONSTRUCTION: '#c8a97e',
+  SAILING: '#0891b2'
+};
+
+// Whatever is left of a bar after its top skills
+export const OTHER_SKILLS_COLOR = '#94a3b8';
+
+export function getSkillColor(activityType: ActivityType): string {
+  return SKILL_COLORS[activityType] ?? OTHER_SKILLS_COLOR;
+}
+
+// Horizontal target line for a player goal
+export const GOAL_LINE_COLOR = '#f59e0b';
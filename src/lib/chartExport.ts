@@ -0,0 +1,371 @@
+// Chart export. Each WebGL chart describes what it shows as a ChartPicture in
+// CSS pixels: grid lines, data marks and labels. SVG draws the whole picture
+// as vectors; PNG draws the chart's own WebGL canvas, re-rendered at the
+// export scale, between the grid and the labels.
+
+export interface PictureLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  // Defaults to the theme's foreground
+  color?: string;
+  opacity?: number;
+  dashed?: boolean;
+}
+
+export interface PictureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  opacity?: number;
+  radius?: number;
+}
+
+export interface PicturePath {
+  points: { x: number; y: number }[];
+  color: string;
+  width: number;
+}
+
+export interface PictureCircle {
+  x: number;
+  y: number;
+  radius: number;
+  color: string;
+}
+
+export interface PictureText {
+  x: number;
+  y: number;
+  text: string;
+  anchor?: 'start' | 'middle' | 'end';
+  // Axis labels are muted, legends use the full foreground
+  tone?: 'muted' | 'foreground';
+}
+
+export interface PictureLayer {
+  lines?: PictureLine[];
+  rects?: PictureRect[];
+  paths?: PicturePath[];
+  circles?: PictureCircle[];
+  texts?: PictureText[];
+}
+
+export interface ChartPicture {
+  width: number;
+  height: number;
+  // Marks are clipped to the plot area, like the on-screen canvas
+  plot: { x: number; y: number; width: number; height: number };
+  grid: PictureLayer;
+  marks: PictureLayer;
+  labels: PictureLayer;
+}
+
+// Exposed by a chart through its `exportRef`
+export interface ChartExportHandle {
+  getPicture(): ChartPicture;
+  // Copy of the chart's WebGL canvas drawn at `scale` pixels per CSS pixel,
+  // or null when WebGL isn't available
+  captureCanvas(scale: number): HTMLCanvasElement | null;
+}
+
+export interface ExportTheme {
+  background: string;
+  foreground: string;
+  muted: string;
+}
+
+export interface ChartAxisTick {
+  // Position in CSS pixels along the axis
+  position: number;
+  label: string;
+}
+
+export interface ChartAxes {
+  width: number;
+  height: number;
+  margins: { left: number; right: number; top: number; bottom: number };
+  yTicks: ChartAxisTick[];
+  // Labels on the right-hand axis; these don't get grid lines
+  secondaryYTicks?: ChartAxisTick[];
+  xTicks: ChartAxisTick[];
+}
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+export const PNG_SCALES = [1, 2, 3];
+
+const FONT_SIZE = 12;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+
+// Matches the `text-xs` labels the charts position over the canvas
+export function buildAxisLayers({ width, height, margins, yTicks, secondaryYTicks = [], xTicks }: ChartAxes): Pick<ChartPicture, 'grid' | 'labels'> {
+  const plotRight = width - margins.right;
+
+  const grid: PictureLine[] = yTicks.map(({ position }) => ({
+    x1: margins.left,
+    y1: position,
+    x2: plotRight,
+    y2: position,
+    opacity: 0.1,
+    dashed: true
+  }));
+
+  const texts: PictureText[] = [
+    ...yTicks.map(({ position, label }) => ({ x: margins.left - 18, y: position, text: label, anchor: 'end' as const })),
+    ...secondaryYTicks.map(({ position, label }) => ({ x: plotRight + 18, y: position, text: label, anchor: 'start' as const })),
+    // X labels outside the plot are clipped on screen
+    ...xTicks
+      .filter(({ position }) => position >= margins.left && position <= plotRight)
+      .map(({ position, label }) => ({ x: position, y: height - margins.bottom + 18, text: label, anchor: 'middle' as const }))
+  ];
+
+  return { grid: { lines: grid }, labels: { texts } };
+}
+
+// Swatch and label per entry in one row from (x, y), like the on-screen legends
+export function buildLegendLayer(entries: LegendEntry[], x: number, y: number): PictureLayer {
+  const rects: PictureRect[] = [];
+  const texts: PictureText[] = [];
+  let left = x;
+
+  for (const { label, color } of entries) {
+    rects.push({ x: left, y: y - 4, width: 8, height: 8, color, radius: 4 });
+    texts.push({ x: left + 14, y, text: label, tone: 'foreground' });
+    // Rough width of a 12px label; only needs to keep entries apart
+    left += 14 + label.length * 6.5 + 12;
+  }
+
+  return { rects, texts };
+}
+
+export function mergeLayers(...layers: PictureLayer[]): PictureLayer {
+  return {
+    lines: layers.flatMap(layer => layer.lines ?? []),
+    rects: layers.flatMap(layer => layer.rects ?? []),
+    paths: layers.flatMap(layer => layer.paths ?? []),
+    circles: layers.flatMap(layer => layer.circles ?? []),
+    texts: layers.flatMap(layer => layer.texts ?? [])
+  };
+}
+
+// Re-render a WebGL canvas at `scale` and copy its pixels before the browser
+// composites (and may clear) the drawing buffer, then render it back at the
+// display's pixel ratio. `render(null)` means "use the display's ratio".
+export function captureWebGLCanvas(
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  scale: number,
+  render: (pixelRatio: number | null) => void
+): HTMLCanvasElement {
+  const displayWidth = canvas.width;
+  const displayHeight = canvas.height;
+
+  const copy = document.createElement('canvas');
+  copy.width = Math.round(width * scale);
+  copy.height = Math.round(height * scale);
+
+  try {
+    canvas.width = copy.width;
+    canvas.height = copy.height;
+    render(scale);
+    copy.getContext('2d')?.drawImage(canvas, 0, 0);
+  } finally {
+    canvas.width = displayWidth;
+    canvas.height = displayHeight;
+    render(null);
+  }
+
+  return copy;
+}
+
+// Colors of the current theme, so exports look like the page they came from
+export function getExportTheme(): ExportTheme {
+  const style = getComputedStyle(document.documentElement);
+  const color = (name: string, fallback: string) => {
+    const value = style.getPropertyValue(name).trim();
+    return value ? `hsl(${value})` : fallback;
+  };
+  return {
+    background: color('--card', '#ffffff'),
+    foreground: color('--foreground', '#0a0a0a'),
+    muted: color('--muted-foreground', '#737373')
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function layerToSvg(layer: PictureLayer, theme: ExportTheme): string[] {
+  const elements: string[] = [];
+
+  for (const line of layer.lines ?? []) {
+    elements.push(`<line x1="${round(line.x1)}" y1="${round(line.y1)}" x2="${round(line.x2)}" y2="${round(line.y2)}" stroke="${escapeXml(line.color ?? theme.foreground)}"` +
+      `${line.opacity !== undefined ? ` stroke-opacity="${line.opacity}"` : ''}${line.dashed ? ' stroke-dasharray="3 3"' : ''}/>`);
+  }
+  for (const rect of layer.rects ?? []) {
+    elements.push(`<rect x="${round(rect.x)}" y="${round(rect.y)}" width="${round(rect.width)}" height="${round(rect.height)}" fill="${escapeXml(rect.color)}"` +
+      `${rect.radius ? ` rx="${round(rect.radius)}"` : ''}${rect.opacity !== undefined ? ` fill-opacity="${rect.opacity}"` : ''}/>`);
+  }
+  for (const path of layer.paths ?? []) {
+    if (path.points.length < 2) continue;
+    const d = path.points.map(({ x, y }, i) => `${i === 0 ? 'M' : 'L'}${round(x)} ${round(y)}`).join('');
+    elements.push(`<path d="${d}" fill="none" stroke="${escapeXml(path.color)}" stroke-width="${path.width}" stroke-linejoin="round"/>`);
+  }
+  for (const circle of layer.circles ?? []) {
+    elements.push(`<circle cx="${round(circle.x)}" cy="${round(circle.y)}" r="${circle.radius}" fill="${escapeXml(circle.color)}"/>`);
+  }
+  for (const text of layer.texts ?? []) {
+    elements.push(`<text x="${round(text.x)}" y="${round(text.y)}" text-anchor="${text.anchor ?? 'start'}" dominant-baseline="middle" fill="${escapeXml(text.tone === 'foreground' ? theme.foreground : theme.muted)}">${escapeXml(text.text)}</text>`);
+  }
+
+  return elements;
+}
+
+export function renderChartSvg(picture: ChartPicture, theme: ExportTheme): string {
+  const { width, height, plot } = picture;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">`,
+    `<defs><clipPath id="plot"><rect x="${round(plot.x)}" y="${round(plot.y)}" width="${round(plot.width)}" height="${round(plot.height)}"/></clipPath></defs>`,
+    `<rect width="100%" height="100%" fill="${escapeXml(theme.background)}"/>`,
+    ...layerToSvg(picture.grid, theme),
+    '<g clip-path="url(#plot)">',
+    ...layerToSvg(picture.marks, theme),
+    '</g>',
+    ...layerToSvg(picture.labels, theme),
+    '</svg>'
+  ].join('\n');
+}
+
+function drawLayer(ctx: CanvasRenderingContext2D, layer: PictureLayer, theme: ExportTheme) {
+  for (const line of layer.lines ?? []) {
+    ctx.save();
+    ctx.strokeStyle = line.color ?? theme.foreground;
+    ctx.globalAlpha = line.opacity ?? 1;
+    ctx.setLineDash(line.dashed ? [3, 3] : []);
+    ctx.beginPath();
+    ctx.moveTo(line.x1, line.y1);
+    ctx.lineTo(line.x2, line.y2);
+    ctx.stroke();
+    ctx.restore();
+  }
+  for (const rect of layer.rects ?? []) {
+    ctx.save();
+    ctx.fillStyle = rect.color;
+    ctx.globalAlpha = rect.opacity ?? 1;
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, rect.radius ?? 0);
+    ctx.fill();
+    ctx.restore();
+  }
+  for (const path of layer.paths ?? []) {
+    if (path.points.length < 2) continue;
+    ctx.save();
+    ctx.strokeStyle = path.color;
+    ctx.lineWidth = path.width;
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    path.points.forEach(({ x, y }, i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.stroke();
+    ctx.restore();
+  }
+  for (const circle of layer.circles ?? []) {
+    ctx.fillStyle = circle.color;
+    ctx.beginPath();
+    ctx.arc(circle.x, circle.y, circle.radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.font = `${FONT_SIZE}px ${FONT_FAMILY}`;
+  ctx.textBaseline = 'middle';
+  for (const text of layer.texts ?? []) {
+    ctx.fillStyle = text.tone === 'foreground' ? theme.foreground : theme.muted;
+    ctx.textAlign = text.anchor === 'middle' ? 'center' : text.anchor === 'end' ? 'right' : 'left';
+    ctx.fillText(text.text, text.x, text.y);
+  }
+}
+
+// Background, grid, the captured WebGL canvas clipped to the plot (or the
+// vector marks without one), then labels on top
+export function renderChartPng(
+  picture: ChartPicture,
+  capture: HTMLCanvasElement | null,
+  scale: number,
+  theme: ExportTheme
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(picture.width * scale);
+  canvas.height = Math.round(picture.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Canvas 2D is not supported'));
+  }
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, picture.width, picture.height);
+  drawLayer(ctx, picture.grid, theme);
+
+  const { plot } = picture;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(plot.x, plot.y, plot.width, plot.height);
+  ctx.clip();
+  if (capture) {
+    ctx.drawImage(capture, 0, 0, capture.width / scale, capture.height / scale);
+  } else {
+    drawLayer(ctx, picture.marks, theme);
+  }
+  ctx.restore();
+
+  drawLayer(ctx, picture.labels, theme);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+  });
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n') + '\n';
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// "zezima-overall-2025-03-04", safe for every file system
+export function getExportFilename(...parts: string[]): string {
+  return parts
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
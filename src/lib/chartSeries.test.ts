@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityType, GetSnapshotWithDeltasResponse, HiscoreDelta } from '@/types/api';
+import {
+  aggregateDailyTotals,
+  buildBucketedSeries,
+  buildChartSeries,
+  normalizeChartSeries
+} from './chartSeries';
+
+// Local time, so day and week buckets don't depend on the test machine's timezone
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour).getTime();
+
+// Skill XP gains (Overall is their sum) and Zulrah kills at a local time
+function createDelta(time: number, gains: Partial<Record<ActivityType, number>>, kills = 0): HiscoreDelta {
+  const skills = Object.entries(gains).map(([activityType, experienceGain]) => ({
+    activityType: activityType as ActivityType,
+    name: activityType,
+    experienceGain,
+    levelGain: 0
+  }));
+  const overall = skills.reduce((sum, skill) => sum + skill.experienceGain, 0);
+  return {
+    id: `delta-${time}`,
+    userId: 'user-1',
+    snapshotId: `snapshot-${time}`,
+    previousSnapshotId: '',
+    timestamp: new Date(time).toISOString(),
+    skills: [{ activityType: 'OVERALL', name: 'OVERALL', experienceGain: overall, levelGain: 0 }, ...skills],
+    bosses: kills > 0 ? [{ activityType: 'ZULRAH', name: 'Zulrah', killCountGain: kills }] : []
+  };
+}
+
+// Jan 1 2025 is a Wednesday; Jan 5 starts the next week
+const DELTAS = [
+  createDelta(at(1, 10), { ATTACK: 5_000, MINING: 1_000 }),
+  createDelta(at(2, 9), { MINING: 3_000 }, 2),
+  // Listed out of order; below the noise threshold on its own
+  createDelta(at(1, 14), { ATTACK: 50 }),
+  createDelta(at(5, 12), { ATTACK: 40, MINING: 40 }),
+  createDelta(at(5, 18), { ATTACK: 30 })
+];
+
+const RESPONSE: GetSnapshotWithDeltasResponse = {
+  snapshot: {
+    id: 'snapshot-0',
+    userId: 'user-1',
+    timestamp: new Date(at(1, 0)).toISOString(),
+    skills: [
+      { activityType: 'OVERALL', name: 'Overall', experience: 1_000_000, level: 500, rank: 1 },
+      { activityType: 'ATTACK', name: 'Attack', experience: 50_000, level: 50, rank: 1 }
+    ],
+    bosses: [{ activityType: 'ZULRAH', name: 'Zulrah', killCount: 10, rank: 1 }],
+    activities: []
+  },
+  deltas: DELTAS
+};
+
+describe('buildChartSeries', () => {
+  it('starts at the snapshot and adds each delta in time order', () => {
+    const series = buildChartSeries(RESPONSE);
+
+    expect([...series.timestamps]).toEqual([at(1, 0), at(1, 10), at(1, 14), at(2, 9), at(5, 12), at(5, 18)]);
+    expect([...series.cumulative]).toEqual([1_000_000, 1_006_000, 1_006_050, 1_009_050, 1_009_130, 1_009_160]);
+    expect(series.baselineLevel).toBeNull();
+  });
+
+  it('zeroes gains below the noise threshold', () => {
+    expect([...buildChartSeries(RESPONSE).dailyGains]).toEqual([0, 6_000, 0, 3_000, 0, 0]);
+    // One kill is enough for bosses
+    expect([...buildChartSeries(RESPONSE, 'ZULRAH').dailyGains]).toEqual([0, 0, 0, 2, 0, 0]);
+  });
+
+  it('breaks overall XP down by skill, largest first', () => {
+    const { skillBreakdowns } = buildChartSeries(RESPONSE);
+
+    expect(skillBreakdowns[0]).toBeUndefined();
+    expect(skillBreakdowns[1]).toEqual([
+      { activityType: 'ATTACK', skill: 'ATTACK', experience: 5_000 },
+      { activityType: 'MINING', skill: 'MINING', experience: 1_000 }
+    ]);
+    expect(skillBreakdowns[3]).toEqual([{ activityType: 'MINING', skill: 'MINING', experience: 3_000 }]);
+  });
+
+  it('follows a single activity from its snapshot value and level', () => {
+    const series = buildChartSeries(RESPONSE, 'ATTACK');
+
+    expect([...series.cumulative]).toEqual([50_000, 55_000, 55_050, 55_050, 55_090, 55_120]);
+    expect(series.baselineLevel).toBe(50);
+    expect(series.skillBreakdowns.every(breakdown => breakdown === undefined)).toBe(true);
+  });
+});
+
+describe('buildBucketedSeries', () => {
+  it('sums each day that has deltas', () => {
+    const series = buildBucketedSeries(RESPONSE, undefined, 'day');
+
+    expect([...series.timestamps]).toEqual([at(1, 0), at(2, 0), at(5, 0)]);
+    expect([...series.bucketEnds]).toEqual([at(2, 0), at(3, 0), at(6, 0)]);
+    // Jan 5's gains are noise one by one but not together
+    expect([...series.dailyGains]).toEqual([6_050, 3_000, 110]);
+    expect(series.skillBreakdowns[0]).toEqual([
+      { activityType: 'ATTACK', skill: 'ATTACK', experience: 5_050 },
+      { activityType: 'MINING', skill: 'MINING', experience: 1_000 }
+    ]);
+  });
+
+  it('starts weeks on Sunday', () => {
+    const series = buildBucketedSeries(RESPONSE, undefined, 'week');
+
+    expect([...series.timestamps]).toEqual([new Date(2024, 11, 29).getTime(), at(5, 0)]);
+    expect([...series.dailyGains]).toEqual([9_050, 110]);
+  });
+
+  it('zeroes bucket totals below the noise threshold', () => {
+    const series = buildBucketedSeries({ ...RESPONSE, deltas: DELTAS.slice(3, 4) }, 'ATTACK', 'day');
+
+    expect([...series.dailyGains]).toEqual([0]);
+    expect(series.skillBreakdowns).toEqual([undefined]);
+  });
+});
+
+describe('aggregateDailyTotals', () => {
+  it('sums overall XP per local day', () => {
+    const totals = aggregateDailyTotals(DELTAS);
+
+    expect(totals.dates).toEqual(['2025-01-01', '2025-01-02', '2025-01-05']);
+    expect([...totals.gains]).toEqual([6_050, 3_000, 110]);
+    expect(totals.skillBreakdowns[1]).toEqual([{ activityType: 'MINING', skill: 'MINING', experience: 3_000 }]);
+  });
+
+  it('sums another activity without a skill breakdown', () => {
+    const totals = aggregateDailyTotals(DELTAS, 'ZULRAH');
+
+    expect([...totals.gains]).toEqual([0, 2, 0]);
+    expect(totals.skillBreakdowns).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('places gains by weekday and hour, Sunday first', () => {
+    const { weekdayHours } = aggregateDailyTotals(DELTAS);
+
+    expect(weekdayHours[3 * 24 + 10]).toBe(6_000);
+    expect(weekdayHours[3 * 24 + 14]).toBe(50);
+    expect(weekdayHours[4 * 24 + 9]).toBe(3_000);
+    expect(weekdayHours[12]).toBe(80);
+    expect(weekdayHours.reduce((sum, gain) => sum + gain, 0)).toBe(9_160);
+  });
+
+  it('takes the median time between deltas', () => {
+    // Gaps of 4, 19, 75 and 6 hours
+    expect(aggregateDailyTotals(DELTAS).medianDeltaInterval).toBe(19 * 3_600_000);
+    expect(aggregateDailyTotals(DELTAS.slice(0, 1)).medianDeltaInterval).toBe(0);
+  });
+});
+
+describe('normalizeChartSeries', () => {
+  it('shifts the series to start at zero', () => {
+    const series = buildChartSeries(RESPONSE, 'ATTACK');
+    const normalized = normalizeChartSeries(series);
+
+    expect([...normalized.cumulative]).toEqual([0, 5_000, 5_050, 5_050, 5_090, 5_120]);
+    expect(normalized.baselineLevel).toBeNull();
+    expect(normalized.timestamps).toBe(series.timestamps);
+    expect(normalized.dailyGains).toBe(series.dailyGains);
+    // The original is left alone
+    expect(series.cumulative[0]).toBe(50_000);
+  });
+
+  it('keeps an empty series empty', () => {
+    const empty = buildChartSeries({ ...RESPONSE, deltas: [] });
+    const normalized = normalizeChartSeries({ ...empty, cumulative: new Float64Array(0) });
+    expect(normalized.cumulative).toHaveLength(0);
+  });
+});
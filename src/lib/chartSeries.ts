@@ -0,0 +1,370 @@
+import type { ActivityType, HiscoreDelta, HiscoreSnapshot, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { getActivityUnit, type ActivityUnit } from './activityRegistry';
+import { bucketDeltas, type BucketSize } from './timeBuckets';
+import { applyDeltasToSnapshot } from './dataUtils';
+import { DEFAULT_ANOMALY_SETTINGS, getOutlierBound, type OutlierRule } from './anomalies';
+
+// Chart-ready series built from a snapshot + deltas response. Everything here
+// is plain data so it can run in the delta worker and be transferred back;
+// the numeric columns are typed arrays whose buffers move without copying.
+
+export interface SkillGain {
+  activityType: ActivityType;
+  // Display name
+  skill: string;
+  experience: number;
+}
+
+// Column-oriented chart data; index i of every column describes the same point.
+// Point 0 is the baseline snapshot, the rest are deltas in time order.
+export interface ChartSeries {
+  // Epoch ms, ascending
+  timestamps: Float64Array;
+  // Running total of the selected activity
+  cumulative: Float64Array;
+  // Per-point gain, zeroed when it is noise or an implausible spike
+  dailyGains: Float64Array;
+  // Top skill gains per point, only for overall XP
+  skillBreakdowns: (SkillGain[] | undefined)[];
+  // Level at the baseline snapshot for skills, otherwise null
+  baselineLevel: number | null;
+}
+
+export interface PreparedChartSeries {
+  series: ChartSeries;
+  // Timestamps whose overall XP gain is an outlier, regardless of the selected activity
+  anomalyTimestamps: Float64Array;
+}
+
+// Gains summed into calendar buckets for the bar chart; point i covers
+// [timestamps[i], bucketEnds[i]) and only buckets with deltas are included
+export interface BucketedSeries {
+  size: BucketSize;
+  // Bucket start, epoch ms, ascending
+  timestamps: Float64Array;
+  bucketEnds: Float64Array;
+  // Per-bucket gain, zeroed when it is noise
+  dailyGains: Float64Array;
+  // Top skill gains per bucket, only for overall XP
+  skillBreakdowns: (SkillGain[] | undefined)[];
+}
+
+// Per-day totals of one activity for the heatmap, keyed by local yyyy-MM-dd
+export interface DailyTotals {
+  dates: string[];
+  // XP, kill count or score, matching the activity
+  gains: Float64Array;
+  // Top skills per day, only for overall XP
+  skillBreakdowns: (SkillGain[] | undefined)[];
+  // Gains by local weekday and hour of the delta that recorded them,
+  // at [weekday * 24 + hour] with Sunday first
+  weekdayHours: Float64Array;
+  // Typical time between deltas in ms, 0 with fewer than two; gains can only
+  // be placed in an hour when this is short
+  medianDeltaInterval: number;
+}
+
+const SKILL_BREAKDOWN_SIZE = 5;
+
+export function formatPointDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString();
+}
+
+export function getDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function extractActivityData(snapshot: HiscoreSnapshot, activityType?: ActivityType) {
+  if (!activityType || activityType === 'OVERALL') {
+    // Total XP: use OVERALL skill (matches what deltas use)
+    const overall = snapshot.skills.find(s => s.activityType === 'OVERALL');
+    return {
+      value: overall?.experience || 0,
+      level: undefined
+    };
+  }
+
+  const activity = [
+    ...snapshot.skills,
+    ...snapshot.bosses,
+    ...snapshot.activities
+  ].find(item => item.activityType === activityType);
+
+  if (!activity) return { value: 0, level: undefined };
+
+  if ('experience' in activity) {
+    return { value: activity.experience, level: activity.level };
+  }
+
+  if ('killCount' in activity) {
+    return { value: activity.killCount, level: undefined };
+  }
+
+  if ('score' in activity) {
+    return { value: activity.score, level: undefined };
+  }
+
+  return { value: 0, level: undefined };
+}
+
+// Value of the activity after the last delta in the response
+export function getLatestActivityValue(response: GetSnapshotWithDeltasResponse, activityType?: ActivityType): number {
+  if (!response.snapshot) return 0;
+  return extractActivityData(applyDeltasToSnapshot(response.snapshot, response.deltas), activityType).value;
+}
+
+// Get the gain value from a delta for a specific activity type
+export function getDeltaGainForActivity(delta: HiscoreDelta, activityType?: ActivityType | null): number {
+  if (!activityType) {
+    // Total XP: use OVERALL skill
+    const overall = delta.skills?.find(s => s.activityType === 'OVERALL');
+    return overall?.experienceGain || 0;
+  }
+
+  // Check skills
+  const skill = delta.skills?.find(s => s.activityType === activityType);
+  if (skill) return skill.experienceGain;
+
+  // Check bosses
+  const boss = delta.bosses?.find(b => b.activityType === activityType);
+  if (boss) return boss.killCountGain;
+
+  // Check activities
+  const activity = delta.activities?.find(a => a.activityType === activityType);
+  if (activity) return activity.scoreGain;
+
+  return 0;
+}
+
+// Gains this small are noise rather than activity
+function getMinimumGain(unit: ActivityUnit): number {
+  return unit === 'kc' ? 1 : 100;
+}
+
+// Top skills by XP summed over the given deltas
+function getTopSkillGains(deltas: HiscoreDelta[]): SkillGain[] | undefined {
+  const totals = new Map<ActivityType, SkillGain>();
+  for (const delta of deltas) {
+    for (const s of delta.skills ?? []) {
+      if (s.activityType === 'OVERALL' || s.experienceGain <= 0) continue;
+
+      const total = totals.get(s.activityType);
+      if (total) {
+        total.experience += s.experienceGain;
+      } else {
+        totals.set(s.activityType, { activityType: s.activityType, skill: s.name, experience: s.experienceGain });
+      }
+    }
+  }
+
+  const skillGains = Array.from(totals.values())
+    .sort((a, b) => b.experience - a.experience)
+    .slice(0, SKILL_BREAKDOWN_SIZE);
+
+  return skillGains.length > 0 ? skillGains : undefined;
+}
+
+// Build the series directly from deltas
+// The snapshot is the STARTING point, and deltas are added to show progression
+export function buildChartSeries(
+  deltaResponse: GetSnapshotWithDeltasResponse,
+  activityType?: ActivityType
+): ChartSeries {
+  const { snapshot: baseSnapshot, deltas } = deltaResponse;
+
+  if (!baseSnapshot) {
+    return {
+      timestamps: new Float64Array(0),
+      cumulative: new Float64Array(0),
+      dailyGains: new Float64Array(0),
+      skillBreakdowns: [],
+      baselineLevel: null
+    };
+  }
+
+  // Get the starting value from the snapshot (this is the baseline)
+  const { value: startingValue, level: startingLevel } = extractActivityData(baseSnapshot, activityType);
+
+  // Sort deltas chronologically
+  const sortedDeltas = [...deltas].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const pointCount = sortedDeltas.length + 1;
+  const timestamps = new Float64Array(pointCount);
+  const cumulative = new Float64Array(pointCount);
+  const dailyGains = new Float64Array(pointCount);
+  const skillBreakdowns: (SkillGain[] | undefined)[] = new Array(pointCount).fill(undefined);
+
+  timestamps[0] = new Date(baseSnapshot.timestamp).getTime();
+  cumulative[0] = startingValue;
+
+  const isOverall = !activityType || activityType === 'OVERALL';
+  const unit = activityType ? getActivityUnit(activityType) : 'xp';
+  const minimumGain = getMinimumGain(unit);
+
+  // Process each delta - add gains to cumulative value
+  let cumulativeValue = startingValue;
+
+  sortedDeltas.forEach((delta, i) => {
+    const point = i + 1;
+    const gain = getDeltaGainForActivity(delta, activityType);
+    cumulativeValue += gain;
+
+    timestamps[point] = new Date(delta.timestamp).getTime();
+    cumulative[point] = cumulativeValue;
+
+    if (isOverall && delta.skills && gain > 0) {
+      skillBreakdowns[point] = getTopSkillGains([delta]);
+    }
+
+    // Apply filtering logic for display
+    if (gain >= minimumGain) {
+      dailyGains[point] = gain;
+    }
+  });
+
+  return {
+    timestamps,
+    cumulative,
+    dailyGains,
+    skillBreakdowns,
+    baselineLevel: startingLevel ?? null
+  };
+}
+
+// Sum each calendar bucket's gains. The noise threshold applies to the bucket
+// total so many small gains still add up.
+export function buildBucketedSeries(
+  deltaResponse: GetSnapshotWithDeltasResponse,
+  activityType: ActivityType | undefined,
+  size: BucketSize
+): BucketedSeries {
+  const buckets = bucketDeltas(deltaResponse.deltas, size);
+
+  const timestamps = new Float64Array(buckets.length);
+  const bucketEnds = new Float64Array(buckets.length);
+  const dailyGains = new Float64Array(buckets.length);
+  const skillBreakdowns: (SkillGain[] | undefined)[] = new Array(buckets.length).fill(undefined);
+
+  const isOverall = !activityType || activityType === 'OVERALL';
+  const unit = activityType ? getActivityUnit(activityType) : 'xp';
+  const minimumGain = getMinimumGain(unit);
+
+  buckets.forEach((bucket, i) => {
+    timestamps[i] = bucket.start;
+    bucketEnds[i] = bucket.end;
+
+    let gain = 0;
+    for (const delta of bucket.deltas) {
+      const deltaGain = getDeltaGainForActivity(delta, activityType);
+      if (deltaGain > 0) gain += deltaGain;
+    }
+    dailyGains[i] = gain >= minimumGain ? gain : 0;
+
+    if (isOverall && gain > 0) {
+      skillBreakdowns[i] = getTopSkillGains(bucket.deltas);
+    }
+  });
+
+  return { size, timestamps, bucketEnds, dailyGains, skillBreakdowns };
+}
+
+// Shift a series so it starts at zero, plotting gains over the range rather
+// than totals; used to compare players whose totals are far apart
+export function normalizeChartSeries(series: ChartSeries): ChartSeries {
+  const baseline = series.cumulative.length > 0 ? series.cumulative[0] : 0;
+  return {
+    ...series,
+    cumulative: series.cumulative.map(value => value - baseline),
+    baselineLevel: null
+  };
+}
+
+// Timestamps whose gain is an outlier under the rule
+export function detectAnomalyTimestamps(series: ChartSeries, rule: OutlierRule = DEFAULT_ANOMALY_SETTINGS): Float64Array {
+  const upperBound = getOutlierBound(series.dailyGains, rule.strategy, rule.sensitivity);
+  if (upperBound === null) return new Float64Array(0);
+
+  const anomalies: number[] = [];
+  for (let i = 0; i < series.dailyGains.length; i++) {
+    if (series.dailyGains[i] > upperBound) {
+      anomalies.push(series.timestamps[i]);
+    }
+  }
+  return Float64Array.from(anomalies);
+}
+
+// Series for the selected activity plus anomalies from overall XP, which are
+// used to keep spikes from blowing out the y-axis of any activity's chart
+export function prepareChartSeries(
+  deltaResponse: GetSnapshotWithDeltasResponse,
+  activityType?: ActivityType,
+  rule: OutlierRule = DEFAULT_ANOMALY_SETTINGS
+): PreparedChartSeries {
+  const series = buildChartSeries(deltaResponse, activityType);
+  const overall = activityType === 'OVERALL' ? series : buildChartSeries(deltaResponse, 'OVERALL');
+  return { series, anomalyTimestamps: detectAnomalyTimestamps(overall, rule) };
+}
+
+// Sum the activity's gain per local day, overall XP unless another activity is
+// given; flagged deltas are left out upstream (see anomalies.ts)
+export function aggregateDailyTotals(deltas: HiscoreDelta[], activityType: ActivityType = 'OVERALL'): DailyTotals {
+  const dailyGains = new Map<string, number>();
+  const dailySkillGains = new Map<string, Map<ActivityType, SkillGain>>();
+  const weekdayHours = new Float64Array(7 * 24);
+
+  for (const delta of deltas) {
+    const date = new Date(delta.timestamp);
+    const dateKey = getDateKey(date);
+
+    const gain = getDeltaGainForActivity(delta, activityType);
+    weekdayHours[date.getDay() * 24 + date.getHours()] += gain;
+    dailyGains.set(dateKey, (dailyGains.get(dateKey) || 0) + gain);
+
+    // Accumulate skill gains for the overall XP breakdown
+    if (activityType === 'OVERALL' && delta.skills) {
+      let daySkillGains = dailySkillGains.get(dateKey);
+      if (!daySkillGains) {
+        daySkillGains = new Map<ActivityType, SkillGain>();
+        dailySkillGains.set(dateKey, daySkillGains);
+      }
+
+      for (const skill of delta.skills) {
+        if (skill.activityType === 'OVERALL') continue;
+        if (skill.experienceGain <= 0) continue;
+
+        const existing = daySkillGains.get(skill.activityType);
+        if (existing) {
+          existing.experience += skill.experienceGain;
+        } else {
+          daySkillGains.set(skill.activityType, {
+            activityType: skill.activityType,
+            skill: skill.name,
+            experience: skill.experienceGain
+          });
+        }
+      }
+    }
+  }
+
+  const dates = Array.from(new Set([...dailyGains.keys(), ...dailySkillGains.keys()])).sort();
+  const gains = new Float64Array(dates.length);
+  const skillBreakdowns = dates.map((dateKey, i) => {
+    gains[i] = dailyGains.get(dateKey) || 0;
+
+    const daySkills = dailySkillGains.get(dateKey);
+    if (!daySkills) return undefined;
+    return Array.from(daySkills.values())
+      .sort((a, b) => b.experience - a.experience)
+      .slice(0, SKILL_BREAKDOWN_SIZE);
+  });
+
+  return { dates, gains, skillBreakdowns, weekdayHours, medianDeltaInterval: getMedianInterval(deltas) };
+}
+
+function getMedianInterval(deltas: HiscoreDelta[]): number {
+  const times = deltas.map(delta => new Date(delta.timestamp).getTime()).sort((a, b) => a - b);
+  const intervals = times.slice(1).map((time, i) => time - times[i]).sort((a, b) => a - b);
+  return intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 0;
+}
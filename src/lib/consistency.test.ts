@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DailyTotals } from './chartSeries';
+import { calculateConsistency, getActiveDayThresholds, isActiveDayThreshold } from './consistency';
+
+const HOUR = 3_600_000;
+
+const day = (date: number) => new Date(2025, 2, date);
+
+// Totals for the given March days; the range runs over the DST change on Mar 9
+function createTotals(gains: Record<number, number>, medianDeltaInterval = HOUR): DailyTotals {
+  const dates = Object.keys(gains).map(Number).sort((a, b) => a - b);
+  return {
+    dates: dates.map(date => `2025-03-${String(date).padStart(2, '0')}`),
+    gains: Float64Array.from(dates.map(date => gains[date])),
+    skillBreakdowns: dates.map(() => undefined),
+    weekdayHours: new Float64Array(7 * 24),
+    medianDeltaInterval
+  };
+}
+
+// Mar 1 is a Saturday; nothing on Mar 5 or 7
+const TOTALS = createTotals({
+  1: 500,
+  2: 20_000,
+  3: 20_000,
+  4: 20_000,
+  6: 50,
+  8: 5_000,
+  9: 15_000,
+  10: 12_000
+});
+
+describe('calculateConsistency', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(day(20));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts every calendar day in the range', () => {
+    const stats = calculateConsistency(TOTALS, day(1), day(10));
+
+    expect(stats.totalDays).toBe(10);
+    expect(stats.activeDays).toBe(8);
+    expect(stats.activeDaysPercent).toBeCloseTo(80);
+    expect(stats.longestStreak).toBe(4);
+    expect(stats.currentStreak).toBe(3);
+  });
+
+  it('only counts days that reach the threshold', () => {
+    const stats = calculateConsistency(TOTALS, day(1), day(10), 10_000);
+
+    expect(stats.activeDays).toBe(5);
+    expect(stats.longestStreak).toBe(3);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.averagePerActiveDay).toBeCloseTo(87_000 / 5);
+  });
+
+  it('counts a day exactly at the threshold', () => {
+    expect(calculateConsistency(TOTALS, day(2), day(4), 20_000).activeDays).toBe(3);
+    expect(calculateConsistency(TOTALS, day(2), day(4), 20_001).activeDays).toBe(0);
+  });
+
+  it('does not break the current streak on an idle today', () => {
+    vi.setSystemTime(new Date(2025, 2, 11, 15));
+    const stats = calculateConsistency(TOTALS, day(1), day(11));
+
+    expect(stats.totalDays).toBe(11);
+    expect(stats.currentStreak).toBe(3);
+  });
+
+  it('treats today below the threshold as idle so far', () => {
+    vi.setSystemTime(new Date(2025, 2, 10, 15));
+    expect(calculateConsistency(TOTALS, day(1), day(10), 15_000).currentStreak).toBe(1);
+  });
+
+  it('breaks the current streak on an idle day that is over', () => {
+    vi.setSystemTime(new Date(2025, 2, 12, 9));
+    expect(calculateConsistency(TOTALS, day(1), day(11)).currentStreak).toBe(0);
+  });
+
+  it('averages each weekday over every time it comes up', () => {
+    const stats = calculateConsistency(TOTALS, day(1), day(10));
+
+    // Two Sundays (Mar 2 and 9) and one Tuesday (Mar 4)
+    expect(stats.weekdayAverages[0]).toEqual({ weekday: 0, average: 17_500 });
+    expect(stats.bestWeekday).toEqual({ weekday: 2, average: 20_000 });
+    expect(stats.weekdayAverages[5].average).toBe(0);
+  });
+
+  it('has no best weekday or streaks without gains', () => {
+    const stats = calculateConsistency(createTotals({}), day(1), day(10));
+
+    expect(stats.activeDays).toBe(0);
+    expect(stats.longestStreak).toBe(0);
+    expect(stats.averagePerActiveDay).toBe(0);
+    expect(stats.bestWeekday).toBeNull();
+  });
+
+  it('only keeps hourly detail when deltas are close together', () => {
+    expect(calculateConsistency(TOTALS, day(1), day(10)).weekdayHours).toBe(TOTALS.weekdayHours);
+    expect(calculateConsistency(createTotals({}, 2 * HOUR), day(1), day(10)).weekdayHours).not.toBeNull();
+    expect(calculateConsistency(createTotals({}, 3 * HOUR), day(1), day(10)).weekdayHours).toBeNull();
+    expect(calculateConsistency(createTotals({}, 0), day(1), day(10)).weekdayHours).toBeNull();
+  });
+});
+
+describe('active day thresholds', () => {
+  it('offers XP thresholds for skills and smaller ones for kills and scores', () => {
+    expect(getActiveDayThresholds('xp').map(threshold => threshold.value)).toEqual([1, 10_000, 100_000, 1_000_000]);
+    expect(getActiveDayThresholds('kc').map(threshold => threshold.value)).toEqual([1, 5, 10, 25]);
+  });
+
+  it('only accepts thresholds offered for the unit', () => {
+    expect(isActiveDayThreshold(10_000, 'xp')).toBe(true);
+    expect(isActiveDayThreshold(10_000, 'kc')).toBe(false);
+    expect(isActiveDayThreshold(25, 'kc')).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { getDateKey, type DailyTotals } from './chartSeries';
+import type { ActivityUnit } from './activityRegistry';
+
+// Streaks and consistency worked out from the heatmap's per-day totals. A day
+// is active when its gain (XP, kills or score) reaches the chosen threshold.
+
+export interface ActiveDayThreshold {
+  value: number;
+  label: string;
+}
+
+const XP_THRESHOLDS: ActiveDayThreshold[] = [
+  { value: 1, label: 'Any' },
+  { value: 10_000, label: '10K' },
+  { value: 100_000, label: '100K' },
+  { value: 1_000_000, label: '1M' }
+];
+
+// Kills and scores come a few at a time
+const COUNT_THRESHOLDS: ActiveDayThreshold[] = [
+  { value: 1, label: 'Any' },
+  { value: 5, label: '5' },
+  { value: 10, label: '10' },
+  { value: 25, label: '25' }
+];
+
+export const DEFAULT_ACTIVE_DAY_THRESHOLD = 1;
+
+// Gains are placed in the hour of the delta that recorded them, so further
+// apart than this the hourly spread says more about snapshot timing than play
+export const MAX_HOURLY_INTERVAL_MS = 2 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface WeekdayAverage {
+  // 0 is Sunday
+  weekday: number;
+  // Gain per occurrence of the weekday in the range, active or not
+  average: number;
+}
+
+export interface ConsistencyStats {
+  totalDays: number;
+  activeDays: number;
+  // 0-100
+  activeDaysPercent: number;
+  // Ending on the last day of the range, or the day before while that day is
+  // today and still idle
+  currentStreak: number;
+  longestStreak: number;
+  averagePerActiveDay: number;
+  weekdayAverages: WeekdayAverage[];
+  bestWeekday: WeekdayAverage | null;
+  // Null when deltas are too far apart to place gains in an hour
+  weekdayHours: Float64Array | null;
+}
+
+export function getActiveDayThresholds(unit: ActivityUnit): ActiveDayThreshold[] {
+  return unit === 'xp' ? XP_THRESHOLDS : COUNT_THRESHOLDS;
+}
+
+export function isActiveDayThreshold(value: number, unit: ActivityUnit): boolean {
+  return getActiveDayThresholds(unit).some(threshold => threshold.value === value);
+}
+
+export function calculateConsistency(
+  totals: DailyTotals,
+  startDate: Date,
+  endDate: Date,
+  threshold: number = DEFAULT_ACTIVE_DAY_THRESHOLD
+): ConsistencyStats {
+  const dayIndex = new Map(totals.dates.map((dateKey, i) => [dateKey, i]));
+  const firstDay = startOfDay(startDate);
+  const totalDays = Math.max(differenceInCalendarDays(endDate, firstDay) + 1, 0);
+
+  const weekdayTotals = new Array<number>(7).fill(0);
+  const weekdayCounts = new Array<number>(7).fill(0);
+  const active: boolean[] = [];
+  let activeGain = 0;
+  let longestStreak = 0;
+  let streak = 0;
+
+  for (let i = 0; i < totalDays; i++) {
+    const date = addDays(firstDay, i);
+    const day = dayIndex.get(getDateKey(date));
+    const gain = day !== undefined ? totals.gains[day] : 0;
+    const isActive = gain >= threshold;
+
+    weekdayTotals[date.getDay()] += gain;
+    weekdayCounts[date.getDay()]++;
+    active.push(isActive);
+
+    if (isActive) {
+      activeGain += gain;
+      streak++;
+      longestStreak = Math.max(longestStreak, streak);
+    } else {
+      streak = 0;
+    }
+  }
+
+  // Today isn't over, so an idle today doesn't break the streak yet
+  let last = totalDays - 1;
+  if (last >= 0 && !active[last] && differenceInCalendarDays(new Date(), addDays(firstDay, last)) === 0) {
+    last--;
+  }
+  let currentStreak = 0;
+  while (last - currentStreak >= 0 && active[last - currentStreak]) {
+    currentStreak++;
+  }
+
+  const activeDays = active.filter(Boolean).length;
+  const weekdayAverages = weekdayTotals.map((total, weekday) => ({
+    weekday,
+    average: weekdayCounts[weekday] > 0 ? total / weekdayCounts[weekday] : 0
+  }));
+  const bestWeekday = weekdayAverages.reduce<WeekdayAverage | null>(
+    (best, candidate) => candidate.average > 0 && (!best || candidate.average > best.average) ? candidate : best,
+    null
+  );
+  const hasHourlyDetail = totals.medianDeltaInterval > 0 && totals.medianDeltaInterval <= MAX_HOURLY_INTERVAL_MS;
+
+  return {
+    totalDays,
+    activeDays,
+    activeDaysPercent: totalDays > 0 ? (activeDays / totalDays) * 100 : 0,
+    currentStreak,
+    longestStreak,
+    averagePerActiveDay: activeDays > 0 ? activeGain / activeDays : 0,
+    weekdayAverages,
+    bestWeekday,
+    weekdayHours: hasHourlyDetail ? totals.weekdayHours : null
+  };
+}
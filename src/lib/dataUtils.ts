@@ -5,6 +5,8 @@ import type {
   ActivityType,
   HiscoreDelta
 } from '@/types/api';
+import { getActivityName, type ActivityCategory } from './activityRegistry';
+import { getDerivedStats, type CombatStyle } from './derivedStats';
 
 export interface SkillDataPoint {
   timestamp: string;
@@ -22,17 +24,18 @@ export interface BossDataPoint {
 export interface OverallStatsDataPoint {
   timestamp: string;
   totalLevel: number;
+  // Total level counting levels past 99 (up to 126 per skill)
+  virtualTotalLevel: number;
   totalExperience: number;
   combatLevel: number;
+  // Style that sets the combat level
+  combatStyle: CombatStyle;
   date: Date;
 }
 
 // Convert activity type string to human-readable name
 export function formatActivityTypeName(activityType: string): string {
-  return activityType
-    .split('_')
-    .map(word => word.charAt(0) + word.slice(1).toLowerCase())
-    .join(' ');
+  return getActivityName(activityType);
 }
 
 // Extract skill data for a specific skill from snapshots
@@ -80,49 +83,21 @@ export function extractBossData(
 export function extractOverallData(snapshots: HiscoreSnapshot[]): OverallStatsDataPoint[] {
   return snapshots
     .map(snapshot => {
-      const totalLevel = snapshot.skills
-        .filter(skill => skill.activityType !== 'OVERALL')
-        .reduce((sum, skill) => sum + skill.level, 0);
-      
-      const totalExperience = snapshot.skills
-        .filter(skill => skill.activityType !== 'OVERALL')
-        .reduce((sum, skill) => sum + skill.experience, 0);
-      
-      // Calculate combat level (simplified formula)
-      const combatLevel = calculateCombatLevel(snapshot.skills);
-      
+      const { totalLevel, virtualTotalLevel, totalExperience, combat } = getDerivedStats(snapshot);
+
       return {
         timestamp: snapshot.timestamp,
         totalLevel,
+        virtualTotalLevel,
         totalExperience,
-        combatLevel,
+        combatLevel: combat.level,
+        combatStyle: combat.style,
         date: new Date(snapshot.timestamp),
       };
     })
     .sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
-// Calculate combat level from skills
-function calculateCombatLevel(skills: SkillSnapshot[]): number {
-  const getSkillLevel = (type: ActivityType) => 
-    skills.find(s => s.activityType === type)?.level || 1;
-  
-  const attack = getSkillLevel('ATTACK');
-  const strength = getSkillLevel('STRENGTH');
-  const defence = getSkillLevel('DEFENCE');
-  const hitpoints = getSkillLevel('HITPOINTS');
-  const ranged = getSkillLevel('RANGED');
-  const magic = getSkillLevel('MAGIC');
-  const prayer = getSkillLevel('PRAYER');
-  
-  const base = 0.25 * (defence + hitpoints + Math.floor(prayer / 2));
-  const melee = 0.325 * (attack + strength);
-  const ranger = 0.325 * (Math.floor(ranged / 2) + ranged);
-  const mage = 0.325 * (Math.floor(magic / 2) + magic);
-  
-  return Math.floor(base + Math.max(melee, ranger, mage));
-}
-
 // Get the latest snapshot data
 export function getLatestSnapshot(snapshots: HiscoreSnapshot[]): HiscoreSnapshot | null {
   if (snapshots.length === 0) return null;
@@ -132,37 +107,108 @@ export function getLatestSnapshot(snapshots: HiscoreSnapshot[]): HiscoreSnapshot
   });
 }
 
-// Calculate gains between two snapshots
+// One row of the comparison between two snapshots
+export interface SnapshotDiffRow {
+  activityType: ActivityType;
+  name: string;
+  category: ActivityCategory;
+  // XP for skills, kill count for bosses, score for activities
+  oldValue: number;
+  newValue: number;
+  difference: number;
+  // Skills only, and null while unranked
+  oldLevel: number | null;
+  newLevel: number | null;
+  levelChange: number | null;
+  // Null while unranked
+  oldRank: number | null;
+  newRank: number | null;
+  // Places climbed, so positive is better
+  rankChange: number | null;
+}
+
+interface SnapshotEntry {
+  activityType: ActivityType;
+  name: string;
+  category: ActivityCategory;
+  value: number;
+  level: number | null;
+  rank: number | null;
+}
+
+// The hiscores report unranked entries as -1
+function getSnapshotEntries(snapshot: HiscoreSnapshot): SnapshotEntry[] {
+  const rankOrNull = (rank: number) => rank > 0 ? rank : null;
+
+  return [
+    ...snapshot.skills.map((skill): SnapshotEntry => ({
+      activityType: skill.activityType,
+      name: skill.name,
+      category: 'skill',
+      value: Math.max(skill.experience, 0),
+      level: skill.level > 0 ? skill.level : null,
+      rank: rankOrNull(skill.rank)
+    })),
+    ...snapshot.bosses.map((boss): SnapshotEntry => ({
+      activityType: boss.activityType,
+      name: boss.name,
+      category: 'boss',
+      value: Math.max(boss.killCount, 0),
+      level: null,
+      rank: rankOrNull(boss.rank)
+    })),
+    ...(snapshot.activities ?? []).map((activity): SnapshotEntry => ({
+      activityType: activity.activityType,
+      name: activity.name,
+      category: 'activity',
+      value: Math.max(activity.score, 0),
+      level: null,
+      rank: rankOrNull(activity.rank)
+    }))
+  ];
+}
+
+// Every skill, boss and activity in either snapshot, in the newer snapshot's
+// order; anything only one side has counts as zero on the other
 export function calculateGains(
-  oldSnapshot: HiscoreSnapshot | null, 
+  oldSnapshot: HiscoreSnapshot | null,
   newSnapshot: HiscoreSnapshot | null
-) {
+): SnapshotDiffRow[] | null {
   if (!oldSnapshot || !newSnapshot) return null;
-  
-  const skillGains = newSnapshot.skills.map(newSkill => {
-    const oldSkill = oldSnapshot.skills.find(s => s.activityType === newSkill.activityType);
-    if (!oldSkill) return null;
-    
-    return {
-      activityType: newSkill.activityType,
-      name: newSkill.name,
-      levelGain: newSkill.level - oldSkill.level,
-      experienceGain: newSkill.experience - oldSkill.experience,
-    };
-  }).filter(Boolean);
-  
-  const bossGains = newSnapshot.bosses.map(newBoss => {
-    const oldBoss = oldSnapshot.bosses.find(b => b.activityType === newBoss.activityType);
-    if (!oldBoss) return null;
-    
+
+  const oldEntries = new Map(getSnapshotEntries(oldSnapshot).map(entry => [entry.activityType, entry]));
+  const newEntries = getSnapshotEntries(newSnapshot);
+  const newTypes = new Set(newEntries.map(entry => entry.activityType));
+  const removedEntries = [...oldEntries.values()].filter(entry => !newTypes.has(entry.activityType));
+
+  const toRow = (entry: SnapshotEntry, oldEntry: SnapshotEntry | undefined, newEntry: SnapshotEntry | undefined): SnapshotDiffRow => {
+    const oldValue = oldEntry?.value ?? 0;
+    const newValue = newEntry?.value ?? 0;
+    const oldLevel = oldEntry?.level ?? null;
+    const newLevel = newEntry?.level ?? null;
+    const oldRank = oldEntry?.rank ?? null;
+    const newRank = newEntry?.rank ?? null;
+
     return {
-      activityType: newBoss.activityType,
-      name: newBoss.name,
-      killCountGain: newBoss.killCount - oldBoss.killCount,
+      activityType: entry.activityType,
+      name: entry.name || getActivityName(entry.activityType),
+      category: entry.category,
+      oldValue,
+      newValue,
+      difference: newValue - oldValue,
+      oldLevel,
+      newLevel,
+      levelChange: oldLevel !== null && newLevel !== null ? newLevel - oldLevel : null,
+      oldRank,
+      newRank,
+      rankChange: oldRank !== null && newRank !== null ? oldRank - newRank : null
     };
-  }).filter(Boolean);
-  
-  return { skillGains, bossGains };
+  };
+
+  return [
+    ...newEntries.map(entry => toRow(entry, oldEntries.get(entry.activityType), entry)),
+    ...removedEntries.map(entry => toRow(entry, entry, undefined))
+  ];
 }
 
 // Format large numbers for display
@@ -192,18 +238,30 @@ export function getBossByType(snapshot: HiscoreSnapshot, activityType: ActivityT
   return snapshot.bosses.find(boss => boss.activityType === activityType) || null;
 }
 
+// Identifies a delta across loads. Binary payloads without IDs (v1, or v2
+// without FLAG_IDS) decode every delta with an empty ID, so fall back to the
+// timestamp, which is unique per player.
+export function getDeltaKey(delta: HiscoreDelta): string {
+  return delta.id || delta.timestamp;
+}
+
 // Calculate total gains from deltas
 export interface DeltaGainsSummary {
   totalExperienceGain: number;
-  skillGains: Map<ActivityType, { experienceGain: number; levelGain: number; name: string }>;
-  bossGains: Map<ActivityType, { killCountGain: number; name: string }>;
-  activityGains: Map<ActivityType, { scoreGain: number; name: string }>;
+  // rankGain is only set when the deltas carry rank changes
+  skillGains: Map<ActivityType, { experienceGain: number; levelGain: number; rankGain?: number; name: string }>;
+  bossGains: Map<ActivityType, { killCountGain: number; rankGain?: number; name: string }>;
+  activityGains: Map<ActivityType, { scoreGain: number; rankGain?: number; name: string }>;
+}
+
+function addRankGain(total: number | undefined, gain: number | undefined): number | undefined {
+  return gain === undefined ? total : (total ?? 0) + gain;
 }
 
 export function calculateGainsFromDeltas(deltas: HiscoreDelta[]): DeltaGainsSummary {
-  const skillGains = new Map<ActivityType, { experienceGain: number; levelGain: number; name: string }>();
-  const bossGains = new Map<ActivityType, { killCountGain: number; name: string }>();
-  const activityGains = new Map<ActivityType, { scoreGain: number; name: string }>();
+  const skillGains: DeltaGainsSummary['skillGains'] = new Map();
+  const bossGains: DeltaGainsSummary['bossGains'] = new Map();
+  const activityGains: DeltaGainsSummary['activityGains'] = new Map();
   let totalExperienceGain = 0;
 
   for (const delta of deltas) {
@@ -219,10 +277,12 @@ export function calculateGainsFromDeltas(deltas: HiscoreDelta[]): DeltaGainsSumm
         if (existing) {
           existing.experienceGain += skill.experienceGain;
           existing.levelGain += skill.levelGain;
+          existing.rankGain = addRankGain(existing.rankGain, skill.rankGain);
         } else {
           skillGains.set(skill.activityType, {
             experienceGain: skill.experienceGain,
             levelGain: skill.levelGain,
+            rankGain: skill.rankGain,
             name: skill.name
           });
         }
@@ -235,9 +295,11 @@ export function calculateGainsFromDeltas(deltas: HiscoreDelta[]): DeltaGainsSumm
         const existing = bossGains.get(boss.activityType);
         if (existing) {
           existing.killCountGain += boss.killCountGain;
+          existing.rankGain = addRankGain(existing.rankGain, boss.rankGain);
         } else {
           bossGains.set(boss.activityType, {
             killCountGain: boss.killCountGain,
+            rankGain: boss.rankGain,
             name: boss.name
           });
         }
@@ -250,9 +312,11 @@ export function calculateGainsFromDeltas(deltas: HiscoreDelta[]): DeltaGainsSumm
         const existing = activityGains.get(activity.activityType);
         if (existing) {
           existing.scoreGain += activity.scoreGain;
+          existing.rankGain = addRankGain(existing.rankGain, activity.rankGain);
         } else {
           activityGains.set(activity.activityType, {
             scoreGain: activity.scoreGain,
+            rankGain: activity.rankGain,
             name: activity.name
           });
         }
@@ -295,4 +359,59 @@ export function getActivityGainFromDeltas(
   }
 
   return { totalGain, levelGain };
-}
\ No newline at end of file
+}
+
+// Replay deltas on top of a snapshot to reconstruct the state after the last delta
+export function applyDeltasToSnapshot(snapshot: HiscoreSnapshot, deltas: HiscoreDelta[]): HiscoreSnapshot {
+  if (deltas.length === 0) {
+    return snapshot;
+  }
+
+  const { skillGains, bossGains, activityGains } = calculateGainsFromDeltas(deltas);
+
+  const skills = snapshot.skills.map(skill => {
+    const gain = skillGains.get(skill.activityType);
+    return gain
+      ? {
+          ...skill,
+          experience: skill.experience + gain.experienceGain,
+          level: skill.level + gain.levelGain,
+          rank: skill.rank + (gain.rankGain ?? 0)
+        }
+      : skill;
+  });
+  for (const [activityType, gain] of skillGains) {
+    if (!snapshot.skills.some(s => s.activityType === activityType)) {
+      skills.push({ activityType, name: gain.name, experience: gain.experienceGain, level: gain.levelGain, rank: 0 });
+    }
+  }
+
+  const bosses = snapshot.bosses.map(boss => {
+    const gain = bossGains.get(boss.activityType);
+    return gain ? { ...boss, killCount: boss.killCount + gain.killCountGain, rank: boss.rank + (gain.rankGain ?? 0) } : boss;
+  });
+  for (const [activityType, gain] of bossGains) {
+    if (!snapshot.bosses.some(b => b.activityType === activityType)) {
+      bosses.push({ activityType, name: gain.name, killCount: gain.killCountGain, rank: 0 });
+    }
+  }
+
+  const activities = snapshot.activities.map(activity => {
+    const gain = activityGains.get(activity.activityType);
+    return gain ? { ...activity, score: activity.score + gain.scoreGain, rank: activity.rank + (gain.rankGain ?? 0) } : activity;
+  });
+  for (const [activityType, gain] of activityGains) {
+    if (!snapshot.activities.some(a => a.activityType === activityType)) {
+      activities.push({ activityType, name: gain.name, score: gain.scoreGain, rank: 0 });
+    }
+  }
+
+  return {
+    ...snapshot,
+    id: '', // No longer corresponds to a stored snapshot
+    timestamp: deltas[deltas.length - 1].timestamp,
+    skills,
+    bosses,
+    activities
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { GetSnapshotWithDeltasResponse, HiscoreDelta } from '@/types/api';
+import { DEFAULT_ANOMALY_SETTINGS } from './anomalies';
+import { decodeBinaryDeltaResponse, encodeSnapshotWithDeltas } from './binaryProtocol';
+import { aggregateDailyTotals, buildBucketedSeries, prepareChartSeries } from './chartSeries';
+import { deltaPipeline } from './deltaPipeline';
+import { buildEfficiencySeries } from './efficiency';
+import { findRecords } from './records';
+
+const USER_ID = 'user-1';
+const START = Date.UTC(2025, 0, 1);
+const HOUR = 3_600_000;
+
+// Overall and Attack XP, one delta an hour with a spike at hour 5
+function createResponse(): GetSnapshotWithDeltasResponse {
+  return {
+    snapshot: {
+      id: 'snapshot-0',
+      userId: USER_ID,
+      timestamp: new Date(START).toISOString(),
+      skills: [
+        { activityType: 'OVERALL', name: 'Overall', experience: 1_000_000, level: 500, rank: 1 },
+        { activityType: 'ATTACK', name: 'Attack', experience: 50_000, level: 50, rank: 1 }
+      ],
+      bosses: [],
+      activities: []
+    },
+    deltas: Array.from({ length: 48 }, (_, i): HiscoreDelta => {
+      const gain = i === 5 ? 2_000_000 : 10_000 + i * 100;
+      return {
+        id: `delta-${i}`,
+        userId: USER_ID,
+        snapshotId: `snapshot-${i + 1}`,
+        previousSnapshotId: `snapshot-${i}`,
+        timestamp: new Date(START + (i + 1) * HOUR).toISOString(),
+        skills: [
+          { activityType: 'OVERALL', name: 'Overall', experienceGain: gain, levelGain: 0, rankGain: 0 },
+          { activityType: 'ATTACK', name: 'Attack', experienceGain: gain, levelGain: 0, rankGain: 0 }
+        ]
+      };
+    })
+  };
+}
+
+// Node has no Worker, so every call runs inline and must match the plain functions
+describe('deltaPipeline without workers', () => {
+  const response = createResponse();
+
+  it('decodes on the main thread', async () => {
+    const buffer = encodeSnapshotWithDeltas(response);
+    const decoded = await deltaPipeline.decode(buffer, USER_ID);
+
+    expect(decoded).toEqual(decodeBinaryDeltaResponse(buffer, USER_ID));
+    expect(decoded.deltas).toHaveLength(48);
+  });
+
+  it('reports decode progress', async () => {
+    const progress: number[] = [];
+    await deltaPipeline.decode(encodeSnapshotWithDeltas(response), USER_ID, {
+      onProgress: decodedDeltas => progress.push(decodedDeltas)
+    });
+
+    expect(progress.at(-1)).toBe(48);
+  });
+
+  it('prepares the same series as the chart functions', async () => {
+    expect(await deltaPipeline.prepareChartSeries(response, 'ATTACK', DEFAULT_ANOMALY_SETTINGS))
+      .toEqual(prepareChartSeries(response, 'ATTACK', DEFAULT_ANOMALY_SETTINGS));
+    expect(await deltaPipeline.buildBucketedSeries(response, undefined, 'day'))
+      .toEqual(buildBucketedSeries(response, undefined, 'day'));
+    expect(await deltaPipeline.aggregateDailyTotals(response, 'ATTACK'))
+      .toEqual(aggregateDailyTotals(response.deltas, 'ATTACK'));
+  });
+
+  it('builds the same efficiency series and records', async () => {
+    expect(await deltaPipeline.buildEfficiencySeries(response, 'IRONMAN'))
+      .toEqual(buildEfficiencySeries(response, 'IRONMAN'));
+    expect(await deltaPipeline.findRecords(response)).toEqual(findRecords(response.deltas));
+  });
+
+  it('flags the spike', async () => {
+    const { anomalyTimestamps } = await deltaPipeline.prepareChartSeries(response, undefined, DEFAULT_ANOMALY_SETTINGS);
+    expect([...anomalyTimestamps]).toEqual([START + 6 * HOUR]);
+  });
+});
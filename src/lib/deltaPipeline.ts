@@ -0,0 +1,315 @@
+import type { AccountType, ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { decodeBinaryDeltaResponse, BinaryDecodeError } from './binaryProtocol';
+import {
+  prepareChartSeries,
+  buildBucketedSeries,
+  aggregateDailyTotals,
+  type PreparedChartSeries,
+  type BucketedSeries,
+  type ChartSeries,
+  type DailyTotals
+} from './chartSeries';
+import { buildEfficiencySeries } from './efficiency';
+import { findRecords, type PlayerRecords } from './records';
+import type { BucketSize } from './timeBuckets';
+import type { OutlierRule } from './anomalies';
+import { DecodeError } from './apiErrors';
+import type { DeltaPipelineRequest, DeltaPipelineResponse, SerializedPipelineError } from './deltaPipelineProtocol';
+
+// Main-thread side of the delta worker. Binary payloads are transferred to the
+// worker and decoded there; the decoded response is cloned back once for the
+// page, and the worker keeps its own copy as a dataset so later series requests
+// only send the dataset ID instead of the response.
+// When workers aren't available everything runs inline on the main thread.
+
+export interface PipelineOptions {
+  signal?: AbortSignal;
+}
+
+export interface DecodePipelineOptions extends PipelineOptions {
+  lenient?: boolean;
+  onProgress?: (decodedDeltas: number, totalDeltas: number) => void;
+}
+
+function deserializePipelineError(serialized: SerializedPipelineError): DecodeError {
+  if (serialized.name === 'BinaryDecodeError' && serialized.offset !== undefined && serialized.section !== undefined) {
+    const error = new BinaryDecodeError(serialized.message, {
+      offset: serialized.offset,
+      section: serialized.section,
+      expectedBytes: serialized.expectedBytes,
+      availableBytes: serialized.availableBytes
+    });
+    // The serialized message already carries the section/offset suffix
+    error.message = serialized.message;
+    return error;
+  }
+  return new DecodeError(serialized.message);
+}
+
+interface PendingRequest {
+  resolve: (message: DeltaPipelineResponse) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (decodedDeltas: number, totalDeltas: number) => void;
+}
+
+class DeltaPipeline {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private nextDatasetId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  // Responses the worker already holds a copy of
+  private datasetIds: WeakMap<GetSnapshotWithDeltasResponse, number> = new WeakMap();
+
+  async decode(
+    buffer: ArrayBuffer,
+    userId: string,
+    { lenient = false, onProgress, signal }: DecodePipelineOptions = {}
+  ): Promise<GetSnapshotWithDeltasResponse> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return decodeBinaryDeltaResponse(buffer, userId, { lenient, onProgress });
+    }
+
+    const datasetId = this.nextDatasetId++;
+    const message = await this.post(
+      worker,
+      id => ({ type: 'decode', id, datasetId, buffer, userId, lenient }),
+      [buffer],
+      signal,
+      onProgress
+    );
+    if (message.type !== 'decoded') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+
+    this.datasetIds.set(message.response, datasetId);
+    return message.response;
+  }
+
+  async prepareChartSeries(
+    response: GetSnapshotWithDeltasResponse,
+    activityType: ActivityType | undefined,
+    rule: OutlierRule,
+    { signal }: PipelineOptions = {}
+  ): Promise<PreparedChartSeries> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return prepareChartSeries(response, activityType, rule);
+    }
+
+    const message = await this.postForDataset(
+      worker,
+      response,
+      (id, datasetId, payload) => ({ type: 'series', id, datasetId, response: payload, activityType, rule }),
+      signal
+    );
+    if (message.type !== 'series') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+    return message.result;
+  }
+
+  async buildBucketedSeries(
+    response: GetSnapshotWithDeltasResponse,
+    activityType: ActivityType | undefined,
+    size: BucketSize,
+    { signal }: PipelineOptions = {}
+  ): Promise<BucketedSeries> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return buildBucketedSeries(response, activityType, size);
+    }
+
+    const message = await this.postForDataset(
+      worker,
+      response,
+      (id, datasetId, payload) => ({ type: 'buckets', id, datasetId, response: payload, activityType, size }),
+      signal
+    );
+    if (message.type !== 'buckets') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+    return message.result;
+  }
+
+  async aggregateDailyTotals(
+    response: GetSnapshotWithDeltasResponse,
+    activityType: ActivityType | undefined,
+    { signal }: PipelineOptions = {}
+  ): Promise<DailyTotals> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return aggregateDailyTotals(response.deltas, activityType);
+    }
+
+    const message = await this.postForDataset(
+      worker,
+      response,
+      (id, datasetId, payload) => ({ type: 'daily-totals', id, datasetId, response: payload, activityType }),
+      signal
+    );
+    if (message.type !== 'daily-totals') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+    return message.result;
+  }
+
+  async buildEfficiencySeries(
+    response: GetSnapshotWithDeltasResponse,
+    accountType: AccountType | undefined,
+    { signal }: PipelineOptions = {}
+  ): Promise<ChartSeries> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return buildEfficiencySeries(response, accountType);
+    }
+
+    const message = await this.postForDataset(
+      worker,
+      response,
+      (id, datasetId, payload) => ({ type: 'efficiency', id, datasetId, response: payload, accountType }),
+      signal
+    );
+    if (message.type !== 'efficiency') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+    return message.result;
+  }
+
+  async findRecords(
+    response: GetSnapshotWithDeltasResponse,
+    { signal }: PipelineOptions = {}
+  ): Promise<PlayerRecords> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return findRecords(response.deltas);
+    }
+
+    const message = await this.postForDataset(
+      worker,
+      response,
+      (id, datasetId, payload) => ({ type: 'records', id, datasetId, response: payload }),
+      signal
+    );
+    if (message.type !== 'records') {
+      throw new DecodeError('Unexpected reply from the delta worker');
+    }
+    return message.result;
+  }
+
+  // Reference a dataset the worker already has, sending the response only the
+  // first time or after the worker has evicted it
+  private async postForDataset(
+    worker: Worker,
+    response: GetSnapshotWithDeltasResponse,
+    build: (id: number, datasetId: number, payload?: GetSnapshotWithDeltasResponse) => DeltaPipelineRequest,
+    signal?: AbortSignal
+  ): Promise<DeltaPipelineResponse> {
+    const knownId = this.datasetIds.get(response);
+    if (knownId !== undefined) {
+      const message = await this.post(worker, id => build(id, knownId), [], signal);
+      if (message.type !== 'missing-dataset') {
+        return message;
+      }
+    }
+
+    const datasetId = this.nextDatasetId++;
+    this.datasetIds.set(response, datasetId);
+    return this.post(worker, id => build(id, datasetId, response), [], signal);
+  }
+
+  private post(
+    worker: Worker,
+    build: (id: number) => DeltaPipelineRequest,
+    transfer: Transferable[],
+    signal?: AbortSignal,
+    onProgress?: (decodedDeltas: number, totalDeltas: number) => void
+  ): Promise<DeltaPipelineResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      // The worker can't be interrupted mid-task, so an abort only drops the reply
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: message => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(message);
+        },
+        reject: reason => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(reason);
+        },
+        onProgress
+      });
+      worker.postMessage(build(id), transfer);
+    });
+  }
+
+  private handleMessage(message: DeltaPipelineResponse) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.decodedDeltas, message.totalDeltas);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    if (message.type === 'error') {
+      request.reject(deserializePipelineError(message.error));
+    } else {
+      request.resolve(message);
+    }
+  }
+
+  // The worker script failed to load or crashed: fail what's in flight (their
+  // buffers were transferred away) and run inline from now on
+  private handleWorkerFailure(reason: string) {
+    console.error('Delta worker failed, falling back to the main thread:', reason);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    for (const request of this.pending.values()) {
+      request.reject(new DecodeError(`Delta worker failed: ${reason}`));
+    }
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) {
+      return this.worker;
+    }
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/deltaPipeline.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.error('Failed to start delta worker, decoding on the main thread:', error);
+      this.workerFailed = true;
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<DeltaPipelineResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = event => {
+      event.preventDefault();
+      this.handleWorkerFailure(event.message || 'worker error');
+    };
+    return this.worker;
+  }
+}
+
+export const deltaPipeline = new DeltaPipeline();
@@ -0,0 +1,48 @@
+import type { AccountType, ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import type { ChartSeries, PreparedChartSeries, BucketedSeries, DailyTotals } from './chartSeries';
+import type { BucketSize } from './timeBuckets';
+import type { OutlierRule } from './anomalies';
+import type { PlayerRecords } from './records';
+import { BinaryDecodeError } from './binaryProtocol';
+
+// Messages exchanged between deltaPipeline (main thread) and its worker
+
+export type DeltaPipelineRequest =
+  | { type: 'decode'; id: number; datasetId: number; buffer: ArrayBuffer; userId: string; lenient: boolean }
+  | { type: 'series'; id: number; datasetId: number; response?: GetSnapshotWithDeltasResponse; activityType?: ActivityType; rule: OutlierRule }
+  | { type: 'buckets'; id: number; datasetId: number; response?: GetSnapshotWithDeltasResponse; activityType?: ActivityType; size: BucketSize }
+  | { type: 'daily-totals'; id: number; datasetId: number; response?: GetSnapshotWithDeltasResponse; activityType?: ActivityType }
+  | { type: 'efficiency'; id: number; datasetId: number; response?: GetSnapshotWithDeltasResponse; accountType?: AccountType }
+  | { type: 'records'; id: number; datasetId: number; response?: GetSnapshotWithDeltasResponse };
+
+export type DeltaPipelineResponse =
+  | { type: 'progress'; id: number; decodedDeltas: number; totalDeltas: number }
+  | { type: 'decoded'; id: number; response: GetSnapshotWithDeltasResponse }
+  | { type: 'series'; id: number; result: PreparedChartSeries }
+  | { type: 'buckets'; id: number; result: BucketedSeries }
+  | { type: 'daily-totals'; id: number; result: DailyTotals }
+  | { type: 'efficiency'; id: number; result: ChartSeries }
+  | { type: 'records'; id: number; result: PlayerRecords }
+  // The worker evicted the dataset; the request must be resent with the response
+  | { type: 'missing-dataset'; id: number }
+  | { type: 'error'; id: number; error: SerializedPipelineError };
+
+export interface SerializedPipelineError {
+  name: string;
+  message: string;
+  offset?: number;
+  section?: string;
+  expectedBytes?: number;
+  availableBytes?: number;
+}
+
+export function serializePipelineError(error: unknown): SerializedPipelineError {
+  if (error instanceof BinaryDecodeError) {
+    const { name, message, offset, section, expectedBytes, availableBytes } = error;
+    return { name, message, offset, section, expectedBytes, availableBytes };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import type { GetSnapshotWithDeltasResponse, HiscoreDelta, HiscoreSnapshot } from '@/types/api';
+import { DeltaRangeStore } from './deltaRangeStore';
+
+const KEY = 'api|user-1';
+const HOUR = 3_600_000;
+const START = Date.UTC(2025, 0, 1);
+
+const at = (hours: number) => START + hours * HOUR;
+
+// 100 Attack XP and one rank a delta, one delta an hour from hour 1
+function createDelta(hours: number, id: string = `delta-${hours}`): HiscoreDelta {
+  return {
+    id,
+    userId: 'user-1',
+    snapshotId: `snapshot-${hours}`,
+    previousSnapshotId: `snapshot-${hours - 1}`,
+    timestamp: new Date(at(hours)).toISOString(),
+    skills: [{ activityType: 'ATTACK', name: 'Attack', experienceGain: 100, levelGain: 0, rankGain: -1 }]
+  };
+}
+
+// Attack XP and rank as of `hours`, after a delta every hour before it
+function createSnapshot(hours: number): HiscoreSnapshot {
+  return {
+    id: `snapshot-${hours}`,
+    userId: 'user-1',
+    timestamp: new Date(at(hours)).toISOString(),
+    skills: [{ activityType: 'ATTACK', name: 'Attack', experience: 1000 + hours * 100, level: 10, rank: 5000 - hours }],
+    bosses: [],
+    activities: []
+  };
+}
+
+// Snapshot at `from` and the deltas in (from, to]
+function createResponse(from: number, to: number): GetSnapshotWithDeltasResponse {
+  return {
+    snapshot: createSnapshot(from),
+    deltas: Array.from({ length: to - from }, (_, i) => createDelta(from + i + 1))
+  };
+}
+
+function mergeHours(store: DeltaRangeStore, from: number, to: number, key: string = KEY) {
+  store.merge(key, at(from), at(to), createResponse(from, to));
+}
+
+const deltaHours = (response: GetSnapshotWithDeltasResponse | null) =>
+  response?.deltas.map(delta => (new Date(delta.timestamp).getTime() - START) / HOUR);
+
+describe('DeltaRangeStore.read', () => {
+  it('returns null for keys and ranges it does not cover', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+
+    expect(store.read('api|user-2', at(0), at(10))).toBeNull();
+    expect(store.read(KEY, at(-1), at(5))).toBeNull();
+    expect(store.read(KEY, at(5), at(11))).toBeNull();
+  });
+
+  it('answers the stored window as loaded', () => {
+    const store = new DeltaRangeStore();
+    const response = createResponse(0, 10);
+    store.merge(KEY, at(0), at(10), response);
+
+    expect(store.read(KEY, at(0), at(10))).toEqual(response);
+  });
+
+  it('replays the deltas before a sub-range onto the baseline snapshot', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+
+    const response = store.read(KEY, at(4), at(7));
+
+    expect(deltaHours(response)).toEqual([4, 5, 6, 7]);
+    // Three deltas (hours 1-3) before the range start
+    expect(response?.snapshot).toMatchObject({
+      id: '',
+      timestamp: new Date(at(3)).toISOString(),
+      skills: [{ activityType: 'ATTACK', experience: 1300, rank: 4997 }]
+    });
+  });
+
+  it('matches a fresh load of the sub-range', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+
+    const response = store.read(KEY, at(3) + 1, at(8));
+    const expected = createResponse(3, 8);
+
+    expect(response?.deltas).toEqual(expected.deltas);
+    expect(response?.snapshot.skills).toEqual(expected.snapshot.skills);
+  });
+});
+
+describe('DeltaRangeStore.merge', () => {
+  it('joins overlapping windows without duplicating deltas', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+    mergeHours(store, 5, 15);
+
+    expect(store.getCoverage(KEY)).toEqual({ start: at(0), end: at(15) });
+    expect(deltaHours(store.read(KEY, at(0), at(15)))).toEqual(Array.from({ length: 15 }, (_, i) => i + 1));
+  });
+
+  it('prefers the newer copy of a delta', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+    const newer = { ...createDelta(5), skills: [{ activityType: 'ATTACK' as const, name: 'Attack', experienceGain: 250, levelGain: 0 }] };
+    store.merge(KEY, at(4), at(6), { snapshot: createSnapshot(4), deltas: [newer, createDelta(6)] });
+
+    expect(store.read(KEY, at(5), at(5))?.deltas).toEqual([newer]);
+  });
+
+  it('joins adjacent windows', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+    mergeHours(store, 10, 20);
+
+    expect(store.getCoverage(KEY)).toEqual({ start: at(0), end: at(20) });
+    expect(store.read(KEY, at(0), at(20))?.deltas).toHaveLength(20);
+  });
+
+  it('keeps the earlier window snapshot as the baseline', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 10, 20);
+    mergeHours(store, 0, 12);
+
+    const response = store.read(KEY, at(0), at(20));
+    expect(response?.snapshot).toEqual(createSnapshot(0));
+    expect(response?.deltas).toHaveLength(20);
+    expect(store.read(KEY, at(15) + 1, at(20))?.snapshot.skills[0].experience).toBe(createSnapshot(15).skills[0].experience);
+  });
+
+  it('replaces the stored window with a disjoint one', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10);
+    mergeHours(store, 12, 20);
+
+    expect(store.getCoverage(KEY)).toEqual({ start: at(12), end: at(20) });
+    expect(store.read(KEY, at(0), at(10))).toBeNull();
+  });
+
+  it('replaces the stored window with a superset', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 5, 10);
+    const superset = createResponse(0, 20);
+    store.merge(KEY, at(0), at(20), superset);
+
+    expect(store.getCoverage(KEY)).toEqual({ start: at(0), end: at(20) });
+    expect(store.read(KEY, at(0), at(20))).toEqual(superset);
+  });
+
+  it('deduplicates deltas without IDs by timestamp', () => {
+    const store = new DeltaRangeStore();
+    store.merge(KEY, at(0), at(3), { snapshot: createSnapshot(0), deltas: [1, 2, 3].map(hours => createDelta(hours, '')) });
+    store.merge(KEY, at(2), at(4), { snapshot: createSnapshot(2), deltas: [3, 4].map(hours => createDelta(hours, '')) });
+
+    expect(deltaHours(store.read(KEY, at(0), at(4)))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps different deltas that share a timestamp', () => {
+    const store = new DeltaRangeStore();
+    store.merge(KEY, at(0), at(2), { snapshot: createSnapshot(0), deltas: [createDelta(1, 'a'), createDelta(1, 'b')] });
+
+    expect(store.read(KEY, at(0), at(2))?.deltas.map(delta => delta.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('DeltaRangeStore eviction', () => {
+  it('drops the least recently used window past the limit', () => {
+    const store = new DeltaRangeStore(2);
+    mergeHours(store, 0, 10, 'a');
+    mergeHours(store, 0, 10, 'b');
+    store.read('a', at(0), at(10));
+    mergeHours(store, 0, 10, 'c');
+
+    expect(store.getCoverage('a')).not.toBeNull();
+    expect(store.getCoverage('b')).toBeNull();
+    expect(store.getCoverage('c')).not.toBeNull();
+  });
+
+  it('clears matching keys only', () => {
+    const store = new DeltaRangeStore();
+    mergeHours(store, 0, 10, 'prod|a');
+    mergeHours(store, 0, 10, 'staging|a');
+    store.clear(key => key.startsWith('staging|'));
+
+    expect(store.getCoverage('prod|a')).not.toBeNull();
+    expect(store.getCoverage('staging|a')).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import type { HiscoreDelta, HiscoreSnapshot, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { applyDeltasToSnapshot, getDeltaKey } from './dataUtils';
+
+// Range-aware store of loaded deltas. Each key (endpoint + user) keeps a single
+// contiguous covered window: the snapshot at the window start plus every delta
+// inside it. Sub-ranges are answered locally by replaying deltas onto the
+// baseline, and partly covered ranges only need their missing edges fetched.
+
+export interface DeltaCoverage {
+  start: number;
+  end: number;
+}
+
+interface DeltaSegment extends DeltaCoverage {
+  snapshot: HiscoreSnapshot;
+  deltas: HiscoreDelta[];
+  // Parallel to `deltas`, epoch ms, sorted ascending
+  times: number[];
+}
+
+// First index whose time is >= target
+function lowerBound(times: number[], target: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// First index whose time is > target
+function upperBound(times: number[], target: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] <= target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Merge two delta lists, deduplicating by getDeltaKey; `preferred` wins on
+// collisions. The result is sorted by time.
+function mergeDeltas(existing: HiscoreDelta[], preferred: HiscoreDelta[]): HiscoreDelta[] {
+  const byKey = new Map<string, HiscoreDelta>();
+  for (const delta of existing) byKey.set(getDeltaKey(delta), delta);
+  for (const delta of preferred) byKey.set(getDeltaKey(delta), delta);
+  return Array.from(byKey.values())
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+function buildSegment(start: number, end: number, snapshot: HiscoreSnapshot, deltas: HiscoreDelta[]): DeltaSegment {
+  const sorted = mergeDeltas([], deltas);
+  return {
+    start,
+    end,
+    snapshot,
+    deltas: sorted,
+    times: sorted.map(d => new Date(d.timestamp).getTime())
+  };
+}
+
+export class DeltaRangeStore {
+  // Map iteration order doubles as LRU order
+  private segments: Map<string, DeltaSegment> = new Map();
+  private maxSegments: number;
+
+  constructor(maxSegments: number = 8) {
+    this.maxSegments = maxSegments;
+  }
+
+  getCoverage(key: string): DeltaCoverage | null {
+    const segment = this.segments.get(key);
+    return segment ? { start: segment.start, end: segment.end } : null;
+  }
+
+  // Answer [start, end] from the stored window, or null if it isn't fully covered
+  read(key: string, start: number, end: number): GetSnapshotWithDeltasResponse | null {
+    const segment = this.segments.get(key);
+    if (!segment || start < segment.start || end > segment.end) {
+      return null;
+    }
+
+    this.touch(key, segment);
+
+    const from = lowerBound(segment.times, start);
+    const to = upperBound(segment.times, end);
+
+    return {
+      snapshot: applyDeltasToSnapshot(segment.snapshot, segment.deltas.slice(0, from)),
+      deltas: segment.deltas.slice(from, to)
+    };
+  }
+
+  // Add a response covering [start, end]. Overlapping or adjacent windows are
+  // merged; a disjoint window replaces what was stored since only one
+  // contiguous range is kept per key.
+  merge(key: string, start: number, end: number, response: GetSnapshotWithDeltasResponse) {
+    const segment = this.segments.get(key);
+
+    if (!segment || start > segment.end || end < segment.start || (start <= segment.start && end >= segment.end)) {
+      this.touch(key, buildSegment(start, end, response.snapshot, response.deltas));
+      return;
+    }
+
+    // The earlier window's snapshot is the baseline for the merged range
+    const snapshot = start < segment.start ? response.snapshot : segment.snapshot;
+    const deltas = mergeDeltas(segment.deltas, response.deltas);
+
+    this.touch(key, buildSegment(Math.min(start, segment.start), Math.max(end, segment.end), snapshot, deltas));
+  }
+
+  // Drop stored windows; with a predicate only matching keys are removed
+  clear(predicate?: (key: string) => boolean) {
+    if (!predicate) {
+      this.segments.clear();
+      return;
+    }
+    for (const key of Array.from(this.segments.keys())) {
+      if (predicate(key)) this.segments.delete(key);
+    }
+  }
+
+  private touch(key: string, segment: DeltaSegment) {
+    this.segments.delete(key);
+    this.segments.set(key, segment);
+
+    while (this.segments.size > this.maxSegments) {
+      const oldest = this.segments.keys().next().value;
+      if (oldest === undefined) break;
+      this.segments.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { ActivityType, HiscoreSnapshot } from '@/types/api';
+import {
+  calculateCombatLevel,
+  getCombatLevels,
+  getNextCombatSteps,
+  getTotalLevel,
+  type CombatLevels
+} from './derivedStats';
+
+const FRESH: CombatLevels = { ATTACK: 1, STRENGTH: 1, DEFENCE: 1, HITPOINTS: 10, RANGED: 1, MAGIC: 1, PRAYER: 1 };
+const MAXED: CombatLevels = { ATTACK: 99, STRENGTH: 99, DEFENCE: 99, HITPOINTS: 99, RANGED: 99, MAGIC: 99, PRAYER: 99 };
+
+function createSnapshot(levels: Partial<Record<ActivityType, number>>): HiscoreSnapshot {
+  return {
+    id: 'snapshot-1',
+    userId: 'user-1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    skills: Object.entries(levels).map(([activityType, level]) => ({
+      activityType: activityType as ActivityType,
+      name: activityType,
+      experience: 0,
+      level,
+      rank: 1
+    })),
+    bosses: [],
+    activities: []
+  };
+}
+
+describe('calculateCombatLevel', () => {
+  it('is 3 for a fresh account', () => {
+    expect(calculateCombatLevel(FRESH)).toEqual({ level: 3, exact: expect.closeTo(3.4), style: 'melee' });
+  });
+
+  it('is 126 for maxed combat skills', () => {
+    expect(calculateCombatLevel(MAXED)).toEqual({ level: 126, exact: expect.closeTo(126.1), style: 'melee' });
+  });
+
+  it('picks the style that sets the level', () => {
+    expect(calculateCombatLevel({ ...FRESH, RANGED: 99 }).style).toBe('ranged');
+    expect(calculateCombatLevel({ ...FRESH, MAGIC: 99 }).style).toBe('magic');
+  });
+
+  it('breaks ties towards melee, then ranged', () => {
+    // 1 + 2 Attack and Strength against 3 from floor(2 * 3 / 2) Ranged or Magic
+    const tied = { ...FRESH, STRENGTH: 2, RANGED: 2, MAGIC: 2 };
+    expect(calculateCombatLevel(tied).style).toBe('melee');
+    expect(calculateCombatLevel({ ...tied, STRENGTH: 1 }).style).toBe('ranged');
+    expect(calculateCombatLevel({ ...MAXED, ATTACK: 1, STRENGTH: 1 }).style).toBe('ranged');
+  });
+});
+
+describe('getNextCombatSteps', () => {
+  it('lists the levels each skill needs, nearest first', () => {
+    expect(getNextCombatSteps(FRESH)).toEqual([
+      { activityType: 'ATTACK', levels: 2 },
+      { activityType: 'STRENGTH', levels: 2 },
+      { activityType: 'RANGED', levels: 2 },
+      { activityType: 'MAGIC', levels: 2 },
+      { activityType: 'DEFENCE', levels: 3 },
+      { activityType: 'HITPOINTS', levels: 3 },
+      { activityType: 'PRAYER', levels: 5 }
+    ]);
+  });
+
+  it('leaves out skills that cannot get there before 99', () => {
+    expect(getNextCombatSteps({ ...MAXED, ATTACK: 98 })).toEqual([{ activityType: 'ATTACK', levels: 1 }]);
+  });
+
+  it('is empty at max combat', () => {
+    expect(getNextCombatSteps(MAXED)).toEqual([]);
+  });
+});
+
+describe('getTotalLevel', () => {
+  it('uses the OVERALL level when it is ranked', () => {
+    expect(getTotalLevel(createSnapshot({ OVERALL: 1500, ATTACK: 50, HITPOINTS: 40 }))).toBe(1500);
+  });
+
+  it('sums the skills without a ranked OVERALL entry', () => {
+    expect(getTotalLevel(createSnapshot({ ATTACK: 50, HITPOINTS: 40, MINING: 30 }))).toBe(120);
+    expect(getTotalLevel(createSnapshot({ OVERALL: -1, ATTACK: 50, HITPOINTS: 40 }))).toBe(90);
+  });
+
+  it('counts unranked skills at their starting level', () => {
+    expect(getTotalLevel(createSnapshot({ ATTACK: -1, HITPOINTS: -1 }))).toBe(11);
+  });
+});
+
+describe('getCombatLevels', () => {
+  it('defaults Hitpoints to 10 when it is missing', () => {
+    expect(getCombatLevels(createSnapshot({ ATTACK: 40 }))).toEqual({ ...FRESH, ATTACK: 40 });
+  });
+
+  it('defaults unranked Hitpoints to 10', () => {
+    expect(getCombatLevels(createSnapshot({ HITPOINTS: -1 })).HITPOINTS).toBe(10);
+  });
+
+  it('gives an empty snapshot the combat level of a fresh account', () => {
+    expect(calculateCombatLevel(getCombatLevels(createSnapshot({}))).level).toBe(3);
+  });
+});
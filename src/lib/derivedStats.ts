@@ -0,0 +1,146 @@
+import type { ActivityType, HiscoreSnapshot } from '@/types/api';
+import { MAX_LEVEL, getLevelForExperience } from './experience';
+
+// Stats worked out from a single snapshot: combat level, total level and how
+// close the account is to maxing.
+
+export type CombatStyle = 'melee' | 'ranged' | 'magic';
+
+export type CombatSkill = 'ATTACK' | 'STRENGTH' | 'DEFENCE' | 'HITPOINTS' | 'RANGED' | 'MAGIC' | 'PRAYER';
+
+export type CombatLevels = Record<CombatSkill, number>;
+
+export interface CombatLevel {
+  // What the game shows
+  level: number;
+  // Before rounding down, e.g. 125.975
+  exact: number;
+  // The style that sets the level; ties go to melee, then ranged
+  style: CombatStyle;
+}
+
+// Levels needed in one skill, on its own, to reach the next combat level
+export interface CombatLevelStep {
+  activityType: CombatSkill;
+  levels: number;
+}
+
+export interface DerivedStats {
+  combat: CombatLevel;
+  // Nearest first; skills that can't get there before 99 are left out
+  nextCombatSteps: CombatLevelStep[];
+  totalLevel: number;
+  // Counting levels past 99 (up to 126 per skill)
+  virtualTotalLevel: number;
+  totalExperience: number;
+  // Lowest level of any skill
+  baseLevel: number;
+  maxed: boolean;
+}
+
+export const COMBAT_SKILLS: CombatSkill[] = ['ATTACK', 'STRENGTH', 'DEFENCE', 'HITPOINTS', 'RANGED', 'MAGIC', 'PRAYER'];
+
+export const MAX_COMBAT_LEVEL = 126;
+
+// Every account starts with 10 Hitpoints; everything else starts at 1
+function getStartingLevel(activityType: ActivityType): number {
+  return activityType === 'HITPOINTS' ? 10 : 1;
+}
+
+// Unranked skills come back without a usable level
+function getSkillLevel(snapshot: HiscoreSnapshot, activityType: ActivityType): number {
+  const level = snapshot.skills.find(skill => skill.activityType === activityType)?.level ?? 0;
+  return Math.max(level, getStartingLevel(activityType));
+}
+
+// Skills the snapshot reports, so a skill added to the game later doesn't
+// count against older snapshots
+function getTrainableSkills(snapshot: HiscoreSnapshot) {
+  return snapshot.skills.filter(skill => skill.activityType !== 'OVERALL' && skill.activityType !== 'UNKNOWN');
+}
+
+export function getCombatLevels(snapshot: HiscoreSnapshot): CombatLevels {
+  return {
+    ATTACK: getSkillLevel(snapshot, 'ATTACK'),
+    STRENGTH: getSkillLevel(snapshot, 'STRENGTH'),
+    DEFENCE: getSkillLevel(snapshot, 'DEFENCE'),
+    HITPOINTS: getSkillLevel(snapshot, 'HITPOINTS'),
+    RANGED: getSkillLevel(snapshot, 'RANGED'),
+    MAGIC: getSkillLevel(snapshot, 'MAGIC'),
+    PRAYER: getSkillLevel(snapshot, 'PRAYER')
+  };
+}
+
+// The in-game formula: a defensive base plus the best of the three styles
+export function calculateCombatLevel(levels: CombatLevels): CombatLevel {
+  const base = 0.25 * (levels.DEFENCE + levels.HITPOINTS + Math.floor(levels.PRAYER / 2));
+  const melee = 0.325 * (levels.ATTACK + levels.STRENGTH);
+  const ranged = 0.325 * Math.floor(levels.RANGED * 3 / 2);
+  const magic = 0.325 * Math.floor(levels.MAGIC * 3 / 2);
+
+  const best = Math.max(melee, ranged, magic);
+  const style: CombatStyle = best === melee ? 'melee' : best === ranged ? 'ranged' : 'magic';
+  const exact = base + best;
+
+  return { level: Math.floor(exact), exact, style };
+}
+
+// Training one skill at a time, how many levels each needs for the next combat level
+export function getNextCombatSteps(levels: CombatLevels): CombatLevelStep[] {
+  const current = calculateCombatLevel(levels).level;
+  if (current >= MAX_COMBAT_LEVEL) return [];
+
+  const steps: CombatLevelStep[] = [];
+  for (const activityType of COMBAT_SKILLS) {
+    for (let level = levels[activityType] + 1; level <= MAX_LEVEL; level++) {
+      if (calculateCombatLevel({ ...levels, [activityType]: level }).level > current) {
+        steps.push({ activityType, levels: level - levels[activityType] });
+        break;
+      }
+    }
+  }
+
+  return steps.sort((a, b) => a.levels - b.levels);
+}
+
+// Total level from OVERALL when the hiscores rank it, otherwise summed
+export function getTotalLevel(snapshot: HiscoreSnapshot): number {
+  const overall = snapshot.skills.find(skill => skill.activityType === 'OVERALL');
+  if (overall && overall.level > 0) return overall.level;
+  return getTrainableSkills(snapshot).reduce((sum, skill) => sum + getSkillLevel(snapshot, skill.activityType), 0);
+}
+
+export function getTotalExperience(snapshot: HiscoreSnapshot): number {
+  const overall = snapshot.skills.find(skill => skill.activityType === 'OVERALL');
+  if (overall && overall.experience > 0) return overall.experience;
+  return getTrainableSkills(snapshot).reduce((sum, skill) => sum + Math.max(skill.experience, 0), 0);
+}
+
+export function getVirtualTotalLevel(snapshot: HiscoreSnapshot): number {
+  return getTrainableSkills(snapshot).reduce(
+    (sum, skill) => sum + Math.max(getLevelForExperience(skill.experience, true), getStartingLevel(skill.activityType)),
+    0
+  );
+}
+
+// Lowest level across all skills; 99 means maxed
+export function getBaseLevel(snapshot: HiscoreSnapshot): number {
+  const skills = getTrainableSkills(snapshot);
+  if (skills.length === 0) return 1;
+  return Math.min(...skills.map(skill => getSkillLevel(snapshot, skill.activityType)));
+}
+
+export function getDerivedStats(snapshot: HiscoreSnapshot): DerivedStats {
+  const combatLevels = getCombatLevels(snapshot);
+  const baseLevel = getBaseLevel(snapshot);
+
+  return {
+    combat: calculateCombatLevel(combatLevels),
+    nextCombatSteps: getNextCombatSteps(combatLevels),
+    totalLevel: getTotalLevel(snapshot),
+    virtualTotalLevel: getVirtualTotalLevel(snapshot),
+    totalExperience: getTotalExperience(snapshot),
+    baseLevel,
+    maxed: baseLevel >= MAX_LEVEL
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { HiscoreSnapshot } from '@/types/api';
+import {
+  getBossEfficientHours,
+  getEfficiencyRates,
+  getSkillEfficientHours,
+  summarizeEfficiency
+} from './efficiency';
+
+// XP to reach levels 40, 50 and 99
+const LEVEL_40 = 37_224;
+const LEVEL_50 = 101_333;
+const LEVEL_99 = 13_034_431;
+
+const MAIN_RATES = getEfficiencyRates('NORMAL');
+
+describe('getSkillEfficientHours', () => {
+  it('prices XP within one tier at its rate', () => {
+    // Attack: 30K/hr below 40
+    expect(getSkillEfficientHours('ATTACK', 0, 30_000, MAIN_RATES)).toBeCloseTo(1);
+  });
+
+  it('splits gains across the tiers they span', () => {
+    // 0-40 at 30K/hr, then 40 onwards at 60K/hr
+    expect(getSkillEfficientHours('ATTACK', 0, LEVEL_40 + 60_000, MAIN_RATES)).toBeCloseTo(LEVEL_40 / 30_000 + 1);
+    // Cooking: 120K/hr below 50, 500K/hr from 50
+    expect(getSkillEfficientHours('COOKING', LEVEL_50 - 12_000, 512_000, MAIN_RATES)).toBeCloseTo(0.1 + 1);
+  });
+
+  it('uses the last tier up to 200M XP and nothing past it', () => {
+    expect(getSkillEfficientHours('ATTACK', LEVEL_99, 140_000, MAIN_RATES)).toBeCloseTo(1);
+    expect(getSkillEfficientHours('ATTACK', 199_860_000, 1_000_000, MAIN_RATES)).toBeCloseTo(1);
+  });
+
+  it('counts nothing for free XP, skills without rates or no gain', () => {
+    expect(getSkillEfficientHours('HITPOINTS', 0, 1_000_000, MAIN_RATES)).toBe(0);
+    expect(getSkillEfficientHours('SAILING', 0, 1_000_000, MAIN_RATES)).toBe(0);
+    expect(getSkillEfficientHours('OVERALL', 0, 1_000_000, MAIN_RATES)).toBe(0);
+    expect(getSkillEfficientHours('ATTACK', 0, 0, MAIN_RATES)).toBe(0);
+    expect(getSkillEfficientHours('ATTACK', 0, -500, MAIN_RATES)).toBe(0);
+  });
+});
+
+describe('getEfficiencyRates', () => {
+  // Prayer: 500K/hr for mains, 50K/hr then 250K/hr from 50 for ironmen,
+  // 30K/hr then 180K/hr for ultimate ironmen
+  const prayerHours = (accountType: Parameters<typeof getEfficiencyRates>[0]) =>
+    getSkillEfficientHours('PRAYER', 0, 500_000, getEfficiencyRates(accountType));
+  const ironmanHours = LEVEL_50 / 50_000 + (500_000 - LEVEL_50) / 250_000;
+
+  it('uses main rates for normal accounts and unknown account types', () => {
+    expect(prayerHours('NORMAL')).toBeCloseTo(1);
+    expect(prayerHours(undefined)).toBeCloseTo(1);
+  });
+
+  it('uses ironman rates for hardcore and group ironmen', () => {
+    expect(prayerHours('IRONMAN')).toBeCloseTo(ironmanHours);
+    expect(prayerHours('HARDCORE_IRONMAN')).toBeCloseTo(ironmanHours);
+    expect(prayerHours('GROUP_IRONMAN')).toBeCloseTo(ironmanHours);
+  });
+
+  it('uses the slowest rates for ultimate ironmen', () => {
+    expect(prayerHours('ULTIMATE_IRONMAN')).toBeCloseTo(LEVEL_50 / 30_000 + (500_000 - LEVEL_50) / 180_000);
+  });
+
+  it('shares unchanged skills and bosses between account types', () => {
+    for (const accountType of ['IRONMAN', 'ULTIMATE_IRONMAN'] as const) {
+      const rates = getEfficiencyRates(accountType);
+      expect(getSkillEfficientHours('AGILITY', 0, 15_000, rates)).toBeCloseTo(1);
+      expect(getBossEfficientHours('GIANT_MOLE', 100, rates)).toBeCloseTo(1);
+    }
+  });
+
+  it('slows bosses for ironmen', () => {
+    expect(getBossEfficientHours('ZULRAH', 70, MAIN_RATES)).toBeCloseTo(2);
+    expect(getBossEfficientHours('ZULRAH', 60, getEfficiencyRates('IRONMAN'))).toBeCloseTo(2);
+    expect(getBossEfficientHours('WINTERTODT', 100, MAIN_RATES)).toBe(0);
+  });
+});
+
+describe('summarizeEfficiency', () => {
+  const snapshot: HiscoreSnapshot = {
+    id: 'snapshot-1',
+    userId: 'user-1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    skills: [
+      { activityType: 'ATTACK', name: 'Attack', experience: LEVEL_40, level: 40, rank: 1 },
+      { activityType: 'PRAYER', name: 'Prayer', experience: -1, level: 1, rank: -1 }
+    ],
+    bosses: [],
+    activities: []
+  };
+
+  it('prices gains from where each skill stood at the start snapshot', () => {
+    const summary = summarizeEfficiency(
+      [
+        { activityType: 'ATTACK', name: 'Attack', totalExperienceGain: 60_000, totalLevelGain: 0 },
+        { activityType: 'PRAYER', name: 'Prayer', totalExperienceGain: 250_000, totalLevelGain: 0 },
+        { activityType: 'HITPOINTS', name: 'Hitpoints', totalExperienceGain: 20_000, totalLevelGain: 0 }
+      ],
+      [
+        { activityType: 'ZULRAH', name: 'Zulrah', totalKillCountGain: 35 },
+        { activityType: 'VORKATH', name: 'Vorkath', totalKillCountGain: 16 },
+        { activityType: 'WINTERTODT', name: 'Wintertodt', totalKillCountGain: 10 }
+      ],
+      snapshot,
+      'NORMAL'
+    );
+
+    expect(summary.ehp).toBeCloseTo(1.5);
+    expect(summary.ehb).toBeCloseTo(1.5);
+    expect([...summary.skillHours.keys()]).toEqual(['ATTACK', 'PRAYER']);
+    expect(summary.skillHours.get('ATTACK')).toBeCloseTo(1);
+    // Unranked XP (-1) counts as 0
+    expect(summary.skillHours.get('PRAYER')).toBeCloseTo(0.5);
+    expect([...summary.bossHours.keys()]).toEqual(['ZULRAH', 'VORKATH']);
+    expect(summary.bossHours.get('VORKATH')).toBeCloseTo(0.5);
+  });
+
+  it('prices gains from 0 XP without a start snapshot', () => {
+    const summary = summarizeEfficiency(
+      [{ activityType: 'ATTACK', name: 'Attack', totalExperienceGain: LEVEL_40, totalLevelGain: 40 }],
+      [],
+      null,
+      'IRONMAN'
+    );
+
+    expect(summary.ehp).toBeCloseTo(LEVEL_40 / 30_000);
+    expect(summary.ehb).toBe(0);
+    expect(summary.bossHours.size).toBe(0);
+  });
+});
@@ -0,0 +1,359 @@
+import type {
+  AccountType,
+  ActivityType,
+  BossDeltaSummary,
+  GetSnapshotWithDeltasResponse,
+  HiscoreSnapshot,
+  SkillDeltaSummary
+} from '@/types/api';
+import { MAX_EXPERIENCE, getExperienceForLevel } from './experience';
+import type { ChartSeries } from './chartSeries';
+
+// Efficient Hours Played (EHP) and Efficient Hours Bossed (EHB): gains priced
+// at how long they take with the best known methods, so a day of Runecraft and
+// a day of Cooking compare fairly. Rates are approximate community figures and
+// depend on the account type, since ironmen can't buy supplies.
+
+// Skill XP/hr from `startExperience` until the next tier starts. A rate of 0
+// means the XP comes alongside other skills (Hitpoints) and costs no time.
+export interface RateTier {
+  startExperience: number;
+  rate: number;
+}
+
+export interface EfficiencyRates {
+  // Tiers in ascending order of startExperience
+  skills: Partial<Record<ActivityType, RateTier[]>>;
+  // Kills per hour
+  bosses: Partial<Record<ActivityType, number>>;
+}
+
+export interface EfficiencySummary {
+  ehp: number;
+  ehb: number;
+  skillHours: Map<ActivityType, number>;
+  bossHours: Map<ActivityType, number>;
+}
+
+// Level thresholds the tiers below start at
+const LEVEL_40 = getExperienceForLevel(40);
+const LEVEL_50 = getExperienceForLevel(50);
+const LEVEL_60 = getExperienceForLevel(60);
+const LEVEL_70 = getExperienceForLevel(70);
+const LEVEL_80 = getExperienceForLevel(80);
+const LEVEL_85 = getExperienceForLevel(85);
+const LEVEL_90 = getExperienceForLevel(90);
+const LEVEL_92 = getExperienceForLevel(92);
+const LEVEL_99 = getExperienceForLevel(99);
+
+function tiers(...entries: [startExperience: number, rate: number][]): RateTier[] {
+  return entries.map(([startExperience, rate]) => ({ startExperience, rate }));
+}
+
+// Sailing has no established rates yet and is left out until it does
+const MAIN_SKILL_RATES: Partial<Record<ActivityType, RateTier[]>> = {
+  ATTACK: tiers([0, 30_000], [LEVEL_40, 60_000], [LEVEL_60, 100_000], [LEVEL_80, 130_000], [LEVEL_99, 140_000]),
+  DEFENCE: tiers([0, 30_000], [LEVEL_40, 60_000], [LEVEL_60, 100_000], [LEVEL_80, 130_000], [LEVEL_99, 140_000]),
+  STRENGTH: tiers([0, 30_000], [LEVEL_40, 65_000], [LEVEL_60, 110_000], [LEVEL_80, 140_000], [LEVEL_99, 150_000]),
+  HITPOINTS: tiers([0, 0]),
+  RANGED: tiers([0, 50_000], [LEVEL_60, 250_000], [LEVEL_92, 650_000]),
+  PRAYER: tiers([0, 500_000]),
+  MAGIC: tiers([0, 40_000], [LEVEL_50, 120_000], [LEVEL_70, 250_000], [LEVEL_92, 400_000]),
+  COOKING: tiers([0, 120_000], [LEVEL_50, 500_000]),
+  WOODCUTTING: tiers([0, 25_000], [LEVEL_50, 80_000], [LEVEL_80, 120_000]),
+  FLETCHING: tiers([0, 100_000], [LEVEL_50, 800_000]),
+  FISHING: tiers([0, 20_000], [LEVEL_50, 55_000], [LEVEL_70, 80_000], [LEVEL_85, 90_000]),
+  FIREMAKING: tiers([0, 40_000], [LEVEL_50, 250_000], [LEVEL_80, 400_000]),
+  CRAFTING: tiers([0, 50_000], [LEVEL_50, 300_000]),
+  SMITHING: tiers([0, 50_000], [LEVEL_50, 350_000]),
+  MINING: tiers([0, 30_000], [LEVEL_50, 60_000], [LEVEL_70, 85_000], [LEVEL_90, 95_000]),
+  HERBLORE: tiers([0, 60_000], [LEVEL_50, 400_000]),
+  AGILITY: tiers([0, 15_000], [LEVEL_40, 40_000], [LEVEL_70, 55_000], [LEVEL_85, 65_000]),
+  THIEVING: tiers([0, 50_000], [LEVEL_50, 150_000], [LEVEL_85, 250_000]),
+  SLAYER: tiers([0, 20_000], [LEVEL_70, 60_000], [LEVEL_90, 75_000]),
+  FARMING: tiers([0, 40_000], [LEVEL_50, 250_000], [LEVEL_70, 400_000]),
+  RUNECRAFT: tiers([0, 20_000], [LEVEL_50, 45_000], [LEVEL_80, 70_000], [LEVEL_99, 90_000]),
+  HUNTER: tiers([0, 30_000], [LEVEL_60, 100_000], [LEVEL_80, 150_000]),
+  CONSTRUCTION: tiers([0, 300_000], [LEVEL_50, 900_000])
+};
+
+// Ironmen gather their own supplies, which slows every skill that mains buy through
+const IRONMAN_SKILL_RATES: Partial<Record<ActivityType, RateTier[]>> = {
+  ...MAIN_SKILL_RATES,
+  RANGED: tiers([0, 50_000], [LEVEL_60, 150_000], [LEVEL_92, 400_000]),
+  PRAYER: tiers([0, 50_000], [LEVEL_50, 250_000]),
+  MAGIC: tiers([0, 40_000], [LEVEL_70, 150_000]),
+  COOKING: tiers([0, 80_000], [LEVEL_50, 350_000]),
+  FLETCHING: tiers([0, 60_000], [LEVEL_50, 300_000]),
+  CRAFTING: tiers([0, 40_000], [LEVEL_50, 150_000]),
+  SMITHING: tiers([0, 40_000], [LEVEL_50, 150_000]),
+  HERBLORE: tiers([0, 30_000], [LEVEL_70, 120_000]),
+  CONSTRUCTION: tiers([0, 50_000], [LEVEL_50, 200_000], [LEVEL_80, 300_000])
+};
+
+// No bank makes the supply-heavy skills slower still
+const ULTIMATE_IRONMAN_SKILL_RATES: Partial<Record<ActivityType, RateTier[]>> = {
+  ...IRONMAN_SKILL_RATES,
+  PRAYER: tiers([0, 30_000], [LEVEL_50, 180_000]),
+  CONSTRUCTION: tiers([0, 40_000], [LEVEL_50, 130_000])
+};
+
+// Skilling bosses (Wintertodt, Tempoross, Zalcano) are already counted as EHP
+const MAIN_BOSS_RATES: Partial<Record<ActivityType, number>> = {
+  ABYSSAL_SIRE: 45,
+  ALCHEMICAL_HYDRA: 33,
+  ARAXXOR: 40,
+  BARROWS_CHESTS: 22,
+  CALLISTO: 50,
+  CERBERUS: 55,
+  CHAMBERS_OF_XERIC: 3.5,
+  CHAMBERS_OF_XERIC_CHALLENGE_MODE: 2.5,
+  CHAOS_ELEMENTAL: 60,
+  COMMANDER_ZILYANA: 45,
+  CORPOREAL_BEAST: 7,
+  DAGANNOTH_PRIME: 100,
+  DAGANNOTH_REX: 100,
+  DAGANNOTH_SUPREME: 100,
+  DUKE_SUCELLUS: 30,
+  GENERAL_GRAARDOR: 40,
+  GIANT_MOLE: 100,
+  GROTESQUE_GUARDIANS: 35,
+  KALPHITE_QUEEN: 50,
+  KING_BLACK_DRAGON: 120,
+  KRAKEN: 90,
+  KREEARRA: 35,
+  KRIL_TSUTSAROTH: 55,
+  NEX: 13,
+  NIGHTMARE: 12,
+  PHOSANIS_NIGHTMARE: 8,
+  PHANTOM_MUSPAH: 27,
+  SARACHNIS: 80,
+  SCORPIA: 100,
+  SKOTIZO: 40,
+  THE_CORRUPTED_GAUNTLET: 7,
+  THE_GAUNTLET: 10,
+  THE_LEVIATHAN: 28,
+  THE_WHISPERER: 22,
+  THEATRE_OF_BLOOD: 3,
+  THEATRE_OF_BLOOD_HARD_MODE: 2.5,
+  THERMONUCLEAR_SMOKE_DEVIL: 125,
+  TOMBS_OF_AMASCUT: 2.5,
+  TOMBS_OF_AMASCUT_EXPERT_MODE: 2,
+  TZKALZUK: 0.8,
+  TZTOKJAD: 2,
+  VARDORVIS: 32,
+  VENENATIS: 50,
+  VETION: 40,
+  VORKATH: 32,
+  ZULRAH: 35
+};
+
+// Slower kills without bought gear upgrades and supplies
+const IRONMAN_BOSS_RATES: Partial<Record<ActivityType, number>> = {
+  ...MAIN_BOSS_RATES,
+  CORPOREAL_BEAST: 4,
+  NEX: 8,
+  NIGHTMARE: 8,
+  VORKATH: 28,
+  ZULRAH: 30
+};
+
+const MAIN_RATES: EfficiencyRates = { skills: MAIN_SKILL_RATES, bosses: MAIN_BOSS_RATES };
+const IRONMAN_RATES: EfficiencyRates = { skills: IRONMAN_SKILL_RATES, bosses: IRONMAN_BOSS_RATES };
+const ULTIMATE_IRONMAN_RATES: EfficiencyRates = { skills: ULTIMATE_IRONMAN_SKILL_RATES, bosses: IRONMAN_BOSS_RATES };
+
+// Hardcore and group ironmen train like regular ironmen
+export function getEfficiencyRates(accountType: AccountType | undefined): EfficiencyRates {
+  switch (accountType) {
+    case 'IRONMAN':
+    case 'HARDCORE_IRONMAN':
+    case 'GROUP_IRONMAN':
+      return IRONMAN_RATES;
+    case 'ULTIMATE_IRONMAN':
+      return ULTIMATE_IRONMAN_RATES;
+    default:
+      return MAIN_RATES;
+  }
+}
+
+// Hours to gain `gain` XP from `startExperience`, split across the tiers it spans.
+// XP past 200M can't be gained, and skills without rates count for nothing.
+export function getSkillEfficientHours(
+  activityType: ActivityType,
+  startExperience: number,
+  gain: number,
+  rates: EfficiencyRates
+): number {
+  const skillTiers = rates.skills[activityType];
+  if (!skillTiers || gain <= 0) return 0;
+
+  const start = Math.max(startExperience, 0);
+  const end = Math.min(start + gain, MAX_EXPERIENCE);
+  let hours = 0;
+
+  for (let i = 0; i < skillTiers.length; i++) {
+    const { startExperience: tierStart, rate } = skillTiers[i];
+    const tierEnd = skillTiers[i + 1]?.startExperience ?? MAX_EXPERIENCE;
+    const from = Math.max(start, tierStart);
+    const to = Math.min(end, tierEnd);
+    if (to > from && rate > 0) {
+      hours += (to - from) / rate;
+    }
+  }
+
+  return hours;
+}
+
+export function getBossEfficientHours(activityType: ActivityType, kills: number, rates: EfficiencyRates): number {
+  const rate = rates.bosses[activityType];
+  return rate && kills > 0 ? kills / rate : 0;
+}
+
+function addHours(hours: Map<ActivityType, number>, activityType: ActivityType, value: number) {
+  if (value > 0) {
+    hours.set(activityType, (hours.get(activityType) ?? 0) + value);
+  }
+}
+
+function sumHours(hours: Map<ActivityType, number>): number {
+  let total = 0;
+  for (const value of hours.values()) total += value;
+  return total;
+}
+
+function getSnapshotExperience(snapshot: HiscoreSnapshot | null): Map<ActivityType, number> {
+  return new Map((snapshot?.skills ?? []).map(skill => [skill.activityType, Math.max(skill.experience, 0)]));
+}
+
+// Efficient hours for summed gains (a delta summary). The gains are priced from
+// where each skill stood at `startSnapshot`, or from 0 XP without one.
+export function summarizeEfficiency(
+  skills: SkillDeltaSummary[],
+  bosses: BossDeltaSummary[],
+  startSnapshot: HiscoreSnapshot | null,
+  accountType: AccountType | undefined
+): EfficiencySummary {
+  const rates = getEfficiencyRates(accountType);
+  const experience = getSnapshotExperience(startSnapshot);
+  const skillHours = new Map<ActivityType, number>();
+  const bossHours = new Map<ActivityType, number>();
+
+  for (const skill of skills) {
+    const hours = getSkillEfficientHours(
+      skill.activityType,
+      experience.get(skill.activityType) ?? 0,
+      skill.totalExperienceGain,
+      rates
+    );
+    addHours(skillHours, skill.activityType, hours);
+  }
+  for (const boss of bosses) {
+    addHours(bossHours, boss.activityType, getBossEfficientHours(boss.activityType, boss.totalKillCountGain, rates));
+  }
+
+  return {
+    ehp: sumHours(skillHours),
+    ehb: sumHours(bossHours),
+    skillHours,
+    bossHours
+  };
+}
+
+// Walk the deltas in time order, keeping each skill's running XP so every gain
+// is priced at the tier it was earned in. `visit` sees the hours of each delta.
+function walkEfficiency(
+  response: GetSnapshotWithDeltasResponse,
+  accountType: AccountType | undefined,
+  visit?: (index: number, timestamp: number, ehp: number, ehb: number) => void
+): EfficiencySummary {
+  const rates = getEfficiencyRates(accountType);
+  const experience = getSnapshotExperience(response.snapshot);
+  const skillHours = new Map<ActivityType, number>();
+  const bossHours = new Map<ActivityType, number>();
+
+  const sortedDeltas = [...response.deltas].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  sortedDeltas.forEach((delta, i) => {
+    let ehp = 0;
+    let ehb = 0;
+
+    for (const skill of delta.skills ?? []) {
+      if (skill.activityType === 'OVERALL') continue;
+      const current = experience.get(skill.activityType) ?? 0;
+      if (skill.experienceGain > 0) {
+        const hours = getSkillEfficientHours(skill.activityType, current, skill.experienceGain, rates);
+        addHours(skillHours, skill.activityType, hours);
+        ehp += hours;
+      }
+      experience.set(skill.activityType, current + skill.experienceGain);
+    }
+
+    for (const boss of delta.bosses ?? []) {
+      const hours = getBossEfficientHours(boss.activityType, boss.killCountGain, rates);
+      addHours(bossHours, boss.activityType, hours);
+      ehb += hours;
+    }
+
+    visit?.(i + 1, new Date(delta.timestamp).getTime(), ehp, ehb);
+  });
+
+  return {
+    ehp: sumHours(skillHours),
+    ehb: sumHours(bossHours),
+    skillHours,
+    bossHours
+  };
+}
+
+// Efficient hours for a snapshot + deltas response
+export function summarizeEfficiencyFromDeltas(
+  response: GetSnapshotWithDeltasResponse,
+  accountType: AccountType | undefined
+): EfficiencySummary {
+  return walkEfficiency(response, accountType);
+}
+
+// Cumulative EHP since the baseline snapshot, one point per delta like buildChartSeries
+export function buildEfficiencySeries(
+  response: GetSnapshotWithDeltasResponse,
+  accountType: AccountType | undefined
+): ChartSeries {
+  if (!response.snapshot) {
+    return {
+      timestamps: new Float64Array(0),
+      cumulative: new Float64Array(0),
+      dailyGains: new Float64Array(0),
+      skillBreakdowns: [],
+      baselineLevel: null
+    };
+  }
+
+  const pointCount = response.deltas.length + 1;
+  const timestamps = new Float64Array(pointCount);
+  const cumulative = new Float64Array(pointCount);
+  const dailyGains = new Float64Array(pointCount);
+  timestamps[0] = new Date(response.snapshot.timestamp).getTime();
+
+  let total = 0;
+  walkEfficiency(response, accountType, (index, timestamp, ehp) => {
+    total += ehp;
+    timestamps[index] = timestamp;
+    cumulative[index] = total;
+    dailyGains[index] = ehp;
+  });
+
+  return {
+    timestamps,
+    cumulative,
+    dailyGains,
+    skillBreakdowns: new Array(pointCount).fill(undefined),
+    baselineLevel: null
+  };
+}
+
+// "12.5" hours, with more precision for small values
+export function formatEfficientHours(hours: number): string {
+  return hours < 10 ? hours.toFixed(2) : hours.toFixed(1);
+}
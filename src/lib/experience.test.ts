@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_EXPERIENCE,
+  getExperienceForLevel,
+  getFractionalLevel,
+  getLevelForExperience,
+  getNextExperienceMilestone
+} from './experience';
+
+// Published thresholds from the in-game table
+const LEVEL_2 = 83;
+const LEVEL_92 = 6_517_253;
+const LEVEL_99 = 13_034_431;
+const LEVEL_126 = 188_884_740;
+
+describe('getExperienceForLevel', () => {
+  it('matches the in-game table', () => {
+    expect(getExperienceForLevel(1)).toBe(0);
+    expect(getExperienceForLevel(2)).toBe(LEVEL_2);
+    expect(getExperienceForLevel(92)).toBe(LEVEL_92);
+    expect(getExperienceForLevel(99)).toBe(LEVEL_99);
+    expect(getExperienceForLevel(126)).toBe(LEVEL_126);
+  });
+
+  it('clamps levels outside 1-126', () => {
+    expect(getExperienceForLevel(0)).toBe(0);
+    expect(getExperienceForLevel(-5)).toBe(0);
+    expect(getExperienceForLevel(127)).toBe(LEVEL_126);
+  });
+
+  it('round trips through getLevelForExperience', () => {
+    for (let level = 1; level <= 126; level++) {
+      const experience = getExperienceForLevel(level);
+      expect(getLevelForExperience(experience, true)).toBe(level);
+      if (level > 1) expect(getLevelForExperience(experience - 1, true)).toBe(level - 1);
+    }
+  });
+});
+
+describe('getLevelForExperience', () => {
+  it('is 1 for no or unranked experience', () => {
+    expect(getLevelForExperience(0)).toBe(1);
+    expect(getLevelForExperience(LEVEL_2 - 1)).toBe(1);
+    expect(getLevelForExperience(-1)).toBe(1);
+  });
+
+  it('stops at 99 unless virtual levels are asked for', () => {
+    expect(getLevelForExperience(LEVEL_99 - 1)).toBe(98);
+    expect(getLevelForExperience(LEVEL_99)).toBe(99);
+    expect(getLevelForExperience(MAX_EXPERIENCE)).toBe(99);
+    expect(getLevelForExperience(LEVEL_99, true)).toBe(99);
+    expect(getLevelForExperience(LEVEL_126 - 1, true)).toBe(125);
+  });
+
+  it('stops at 126 with virtual levels', () => {
+    expect(getLevelForExperience(LEVEL_126, true)).toBe(126);
+    expect(getLevelForExperience(MAX_EXPERIENCE, true)).toBe(126);
+    expect(getFractionalLevel(MAX_EXPERIENCE)).toBe(126);
+  });
+});
+
+describe('getNextExperienceMilestone', () => {
+  it('aims for 99 first', () => {
+    expect(getNextExperienceMilestone(0)).toEqual({ label: '99', remaining: LEVEL_99 });
+    expect(getNextExperienceMilestone(LEVEL_92)).toEqual({ label: '99', remaining: LEVEL_99 - LEVEL_92 });
+  });
+
+  it('aims for 200M from 99', () => {
+    expect(getNextExperienceMilestone(LEVEL_99)).toEqual({ label: '200M', remaining: MAX_EXPERIENCE - LEVEL_99 });
+    expect(getNextExperienceMilestone(MAX_EXPERIENCE - 1)).toEqual({ label: '200M', remaining: 1 });
+  });
+
+  it('is null at 200M', () => {
+    expect(getNextExperienceMilestone(MAX_EXPERIENCE)).toBeNull();
+  });
+});
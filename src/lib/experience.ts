@@ -0,0 +1,82 @@
+// OSRS experience table. Levels stop at 99 on the hiscores, but the same curve
+// continues as "virtual" levels up to 126, and experience caps at 200M.
+
+export const MAX_LEVEL = 99;
+export const MAX_VIRTUAL_LEVEL = 126;
+export const MAX_EXPERIENCE = 200_000_000;
+
+// EXPERIENCE_TABLE[level] is the experience needed to reach that level
+const EXPERIENCE_TABLE: number[] = (() => {
+  const table = [0, 0];
+  let points = 0;
+  for (let level = 1; level < MAX_VIRTUAL_LEVEL; level++) {
+    points += Math.floor(level + 300 * Math.pow(2, level / 7));
+    table.push(Math.floor(points / 4));
+  }
+  return table;
+})();
+
+function getMaxLevel(virtual: boolean): number {
+  return virtual ? MAX_VIRTUAL_LEVEL : MAX_LEVEL;
+}
+
+// Levels outside 1-126 are clamped
+export function getExperienceForLevel(level: number): number {
+  return EXPERIENCE_TABLE[Math.min(Math.max(Math.floor(level), 1), MAX_VIRTUAL_LEVEL)];
+}
+
+export function getLevelForExperience(experience: number, virtual: boolean = false): number {
+  const maxLevel = getMaxLevel(virtual);
+  // Highest level whose threshold has been reached
+  let low = 1;
+  let high = maxLevel;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (EXPERIENCE_TABLE[mid] <= experience) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// Level plus progress towards the next one, e.g. 85.42; stops at 126
+export function getFractionalLevel(experience: number): number {
+  const level = getLevelForExperience(experience, true);
+  if (level >= MAX_VIRTUAL_LEVEL) return MAX_VIRTUAL_LEVEL;
+  const start = EXPERIENCE_TABLE[level];
+  return level + (experience - start) / (EXPERIENCE_TABLE[level + 1] - start);
+}
+
+// Null once there is no next level (99, or 126 with virtual levels)
+export function getExperienceToNextLevel(experience: number, virtual: boolean = false): number | null {
+  const level = getLevelForExperience(experience, virtual);
+  if (level >= getMaxLevel(virtual)) return null;
+  return EXPERIENCE_TABLE[level + 1] - experience;
+}
+
+// 0-100 through the current level; 100 once there is no next level
+export function getPercentToNextLevel(experience: number, virtual: boolean = false): number {
+  const level = getLevelForExperience(experience, virtual);
+  if (level >= getMaxLevel(virtual)) return 100;
+  const start = EXPERIENCE_TABLE[level];
+  return ((experience - start) / (EXPERIENCE_TABLE[level + 1] - start)) * 100;
+}
+
+export interface ExperienceMilestone {
+  // "99" or "200M"
+  label: string;
+  remaining: number;
+}
+
+// The next big target for a skill: 99, then 200M; null at 200M
+export function getNextExperienceMilestone(experience: number): ExperienceMilestone | null {
+  if (experience < EXPERIENCE_TABLE[MAX_LEVEL]) {
+    return { label: String(MAX_LEVEL), remaining: EXPERIENCE_TABLE[MAX_LEVEL] - experience };
+  }
+  if (experience < MAX_EXPERIENCE) {
+    return { label: '200M', remaining: MAX_EXPERIENCE - experience };
+  }
+  return null;
+}
@@ -0,0 +1,194 @@
+import type { ActivityType, GetSnapshotWithDeltasResponse } from '@/types/api';
+import { getLatestActivityValue } from '@/lib/chartSeries';
+import { formatNumber, getActivityGainFromDeltas } from '@/lib/dataUtils';
+import { getActivityName, getActivityUnit } from '@/lib/activityRegistry';
+
+// Player goals such as "99 Slayer" or "500 Vorkath KC", kept in localStorage
+// per player. Progress and projections are computed from the loaded deltas.
+
+export interface Goal {
+  id: string;
+  activityType: ActivityType;
+  // In the activity's unit: XP for skills, KC for bosses, score otherwise
+  target: number;
+  // Level the target was entered as, for skill goals set by level
+  targetLevel?: number;
+  // Optional date (yyyy-MM-dd) to reach the target by
+  deadline?: string;
+  createdAt: string;
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  current: number;
+  remaining: number;
+  // 0-1
+  fraction: number;
+  complete: boolean;
+  // Average gain per day over the lookback window
+  recentRate: number;
+  // Gain per day needed to make the deadline; null without one or once it has passed
+  requiredRate: number | null;
+  // When the target is reached at the recent rate; null without recent gains
+  projectedDate: Date | null;
+}
+
+export const GOAL_LOOKBACK_DAYS = [7, 14, 30, 90];
+export const DEFAULT_GOAL_LOOKBACK_DAYS = 30;
+
+const STORAGE_KEY_PREFIX = 'hazelmere.goals.';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NO_GOALS: Goal[] = [];
+
+// Parsed goals per player, so every read of the same player returns the same array
+const goalCache = new Map<string, Goal[]>();
+const listeners = new Set<() => void>();
+
+function getStorageKey(userId: string): string {
+  return `${STORAGE_KEY_PREFIX}${userId}`;
+}
+
+function isGoal(value: unknown): value is Goal {
+  if (!value || typeof value !== 'object') return false;
+  const goal = value as Partial<Goal>;
+  return typeof goal.id === 'string' &&
+    typeof goal.activityType === 'string' &&
+    typeof goal.target === 'number' &&
+    typeof goal.createdAt === 'string';
+}
+
+function readGoals(userId: string): Goal[] {
+  try {
+    const value = typeof window !== 'undefined' ? window.localStorage.getItem(getStorageKey(userId)) : null;
+    if (!value) return NO_GOALS;
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(isGoal) : NO_GOALS;
+  } catch {
+    // Unavailable storage or a corrupt entry - start without goals
+    return NO_GOALS;
+  }
+}
+
+function writeGoals(userId: string, goals: Goal[]) {
+  goalCache.set(userId, goals);
+  try {
+    if (typeof window === 'undefined') return;
+    if (goals.length === 0) {
+      window.localStorage.removeItem(getStorageKey(userId));
+    } else {
+      window.localStorage.setItem(getStorageKey(userId), JSON.stringify(goals));
+    }
+  } catch {
+    // Storage can be unavailable (private mode, quota) - goals still apply until reload
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function getGoals(userId: string | null): Goal[] {
+  if (!userId) return NO_GOALS;
+  let goals = goalCache.get(userId);
+  if (!goals) {
+    goals = readGoals(userId);
+    goalCache.set(userId, goals);
+  }
+  return goals;
+}
+
+export function addGoal(userId: string, goal: Omit<Goal, 'id' | 'createdAt'>): Goal {
+  const created: Goal = {
+    ...goal,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString()
+  };
+  writeGoals(userId, [...getGoals(userId), created]);
+  return created;
+}
+
+export function removeGoal(userId: string, goalId: string) {
+  writeGoals(userId, getGoals(userId).filter(goal => goal.id !== goalId));
+}
+
+export function subscribeGoals(listener: () => void): () => void {
+  // Goals edited in another tab
+  const handleStorage = (event: StorageEvent) => {
+    if (!event.key?.startsWith(STORAGE_KEY_PREFIX)) return;
+    goalCache.delete(event.key.slice(STORAGE_KEY_PREFIX.length));
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+// "99 Slayer", "13M Slayer XP", "500 Vorkath KC" or "100 Clue Scrolls (all) score"
+export function formatGoalLabel(goal: Goal): string {
+  const name = getActivityName(goal.activityType);
+  if (goal.targetLevel !== undefined) return `${goal.targetLevel} ${name}`;
+
+  switch (getActivityUnit(goal.activityType)) {
+    case 'kc':
+      return `${formatNumber(goal.target)} ${name} KC`;
+    case 'score':
+      return `${formatNumber(goal.target)} ${name} score`;
+    default:
+      return `${formatNumber(goal.target)} ${name} XP`;
+  }
+}
+
+export function isGoalLookback(value: number): boolean {
+  return GOAL_LOOKBACK_DAYS.includes(value);
+}
+
+// Progress as of `rangeEnd`, with the recent rate averaged over the last
+// `lookbackDays` of the loaded range
+export function computeGoalProgress(
+  goal: Goal,
+  response: GetSnapshotWithDeltasResponse,
+  rangeStart: Date,
+  rangeEnd: Date,
+  lookbackDays: number,
+  now: Date = new Date()
+): GoalProgress {
+  const current = getLatestActivityValue(response, goal.activityType);
+  const remaining = Math.max(goal.target - current, 0);
+  const complete = remaining === 0;
+
+  // The window can't reach back past the data that was loaded
+  const windowEnd = rangeEnd.getTime();
+  const windowStart = Math.max(windowEnd - lookbackDays * DAY_MS, rangeStart.getTime());
+  const windowDays = Math.max((windowEnd - windowStart) / DAY_MS, 1);
+  const recentDeltas = response.deltas.filter(delta => {
+    const time = new Date(delta.timestamp).getTime();
+    return time > windowStart && time <= windowEnd;
+  });
+  const recentRate = getActivityGainFromDeltas(recentDeltas, goal.activityType).totalGain / windowDays;
+
+  let requiredRate: number | null = null;
+  if (goal.deadline && !complete) {
+    const daysLeft = (new Date(`${goal.deadline}T23:59:59`).getTime() - now.getTime()) / DAY_MS;
+    requiredRate = daysLeft > 0 ? remaining / Math.max(daysLeft, 1) : null;
+  }
+
+  let projectedDate: Date | null = null;
+  if (complete) {
+    projectedDate = rangeEnd;
+  } else if (recentRate > 0) {
+    projectedDate = new Date(windowEnd + (remaining / recentRate) * DAY_MS);
+  }
+
+  return {
+    goal,
+    current,
+    remaining,
+    fraction: goal.target > 0 ? Math.min(current / goal.target, 1) : 1,
+    complete,
+    recentRate,
+    requiredRate,
+    projectedDate
+  };
+}
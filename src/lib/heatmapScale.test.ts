@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { HEATMAP_LEVELS, buildHeatmapScale, getHeatmapLegend, getHeatmapLevel } from './heatmapScale';
+
+describe('buildHeatmapScale', () => {
+  it('leaves out days with nothing gained', () => {
+    expect(buildHeatmapScale([0, -1, 0], 'quantile')).toEqual({ type: 'quantile', bounds: [], max: 0 });
+    expect(buildHeatmapScale(Float64Array.from([0, 1, 2, 3, 4, 5, 6, 7, 8]), 'quantile').bounds).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('gives each quantile level the same number of days', () => {
+    const scale = buildHeatmapScale([16, 2, 4, 6, 8, 10, 12, 14, 1, 3, 5, 7, 9, 11, 13, 15], 'quantile');
+
+    expect(scale.bounds).toEqual([2, 4, 6, 8, 10, 12, 14]);
+    expect(scale.max).toBe(16);
+  });
+
+  it('repeats quantile bounds for repeated values', () => {
+    const scale = buildHeatmapScale([5, 5, 5, 5, 5, 5, 10, 10], 'quantile');
+
+    expect(scale.bounds).toEqual([5, 5, 5, 5, 5, 5, 10]);
+    expect(getHeatmapLevel(5, scale)).toBe(1);
+    expect(getHeatmapLevel(10, scale)).toBe(7);
+  });
+
+  it('steps evenly from zero to the best day on a linear scale', () => {
+    const scale = buildHeatmapScale([800, 50], 'linear');
+
+    expect(scale.bounds).toEqual([100, 200, 300, 400, 500, 600, 700]);
+    expect(getHeatmapLevel(50, scale)).toBe(1);
+    expect(getHeatmapLevel(100, scale)).toBe(1);
+    expect(getHeatmapLevel(101, scale)).toBe(2);
+    expect(getHeatmapLevel(800, scale)).toBe(HEATMAP_LEVELS);
+  });
+
+  it('steps evenly between the smallest and largest day on a log scale', () => {
+    const scale = buildHeatmapScale([1, 1, 1_000, 100_000_000], 'log');
+
+    expect(scale.bounds.map(bound => Math.log10(bound))).toEqual([1, 2, 3, 4, 5, 6, 7].map(power => expect.closeTo(power)));
+    expect(getHeatmapLevel(1, scale)).toBe(1);
+    expect(getHeatmapLevel(500, scale)).toBe(3);
+  });
+
+  it('puts every day in the first log level when all days are the same', () => {
+    const scale = buildHeatmapScale([50, 0, 50, 50], 'log');
+
+    expect(scale.bounds).toEqual(new Array(HEATMAP_LEVELS - 1).fill(50));
+    expect(getHeatmapLevel(50, scale)).toBe(1);
+  });
+});
+
+describe('getHeatmapLevel', () => {
+  it('is 0 for nothing gained and the top level above every bound', () => {
+    const scale = buildHeatmapScale([800], 'linear');
+
+    expect(getHeatmapLevel(0, scale)).toBe(0);
+    expect(getHeatmapLevel(-5, scale)).toBe(0);
+    expect(getHeatmapLevel(10_000, scale)).toBe(HEATMAP_LEVELS);
+  });
+});
+
+describe('getHeatmapLegend', () => {
+  it('covers zero to the best day without gaps', () => {
+    expect(getHeatmapLegend(buildHeatmapScale([800], 'linear'))).toEqual(
+      Array.from({ length: HEATMAP_LEVELS }, (_, i) => ({ level: i + 1, from: i * 100, to: (i + 1) * 100 }))
+    );
+  });
+
+  it('skips levels that repeated quantile bounds leave empty', () => {
+    const scale = buildHeatmapScale([5, 5, 5, 5, 5, 5, 10, 10], 'quantile');
+
+    expect(getHeatmapLegend(scale)).toEqual([
+      { level: 1, from: 0, to: 5 },
+      { level: 7, from: 5, to: 10 }
+    ]);
+  });
+
+  it('has one level when every day is the same', () => {
+    expect(getHeatmapLegend(buildHeatmapScale([3, 3, 3], 'quantile'))).toEqual([{ level: 1, from: 0, to: 3 }]);
+    expect(getHeatmapLegend(buildHeatmapScale([50, 50], 'log'))).toEqual([{ level: 1, from: 0, to: 50 }]);
+  });
+
+  it('is empty without gains', () => {
+    expect(getHeatmapLegend(buildHeatmapScale([], 'log'))).toEqual([]);
+  });
+});
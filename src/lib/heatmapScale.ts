@@ -0,0 +1,137 @@
+// Color scales for the daily heatmap. Levels are worked out from the values
+// being shown, so XP, boss kills and clue counts each get a useful spread.
+
+export type HeatmapScaleType = 'quantile' | 'linear' | 'log';
+
+export type HeatmapPaletteId = 'green' | 'blue' | 'purple' | 'orange';
+
+type Rgb = [number, number, number];
+
+export interface HeatmapScale {
+  type: HeatmapScaleType;
+  // Upper bound of each level but the last, ascending; anything above the
+  // last bound is in the top level
+  bounds: number[];
+  // Largest value shown
+  max: number;
+}
+
+export interface HeatmapLegendLevel {
+  // 1-based; 0 is the empty color
+  level: number;
+  // Values in (from, to]
+  from: number;
+  to: number;
+}
+
+export const HEATMAP_SCALES: { id: HeatmapScaleType; label: string; description: string }[] = [
+  { id: 'quantile', label: 'Quantile', description: 'Each color covers the same number of active days' },
+  { id: 'linear', label: 'Linear', description: 'Even steps from zero to the best day' },
+  { id: 'log', label: 'Log', description: 'Even steps on a log scale, so quiet days still show' }
+];
+
+export const DEFAULT_HEATMAP_SCALE: HeatmapScaleType = 'quantile';
+
+// Colors for each level, lightest first, with a darker set for dark mode
+export const HEATMAP_LEVELS = 8;
+
+// Tailwind shades; light mode runs 100-800, dark mode 950-300
+const LIGHT_SHADES = [100, 200, 300, 400, 500, 600, 700, 800];
+const DARK_SHADES = [950, 900, 800, 700, 600, 500, 400, 300];
+
+const PALETTE_SHADES: Record<HeatmapPaletteId, Record<number, Rgb>> = {
+  green: {
+    100: [220, 252, 231], 200: [187, 247, 208], 300: [134, 239, 172], 400: [74, 222, 128], 500: [34, 197, 94],
+    600: [22, 163, 74], 700: [21, 128, 61], 800: [22, 101, 52], 900: [20, 83, 45], 950: [5, 46, 22]
+  },
+  blue: {
+    100: [219, 234, 254], 200: [191, 219, 254], 300: [147, 197, 253], 400: [96, 165, 250], 500: [59, 130, 246],
+    600: [37, 99, 235], 700: [29, 78, 216], 800: [30, 64, 175], 900: [30, 58, 138], 950: [23, 37, 84]
+  },
+  purple: {
+    100: [243, 232, 255], 200: [233, 213, 255], 300: [216, 180, 254], 400: [192, 132, 252], 500: [168, 85, 247],
+    600: [147, 51, 234], 700: [126, 34, 206], 800: [107, 33, 168], 900: [88, 28, 135], 950: [59, 7, 100]
+  },
+  orange: {
+    100: [255, 237, 213], 200: [254, 215, 170], 300: [253, 186, 116], 400: [251, 146, 60], 500: [249, 115, 22],
+    600: [234, 88, 12], 700: [194, 65, 12], 800: [154, 52, 18], 900: [124, 45, 18], 950: [67, 20, 7]
+  }
+};
+
+export const HEATMAP_PALETTES: { id: HeatmapPaletteId; label: string }[] = [
+  { id: 'green', label: 'Green' },
+  { id: 'blue', label: 'Blue' },
+  { id: 'purple', label: 'Purple' },
+  { id: 'orange', label: 'Orange' }
+];
+
+export const DEFAULT_HEATMAP_PALETTE: HeatmapPaletteId = 'green';
+
+// gray-100 / gray-800
+const EMPTY_LIGHT: Rgb = [243, 244, 246];
+const EMPTY_DARK: Rgb = [31, 41, 55];
+
+export function isHeatmapScaleType(value: string): value is HeatmapScaleType {
+  return HEATMAP_SCALES.some(scale => scale.id === value);
+}
+
+export function isHeatmapPaletteId(value: string): value is HeatmapPaletteId {
+  return HEATMAP_PALETTES.some(palette => palette.id === value);
+}
+
+// Bounds from the days that gained anything; days with nothing stay empty
+export function buildHeatmapScale(values: ArrayLike<number>, type: HeatmapScaleType): HeatmapScale {
+  const positive = Array.from(values).filter(value => value > 0).sort((a, b) => a - b);
+  if (positive.length === 0) return { type, bounds: [], max: 0 };
+
+  const min = positive[0];
+  const max = positive[positive.length - 1];
+  const steps = Array.from({ length: HEATMAP_LEVELS - 1 }, (_, i) => (i + 1) / HEATMAP_LEVELS);
+
+  switch (type) {
+    case 'quantile':
+      return { type, bounds: steps.map(step => positive[Math.ceil(step * positive.length) - 1]), max };
+    case 'linear':
+      return { type, bounds: steps.map(step => step * max), max };
+    case 'log': {
+      if (min === max) return { type, bounds: steps.map(() => max), max };
+      const logMin = Math.log(min);
+      const logMax = Math.log(max);
+      return { type, bounds: steps.map(step => Math.exp(logMin + step * (logMax - logMin))), max };
+    }
+  }
+}
+
+// 0 for nothing gained, otherwise 1 to HEATMAP_LEVELS
+export function getHeatmapLevel(value: number, scale: HeatmapScale): number {
+  if (value <= 0) return 0;
+  const index = scale.bounds.findIndex(bound => value <= bound);
+  return index === -1 ? HEATMAP_LEVELS : index + 1;
+}
+
+export function getHeatmapLevelColor(level: number, palette: HeatmapPaletteId, isDarkMode: boolean): Rgb {
+  if (level <= 0) return isDarkMode ? EMPTY_DARK : EMPTY_LIGHT;
+  const shades = isDarkMode ? DARK_SHADES : LIGHT_SHADES;
+  return PALETTE_SHADES[palette][shades[Math.min(level, HEATMAP_LEVELS) - 1]];
+}
+
+export function getHeatmapColor(value: number, scale: HeatmapScale, palette: HeatmapPaletteId, isDarkMode: boolean): Rgb {
+  return getHeatmapLevelColor(getHeatmapLevel(value, scale), palette, isDarkMode);
+}
+
+// What each level covers, for legend titles; levels no day falls in are
+// skipped when bounds repeat (quantiles over a few distinct values)
+export function getHeatmapLegend(scale: HeatmapScale): HeatmapLegendLevel[] {
+  if (scale.max <= 0) return [];
+
+  const legend: HeatmapLegendLevel[] = [];
+  let from = 0;
+  for (let level = 1; level <= HEATMAP_LEVELS; level++) {
+    const to = level <= scale.bounds.length ? scale.bounds[level - 1] : scale.max;
+    if (to > from || level === 1) {
+      legend.push({ level, from, to });
+      from = to;
+    }
+  }
+  return legend;
+}
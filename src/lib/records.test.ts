@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { HiscoreDelta } from '@/types/api';
+import { findRecords } from './records';
+
+const HOUR = 3_600_000;
+
+// Local time; the tests run in America/New_York, where DST starts at 2am on
+// Sunday Mar 9 2025, so that day is 23 hours long
+const at = (month: number, day: number, hour = 0) => new Date(2025, month - 1, day, hour).getTime();
+
+// Attack XP (Overall is the same) and Zulrah kills at a local time
+function createDelta(time: number, attack: number, kills = 0): HiscoreDelta {
+  return {
+    id: `delta-${time}`,
+    userId: 'user-1',
+    snapshotId: `snapshot-${time}`,
+    previousSnapshotId: '',
+    timestamp: new Date(time).toISOString(),
+    skills: [
+      { activityType: 'OVERALL', name: 'Overall', experienceGain: attack, levelGain: 0 },
+      { activityType: 'ATTACK', name: 'Attack', experienceGain: attack, levelGain: 0 }
+    ],
+    bosses: [{ activityType: 'ZULRAH', name: 'Zulrah', killCountGain: kills }]
+  };
+}
+
+const DELTAS = [
+  createDelta(at(2, 28, 12), 1_500),
+  createDelta(at(3, 7, 12), 1_000),
+  // Saturday night and the early hours of Sunday fall in different weeks
+  createDelta(at(3, 8, 23), 2_000),
+  createDelta(at(3, 9, 3), 3_000, 1),
+  createDelta(at(3, 9, 20), 4_000, 2),
+  createDelta(at(3, 10, 20), 500),
+  // Tracked, but nothing gained
+  createDelta(at(3, 11, 12), 0),
+  createDelta(at(3, 13, 10), 600)
+];
+
+describe('findRecords', () => {
+  const records = findRecords([...DELTAS].reverse());
+
+  it('lists skills, then bosses, that gained anything', () => {
+    expect(records.activities.map(record => [record.activityType, record.category])).toEqual([
+      ['OVERALL', 'skill'],
+      ['ATTACK', 'skill'],
+      ['ZULRAH', 'boss']
+    ]);
+  });
+
+  it('finds the best local day across a DST change', () => {
+    const attack = records.activities.find(record => record.activityType === 'ATTACK');
+
+    expect(attack?.best.day).toEqual({ start: at(3, 9), end: at(3, 10), gain: 7_000 });
+    expect(at(3, 10) - at(3, 9)).toBe(23 * HOUR);
+  });
+
+  it('splits weeks at Sunday midnight', () => {
+    const attack = records.activities.find(record => record.activityType === 'ATTACK');
+    const zulrah = records.activities.find(record => record.activityType === 'ZULRAH');
+
+    // Mar 9-15 against 3,000 for Mar 2-8
+    expect(attack?.best.week).toEqual({ start: at(3, 9), end: at(3, 16), gain: 8_100 });
+    expect(zulrah?.best.week).toEqual({ start: at(3, 9), end: at(3, 16), gain: 3 });
+  });
+
+  it('finds the best calendar month', () => {
+    const attack = records.activities.find(record => record.activityType === 'ATTACK');
+    expect(attack?.best.month).toEqual({ start: at(3, 1), end: at(4, 1), gain: 11_100 });
+  });
+
+  it('counts the longest run of active days', () => {
+    // Mar 7-10; Mar 11 only has an empty delta
+    expect(records.longestStreak).toEqual({ start: at(3, 7), end: at(3, 11), days: 4 });
+  });
+
+  it('measures the longest gap between active deltas', () => {
+    expect(records.longestIdleGap).toEqual({ start: at(2, 28, 12), end: at(3, 7, 12), duration: 7 * 24 * HOUR });
+  });
+
+  it('ignores empty deltas when measuring idle gaps', () => {
+    const { longestIdleGap } = findRecords(DELTAS.slice(5));
+    expect(longestIdleGap).toEqual({ start: at(3, 10, 20), end: at(3, 13, 10), duration: 62 * HOUR });
+  });
+
+  it('measures gaps in elapsed time across a DST change', () => {
+    // 11pm to 3am over the lost hour
+    const { longestIdleGap } = findRecords(DELTAS.slice(2, 4));
+    expect(longestIdleGap?.duration).toBe(3 * HOUR);
+  });
+
+  it('finds the biggest single jump in overall XP and its day', () => {
+    expect(records.biggestJump).toEqual({ timestamp: at(3, 9, 20), gain: 4_000, start: at(3, 9), end: at(3, 10) });
+  });
+
+  it('has no records without gains', () => {
+    expect(findRecords([])).toEqual({ activities: [], longestStreak: null, longestIdleGap: null, biggestJump: null });
+    expect(findRecords([createDelta(at(3, 11), 0)])).toEqual({
+      activities: [],
+      longestStreak: null,
+      longestIdleGap: null,
+      biggestJump: null
+    });
+  });
+});
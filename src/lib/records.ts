@@ -0,0 +1,197 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { ActivityType, HiscoreDelta } from '@/types/api';
+import { getActivityName, type ActivityCategory } from './activityRegistry';
+import { bucketDeltas } from './timeBuckets';
+
+// Personal records found in a player's deltas: the best day, week and month
+// for every skill and boss, plus streaks, idle gaps and the biggest single
+// jump. Periods are local calendar buckets (see timeBuckets.ts).
+
+export type RecordPeriod = 'day' | 'week' | 'month';
+
+export const RECORD_PERIODS: { id: RecordPeriod; label: string }[] = [
+  { id: 'day', label: 'Best Day' },
+  { id: 'week', label: 'Best Week' },
+  { id: 'month', label: 'Best Month' }
+];
+
+// A span of time a record covers, in epoch ms; [start, end)
+export interface RecordSpan {
+  start: number;
+  end: number;
+}
+
+export interface PeriodRecord extends RecordSpan {
+  gain: number;
+}
+
+export interface ActivityRecords {
+  activityType: ActivityType;
+  name: string;
+  category: Extract<ActivityCategory, 'skill' | 'boss'>;
+  best: Record<RecordPeriod, PeriodRecord>;
+}
+
+export interface StreakRecord extends RecordSpan {
+  days: number;
+}
+
+export interface IdleGapRecord extends RecordSpan {
+  // Between the two changes either side of the gap
+  duration: number;
+}
+
+export interface JumpRecord extends RecordSpan {
+  timestamp: number;
+  // Overall XP in the one delta
+  gain: number;
+}
+
+export interface PlayerRecords {
+  // Skills first, then bosses; only those that gained anything
+  activities: ActivityRecords[];
+  longestStreak: StreakRecord | null;
+  longestIdleGap: IdleGapRecord | null;
+  biggestJump: JumpRecord | null;
+}
+
+interface Gain {
+  activityType: ActivityType;
+  name: string;
+  category: ActivityRecords['category'];
+  gain: number;
+}
+
+function getGains(delta: HiscoreDelta): Gain[] {
+  return [
+    ...(delta.skills ?? []).map((skill): Gain => ({
+      activityType: skill.activityType,
+      name: skill.name,
+      category: 'skill',
+      gain: skill.experienceGain
+    })),
+    ...(delta.bosses ?? []).map((boss): Gain => ({
+      activityType: boss.activityType,
+      name: boss.name,
+      category: 'boss',
+      gain: boss.killCountGain
+    }))
+  ];
+}
+
+// Anything gained at all, activities (clues, minigames) included
+function isActive(delta: HiscoreDelta): boolean {
+  return getGains(delta).some(gain => gain.gain > 0) ||
+    (delta.activities ?? []).some(activity => activity.scoreGain > 0);
+}
+
+function findBestPeriods(deltas: HiscoreDelta[]): ActivityRecords[] {
+  const seen = new Map<ActivityType, Gain>();
+  const best: Record<RecordPeriod, Map<ActivityType, PeriodRecord>> = {
+    day: new Map(),
+    week: new Map(),
+    month: new Map()
+  };
+
+  for (const { id: period } of RECORD_PERIODS) {
+    for (const bucket of bucketDeltas(deltas, period)) {
+      const totals = new Map<ActivityType, number>();
+      for (const delta of bucket.deltas) {
+        for (const gain of getGains(delta)) {
+          if (gain.gain <= 0) continue;
+          totals.set(gain.activityType, (totals.get(gain.activityType) ?? 0) + gain.gain);
+          if (!seen.has(gain.activityType)) seen.set(gain.activityType, gain);
+        }
+      }
+
+      for (const [activityType, gain] of totals) {
+        const current = best[period].get(activityType);
+        if (!current || gain > current.gain) {
+          best[period].set(activityType, { start: bucket.start, end: bucket.end, gain });
+        }
+      }
+    }
+  }
+
+  const records: ActivityRecords[] = [];
+  for (const { activityType, name, category } of seen.values()) {
+    // Every period sees the same gains, so all three are set together
+    const day = best.day.get(activityType);
+    const week = best.week.get(activityType);
+    const month = best.month.get(activityType);
+    if (!day || !week || !month) continue;
+
+    records.push({ activityType, name: name || getActivityName(activityType), category, best: { day, week, month } });
+  }
+
+  return [
+    ...records.filter(record => record.category === 'skill'),
+    ...records.filter(record => record.category === 'boss')
+  ];
+}
+
+// Consecutive local days with at least one active delta
+function findLongestStreak(activeTimes: number[]): StreakRecord | null {
+  if (activeTimes.length === 0) return null;
+
+  let best: StreakRecord | null = null;
+  let streakStart = startOfDay(activeTimes[0]).getTime();
+  let lastDay = streakStart;
+
+  const close = () => {
+    const days = differenceInCalendarDays(lastDay, streakStart) + 1;
+    if (!best || days > best.days) {
+      best = { start: streakStart, end: addDays(lastDay, 1).getTime(), days };
+    }
+  };
+
+  for (const time of activeTimes) {
+    const day = startOfDay(time).getTime();
+    if (day === lastDay) continue;
+    if (differenceInCalendarDays(day, lastDay) > 1) {
+      close();
+      streakStart = day;
+    }
+    lastDay = day;
+  }
+  close();
+
+  return best;
+}
+
+function findLongestIdleGap(activeTimes: number[]): IdleGapRecord | null {
+  let best: IdleGapRecord | null = null;
+  for (let i = 1; i < activeTimes.length; i++) {
+    const duration = activeTimes[i] - activeTimes[i - 1];
+    if (duration > 0 && (!best || duration > best.duration)) {
+      best = { start: activeTimes[i - 1], end: activeTimes[i], duration };
+    }
+  }
+  return best;
+}
+
+// The span is the jump's local day, which is what the Gains Tracker link shows
+function findBiggestJump(deltas: HiscoreDelta[]): JumpRecord | null {
+  let best: JumpRecord | null = null;
+  for (const delta of deltas) {
+    const gain = delta.skills?.find(skill => skill.activityType === 'OVERALL')?.experienceGain ?? 0;
+    if (gain <= 0 || (best && gain <= best.gain)) continue;
+
+    const timestamp = new Date(delta.timestamp).getTime();
+    const start = startOfDay(timestamp).getTime();
+    best = { timestamp, gain, start, end: addDays(start, 1).getTime() };
+  }
+  return best;
+}
+
+export function findRecords(deltas: HiscoreDelta[]): PlayerRecords {
+  const sorted = [...deltas].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const activeTimes = sorted.filter(isActive).map(delta => new Date(delta.timestamp).getTime());
+
+  return {
+    activities: findBestPeriods(sorted),
+    longestStreak: findLongestStreak(activeTimes),
+    longestIdleGap: findLongestIdleGap(activeTimes),
+    biggestJump: findBiggestJump(sorted)
+  };
+}
@@ -0,0 +1,269 @@
+// Layered response cache: an in-memory LRU in front of IndexedDB.
+// Entries are fresh until `freshUntil`, then served stale (while the caller
+// revalidates) until `staleUntil`, after which they are treated as a miss.
+
+export interface CachePolicy {
+  freshMs: number;
+  staleMs: number;
+}
+
+export interface CacheLookup<T> {
+  value: T;
+  isStale: boolean;
+  storedAt: number;
+}
+
+export interface CacheSetOptions {
+  size: number;
+  policy: CachePolicy;
+  tags?: string[];
+}
+
+export interface ResponseCacheOptions {
+  dbName?: string;
+  memoryBudgetBytes?: number;
+  persistentBudgetBytes?: number;
+}
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  lastAccess: number;
+  tags: string[];
+}
+
+interface MemoryEntry extends CacheMeta {
+  value: unknown;
+}
+
+const DB_VERSION = 1;
+const VALUE_STORE = 'values';
+const META_STORE = 'meta';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export class ResponseCache {
+  private memory: Map<string, MemoryEntry> = new Map();
+  private memorySize = 0;
+  private memoryBudget: number;
+  private persistentBudget: number;
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor({
+    dbName = 'hazelmere-cache',
+    memoryBudgetBytes = 64 * 1024 * 1024,
+    persistentBudgetBytes = 256 * 1024 * 1024
+  }: ResponseCacheOptions = {}) {
+    this.dbName = dbName;
+    this.memoryBudget = memoryBudgetBytes;
+    this.persistentBudget = persistentBudgetBytes;
+  }
+
+  // IndexedDB is optional - private browsing or old browsers fall back to memory only
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        try {
+          const request = indexedDB.open(this.dbName, DB_VERSION);
+          request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(VALUE_STORE)) db.createObjectStore(VALUE_STORE);
+            if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => resolve(null);
+          request.onblocked = () => resolve(null);
+        } catch {
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async get<T>(key: string): Promise<CacheLookup<T> | null> {
+    const now = Date.now();
+
+    const memoryEntry = this.memory.get(key);
+    if (memoryEntry) {
+      if (memoryEntry.staleUntil <= now) {
+        this.deleteFromMemory(key);
+      } else {
+        // Re-insert to keep Map iteration order as LRU order
+        this.memory.delete(key);
+        memoryEntry.lastAccess = now;
+        this.memory.set(key, memoryEntry);
+        return { value: memoryEntry.value as T, isStale: memoryEntry.freshUntil <= now, storedAt: memoryEntry.storedAt };
+      }
+    }
+
+    const db = await this.openDb();
+    if (!db) return null;
+
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      const meta = await requestToPromise<CacheMeta | undefined>(tx.objectStore(META_STORE).get(key));
+      if (!meta) return null;
+
+      if (meta.staleUntil <= now) {
+        tx.objectStore(META_STORE).delete(key);
+        tx.objectStore(VALUE_STORE).delete(key);
+        return null;
+      }
+
+      const value = await requestToPromise<T | undefined>(tx.objectStore(VALUE_STORE).get(key));
+      if (value === undefined) return null;
+
+      meta.lastAccess = now;
+      tx.objectStore(META_STORE).put(meta);
+
+      // Promote into memory so the next read skips IndexedDB
+      this.setInMemory({ ...meta, value });
+      return { value, isStale: meta.freshUntil <= now, storedAt: meta.storedAt };
+    } catch (error) {
+      console.warn('Response cache read failed:', key, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, { size, policy, tags = [] }: CacheSetOptions): Promise<void> {
+    const now = Date.now();
+    const meta: CacheMeta = {
+      key,
+      size,
+      storedAt: now,
+      freshUntil: now + policy.freshMs,
+      staleUntil: now + policy.staleMs,
+      lastAccess: now,
+      tags
+    };
+
+    this.setInMemory({ ...meta, value });
+
+    // Entries larger than the whole persistent budget are only kept in memory
+    if (size > this.persistentBudget) return;
+
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      tx.objectStore(VALUE_STORE).put(value, key);
+      tx.objectStore(META_STORE).put(meta);
+      await transactionDone(tx);
+      await this.enforcePersistentBudget(db);
+    } catch (error) {
+      console.warn('Response cache write failed:', key, error);
+    }
+  }
+
+  // Remove entries whose key or tags match. With no predicate, clears everything.
+  async invalidate(predicate?: (key: string, tags: string[]) => boolean): Promise<void> {
+    for (const entry of Array.from(this.memory.values())) {
+      if (!predicate || predicate(entry.key, entry.tags)) {
+        this.deleteFromMemory(entry.key);
+      }
+    }
+
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      if (!predicate) {
+        tx.objectStore(VALUE_STORE).clear();
+        tx.objectStore(META_STORE).clear();
+      } else {
+        const metas = await requestToPromise<CacheMeta[]>(tx.objectStore(META_STORE).getAll());
+        for (const meta of metas) {
+          if (predicate(meta.key, meta.tags)) {
+            tx.objectStore(VALUE_STORE).delete(meta.key);
+            tx.objectStore(META_STORE).delete(meta.key);
+          }
+        }
+      }
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('Response cache invalidation failed:', error);
+    }
+  }
+
+  invalidateTag(tag: string): Promise<void> {
+    return this.invalidate((_, tags) => tags.includes(tag));
+  }
+
+  clear(): Promise<void> {
+    return this.invalidate();
+  }
+
+  private setInMemory(entry: MemoryEntry) {
+    if (entry.size > this.memoryBudget) return;
+
+    this.deleteFromMemory(entry.key);
+    this.memory.set(entry.key, entry);
+    this.memorySize += entry.size;
+
+    // Evict least recently used entries (front of the Map) until within budget
+    for (const key of this.memory.keys()) {
+      if (this.memorySize <= this.memoryBudget) break;
+      this.deleteFromMemory(key);
+    }
+  }
+
+  private deleteFromMemory(key: string) {
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memorySize -= existing.size;
+      this.memory.delete(key);
+    }
+  }
+
+  private async enforcePersistentBudget(db: IDBDatabase) {
+    const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+    const metas = await requestToPromise<CacheMeta[]>(tx.objectStore(META_STORE).getAll());
+    const now = Date.now();
+
+    let total = 0;
+    const live: CacheMeta[] = [];
+    for (const meta of metas) {
+      if (meta.staleUntil <= now) {
+        tx.objectStore(VALUE_STORE).delete(meta.key);
+        tx.objectStore(META_STORE).delete(meta.key);
+      } else {
+        total += meta.size;
+        live.push(meta);
+      }
+    }
+
+    live.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const meta of live) {
+      if (total <= this.persistentBudget) break;
+      tx.objectStore(VALUE_STORE).delete(meta.key);
+      tx.objectStore(META_STORE).delete(meta.key);
+      total -= meta.size;
+    }
+
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { HiscoreDelta } from '@/types/api';
+import { bucketDeltas, formatBucketLabel, getBucketEnd, type DeltaBucket } from './timeBuckets';
+
+const HOUR = 3_600_000;
+
+// Local time; the tests run in America/New_York, where DST starts at 2am on
+// Mar 9 2025 and ends at 2am on Nov 2 2025
+const at = (year: number, month: number, day: number, hour = 0) => new Date(year, month - 1, day, hour).getTime();
+
+function createDelta(time: number): HiscoreDelta {
+  return {
+    id: `delta-${time}`,
+    userId: 'user-1',
+    snapshotId: '',
+    previousSnapshotId: '',
+    timestamp: new Date(time).toISOString(),
+    skills: []
+  };
+}
+
+const toTimes = (buckets: DeltaBucket[]) =>
+  buckets.map(bucket => ({
+    start: bucket.start,
+    end: bucket.end,
+    deltas: bucket.deltas.map(delta => new Date(delta.timestamp).getTime())
+  }));
+
+describe('bucketDeltas across DST', () => {
+  it('gives the day clocks go forward 23 hours', () => {
+    const deltas = [at(2025, 3, 9, 3), at(2025, 3, 8, 23), at(2025, 3, 10), at(2025, 3, 9, 1)].map(createDelta);
+
+    expect(toTimes(bucketDeltas(deltas, 'day'))).toEqual([
+      { start: at(2025, 3, 8), end: at(2025, 3, 9), deltas: [at(2025, 3, 8, 23)] },
+      { start: at(2025, 3, 9), end: at(2025, 3, 10), deltas: [at(2025, 3, 9, 3), at(2025, 3, 9, 1)] },
+      { start: at(2025, 3, 10), end: at(2025, 3, 11), deltas: [at(2025, 3, 10)] }
+    ]);
+    expect(at(2025, 3, 10) - at(2025, 3, 9)).toBe(23 * HOUR);
+  });
+
+  it('gives the day clocks go back 25 hours, with both 1:30s in it', () => {
+    // 1:30am EDT, then 1:30am EST an hour later
+    const deltas = ['2025-11-02T05:30:00Z', '2025-11-02T06:30:00Z'].map(iso => createDelta(Date.parse(iso)));
+    const buckets = bucketDeltas(deltas, 'day');
+
+    expect(buckets).toHaveLength(1);
+    expect(buckets[0].deltas).toHaveLength(2);
+    expect(buckets[0].start).toBe(at(2025, 11, 2));
+    expect(buckets[0].end - buckets[0].start).toBe(25 * HOUR);
+  });
+
+  it('starts weeks at local Sunday midnight', () => {
+    const buckets = bucketDeltas([at(2025, 3, 8, 23), at(2025, 3, 9, 3)].map(createDelta), 'week');
+
+    expect(buckets.map(bucket => bucket.start)).toEqual([at(2025, 3, 2), at(2025, 3, 9)]);
+    expect(buckets[1].end).toBe(at(2025, 3, 16));
+    expect(buckets[1].end - buckets[1].start).toBe(7 * 24 * HOUR - HOUR);
+  });
+});
+
+describe('bucketDeltas across a year boundary', () => {
+  const deltas = [at(2026, 1, 1, 1), at(2025, 12, 31, 22)].map(createDelta);
+
+  it('splits days, months and years at local midnight', () => {
+    expect(bucketDeltas(deltas, 'day').map(bucket => bucket.start)).toEqual([at(2025, 12, 31), at(2026, 1, 1)]);
+    expect(bucketDeltas(deltas, 'month').map(bucket => bucket.start)).toEqual([at(2025, 12, 1), at(2026, 1, 1)]);
+    expect(toTimes(bucketDeltas(deltas, 'year'))).toEqual([
+      { start: at(2025, 1, 1), end: at(2026, 1, 1), deltas: [at(2025, 12, 31, 22)] },
+      { start: at(2026, 1, 1), end: at(2027, 1, 1), deltas: [at(2026, 1, 1, 1)] }
+    ]);
+  });
+
+  it('keeps the week that spans New Year together', () => {
+    expect(toTimes(bucketDeltas(deltas, 'week'))).toEqual([
+      { start: at(2025, 12, 28), end: at(2026, 1, 4), deltas: [at(2026, 1, 1, 1), at(2025, 12, 31, 22)] }
+    ]);
+  });
+});
+
+describe('formatBucketLabel', () => {
+  const label = (start: number, size: Parameters<typeof getBucketEnd>[1]) =>
+    formatBucketLabel(start, getBucketEnd(start, size), size);
+
+  it('labels days, months and years', () => {
+    expect(label(at(2025, 3, 9), 'day')).toBe('Mar 9, 2025');
+    expect(label(at(2025, 3, 1), 'month')).toBe('March 2025');
+    expect(label(at(2025, 1, 1), 'year')).toBe('2025');
+  });
+
+  it('labels a week by its first and last day across DST changes', () => {
+    expect(label(at(2025, 3, 9), 'week')).toBe('Mar 9 - Mar 15, 2025');
+    expect(label(at(2025, 11, 2), 'week')).toBe('Nov 2 - Nov 8, 2025');
+  });
+
+  it('gives both years for a week that spans New Year', () => {
+    expect(label(at(2025, 12, 28), 'week')).toBe('Dec 28, 2025 - Jan 3, 2026');
+  });
+});
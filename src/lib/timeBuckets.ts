@@ -0,0 +1,129 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subMilliseconds
+} from 'date-fns';
+import type { AggregationWindow, HiscoreDelta } from '@/types/api';
+
+// Calendar buckets for summing gains, in the browser's local timezone.
+// Weeks start on Sunday to line up with the heatmap's columns.
+
+export type BucketSize = 'day' | 'week' | 'month' | 'year';
+
+export type BucketSelection = 'auto' | BucketSize;
+
+export const BUCKET_SELECTIONS: { id: BucketSelection; label: string }[] = [
+  { id: 'auto', label: 'Auto' },
+  { id: 'day', label: 'Day' },
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+  { id: 'year', label: 'Year' }
+];
+
+export interface DeltaBucket {
+  // Epoch ms; the bucket covers [start, end)
+  start: number;
+  end: number;
+  deltas: HiscoreDelta[];
+}
+
+const AGGREGATION_BUCKET_SIZES: Record<AggregationWindow, BucketSize> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month'
+};
+
+// Determine aggregation window based on date range
+// < 1 year: daily, 1-2 years: weekly, > 2 years: monthly
+export function getAggregationWindow(startTime: Date, endTime: Date): AggregationWindow {
+  const daysDiff = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60 * 24);
+
+  if (daysDiff > 730) { // > 2 years
+    return 'monthly';
+  } else if (daysDiff > 365) { // 1-2 years
+    return 'weekly';
+  }
+  return 'daily';
+}
+
+export function isBucketSelection(value: string): value is BucketSelection {
+  return BUCKET_SELECTIONS.some(selection => selection.id === value);
+}
+
+// 'auto' follows the same thresholds the API uses to aggregate snapshots
+export function resolveBucketSize(selection: BucketSelection, startTime: Date, endTime: Date): BucketSize {
+  if (selection !== 'auto') return selection;
+  return AGGREGATION_BUCKET_SIZES[getAggregationWindow(startTime, endTime)];
+}
+
+export function getBucketStart(time: number, size: BucketSize): number {
+  switch (size) {
+    case 'day':
+      return startOfDay(time).getTime();
+    case 'week':
+      return startOfWeek(time).getTime();
+    case 'month':
+      return startOfMonth(time).getTime();
+    case 'year':
+      return startOfYear(time).getTime();
+  }
+}
+
+// Calendar arithmetic rather than fixed lengths, so DST changes and month
+// lengths are respected
+export function getBucketEnd(start: number, size: BucketSize): number {
+  switch (size) {
+    case 'day':
+      return addDays(start, 1).getTime();
+    case 'week':
+      return addWeeks(start, 1).getTime();
+    case 'month':
+      return addMonths(start, 1).getTime();
+    case 'year':
+      return addYears(start, 1).getTime();
+  }
+}
+
+// Group deltas by the bucket their timestamp falls in; empty buckets are
+// left out and the result is in time order
+export function bucketDeltas(deltas: HiscoreDelta[], size: BucketSize): DeltaBucket[] {
+  const buckets = new Map<number, DeltaBucket>();
+
+  for (const delta of deltas) {
+    const start = getBucketStart(new Date(delta.timestamp).getTime(), size);
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { start, end: getBucketEnd(start, size), deltas: [] };
+      buckets.set(start, bucket);
+    }
+    bucket.deltas.push(delta);
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.start - b.start);
+}
+
+// "Mar 4, 2025", "Mar 2 - Mar 8, 2025", "March 2025" or "2025"
+export function formatBucketLabel(start: number, end: number, size: BucketSize): string {
+  switch (size) {
+    case 'day':
+      return format(start, 'MMM d, yyyy');
+    case 'week': {
+      // `end` is exclusive; label the last day inside the bucket
+      const lastDay = subMilliseconds(end, 1);
+      return new Date(start).getFullYear() === lastDay.getFullYear()
+        ? `${format(start, 'MMM d')} - ${format(lastDay, 'MMM d, yyyy')}`
+        : `${format(start, 'MMM d, yyyy')} - ${format(lastDay, 'MMM d, yyyy')}`;
+    }
+    case 'month':
+      return format(start, 'MMMM yyyy');
+    case 'year':
+      return format(start, 'yyyy');
+  }
+}
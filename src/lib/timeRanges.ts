@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+
+export interface TimeRange {
+  startTime: Date;
+  endTime: Date;
+  label: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Presets are keyed by a URL-friendly ID so links stay relative to "now"
+// instead of freezing the dates they were created with
+export const PRESET_RANGES: (TimeRange & { id: string })[] = [
+  {
+    id: 'week',
+    startTime: new Date(Date.now() - 7 * DAY_MS),
+    endTime: new Date(),
+    label: 'Last Week'
+  },
+  {
+    id: 'month',
+    startTime: new Date(Date.now() - 30 * DAY_MS),
+    endTime: new Date(),
+    label: 'Last Month'
+  },
+  {
+    id: '3months',
+    startTime: new Date(Date.now() - 90 * DAY_MS),
+    endTime: new Date(),
+    label: 'Last 3 Months'
+  },
+  {
+    id: 'year',
+    startTime: new Date(Date.now() - 365 * DAY_MS),
+    endTime: new Date(),
+    label: 'Last Year'
+  },
+  {
+    id: 'all',
+    startTime: new Date('2021-10-01'),
+    endTime: new Date(),
+    label: 'All Time'
+  }
+];
+
+// Default time range is last year
+export const DEFAULT_TIME_RANGE: TimeRange = PRESET_RANGES[3];
+
+export function formatCustomRangeLabel(startTime: Date, endTime: Date): string {
+  return `${format(startTime, 'MMM d, yyyy')} - ${format(endTime, 'MMM d, yyyy')}`;
+}
+
+export function createCustomRange(startTime: Date, endTime: Date): TimeRange {
+  return { startTime, endTime, label: formatCustomRangeLabel(startTime, endTime) };
+}
+
+// Read a range from `?range=<preset>` or `?start=&end=`, falling back to the default
+export function parseTimeRange(range: string | null, start: string | null, end: string | null): TimeRange {
+  const preset = PRESET_RANGES.find(candidate => candidate.id === range);
+  if (preset) return preset;
+
+  if (start && end) {
+    const startTime = new Date(start);
+    const endTime = new Date(end);
+    if (!isNaN(startTime.getTime()) && !isNaN(endTime.getTime())) {
+      return createCustomRange(startTime, endTime);
+    }
+  }
+
+  return DEFAULT_TIME_RANGE;
+}
+
+// Write a range into search params; the default range leaves the URL clean
+export function writeTimeRange(params: URLSearchParams, timeRange: TimeRange) {
+  params.delete('range');
+  params.delete('start');
+  params.delete('end');
+
+  if (timeRange.label === DEFAULT_TIME_RANGE.label) return;
+
+  const preset = PRESET_RANGES.find(range => range.label === timeRange.label);
+  if (preset) {
+    params.set('range', preset.id);
+    return;
+  }
+
+  params.set('start', timeRange.startTime.toISOString());
+  params.set('end', timeRange.endTime.toISOString());
+}
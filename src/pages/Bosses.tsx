@@ -3,9 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { BossKillChart } from '@/components/charts/BossKillChart';
 import { UserSelector } from '@/components/UserSelector';
+import { TimeRangeSelector } from '@/components/TimeRangeSelector';
 import { LoadingChart } from '@/components/ui/LoadingChart';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
-import { useSnapshots } from '@/hooks/useApi';
+import { useSnapshotInterval } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
 import { BOSS_ACTIVITY_TYPES, type ActivityType } from '@/types/api';
 import { 
   extractBossData, 
@@ -16,10 +18,14 @@ import {
 } from '@/lib/dataUtils';
 
 export function Bosses() {
-  const [userId, setUserId] = useState<string | null>(null);
+  const { userId, setUserId, timeRange, setTimeRange } = usePlayerUrlState();
   const [selectedBoss, setSelectedBoss] = useState<ActivityType>('VORKATH');
   
-  const { data: snapshots, loading, error, refetch } = useSnapshots(userId);
+  const { data: snapshots, loading, error, refetch } = useSnapshotInterval(
+    userId,
+    timeRange.startTime,
+    timeRange.endTime
+  );
 
   const bossData = snapshots ? extractBossData(snapshots, selectedBoss) : [];
   const latestSnapshot = snapshots ? getLatestSnapshot(snapshots) : null;
@@ -49,6 +55,8 @@ export function Bosses() {
 
       <UserSelector userId={userId} onUserIdChange={setUserId} />
 
+      <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+
       {error && !loading && (
         <ErrorAlert error={error} onRetry={refetch} title="Failed to load boss data" />
       )}
@@ -128,7 +136,7 @@ export function Bosses() {
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground">
-                  No data available for this boss. Make sure snapshots exist for this user.
+                  No data available for this boss. Try a different time range or make sure snapshots exist for this user.
                 </p>
               </CardContent>
             </Card>
@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowDown, ArrowLeftRight, ArrowUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { UserSelector } from '@/components/UserSelector';
+import { useSnapshotNearest } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
+import { calculateGains, type SnapshotDiffRow } from '@/lib/dataUtils';
+import type { ActivityCategory } from '@/lib/activityRegistry';
+
+type CategoryFilter = 'all' | ActivityCategory;
+
+type SortKey = 'default' | 'name' | 'oldValue' | 'newValue' | 'difference' | 'levelChange' | 'rankChange';
+
+interface SortState {
+  key: SortKey;
+  descending: boolean;
+}
+
+const CATEGORY_FILTERS: { id: CategoryFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'skill', label: 'Skills' },
+  { id: 'boss', label: 'Bosses' },
+  { id: 'activity', label: 'Activities' }
+];
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'name', label: 'Name', numeric: false },
+  { key: 'oldValue', label: 'Old', numeric: true },
+  { key: 'newValue', label: 'New', numeric: true },
+  { key: 'difference', label: 'Difference', numeric: true },
+  { key: 'levelChange', label: 'Levels', numeric: true },
+  { key: 'rankChange', label: 'Rank', numeric: true }
+];
+
+const VALUE_UNITS: Record<ActivityCategory, string> = {
+  skill: 'XP',
+  boss: 'KC',
+  activity: 'score'
+};
+
+// What a datetime-local input shows and gives back, in local time
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+function parseTime(value: string | null, fallback: Date): Date {
+  if (!value) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+function isCategoryFilter(value: string | null): value is CategoryFilter {
+  return CATEGORY_FILTERS.some(filter => filter.id === value);
+}
+
+function compareRows(a: SnapshotDiffRow, b: SnapshotDiffRow, key: Exclude<SortKey, 'default' | 'name'>): number {
+  return (a[key] ?? 0) - (b[key] ?? 0);
+}
+
+// Rows without a level or rank change are split off first, so they sort after
+// everything else either way
+function sortRows(rows: SnapshotDiffRow[], { key, descending }: SortState): SnapshotDiffRow[] {
+  if (key === 'default') return rows;
+
+  const direction = descending ? -1 : 1;
+  if (key === 'name') {
+    return [...rows].sort((a, b) => direction * a.name.localeCompare(b.name));
+  }
+
+  const withValue = rows.filter(row => row[key] !== null);
+  const withoutValue = rows.filter(row => row[key] === null);
+  return [...withValue.sort((a, b) => direction * compareRows(a, b, key)), ...withoutValue];
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+}
+
+function changeClassName(value: number | null): string {
+  if (!value) return 'text-muted-foreground';
+  return value > 0 ? 'text-green-600' : 'text-red-600 dark:text-red-400';
+}
+
+function RankCell({ row }: { row: SnapshotDiffRow }) {
+  if (row.oldRank === null && row.newRank === null) {
+    return <span className="text-muted-foreground">Unranked</span>;
+  }
+
+  return (
+    <div>
+      <div>
+        {row.oldRank?.toLocaleString() ?? '–'} → {row.newRank?.toLocaleString() ?? '–'}
+      </div>
+      {row.rankChange !== null && row.rankChange !== 0 && (
+        <div className={`text-xs ${changeClassName(row.rankChange)}`}>
+          {row.rankChange > 0 ? '▲' : '▼'} {Math.abs(row.rankChange).toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SnapshotTimeInput({ label, value, onChange, snapshotTime, loading }: {
+  label: string;
+  value: Date;
+  onChange: (value: Date) => void;
+  snapshotTime: string | null;
+  loading: boolean;
+}) {
+  return (
+    <label className="flex-1 min-w-[14rem] space-y-1">
+      <span className="text-sm font-medium">{label}</span>
+      <Input
+        type="datetime-local"
+        value={format(value, INPUT_FORMAT)}
+        onChange={e => {
+          const date = new Date(e.target.value);
+          if (!isNaN(date.getTime())) onChange(date);
+        }}
+        className="h-9"
+      />
+      <span className="block text-xs text-muted-foreground">
+        {loading
+          ? 'Finding the nearest snapshot...'
+          : snapshotTime
+            ? `Nearest snapshot: ${format(new Date(snapshotTime), 'MMM d, yyyy HH:mm')}`
+            : 'No snapshot found'}
+      </span>
+    </label>
+  );
+}
+
+export function CompareSnapshots() {
+  const { userId, setUserId, timeRange, searchParams, updateSearchParams } = usePlayerUrlState();
+  const [sort, setSort] = useState<SortState>({ key: 'default', descending: true });
+  const [changedOnly, setChangedOnly] = useState(false);
+
+  // Defaults to the ends of the shared time range so the page has something to show
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const from = useMemo(() => parseTime(fromParam, timeRange.startTime), [fromParam, timeRange]);
+  const to = useMemo(() => parseTime(toParam, timeRange.endTime), [toParam, timeRange]);
+
+  const categoryParam = searchParams.get('category');
+  const category: CategoryFilter = isCategoryFilter(categoryParam) ? categoryParam : 'all';
+
+  const {
+    data: oldSnapshot,
+    loading: oldLoading,
+    error: oldError,
+    refetch: refetchOld
+  } = useSnapshotNearest(userId, from.getTime());
+  const {
+    data: newSnapshot,
+    loading: newLoading,
+    error: newError,
+    refetch: refetchNew
+  } = useSnapshotNearest(userId, to.getTime());
+  const loading = oldLoading || newLoading;
+  const error = oldError ?? newError;
+
+  const diff = useMemo(() => calculateGains(oldSnapshot, newSnapshot), [oldSnapshot, newSnapshot]);
+  const rows = useMemo(() => {
+    if (!diff) return [];
+    const filtered = diff.filter(row =>
+      (category === 'all' || row.category === category) &&
+      (!changedOnly || row.difference !== 0 || (row.rankChange ?? 0) !== 0)
+    );
+    return sortRows(filtered, sort);
+  }, [diff, category, changedOnly, sort]);
+
+  const setTime = (key: 'from' | 'to', value: Date) => {
+    updateSearchParams(params => params.set(key, value.toISOString()));
+  };
+
+  const swapTimes = () => {
+    updateSearchParams(params => {
+      params.set('from', to.toISOString());
+      params.set('to', from.toISOString());
+    });
+  };
+
+  const setCategory = (next: CategoryFilter) => {
+    updateSearchParams(params => {
+      if (next === 'all') {
+        params.delete('category');
+      } else {
+        params.set('category', next);
+      }
+    });
+  };
+
+  // First click sorts biggest first, except for names
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, descending: !prev.descending }
+      : { key, descending: key !== 'name' });
+  };
+
+  const retry = () => {
+    if (oldError) refetchOld();
+    if (newError) refetchNew();
+  };
+
+  const sameSnapshot = oldSnapshot && newSnapshot && oldSnapshot.id === newSnapshot.id;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Compare Snapshots</h1>
+        <p className="text-muted-foreground mt-2">
+          See everything that changed between two points in time
+        </p>
+      </div>
+
+      <UserSelector userId={userId} onUserIdChange={setUserId} />
+
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <div className="flex flex-wrap items-start gap-4">
+            <SnapshotTimeInput
+              label="From"
+              value={from}
+              onChange={value => setTime('from', value)}
+              snapshotTime={oldSnapshot?.timestamp ?? null}
+              loading={oldLoading}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={swapTimes}
+              className="h-9 px-2 sm:mt-6"
+              title="Swap the two times"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+            </Button>
+            <SnapshotTimeInput
+              label="To"
+              value={to}
+              onChange={value => setTime('to', value)}
+              snapshotTime={newSnapshot?.timestamp ?? null}
+              loading={newLoading}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && !loading && (
+        <ErrorAlert error={error} onRetry={retry} title="Failed to load snapshots" />
+      )}
+
+      <Card>
+        <CardHeader className="pb-2 sm:pb-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-base sm:text-lg">Changes</CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Category">
+                {CATEGORY_FILTERS.map(filter => (
+                  <Button
+                    key={filter.id}
+                    size="sm"
+                    variant={category === filter.id ? 'default' : 'ghost'}
+                    onClick={() => setCategory(filter.id)}
+                    className="h-8 rounded-none px-2 text-xs"
+                    aria-pressed={category === filter.id}
+                  >
+                    {filter.label}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                variant={changedOnly ? 'default' : 'outline'}
+                onClick={() => setChangedOnly(!changedOnly)}
+                className="h-8 px-2 text-xs"
+                aria-pressed={changedOnly}
+              >
+                Changed only
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-2 sm:p-6 pt-0 sm:pt-0">
+          {!userId ? (
+            <p className="text-sm text-muted-foreground">Select a player to compare their snapshots.</p>
+          ) : loading && !diff ? (
+            <div className="space-y-2">
+              {Array.from({ length: 8 }, (_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+            </div>
+          ) : !diff ? (
+            <p className="text-sm text-muted-foreground">No snapshots to compare.</p>
+          ) : (
+            <>
+              {sameSnapshot && (
+                <p className="mb-3 text-sm text-muted-foreground">
+                  Both times found the same snapshot; pick times further apart.
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      {COLUMNS.map(column => (
+                        <th
+                          key={column.key}
+                          className={`py-2 px-2 font-medium ${column.numeric ? 'text-right' : 'text-left'}`}
+                          aria-sort={sort.key === column.key ? (sort.descending ? 'descending' : 'ascending') : undefined}
+                        >
+                          <button
+                            type="button"
+                            onClick={() => toggleSort(column.key)}
+                            className="inline-flex items-center gap-1 hover:text-foreground"
+                          >
+                            {column.label}
+                            {sort.key === column.key && (sort.descending
+                              ? <ArrowDown className="h-3 w-3" />
+                              : <ArrowUp className="h-3 w-3" />)}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.activityType} className="border-b last:border-0">
+                        <td className="py-2 px-2 font-medium">{row.name}</td>
+                        <td className="py-2 px-2 text-right tabular-nums">{row.oldValue.toLocaleString()}</td>
+                        <td className="py-2 px-2 text-right tabular-nums">{row.newValue.toLocaleString()}</td>
+                        <td className={`py-2 px-2 text-right tabular-nums ${changeClassName(row.difference)}`}>
+                          {formatSigned(row.difference)}
+                          <span className="ml-1 text-xs text-muted-foreground">{VALUE_UNITS[row.category]}</span>
+                        </td>
+                        <td className="py-2 px-2 text-right tabular-nums">
+                          {row.levelChange === null ? (
+                            <span className="text-muted-foreground">–</span>
+                          ) : (
+                            <div>
+                              <div>{row.oldLevel} → {row.newLevel}</div>
+                              {row.levelChange !== 0 && (
+                                <div className={`text-xs ${changeClassName(row.levelChange)}`}>
+                                  {formatSigned(row.levelChange)}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 px-2 text-right tabular-nums">
+                          <RankCell row={row} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length === 0 && (
+                  <p className="py-4 text-center text-sm text-muted-foreground">
+                    {changedOnly ? 'Nothing changed in this category.' : 'Nothing in this category.'}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
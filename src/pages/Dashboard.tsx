@@ -1,31 +1,66 @@
-import { useState } from 'react';
+import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserSelector } from '@/components/UserSelector';
+import { TimeRangeSelector } from '@/components/TimeRangeSelector';
 import { ApiStatus } from '@/components/ApiStatus';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
 import { Skeleton } from '@/components/ui/skeleton';
 import { OverallStatsChart } from '@/components/charts/OverallStatsChart';
-import { useSnapshots, useApiHealth } from '@/hooks/useApi';
-import { 
-  extractOverallData, 
-  getLatestSnapshot, 
+import { useSnapshotInterval, useSnapshotWithDeltas, useApiHealth } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
+import { useAnomalyReview } from '@/hooks/useAnomalyReview';
+import type { HiscoreSnapshot } from '@/types/api';
+import {
+  extractOverallData,
+  applyDeltasToSnapshot,
   formatNumber,
-  formatActivityTypeName 
+  formatActivityTypeName
 } from '@/lib/dataUtils';
+import { getLevelForExperience } from '@/lib/experience';
+import { getDerivedStats } from '@/lib/derivedStats';
 import { AlertCircle, CheckCircle2 } from 'lucide-react';
 
+function getTotalBossKills(snapshot: HiscoreSnapshot): number {
+  return snapshot.bosses.reduce((sum, boss) => sum + boss.killCount, 0);
+}
+
 export function Dashboard() {
-  const [userId, setUserId] = useState<string | null>(null);
-  const { data: snapshots, loading, error, refetch } = useSnapshots(userId);
+  const { userId, setUserId, timeRange, setTimeRange } = usePlayerUrlState();
+
+  // Stat cards replay the deltas (shared with the Gains Tracker), the chart uses aggregated snapshots
+  const {
+    data: loadedResponse,
+    loading,
+    error,
+    refetch,
+    totalDeltas
+  } = useSnapshotWithDeltas(userId, timeRange.startTime, timeRange.endTime);
+  // Without the deltas excluded as data errors, like the Gains Tracker
+  const { response: deltaResponse } = useAnomalyReview(userId, loadedResponse);
+  const {
+    data: snapshots,
+    loading: chartLoading,
+    totalSnapshots
+  } = useSnapshotInterval(userId, timeRange.startTime, timeRange.endTime);
   const { isHealthy, checking } = useApiHealth();
-  
-  const overallData = snapshots ? extractOverallData(snapshots) : [];
-  const latestSnapshot = snapshots ? getLatestSnapshot(snapshots) : null;
+
+  const firstSnapshot = deltaResponse?.snapshot ?? null;
+  const latestSnapshot = useMemo(
+    () => deltaResponse?.snapshot ? applyDeltasToSnapshot(deltaResponse.snapshot, deltaResponse.deltas) : null,
+    [deltaResponse]
+  );
+
+  // Start and end of the range, in the same shape as the chart points
+  const [rangeStart, rangeEnd] = firstSnapshot && latestSnapshot
+    ? extractOverallData([firstSnapshot, latestSnapshot])
+    : [null, null];
+  const derivedStats = useMemo(() => latestSnapshot ? getDerivedStats(latestSnapshot) : null, [latestSnapshot]);
+  const nextCombatStep = derivedStats?.nextCombatSteps[0];
+  const overallData = useMemo(() => snapshots ? extractOverallData(snapshots) : [], [snapshots]);
 
   // Calculate total boss kill counts
-  const totalBossKills = latestSnapshot 
-    ? latestSnapshot.bosses.reduce((sum, boss) => sum + boss.killCount, 0)
-    : 0;
+  const totalBossKills = latestSnapshot ? getTotalBossKills(latestSnapshot) : 0;
+  const hasRangeGains = totalDeltas > 0 && rangeStart !== null && rangeEnd !== null;
 
   return (
     <div className="space-y-6">
@@ -62,6 +97,8 @@ export function Dashboard() {
       
       <UserSelector userId={userId} onUserIdChange={setUserId} />
 
+      <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+
       {error && !loading && (
         <ErrorAlert error={error} onRetry={refetch} title="Failed to load dashboard data" />
       )}
@@ -74,22 +111,29 @@ export function Dashboard() {
           <CardContent>
             {loading ? (
               <Skeleton className="h-8 w-20" />
-            ) : latestSnapshot ? (
+            ) : rangeEnd ? (
               <div className="text-2xl font-bold">
-                {latestSnapshot.skills
-                  .filter(skill => skill.activityType !== 'OVERALL')
-                  .reduce((sum, skill) => sum + skill.level, 0)
-                  .toLocaleString()}
+                {rangeEnd.totalLevel.toLocaleString()}
+                {rangeEnd.virtualTotalLevel > rangeEnd.totalLevel && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    ({rangeEnd.virtualTotalLevel.toLocaleString()} virtual)
+                  </span>
+                )}
               </div>
             ) : (
               <div className="text-2xl font-bold text-muted-foreground">--</div>
             )}
             <p className="text-xs text-muted-foreground">
-              {overallData.length > 1 
-                ? `+${overallData[overallData.length - 1].totalLevel - overallData[0].totalLevel} from first snapshot`
+              {hasRangeGains
+                ? `+${rangeEnd.totalLevel - rangeStart.totalLevel} in ${timeRange.label}`
                 : 'Select a user to view data'
               }
             </p>
+            {derivedStats && (
+              <p className="text-xs text-muted-foreground">
+                {derivedStats.maxed ? 'Maxed' : `Base level ${derivedStats.baseLevel}`}
+              </p>
+            )}
           </CardContent>
         </Card>
         
@@ -100,19 +144,30 @@ export function Dashboard() {
           <CardContent>
             {loading ? (
               <Skeleton className="h-8 w-20" />
-            ) : overallData.length > 0 ? (
+            ) : rangeEnd ? (
               <div className="text-2xl font-bold">
-                {overallData[overallData.length - 1].combatLevel}
+                {rangeEnd.combatLevel}
+                {derivedStats && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground capitalize">
+                    {derivedStats.combat.style}
+                  </span>
+                )}
               </div>
             ) : (
               <div className="text-2xl font-bold text-muted-foreground">--</div>
             )}
             <p className="text-xs text-muted-foreground">
-              {overallData.length > 1 
-                ? `+${overallData[overallData.length - 1].combatLevel - overallData[0].combatLevel} from first snapshot`
+              {hasRangeGains
+                ? `+${rangeEnd.combatLevel - rangeStart.combatLevel} in ${timeRange.label}`
                 : 'Select a user to view data'
               }
             </p>
+            {nextCombatStep && (
+              <p className="text-xs text-muted-foreground">
+                Next level: {nextCombatStep.levels} {formatActivityTypeName(nextCombatStep.activityType)}
+                {nextCombatStep.levels === 1 ? ' level' : ' levels'}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -123,19 +178,14 @@ export function Dashboard() {
           <CardContent>
             {loading ? (
               <Skeleton className="h-8 w-20" />
-            ) : latestSnapshot ? (
-              <div className="text-2xl font-bold">
-                {formatNumber(latestSnapshot.skills
-                  .filter(skill => skill.activityType !== 'OVERALL')
-                  .reduce((sum, skill) => sum + skill.experience, 0)
-                )}
-              </div>
+            ) : rangeEnd ? (
+              <div className="text-2xl font-bold">{formatNumber(rangeEnd.totalExperience)}</div>
             ) : (
               <div className="text-2xl font-bold text-muted-foreground">--</div>
             )}
             <p className="text-xs text-muted-foreground">
-              {overallData.length > 1 
-                ? `+${formatNumber(overallData[overallData.length - 1].totalExperience - overallData[0].totalExperience)} from first snapshot`
+              {hasRangeGains
+                ? `+${formatNumber(rangeEnd.totalExperience - rangeStart.totalExperience)} in ${timeRange.label}`
                 : 'Select a user to view data'
               }
             </p>
@@ -155,8 +205,8 @@ export function Dashboard() {
               <div className="text-2xl font-bold text-muted-foreground">--</div>
             )}
             <p className="text-xs text-muted-foreground">
-              {snapshots && snapshots.length > 1 
-                ? `+${totalBossKills - snapshots[0].bosses.reduce((sum, boss) => sum + boss.killCount, 0)} from first snapshot`
+              {hasRangeGains && firstSnapshot
+                ? `+${totalBossKills - getTotalBossKills(firstSnapshot)} in ${timeRange.label}`
                 : 'Select a user to view data'
               }
             </p>
@@ -164,7 +214,7 @@ export function Dashboard() {
         </Card>
       </div>
 
-      {overallData.length > 0 && (
+      {overallData.length > 0 && !chartLoading && (
         <div className="mt-6">
           <OverallStatsChart data={overallData} />
         </div>
@@ -176,17 +226,21 @@ export function Dashboard() {
             <CardTitle>Snapshot History</CardTitle>
           </CardHeader>
           <CardContent>
-            {loading ? (
+            {loading || chartLoading ? (
               <div className="space-y-2">
                 <Skeleton className="h-4 w-full" />
                 <Skeleton className="h-4 w-3/4" />
                 <Skeleton className="h-4 w-1/2" />
               </div>
-            ) : snapshots && snapshots.length > 0 ? (
+            ) : firstSnapshot ? (
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
-                  <span className="text-sm">Total Snapshots</span>
-                  <span className="text-sm font-medium">{snapshots.length}</span>
+                  <span className="text-sm">Snapshots in Range</span>
+                  <span className="text-sm font-medium">{totalSnapshots.toLocaleString()}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Changes in Range</span>
+                  <span className="text-sm font-medium">{totalDeltas.toLocaleString()}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Latest Snapshot</span>
@@ -198,12 +252,9 @@ export function Dashboard() {
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-sm">First Snapshot</span>
+                  <span className="text-sm">Range Start</span>
                   <span className="text-xs text-muted-foreground">
-                    {snapshots[0] 
-                      ? new Date(snapshots[0].timestamp).toLocaleDateString()
-                      : 'N/A'
-                    }
+                    {new Date(firstSnapshot.timestamp).toLocaleDateString()}
                   </span>
                 </div>
               </div>
@@ -230,13 +281,14 @@ export function Dashboard() {
               <div className="space-y-2">
                 {latestSnapshot.skills
                   .filter(skill => skill.activityType !== 'OVERALL')
-                  .sort((a, b) => b.level - a.level)
+                  // By experience, so levels past 99 still rank
+                  .sort((a, b) => b.experience - a.experience)
                   .slice(0, 3)
                   .map((skill) => (
                     <div key={skill.activityType} className="flex items-center justify-between">
                       <span className="text-sm">{formatActivityTypeName(skill.activityType)}</span>
                       <span className="text-sm font-medium">
-                        Level {skill.level} ({formatNumber(skill.experience)} XP)
+                        Level {getLevelForExperience(skill.experience, true)} ({formatNumber(skill.experience)} XP)
                       </span>
                     </div>
                   ))}
@@ -1,111 +1,270 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useCallback, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { UserSelector } from '@/components/UserSelector';
 import { TimeRangeSelector } from '@/components/TimeRangeSelector';
-import type { TimeRange } from '@/components/TimeRangeSelector';
 import { ActivitySelector } from '@/components/ActivitySelector';
 import { DailyHeatmap } from '@/components/charts/DailyHeatmap';
-import { GainsChart } from '@/components/charts/GainsChart';
+import { GainsChart, ComparisonChart } from '@/components/charts/GainsChart';
+import { GoalsPanel } from '@/components/GoalsPanel';
+import { AnomalyReviewPanel } from '@/components/AnomalyReviewPanel';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useSnapshotWithDeltas, useApiHealth } from '@/hooks/useApi';
-import type { ActivityType } from '@/types/api';
+import { LoadProgressIndicator } from '@/components/ui/LoadProgressIndicator';
+import { useSnapshotWithDeltas, useComparisonDeltas, useAllUsers, useApiHealth, useApiConfig } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
+import { useGoals } from '@/hooks/useGoals';
+import { useAnomalyReview, useComparisonReview } from '@/hooks/useAnomalyReview';
+import { formatApiEndpoint } from '@/lib/apiConfig';
+import { getActivityName, getActivityUnit, isActivityType } from '@/lib/activityRegistry';
+import { getLatestActivityValue } from '@/lib/chartSeries';
+import { getNextExperienceMilestone } from '@/lib/experience';
+import { formatEfficientHours, summarizeEfficiencyFromDeltas } from '@/lib/efficiency';
+import { createCustomRange } from '@/lib/timeRanges';
+import { isBucketSelection, type BucketSelection } from '@/lib/timeBuckets';
+import { DEFAULT_GOAL_LOOKBACK_DAYS, isGoalLookback } from '@/lib/goals';
+import { DEFAULT_ACTIVE_DAY_THRESHOLD, isActiveDayThreshold } from '@/lib/consistency';
+import {
+  DEFAULT_HEATMAP_PALETTE,
+  DEFAULT_HEATMAP_SCALE,
+  isHeatmapPaletteId,
+  isHeatmapScaleType,
+  type HeatmapPaletteId,
+  type HeatmapScaleType
+} from '@/lib/heatmapScale';
+import { PLAYER_COLORS, getPlayerColor } from '@/lib/chartColors';
+import type { ActivityType, HiscoreDelta } from '@/types/api';
 import {
   formatNumber,
   calculateGainsFromDeltas,
   getActivityGainFromDeltas
 } from '@/lib/dataUtils';
-import { AlertCircle, CheckCircle2, BarChart3, TrendingUp } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle2, BarChart3, TrendingUp, Trophy } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { format } from 'date-fns';
-
-// Default time range is last year
-const DEFAULT_TIME_RANGE: TimeRange = {
-  startTime: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
-  endTime: new Date(),
-  label: 'Last Year'
-};
-
-function getInitialTimeRange(searchParams: URLSearchParams): TimeRange {
-  const start = searchParams.get('start');
-  const end = searchParams.get('end');
-
-  if (start && end) {
-    const startTime = new Date(start);
-    const endTime = new Date(end);
-    if (!isNaN(startTime.getTime()) && !isNaN(endTime.getTime())) {
-      return { startTime, endTime, label: 'Custom' };
-    }
+
+const MAX_DECODE_WARNINGS_SHOWN = 3;
+
+// Stable empty selection so the comparison hook stays idle outside comparison mode
+const NO_COMPARED_PLAYERS: string[] = [];
+
+// Total gain of the selected activity, plus levels gained for skills
+function getSelectedActivityGain(deltas: HiscoreDelta[], activity: ActivityType): { totalGain: number; levelGain: number } {
+  if (deltas.length === 0) {
+    return { totalGain: 0, levelGain: 0 };
   }
 
-  return DEFAULT_TIME_RANGE;
+  if (activity === 'OVERALL') {
+    // Get total XP gain from OVERALL skill in deltas
+    const gainsSummary = calculateGainsFromDeltas(deltas);
+    return { totalGain: gainsSummary.totalExperienceGain, levelGain: 0 };
+  }
+
+  // Get gains for specific activity
+  return getActivityGainFromDeltas(deltas, activity);
 }
 
 export function GainsTracker() {
-  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    userId,
+    setUserId,
+    userIds,
+    setUserIds,
+    timeRange,
+    setTimeRange,
+    searchParams,
+    updateSearchParams
+  } = usePlayerUrlState();
+  const isComparing = userIds.length > 1;
 
-  const [userId, setUserId] = useState<string | null>(() => searchParams.get('player'));
-  const [timeRange, setTimeRange] = useState<TimeRange>(() => getInitialTimeRange(searchParams));
-  const [selectedActivity, setSelectedActivity] = useState<ActivityType>(
-    () => (searchParams.get('activity') as ActivityType) || 'OVERALL'
-  );
-  const [chartType, setChartType] = useState<'cumulative' | 'daily'>(
-    () => (searchParams.get('chart') === 'daily' ? 'daily' : 'cumulative')
-  );
+  const activityParam = searchParams.get('activity');
+  const selectedActivity: ActivityType = activityParam && isActivityType(activityParam) ? activityParam : 'OVERALL';
+  const chartType: 'cumulative' | 'daily' = searchParams.get('chart') === 'daily' ? 'daily' : 'cumulative';
+  const normalized = searchParams.get('normalize') === '1';
+  const stacked = searchParams.get('stack') === 'skills';
+  const showEfficiency = searchParams.get('ehp') === '1';
+  const bucketParam = searchParams.get('bucket');
+  const bucket: BucketSelection = bucketParam && isBucketSelection(bucketParam) ? bucketParam : 'auto';
+  const lookbackParam = Number(searchParams.get('lookback'));
+  const goalLookbackDays = isGoalLookback(lookbackParam) ? lookbackParam : DEFAULT_GOAL_LOOKBACK_DAYS;
+  const activeParam = Number(searchParams.get('active'));
+  const activeDayThreshold = isActiveDayThreshold(activeParam, getActivityUnit(selectedActivity))
+    ? activeParam
+    : DEFAULT_ACTIVE_DAY_THRESHOLD;
+  const heatmapScaleParam = searchParams.get('heatmap');
+  const heatmapScale: HeatmapScaleType = heatmapScaleParam && isHeatmapScaleType(heatmapScaleParam)
+    ? heatmapScaleParam
+    : DEFAULT_HEATMAP_SCALE;
+  const paletteParam = searchParams.get('palette');
+  const heatmapPalette: HeatmapPaletteId = paletteParam && isHeatmapPaletteId(paletteParam)
+    ? paletteParam
+    : DEFAULT_HEATMAP_PALETTE;
+
+  const setSelectedActivity = useCallback((activity: ActivityType) => {
+    updateSearchParams(params => params.set('activity', activity));
+  }, [updateSearchParams]);
+
+  const setChartType = useCallback((type: 'cumulative' | 'daily') => {
+    updateSearchParams(params => {
+      if (type === 'daily') {
+        params.set('chart', type);
+      } else {
+        params.delete('chart');
+      }
+    });
+  }, [updateSearchParams]);
+
+  const setNormalized = useCallback((value: boolean) => {
+    updateSearchParams(params => {
+      if (value) {
+        params.set('normalize', '1');
+      } else {
+        params.delete('normalize');
+      }
+    });
+  }, [updateSearchParams]);
+
+  const setStacked = useCallback((value: boolean) => {
+    updateSearchParams(params => {
+      if (value) {
+        params.set('stack', 'skills');
+      } else {
+        params.delete('stack');
+      }
+    });
+  }, [updateSearchParams]);
+
+  const setShowEfficiency = useCallback((value: boolean) => {
+    updateSearchParams(params => {
+      if (value) {
+        params.set('ehp', '1');
+      } else {
+        params.delete('ehp');
+      }
+    });
+  }, [updateSearchParams]);
+
+  const setBucket = useCallback((value: BucketSelection) => {
+    updateSearchParams(params => {
+      if (value !== 'auto') {
+        params.set('bucket', value);
+      } else {
+        params.delete('bucket');
+      }
+    });
+  }, [updateSearchParams]);
 
-  // Update URL when state changes
-  const updateSearchParams = useCallback(() => {
-    const params = new URLSearchParams();
+  const setGoalLookbackDays = useCallback((days: number) => {
+    updateSearchParams(params => {
+      if (days !== DEFAULT_GOAL_LOOKBACK_DAYS) {
+        params.set('lookback', String(days));
+      } else {
+        params.delete('lookback');
+      }
+    });
+  }, [updateSearchParams]);
 
-    if (userId) params.set('player', userId);
-    if (timeRange.label === 'Custom' || timeRange.label !== 'Last Year') {
-      params.set('start', timeRange.startTime.toISOString());
-      params.set('end', timeRange.endTime.toISOString());
-    }
-    if (selectedActivity) params.set('activity', selectedActivity);
-    if (chartType !== 'cumulative') params.set('chart', chartType);
+  const setActiveDayThreshold = useCallback((threshold: number) => {
+    updateSearchParams(params => {
+      if (threshold !== DEFAULT_ACTIVE_DAY_THRESHOLD) {
+        params.set('active', String(threshold));
+      } else {
+        params.delete('active');
+      }
+    });
+  }, [updateSearchParams]);
 
-    setSearchParams(params, { replace: true });
-  }, [userId, timeRange, selectedActivity, chartType, setSearchParams]);
+  const setHeatmapScale = useCallback((scale: HeatmapScaleType) => {
+    updateSearchParams(params => {
+      if (scale !== DEFAULT_HEATMAP_SCALE) {
+        params.set('heatmap', scale);
+      } else {
+        params.delete('heatmap');
+      }
+    });
+  }, [updateSearchParams]);
 
-  useEffect(() => {
-    updateSearchParams();
+  const setHeatmapPalette = useCallback((palette: HeatmapPaletteId) => {
+    updateSearchParams(params => {
+      if (palette !== DEFAULT_HEATMAP_PALETTE) {
+        params.set('palette', palette);
+      } else {
+        params.delete('palette');
+      }
+    });
   }, [updateSearchParams]);
 
-  const { data: deltaResponse, loading, error, refetch, totalDeltas } = useSnapshotWithDeltas(
+  const { data: loadedResponse, loading, error, refetch, totalDeltas, progress } = useSnapshotWithDeltas(
     userId,
     timeRange.startTime,
     timeRange.endTime
   );
   const { isHealthy, checking } = useApiHealth();
+  const apiConfig = useApiConfig();
+  // Everything below is built without the deltas excluded as data errors
+  const anomalyReview = useAnomalyReview(userId, loadedResponse);
+  const deltaResponse = anomalyReview.response;
+  const decodeWarnings = deltaResponse?.decodeWarnings ?? [];
+
+  const {
+    data: loadedComparison,
+    loading: comparisonLoading,
+    error: comparisonError,
+    refetch: refetchComparison
+  } = useComparisonDeltas(isComparing ? userIds : NO_COMPARED_PLAYERS, timeRange.startTime, timeRange.endTime);
+  // Each compared player without the deltas they've excluded
+  const comparison = useComparisonReview(loadedComparison);
+  const { data: users } = useAllUsers();
+
+  const goals = useGoals(userId);
+  const selectedActivityGoals = useMemo(
+    () => goals.filter(goal => goal.activityType === selectedActivity),
+    [goals, selectedActivity]
+  );
+
+  const playerNames = useMemo(
+    () => new Map((Array.isArray(users) ? users : []).map(user => [user.id, user.runescapeName])),
+    [users]
+  );
+
+  // Efficient hours are priced by account type; mains until the user list loads
+  const accountType = useMemo(
+    () => (Array.isArray(users) ? users : []).find(user => user.id === userId)?.accountType,
+    [users, userId]
+  );
+  const efficiency = useMemo(
+    () => deltaResponse ? summarizeEfficiencyFromDeltas(deltaResponse, accountType) : null,
+    [deltaResponse, accountType]
+  );
 
   // Calculate gains directly from deltas
-  const { totalGain, levelGain } = useMemo(() => {
-    if (!deltaResponse?.deltas || deltaResponse.deltas.length === 0) {
-      return { totalGain: 0, levelGain: 0 };
-    }
-
-    if (selectedActivity === 'OVERALL') {
-      // Get total XP gain from OVERALL skill in deltas
-      const gainsSummary = calculateGainsFromDeltas(deltaResponse.deltas);
-      return { totalGain: gainsSummary.totalExperienceGain, levelGain: 0 };
-    }
-
-    // Get gains for specific activity
-    return getActivityGainFromDeltas(deltaResponse.deltas, selectedActivity);
+  const { totalGain, levelGain } = useMemo(
+    () => getSelectedActivityGain(deltaResponse?.deltas ?? [], selectedActivity),
+    [deltaResponse, selectedActivity]
+  );
+
+  // XP left to 99 (or 200M) in the selected skill, as of the end of the range
+  const milestone = useMemo(() => {
+    if (!deltaResponse || selectedActivity === 'OVERALL' || getActivityUnit(selectedActivity) !== 'xp') return undefined;
+    return getNextExperienceMilestone(getLatestActivityValue(deltaResponse, selectedActivity));
   }, [deltaResponse, selectedActivity]);
 
+  // Compared players ranked by gain of the selected activity
+  const leaderboard = useMemo(() => {
+    if (!comparison) return [];
+    return comparison
+      .map(({ userId: playerId, response }) => ({
+        userId: playerId,
+        color: getPlayerColor(userIds.indexOf(playerId)),
+        ...getSelectedActivityGain(response.deltas, selectedActivity)
+      }))
+      .sort((a, b) => b.totalGain - a.totalGain);
+  }, [comparison, selectedActivity, userIds]);
+
   // Handle time range selection from chart drag
   const handleChartTimeRangeSelect = useCallback((startTime: Date, endTime: Date) => {
-    const customRange: TimeRange = {
-      startTime,
-      endTime,
-      label: `${format(startTime, 'MMM d, yyyy')} - ${format(endTime, 'MMM d, yyyy')}`
-    };
-    setTimeRange(customRange);
-  }, []);
+    setTimeRange(createCustomRange(startTime, endTime));
+  }, [setTimeRange]);
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -141,19 +300,45 @@ export function GainsTracker() {
                 </div>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Endpoint: https://api.hazelmere.xyz</p>
+                <p>Endpoint: {formatApiEndpoint(apiConfig)}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
         </div>
       </div>
 
-      <UserSelector userId={userId} onUserIdChange={setUserId} />
+      <UserSelector
+        userId={userId}
+        onUserIdChange={setUserId}
+        userIds={userIds}
+        onUserIdsChange={setUserIds}
+        maxSelected={PLAYER_COLORS.length}
+      />
 
-      {error && !loading && (
+      {error && !loading && !isComparing && (
         <ErrorAlert error={error} onRetry={refetch} title="Failed to load gains data" />
       )}
 
+      {comparisonError && !comparisonLoading && isComparing && (
+        <ErrorAlert error={comparisonError} onRetry={refetchComparison} title="Failed to load comparison data" />
+      )}
+
+      {/* Partial decode - show what we have and say what's missing */}
+      {decodeWarnings.length > 0 && !loading && !isComparing && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some gains data could not be read</AlertTitle>
+          <AlertDescription className="mt-2 text-xs space-y-1">
+            {decodeWarnings.slice(0, MAX_DECODE_WARNINGS_SHOWN).map((warning, i) => (
+              <p key={i}>{warning.message}</p>
+            ))}
+            {decodeWarnings.length > MAX_DECODE_WARNINGS_SHOWN && (
+              <p>and {decodeWarnings.length - MAX_DECODE_WARNINGS_SHOWN} more</p>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="flex gap-2 sm:gap-4">
         <div className="flex-1">
           <TimeRangeSelector
@@ -170,30 +355,53 @@ export function GainsTracker() {
         </div>
       </div>
 
-      <div className="flex gap-1 sm:gap-2">
-        <Button
-          size="sm"
-          variant={chartType === 'cumulative' ? 'default' : 'outline'}
-          onClick={() => setChartType('cumulative')}
-          className="flex-1 px-2 sm:px-3 h-9"
-        >
-          <TrendingUp className="h-4 w-4 mr-1 sm:mr-2" />
-          <span className="text-xs sm:text-sm">Cumulative</span>
-        </Button>
-        <Button
-          size="sm"
-          variant={chartType === 'daily' ? 'default' : 'outline'}
-          onClick={() => setChartType('daily')}
-          className="flex-1 px-2 sm:px-3 h-9"
-        >
-          <BarChart3 className="h-4 w-4 mr-1 sm:mr-2" />
-          <span className="text-xs sm:text-sm">Daily Gains</span>
-        </Button>
-      </div>
+      {isComparing ? (
+        <div className="flex gap-1 sm:gap-2">
+          <Button
+            size="sm"
+            variant={!normalized ? 'default' : 'outline'}
+            onClick={() => setNormalized(false)}
+            className="flex-1 px-2 sm:px-3 h-9"
+          >
+            <TrendingUp className="h-4 w-4 mr-1 sm:mr-2" />
+            <span className="text-xs sm:text-sm">Totals</span>
+          </Button>
+          <Button
+            size="sm"
+            variant={normalized ? 'default' : 'outline'}
+            onClick={() => setNormalized(true)}
+            className="flex-1 px-2 sm:px-3 h-9"
+          >
+            <BarChart3 className="h-4 w-4 mr-1 sm:mr-2" />
+            <span className="text-xs sm:text-sm">Gains from Zero</span>
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-1 sm:gap-2">
+          <Button
+            size="sm"
+            variant={chartType === 'cumulative' ? 'default' : 'outline'}
+            onClick={() => setChartType('cumulative')}
+            className="flex-1 px-2 sm:px-3 h-9"
+          >
+            <TrendingUp className="h-4 w-4 mr-1 sm:mr-2" />
+            <span className="text-xs sm:text-sm">Cumulative</span>
+          </Button>
+          <Button
+            size="sm"
+            variant={chartType === 'daily' ? 'default' : 'outline'}
+            onClick={() => setChartType('daily')}
+            className="flex-1 px-2 sm:px-3 h-9"
+          >
+            <BarChart3 className="h-4 w-4 mr-1 sm:mr-2" />
+            <span className="text-xs sm:text-sm">Daily Gains</span>
+          </Button>
+        </div>
+      )}
 
       {/* Summary Stats */}
-      {deltaResponse && totalDeltas > 0 && (
-        <div className="grid gap-2 sm:gap-4 grid-cols-3 sm:grid-cols-4">
+      {!isComparing && deltaResponse && totalDeltas > 0 && (
+        <div className="grid gap-2 sm:gap-4 grid-cols-3 sm:grid-cols-4 lg:grid-cols-5">
           <Card>
             <CardContent className="p-2 sm:p-4">
               <p className="text-[10px] sm:text-sm font-medium text-muted-foreground truncate">
@@ -226,6 +434,61 @@ export function GainsTracker() {
             </Card>
           )}
 
+          {milestone !== undefined && (
+            <Card className="hidden sm:block">
+              <CardContent className="p-2 sm:p-4">
+                <p className="text-[10px] sm:text-sm font-medium text-muted-foreground truncate">
+                  {milestone ? `XP to ${milestone.label}` : 'Experience'}
+                </p>
+                {loading ? (
+                  <Skeleton className="h-5 sm:h-8 w-12 sm:w-20 mt-1" />
+                ) : (
+                  <div className="text-sm sm:text-2xl font-bold truncate">
+                    {milestone ? formatNumber(milestone.remaining) : 'Maxed'}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="p-2 sm:p-4">
+              <p
+                className="text-[10px] sm:text-sm font-medium text-muted-foreground truncate"
+                title="Efficient hours played: XP gained, priced at the fastest known rates"
+              >
+                EHP Gained
+              </p>
+              {loading || !efficiency ? (
+                <Skeleton className="h-5 sm:h-8 w-12 sm:w-20 mt-1" />
+              ) : (
+                <div className="text-sm sm:text-2xl font-bold text-purple-600 truncate">
+                  +{formatEfficientHours(efficiency.ehp)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {efficiency && efficiency.ehb > 0 && (
+            <Card className="hidden sm:block">
+              <CardContent className="p-2 sm:p-4">
+                <p
+                  className="text-[10px] sm:text-sm font-medium text-muted-foreground truncate"
+                  title="Efficient hours bossed: kills, priced at the fastest known rates"
+                >
+                  EHB Gained
+                </p>
+                {loading ? (
+                  <Skeleton className="h-5 sm:h-8 w-12 sm:w-20 mt-1" />
+                ) : (
+                  <div className="text-sm sm:text-2xl font-bold text-purple-600 truncate">
+                    +{formatEfficientHours(efficiency.ehb)}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardContent className="p-2 sm:p-4">
               <p className="text-[10px] sm:text-sm font-medium text-muted-foreground truncate">
@@ -254,44 +517,90 @@ export function GainsTracker() {
         </div>
       )}
 
+      {/* First load of a large range - nothing to show yet, so report progress */}
+      {!isComparing && loading && progress && !(deltaResponse && totalDeltas > 0) && (
+        <Card>
+          <CardContent className="p-2 sm:p-6">
+            <LoadProgressIndicator progress={progress} className="h-64 sm:h-80" />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts and Heatmap */}
-      {deltaResponse && totalDeltas > 0 && (
+      {!isComparing && deltaResponse && totalDeltas > 0 && (
         <div className="grid gap-4 sm:gap-6 lg:grid-cols-1">
           <Card>
             <CardHeader className="hidden sm:block pb-2 sm:pb-6">
               <CardTitle className="text-base sm:text-lg">Progress Visualization</CardTitle>
             </CardHeader>
             <CardContent className="p-2 sm:p-6 overflow-hidden">
-              {loading ? (
+              {loading && progress ? (
+                <LoadProgressIndicator progress={progress} className="h-64 sm:h-80" />
+              ) : loading ? (
                 <div className="h-64 sm:h-80 flex items-center justify-center">
                   <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
                 </div>
               ) : (
                 <GainsChart
                   deltaResponse={deltaResponse}
+                  playerName={userId ? playerNames.get(userId) ?? userId : undefined}
                   selectedActivity={selectedActivity}
                   chartType={chartType}
+                  stacked={stacked}
+                  onStackedChange={setStacked}
+                  bucket={bucket}
+                  onBucketChange={setBucket}
+                  goals={selectedActivityGoals}
+                  outlierRule={anomalyReview.settings}
+                  accountType={accountType}
+                  showEfficiency={showEfficiency}
+                  onShowEfficiencyChange={setShowEfficiency}
                   onTimeRangeSelect={handleChartTimeRangeSelect}
                 />
               )}
             </CardContent>
           </Card>
 
+          {userId && (
+            <GoalsPanel
+              userId={userId}
+              deltaResponse={deltaResponse}
+              startTime={timeRange.startTime}
+              endTime={timeRange.endTime}
+              lookbackDays={goalLookbackDays}
+              onLookbackDaysChange={setGoalLookbackDays}
+              selectedActivity={selectedActivity}
+            />
+          )}
+
+          {userId && loadedResponse && (
+            <AnomalyReviewPanel userId={userId} deltaResponse={loadedResponse} review={anomalyReview} />
+          )}
+
           <Card>
             <CardHeader className="hidden sm:block pb-2 sm:pb-6">
-              <CardTitle className="text-base sm:text-lg">Experience Heatmap - {timeRange.label}</CardTitle>
+              <CardTitle className="text-base sm:text-lg">
+                {selectedActivity === 'OVERALL' ? 'Experience' : getActivityName(selectedActivity)} Heatmap - {timeRange.label}
+              </CardTitle>
             </CardHeader>
             <CardContent className="p-2 sm:p-6 overflow-hidden">
               <DailyHeatmap
                 userId={userId}
                 timeRange={timeRange}
+                activityType={selectedActivity}
+                scale={heatmapScale}
+                onScaleChange={setHeatmapScale}
+                palette={heatmapPalette}
+                onPaletteChange={setHeatmapPalette}
+                activeDayThreshold={activeDayThreshold}
+                onActiveDayThresholdChange={setActiveDayThreshold}
               />
             </CardContent>
           </Card>
         </div>
       )}
 
-      {userId && !loading && (!deltaResponse || totalDeltas === 0) && (
+      {!isComparing && userId && !loading && (!deltaResponse || totalDeltas === 0) && (
         <Card>
           <CardContent className="p-8 text-center">
             <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -306,6 +615,64 @@ export function GainsTracker() {
           </CardContent>
         </Card>
       )}
+
+      {/* Comparison - one line per player plus a ranking by gain */}
+      {isComparing && comparisonLoading && !comparison && (
+        <Card>
+          <CardContent className="p-2 sm:p-6">
+            <div className="h-64 sm:h-80 flex items-center justify-center">
+              <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full" />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isComparing && comparison && (
+        <div className="grid gap-4 sm:gap-6 lg:grid-cols-1">
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                <Trophy className="h-4 w-4 sm:h-5 sm:w-5" />
+                {selectedActivity !== 'OVERALL' ? 'Most Gained' : 'Most XP Gained'} - {timeRange.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-6 pt-0 sm:pt-0">
+              <div className="space-y-2">
+                {leaderboard.map((entry, rank) => (
+                  <div key={entry.userId} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="w-5 text-muted-foreground">{rank + 1}.</span>
+                      <span className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }} />
+                      <span className="truncate">{playerNames.get(entry.userId) ?? entry.userId}</span>
+                    </span>
+                    <span className="flex items-center gap-3 flex-shrink-0">
+                      {entry.levelGain > 0 && (
+                        <span className="text-xs text-blue-600">+{entry.levelGain} lvl</span>
+                      )}
+                      <span className="font-medium text-green-600">+{formatNumber(entry.totalGain)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="hidden sm:block pb-2 sm:pb-6">
+              <CardTitle className="text-base sm:text-lg">Player Comparison</CardTitle>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-6 overflow-hidden">
+              <ComparisonChart
+                players={comparison}
+                playerNames={playerNames}
+                selectedActivity={selectedActivity}
+                normalized={normalized}
+                onTimeRangeSelect={handleChartTimeRangeSelect}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
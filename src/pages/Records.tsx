@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Link, type To } from 'react-router-dom';
+import { format, formatDistanceStrict } from 'date-fns';
+import { AlertCircle, Flame, Hourglass, Zap } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ErrorAlert } from '@/components/ui/ErrorAlert';
+import { LoadProgressIndicator } from '@/components/ui/LoadProgressIndicator';
+import { UserSelector } from '@/components/UserSelector';
+import { TimeRangeSelector } from '@/components/TimeRangeSelector';
+import { useSnapshotWithDeltas } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
+import { useAnomalyReview } from '@/hooks/useAnomalyReview';
+import { useRecords } from '@/hooks/useChartSeries';
+import { formatNumber } from '@/lib/dataUtils';
+import { createCustomRange, writeTimeRange } from '@/lib/timeRanges';
+import { formatBucketLabel } from '@/lib/timeBuckets';
+import { RECORD_PERIODS, type ActivityRecords, type PeriodRecord, type RecordPeriod, type RecordSpan } from '@/lib/records';
+import type { ActivityType } from '@/types/api';
+
+type CategoryFilter = ActivityRecords['category'];
+
+const CATEGORY_FILTERS: { id: CategoryFilter; label: string }[] = [
+  { id: 'skill', label: 'Skills' },
+  { id: 'boss', label: 'Bosses' }
+];
+
+// Gains Tracker over the record's span, for the same players; `end` is
+// exclusive, so the range stops just before it
+function getGainsTrackerLink(userIds: string[], span: RecordSpan, activityType?: ActivityType): To {
+  const params = new URLSearchParams();
+  for (const id of userIds) {
+    params.append('player', id);
+  }
+  writeTimeRange(params, createCustomRange(new Date(span.start), new Date(span.end - 1)));
+  if (activityType) params.set('activity', activityType);
+  return { pathname: '/', search: `?${params.toString()}` };
+}
+
+function formatRecordGain(record: ActivityRecords, gain: number): string {
+  return record.category === 'boss' ? `${gain.toLocaleString()} KC` : `${formatNumber(gain)} XP`;
+}
+
+function HighlightCard({ title, icon: Icon, loading, value, detail, to }: {
+  title: string;
+  icon: typeof Flame;
+  loading: boolean;
+  value: string | null;
+  detail: string | null;
+  to: To | null;
+}) {
+  const body = (
+    <>
+      <div className="text-2xl font-bold">{value}</div>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-8 w-24" />
+        ) : value === null ? (
+          <div className="text-2xl font-bold text-muted-foreground">-</div>
+        ) : to ? (
+          <Link to={to} className="block hover:underline" title="Open in the Gains Tracker">
+            {body}
+          </Link>
+        ) : body}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PeriodCell({ record, period, best, to }: {
+  record: ActivityRecords;
+  period: RecordPeriod;
+  best: PeriodRecord;
+  to: To;
+}) {
+  return (
+    <td className="py-2 px-2 text-right">
+      <Link to={to} className="hover:underline" title="Open in the Gains Tracker">
+        <div className="font-medium tabular-nums">{formatRecordGain(record, best.gain)}</div>
+        <div className="text-xs text-muted-foreground">{formatBucketLabel(best.start, best.end, period)}</div>
+      </Link>
+    </td>
+  );
+}
+
+export function Records() {
+  const { userId, setUserId, userIds, timeRange, setTimeRange } = usePlayerUrlState();
+  const [category, setCategory] = useState<CategoryFilter>('skill');
+
+  const { data: loadedResponse, loading, error, refetch, progress } = useSnapshotWithDeltas(
+    userId,
+    timeRange.startTime,
+    timeRange.endTime
+  );
+  // Records are found without the deltas excluded as data errors
+  const { response } = useAnomalyReview(userId, loadedResponse);
+  const { data: records, preparing } = useRecords(response);
+  const busy = loading || preparing;
+
+  const shownActivities = records?.activities.filter(record => record.category === category) ?? [];
+  const { longestStreak, longestIdleGap, biggestJump } = records ?? {};
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Records</h1>
+        <p className="text-muted-foreground mt-2">
+          Personal bests over the selected range; click one to see it in the Gains Tracker
+        </p>
+      </div>
+
+      <UserSelector userId={userId} onUserIdChange={setUserId} />
+
+      <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+
+      {error && !loading && (
+        <ErrorAlert error={error} onRetry={refetch} title="Failed to load records" />
+      )}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <HighlightCard
+          title="Longest Streak"
+          icon={Flame}
+          loading={busy && !records}
+          value={longestStreak ? `${longestStreak.days} day${longestStreak.days === 1 ? '' : 's'}` : null}
+          detail={longestStreak ? formatBucketLabel(longestStreak.start, longestStreak.end, longestStreak.days === 1 ? 'day' : 'week') : null}
+          to={longestStreak ? getGainsTrackerLink(userIds, longestStreak) : null}
+        />
+        <HighlightCard
+          title="Longest Idle Gap"
+          icon={Hourglass}
+          loading={busy && !records}
+          value={longestIdleGap ? formatDistanceStrict(longestIdleGap.start, longestIdleGap.end) : null}
+          detail={longestIdleGap
+            ? `${format(longestIdleGap.start, 'MMM d, yyyy')} - ${format(longestIdleGap.end, 'MMM d, yyyy')}`
+            : null}
+          to={longestIdleGap ? getGainsTrackerLink(userIds, longestIdleGap) : null}
+        />
+        <HighlightCard
+          title="Biggest Single Jump"
+          icon={Zap}
+          loading={busy && !records}
+          value={biggestJump ? `${formatNumber(biggestJump.gain)} XP` : null}
+          detail={biggestJump ? format(biggestJump.timestamp, 'MMM d, yyyy HH:mm') : null}
+          to={biggestJump ? getGainsTrackerLink(userIds, biggestJump) : null}
+        />
+      </div>
+
+      {loading && progress && !records && (
+        <Card>
+          <CardContent className="p-2 sm:p-6">
+            <LoadProgressIndicator progress={progress} className="h-64" />
+          </CardContent>
+        </Card>
+      )}
+
+      {records && records.activities.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2 sm:pb-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base sm:text-lg">Best Periods</CardTitle>
+              <div className="flex rounded-md border border-border overflow-hidden" role="group" aria-label="Category">
+                {CATEGORY_FILTERS.map(filter => (
+                  <Button
+                    key={filter.id}
+                    size="sm"
+                    variant={category === filter.id ? 'default' : 'ghost'}
+                    onClick={() => setCategory(filter.id)}
+                    className="h-8 rounded-none px-2 text-xs"
+                    aria-pressed={category === filter.id}
+                  >
+                    {filter.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-6 pt-0 sm:pt-0">
+            {shownActivities.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {category === 'boss' ? 'No kills' : 'No experience'} gained in this range.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-xs text-muted-foreground">
+                      <th className="py-2 px-2 text-left font-medium">Name</th>
+                      {RECORD_PERIODS.map(period => (
+                        <th key={period.id} className="py-2 px-2 text-right font-medium">{period.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shownActivities.map(record => (
+                      <tr key={record.activityType} className="border-b last:border-0">
+                        <td className="py-2 px-2 font-medium">{record.name}</td>
+                        {RECORD_PERIODS.map(period => (
+                          <PeriodCell
+                            key={period.id}
+                            record={record}
+                            period={period.id}
+                            best={record.best[period.id]}
+                            to={getGainsTrackerLink(userIds, record.best[period.id], record.activityType)}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {userId && !busy && records && records.activities.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">No records yet</h3>
+            <p className="text-muted-foreground">
+              Nothing was gained in the selected time period. Try a longer range such as All Time.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
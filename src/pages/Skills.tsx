@@ -3,9 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { SkillProgressChart } from '@/components/charts/SkillProgressChart';
 import { UserSelector } from '@/components/UserSelector';
+import { TimeRangeSelector } from '@/components/TimeRangeSelector';
 import { LoadingChart } from '@/components/ui/LoadingChart';
 import { ErrorAlert } from '@/components/ui/ErrorAlert';
-import { useSnapshots } from '@/hooks/useApi';
+import { useSnapshotInterval } from '@/hooks/useApi';
+import { usePlayerUrlState } from '@/hooks/usePlayerUrlState';
 import { SKILL_ACTIVITY_TYPES, type ActivityType } from '@/types/api';
 import { 
   extractSkillData, 
@@ -14,24 +16,32 @@ import {
   getSkillByType,
   formatNumber 
 } from '@/lib/dataUtils';
+import {
+  getExperienceToNextLevel,
+  getLevelForExperience,
+  getNextExperienceMilestone,
+  getPercentToNextLevel
+} from '@/lib/experience';
 
 export function Skills() {
-  const [userId, setUserId] = useState<string | null>(null);
+  const { userId, setUserId, timeRange, setTimeRange } = usePlayerUrlState();
   const [selectedSkill, setSelectedSkill] = useState<ActivityType>('SLAYER');
   const [metric, setMetric] = useState<'level' | 'experience'>('experience');
   
-  const { data: snapshots, loading, error, refetch } = useSnapshots(userId);
+  const { data: snapshots, loading, error, refetch } = useSnapshotInterval(
+    userId,
+    timeRange.startTime,
+    timeRange.endTime
+  );
 
   const skillData = snapshots ? extractSkillData(snapshots, selectedSkill) : [];
   const latestSnapshot = snapshots ? getLatestSnapshot(snapshots) : null;
   const currentSkill = latestSnapshot ? getSkillByType(latestSnapshot, selectedSkill) : null;
 
-  const calculateXpToNextLevel = (level: number, experience: number): number => {
-    if (level >= 99) return 0;
-    // Simplified XP table calculation - you might want to use the actual OSRS XP table
-    const nextLevelXp = Math.floor(level * level * 75 + level * 25);
-    return Math.max(0, nextLevelXp - experience);
-  };
+  // Levels past 99 are virtual and only count towards the next milestone
+  const virtualLevel = currentSkill ? getLevelForExperience(currentSkill.experience, true) : 0;
+  const xpToNextLevel = currentSkill ? getExperienceToNextLevel(currentSkill.experience, true) : null;
+  const milestone = currentSkill ? getNextExperienceMilestone(currentSkill.experience) : null;
 
   return (
     <div className="space-y-6">
@@ -44,6 +54,8 @@ export function Skills() {
 
       <UserSelector userId={userId} onUserIdChange={setUserId} />
 
+      <TimeRangeSelector selectedRange={timeRange} onRangeChange={setTimeRange} />
+
       {error && !loading && (
         <ErrorAlert error={error} onRetry={refetch} title="Failed to load skill data" />
       )}
@@ -102,7 +114,7 @@ export function Skills() {
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground">
-                  No data available for this skill. Make sure snapshots exist for this user.
+                  No data available for this skill. Try a different time range or make sure snapshots exist for this user.
                 </p>
               </CardContent>
             </Card>
@@ -125,22 +137,35 @@ export function Skills() {
             </CardHeader>
             <CardContent>
               {currentSkill ? (
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-5 gap-4">
                   <div>
                     <p className="text-sm font-medium">Current Level</p>
-                    <p className="text-2xl font-bold">{currentSkill.level}</p>
+                    <p className="text-2xl font-bold">
+                      {currentSkill.level}
+                      {virtualLevel > currentSkill.level && (
+                        <span className="ml-2 text-sm font-normal text-muted-foreground">({virtualLevel} virtual)</span>
+                      )}
+                    </p>
                   </div>
                   <div>
                     <p className="text-sm font-medium">Current XP</p>
                     <p className="text-2xl font-bold">{formatNumber(currentSkill.experience)}</p>
                   </div>
                   <div>
-                    <p className="text-sm font-medium">XP to {currentSkill.level + 1}</p>
+                    <p className="text-sm font-medium">XP to {xpToNextLevel === null ? 'Next Level' : virtualLevel + 1}</p>
+                    <p className="text-2xl font-bold">
+                      {xpToNextLevel === null ? 'Max!' : formatNumber(xpToNextLevel)}
+                    </p>
+                    {xpToNextLevel !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        {getPercentToNextLevel(currentSkill.experience, true).toFixed(1)}% through level {virtualLevel}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium">XP to {milestone?.label ?? '200M'}</p>
                     <p className="text-2xl font-bold">
-                      {currentSkill.level >= 99 
-                        ? 'Max!' 
-                        : formatNumber(calculateXpToNextLevel(currentSkill.level, currentSkill.experience))
-                      }
+                      {milestone ? formatNumber(milestone.remaining) : 'Max!'}
                     </p>
                   </div>
                   <div>
@@ -1,119 +1,8 @@
-export type ActivityType = 
-  | "UNKNOWN"
-  | "OVERALL"
-  | "ATTACK"
-  | "DEFENCE"
-  | "STRENGTH"
-  | "HITPOINTS"
-  | "RANGED"
-  | "PRAYER"
-  | "MAGIC"
-  | "COOKING"
-  | "WOODCUTTING"
-  | "FLETCHING"
-  | "FISHING"
-  | "FIREMAKING"
-  | "CRAFTING"
-  | "SMITHING"
-  | "MINING"
-  | "HERBLORE"
-  | "AGILITY"
-  | "THIEVING"
-  | "SLAYER"
-  | "FARMING"
-  | "RUNECRAFT"
-  | "HUNTER"
-  | "CONSTRUCTION"
-  | "SAILING"
-  | "GRID_POINTS"
-  | "LEAGUE_POINTS"
-  | "DEADMAN_POINTS"
-  | "BOUNTY_HUNTER__HUNTER"
-  | "BOUNTY_HUNTER__ROGUE"
-  | "BOUNTY_HUNTER_LEGACY__HUNTER"
-  | "BOUNTY_HUNTER_LEGACY__ROGUE"
-  | "CLUE_SCROLLS_ALL"
-  | "CLUE_SCROLLS_BEGINNER"
-  | "CLUE_SCROLLS_EASY"
-  | "CLUE_SCROLLS_MEDIUM"
-  | "CLUE_SCROLLS_HARD"
-  | "CLUE_SCROLLS_ELITE"
-  | "CLUE_SCROLLS_MASTER"
-  | "LMS__RANK"
-  | "PVP_ARENA__RANK"
-  | "SOUL_WARS_ZEAL"
-  | "RIFTS_CLOSED"
-  | "COLOSSEUM_GLORY"
-  | "COLLECTIONS_LOGGED"
-  // Boss types
-  | "ABYSSAL_SIRE"
-  | "ALCHEMICAL_HYDRA"
-  | "AMOXLIATL"
-  | "ARAXXOR"
-  | "ARTIO"
-  | "BARROWS_CHESTS"
-  | "BRYOPHYTA"
-  | "CALLISTO"
-  | "CALVARION"
-  | "CERBERUS"
-  | "CHAMBERS_OF_XERIC"
-  | "CHAMBERS_OF_XERIC_CHALLENGE_MODE"
-  | "CHAOS_ELEMENTAL"
-  | "CHAOS_FANATIC"
-  | "COMMANDER_ZILYANA"
-  | "CORPOREAL_BEAST"
-  | "CRAZY_ARCHAEOLOGIST"
-  | "DAGANNOTH_PRIME"
-  | "DAGANNOTH_REX"
-  | "DAGANNOTH_SUPREME"
-  | "DERANGED_ARCHAEOLOGIST"
-  | "DOOM_OF_MOKHAIOTL"
-  | "DUKE_SUCELLUS"
-  | "GENERAL_GRAARDOR"
-  | "GIANT_MOLE"
-  | "GROTESQUE_GUARDIANS"
-  | "HESPORI"
-  | "KALPHITE_QUEEN"
-  | "KING_BLACK_DRAGON"
-  | "KRAKEN"
-  | "KREEARRA"
-  | "KRIL_TSUTSAROTH"
-  | "LUNAR_CHESTS"
-  | "MIMIC"
-  | "NEX"
-  | "NIGHTMARE"
-  | "PHOSANIS_NIGHTMARE"
-  | "OBOR"
-  | "PHANTOM_MUSPAH"
-  | "SARACHNIS"
-  | "SCORPIA"
-  | "SCURRIUS"
-  | "SHELLBANE_GRYPHON"
-  | "SKOTIZO"
-  | "SOL_HEREDIT"
-  | "SPINDEL"
-  | "TEMPOROSS"
-  | "THE_GAUNTLET"
-  | "THE_CORRUPTED_GAUNTLET"
-  | "THE_HUEYCOATL"
-  | "THE_LEVIATHAN"
-  | "THE_ROYAL_TITANS"
-  | "THE_WHISPERER"
-  | "THEATRE_OF_BLOOD"
-  | "THEATRE_OF_BLOOD_HARD_MODE"
-  | "THERMONUCLEAR_SMOKE_DEVIL"
-  | "TOMBS_OF_AMASCUT"
-  | "TOMBS_OF_AMASCUT_EXPERT_MODE"
-  | "TZKALZUK"
-  | "TZTOKJAD"
-  | "VARDORVIS"
-  | "VENENATIS"
-  | "VETION"
-  | "VORKATH"
-  | "WINTERTODT"
-  | "YAMA"
-  | "ZALCANO"
-  | "ZULRAH";
+// Activity types and their categories are derived from the activity registry
+import type { ActivityType } from '@/lib/activityRegistry';
+
+export type { ActivityType };
+export { SKILL_ACTIVITY_TYPES, BOSS_ACTIVITY_TYPES, ACTIVITY_ACTIVITY_TYPES } from '@/lib/activityRegistry';
 
 export interface SkillSnapshot {
   activityType: ActivityType;
@@ -197,147 +86,27 @@ export interface GetAllUsersResponse {
   users: User[];
 }
 
-// Categorized activity types for easier filtering
-export const SKILL_ACTIVITY_TYPES: ActivityType[] = [
-  "OVERALL",
-  "ATTACK",
-  "DEFENCE", 
-  "STRENGTH",
-  "HITPOINTS",
-  "RANGED",
-  "PRAYER",
-  "MAGIC",
-  "COOKING",
-  "WOODCUTTING",
-  "FLETCHING",
-  "FISHING",
-  "FIREMAKING",
-  "CRAFTING",
-  "SMITHING",
-  "MINING",
-  "HERBLORE",
-  "AGILITY",
-  "THIEVING",
-  "SLAYER",
-  "FARMING",
-  "RUNECRAFT",
-  "HUNTER",
-  "CONSTRUCTION",
-  "SAILING"
-];
-
-export const BOSS_ACTIVITY_TYPES: ActivityType[] = [
-  "ABYSSAL_SIRE",
-  "ALCHEMICAL_HYDRA",
-  "AMOXLIATL",
-  "ARAXXOR",
-  "ARTIO",
-  "BARROWS_CHESTS",
-  "BRYOPHYTA",
-  "CALLISTO",
-  "CALVARION",
-  "CERBERUS",
-  "CHAMBERS_OF_XERIC",
-  "CHAMBERS_OF_XERIC_CHALLENGE_MODE",
-  "CHAOS_ELEMENTAL",
-  "CHAOS_FANATIC",
-  "COMMANDER_ZILYANA",
-  "CORPOREAL_BEAST",
-  "CRAZY_ARCHAEOLOGIST",
-  "DAGANNOTH_PRIME",
-  "DAGANNOTH_REX",
-  "DAGANNOTH_SUPREME",
-  "DERANGED_ARCHAEOLOGIST",
-  "DOOM_OF_MOKHAIOTL",
-  "DUKE_SUCELLUS",
-  "GENERAL_GRAARDOR",
-  "GIANT_MOLE",
-  "GROTESQUE_GUARDIANS",
-  "HESPORI",
-  "KALPHITE_QUEEN",
-  "KING_BLACK_DRAGON",
-  "KRAKEN",
-  "KREEARRA",
-  "KRIL_TSUTSAROTH",
-  "LUNAR_CHESTS",
-  "MIMIC",
-  "NEX",
-  "NIGHTMARE",
-  "PHOSANIS_NIGHTMARE",
-  "OBOR",
-  "PHANTOM_MUSPAH",
-  "SARACHNIS",
-  "SCORPIA",
-  "SCURRIUS",
-  "SHELLBANE_GRYPHON",
-  "SKOTIZO",
-  "SOL_HEREDIT",
-  "SPINDEL",
-  "TEMPOROSS",
-  "THE_GAUNTLET",
-  "THE_CORRUPTED_GAUNTLET",
-  "THE_HUEYCOATL",
-  "THE_LEVIATHAN",
-  "THE_ROYAL_TITANS",
-  "THE_WHISPERER",
-  "THEATRE_OF_BLOOD",
-  "THEATRE_OF_BLOOD_HARD_MODE",
-  "THERMONUCLEAR_SMOKE_DEVIL",
-  "TOMBS_OF_AMASCUT",
-  "TOMBS_OF_AMASCUT_EXPERT_MODE",
-  "TZKALZUK",
-  "TZTOKJAD",
-  "VARDORVIS",
-  "VENENATIS",
-  "VETION",
-  "VORKATH",
-  "WINTERTODT",
-  "YAMA",
-  "ZALCANO",
-  "ZULRAH"
-];
-
-export const ACTIVITY_ACTIVITY_TYPES: ActivityType[] = [
-  "GRID_POINTS",
-  "LEAGUE_POINTS",
-  "DEADMAN_POINTS",
-  "BOUNTY_HUNTER__HUNTER",
-  "BOUNTY_HUNTER__ROGUE",
-  "BOUNTY_HUNTER_LEGACY__HUNTER",
-  "BOUNTY_HUNTER_LEGACY__ROGUE",
-  "CLUE_SCROLLS_ALL",
-  "CLUE_SCROLLS_BEGINNER",
-  "CLUE_SCROLLS_EASY",
-  "CLUE_SCROLLS_MEDIUM",
-  "CLUE_SCROLLS_HARD",
-  "CLUE_SCROLLS_ELITE",
-  "CLUE_SCROLLS_MASTER",
-  "LMS__RANK",
-  "PVP_ARENA__RANK",
-  "SOUL_WARS_ZEAL",
-  "RIFTS_CLOSED",
-  "COLOSSEUM_GLORY",
-  "COLLECTIONS_LOGGED"
-];
-
 // Delta types - represent changes between snapshots
 export interface SkillDelta {
   activityType: ActivityType;
   name: string;
   experienceGain: number;
   levelGain: number;
+  rankGain?: number; // Only present when the source includes rank deltas
 }
 
 export interface BossDelta {
   activityType: ActivityType;
   name: string;
   killCountGain: number;
+  rankGain?: number;
 }
 
 export interface ActivityDelta {
   activityType: ActivityType;
   name: string;
   scoreGain: number;
+  rankGain?: number;
 }
 
 export interface HiscoreDelta {
@@ -408,8 +177,19 @@ export interface GetSnapshotWithDeltasRequest {
   endTime: string; // ISO string
 }
 
+export type DecodeWarningKind = 'truncated' | 'unknown-index' | 'trailing-bytes';
+
+// Non-fatal problem found while decoding a binary response
+export interface DecodeWarning {
+  kind: DecodeWarningKind;
+  message: string;
+  offset: number; // Byte offset where the problem was detected
+  section: string; // e.g. "snapshot skills", "delta 12 bosses"
+}
+
 export interface GetSnapshotWithDeltasResponse {
   snapshot: HiscoreSnapshot;
   deltas: HiscoreDelta[];
+  decodeWarnings?: DecodeWarning[]; // Only set by lenient binary decoding
 }
 
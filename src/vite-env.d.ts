@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_PROFILE?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_PRODUCTION_URL?: string;
+  readonly VITE_API_STAGING_URL?: string;
+  readonly VITE_API_LOCAL_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
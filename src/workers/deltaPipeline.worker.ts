@@ -0,0 +1,150 @@
+import type { GetSnapshotWithDeltasResponse } from '@/types/api';
+import { decodeBinaryDeltaResponse } from '@/lib/binaryProtocol';
+import { prepareChartSeries, buildBucketedSeries, aggregateDailyTotals } from '@/lib/chartSeries';
+import { buildEfficiencySeries } from '@/lib/efficiency';
+import { findRecords } from '@/lib/records';
+import {
+  serializePipelineError,
+  type DeltaPipelineRequest,
+  type DeltaPipelineResponse
+} from '@/lib/deltaPipelineProtocol';
+
+// Decodes binary delta payloads and prepares chart data off the main thread.
+// Decoded responses are kept by dataset ID so switching activity or chart
+// type only costs a series rebuild, not another copy of the deltas.
+
+// The app's tsconfig uses the DOM lib, so describe the worker scope we use
+interface WorkerScope {
+  postMessage(message: DeltaPipelineResponse, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<DeltaPipelineRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const MAX_DATASETS = 8;
+
+// Map iteration order doubles as LRU order
+const datasets = new Map<number, GetSnapshotWithDeltasResponse>();
+
+function storeDataset(datasetId: number, response: GetSnapshotWithDeltasResponse) {
+  datasets.delete(datasetId);
+  datasets.set(datasetId, response);
+
+  while (datasets.size > MAX_DATASETS) {
+    const oldest = datasets.keys().next().value;
+    if (oldest === undefined) break;
+    datasets.delete(oldest);
+  }
+}
+
+function resolveDataset(datasetId: number, response?: GetSnapshotWithDeltasResponse): GetSnapshotWithDeltasResponse | null {
+  if (response) {
+    storeDataset(datasetId, response);
+    return response;
+  }
+
+  const stored = datasets.get(datasetId);
+  if (stored) {
+    storeDataset(datasetId, stored);
+  }
+  return stored ?? null;
+}
+
+function handleRequest(request: DeltaPipelineRequest) {
+  switch (request.type) {
+    case 'decode': {
+      const response = decodeBinaryDeltaResponse(request.buffer, request.userId, {
+        lenient: request.lenient,
+        onProgress: (decodedDeltas, totalDeltas) =>
+          scope.postMessage({ type: 'progress', id: request.id, decodedDeltas, totalDeltas })
+      });
+      storeDataset(request.datasetId, response);
+      scope.postMessage({ type: 'decoded', id: request.id, response });
+      return;
+    }
+
+    case 'series': {
+      const response = resolveDataset(request.datasetId, request.response);
+      if (!response) {
+        scope.postMessage({ type: 'missing-dataset', id: request.id });
+        return;
+      }
+
+      const result = prepareChartSeries(response, request.activityType, request.rule);
+      const { series, anomalyTimestamps } = result;
+      scope.postMessage({ type: 'series', id: request.id, result }, [
+        series.timestamps.buffer,
+        series.cumulative.buffer,
+        series.dailyGains.buffer,
+        anomalyTimestamps.buffer
+      ]);
+      return;
+    }
+
+    case 'buckets': {
+      const response = resolveDataset(request.datasetId, request.response);
+      if (!response) {
+        scope.postMessage({ type: 'missing-dataset', id: request.id });
+        return;
+      }
+
+      const result = buildBucketedSeries(response, request.activityType, request.size);
+      scope.postMessage({ type: 'buckets', id: request.id, result }, [
+        result.timestamps.buffer,
+        result.bucketEnds.buffer,
+        result.dailyGains.buffer
+      ]);
+      return;
+    }
+
+    case 'daily-totals': {
+      const response = resolveDataset(request.datasetId, request.response);
+      if (!response) {
+        scope.postMessage({ type: 'missing-dataset', id: request.id });
+        return;
+      }
+
+      const result = aggregateDailyTotals(response.deltas, request.activityType);
+      scope.postMessage({ type: 'daily-totals', id: request.id, result }, [
+        result.gains.buffer,
+        result.weekdayHours.buffer
+      ]);
+      return;
+    }
+
+    case 'efficiency': {
+      const response = resolveDataset(request.datasetId, request.response);
+      if (!response) {
+        scope.postMessage({ type: 'missing-dataset', id: request.id });
+        return;
+      }
+
+      const result = buildEfficiencySeries(response, request.accountType);
+      scope.postMessage({ type: 'efficiency', id: request.id, result }, [
+        result.timestamps.buffer,
+        result.cumulative.buffer,
+        result.dailyGains.buffer
+      ]);
+      return;
+    }
+
+    case 'records': {
+      const response = resolveDataset(request.datasetId, request.response);
+      if (!response) {
+        scope.postMessage({ type: 'missing-dataset', id: request.id });
+        return;
+      }
+
+      scope.postMessage({ type: 'records', id: request.id, result: findRecords(response.deltas) });
+      return;
+    }
+  }
+}
+
+scope.onmessage = event => {
+  try {
+    handleRequest(event.data);
+  } catch (error) {
+    scope.postMessage({ type: 'error', id: event.data.id, error: serializePipelineError(error) });
+  }
+};
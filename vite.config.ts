@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -10,4 +11,11 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // Calendar buckets, streaks and the heatmap work in local time; pin a
+    // zone with DST so tests across the changes behave the same everywhere
+    env: {
+      TZ: 'America/New_York',
+    },
+  },
 })